@@ -3,6 +3,13 @@
  * Domain Availability Checker - Frontend Client
  * TypeScript browser-compatible application that communicates with the Node.js API
  */
+// Registered domains on their way back to the available pool
+const EXPIRING_STATUSES = ['expired', 'redemption', 'pending-delete'];
+// Bulk checks run as jobs on the server; the running job's ID survives a page reload
+const BULK_JOB_STORAGE_KEY = 'bulkCheckJobId';
+const BULK_MAX_DOMAINS = 1000;
+const BULK_TLDS = ['.com', '.net', '.org', '.io', '.ai', '.co'];
+const JOB_POLL_INTERVAL_MS = 1000;
 // Enhanced TLD list with more popular extensions
 const SUPPORTED_TLDS = [
     '.com', '.net', '.org', '.ai', '.dev', '.io', '.co',
@@ -11,7 +18,8 @@ const SUPPORTED_TLDS = [
 ];
 class DomainCheckerClient {
     constructor() {
-        this.apiBaseUrl = 'http://localhost:3001/api';
+        this.activeJobId = null;
+        this.apiBaseUrl = 'http://localhost:3001/api/v1';
         this.currentResults = [];
         this.failedDomains = [];
         this.retryAttempts = new Map();
@@ -20,8 +28,13 @@ class DomainCheckerClient {
         this.analytics = new window.AnalyticsManager();
         this.initializeElements();
         this.setupEventListeners();
+        // A bulk check still running on the server is followed again after a reload
+        const bulkJobId = this.getStoredBulkJobId();
         this.clearAllData(); // Clear any residual data on startup
         this.checkApiHealth();
+        if (bulkJobId) {
+            this.resumeBulkJob(bulkJobId);
+        }
     }
     initializeElements() {
         // Form elements
@@ -169,8 +182,8 @@ class DomainCheckerClient {
             this.showValidationError('Please enter at least one domain name.');
             return;
         }
-        if (domains.length > 20) {
-            this.showValidationError('Maximum 20 domains allowed at once.');
+        if (domains.length > BULK_MAX_DOMAINS) {
+            this.showValidationError(`Maximum ${BULK_MAX_DOMAINS} domains allowed at once.`);
             return;
         }
         // Validate all domains first
@@ -180,48 +193,107 @@ class DomainCheckerClient {
             return;
         }
         try {
-            this.showResults();
-            this.updateProgress(0, domains.length, 'Preparing bulk check...');
-            // Process domains in batches to avoid overwhelming the API
-            const batchSize = 5;
-            const results = [];
-            for (let i = 0; i < domains.length; i += batchSize) {
-                const batch = domains.slice(i, i + batchSize);
-                const batchPromises = batch.map(domain => this.checkSingleDomain(domain));
-                const batchResults = await Promise.allSettled(batchPromises);
-                results.push(...batchResults);
-                // Update progress
-                const completed = Math.min(i + batchSize, domains.length);
-                this.updateProgress(completed, domains.length, `Checked ${completed} of ${domains.length} domains...`);
+            this.showProgress();
+            this.updateProgress(0, domains.length, 'Starting bulk check...');
+            const response = await fetch(`${this.apiBaseUrl}/jobs`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ names: domains, tlds: BULK_TLDS })
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
             }
-            // Process results
-            this.currentResults = [];
-            results.forEach((result, index) => {
-                if (result.status === 'fulfilled' && result.value) {
-                    // Add all results from the API response
-                    this.currentResults.push(...result.value.results);
-                }
-                else {
-                    // Handle failed domain - create error results for all TLDs
-                    const domain = domains[index];
-                    const errorTlds = ['.com', '.net', '.org', '.io', '.ai', '.co'];
-                    errorTlds.forEach(tld => {
-                        this.currentResults.push({
-                            domain: domain + tld,
+            const job = await response.json();
+            await this.followBulkJob(job.id);
+        }
+        catch (error) {
+            console.error('Bulk check error:', error);
+            this.hideProgress();
+            this.showError('Failed to check domains. Please try again.');
+        }
+    }
+    async resumeBulkJob(jobId) {
+        try {
+            this.switchToBulkMode();
+            this.showProgress();
+            this.updateProgress(0, 1, 'Resuming bulk check...');
+            await this.followBulkJob(jobId);
+        }
+        catch (error) {
+            console.error('Bulk check error:', error);
+            this.hideProgress();
+            this.showError('Failed to resume the bulk check. Please start it again.');
+        }
+    }
+    /**
+     * Poll a bulk check job until it finishes, fetching only the results not seen yet
+     */
+    async followBulkJob(jobId) {
+        this.activeJobId = jobId;
+        this.storeBulkJobId(jobId);
+        const results = [];
+        // Stops early when the page is cleared or another job is started
+        while (this.activeJobId === jobId) {
+            const response = await fetch(`${this.apiBaseUrl}/jobs/${encodeURIComponent(jobId)}?offset=${results.length}`);
+            if (response.status === 404) {
+                // Finished too long ago, or the server was restarted
+                this.finishBulkJob();
+                this.showError('The bulk check is no longer available. Please start it again.');
+                return;
+            }
+            if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
+            }
+            const job = await response.json();
+            results.push(...job.results);
+            const done = job.progress.checked + job.progress.failed;
+            this.updateProgress(done, job.progress.total, `Checked ${done} of ${job.progress.total} domains...`);
+            if (job.status === 'completed' || job.status === 'cancelled') {
+                // Names whose check failed are shown as errors under each TLD
+                job.failures.forEach(({ name, error }) => {
+                    job.tlds.forEach(tld => {
+                        results.push({
+                            domain: name + tld,
                             status: 'error',
                             checkMethod: 'API',
                             executionTime: 0,
-                            error: 'Check failed'
+                            error
                         });
                     });
-                }
-            });
-            this.displayResults(this.currentResults);
-            this.updateProgress(domains.length, domains.length, `Completed checking ${domains.length} domains`);
+                });
+                this.finishBulkJob();
+                this.displayResults(results);
+                return;
+            }
+            await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
         }
-        catch (error) {
-            console.error('Bulk check error:', error);
-            this.showError('Failed to check domains. Please try again.');
+    }
+    finishBulkJob() {
+        this.activeJobId = null;
+        this.storeBulkJobId(null);
+        this.hideProgress();
+    }
+    getStoredBulkJobId() {
+        try {
+            return localStorage.getItem(BULK_JOB_STORAGE_KEY);
+        }
+        catch (e) {
+            return null;
+        }
+    }
+    storeBulkJobId(jobId) {
+        try {
+            if (jobId) {
+                localStorage.setItem(BULK_JOB_STORAGE_KEY, jobId);
+            }
+            else {
+                localStorage.removeItem(BULK_JOB_STORAGE_KEY);
+            }
+        }
+        catch (e) {
+            // Ignore storage errors; the job then cannot be resumed after a reload
         }
     }
     getBulkDomains() {
@@ -250,10 +322,10 @@ class DomainCheckerClient {
         const helpElement = document.getElementById('bulk-help');
         if (helpElement) {
             const count = domains.length;
-            const maxCount = 20;
+            const maxCount = BULK_MAX_DOMAINS;
             const remaining = maxCount - count;
             if (count === 0) {
-                helpElement.textContent = 'Enter each domain on a new line. You can check up to 20 domains at once.';
+                helpElement.textContent = `Enter each domain on a new line. You can check up to ${BULK_MAX_DOMAINS} domains at once.`;
                 helpElement.className = 'input-help';
             }
             else if (count <= maxCount) {
@@ -266,22 +338,6 @@ class DomainCheckerClient {
             }
         }
     }
-    async checkSingleDomain(baseDomain) {
-        const response = await fetch(`${this.apiBaseUrl}/check-domain`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                baseDomain: baseDomain,
-                tlds: ['.com', '.net', '.org', '.io', '.ai', '.co']
-            }),
-        });
-        if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        return await response.json();
-    }
     toggleFilters() {
         const filtersPanel = document.getElementById('advanced-filters');
         const showBtn = document.getElementById('show-filters');
@@ -390,7 +446,7 @@ class DomainCheckerClient {
         }
         // Client-side validation first
         if (!this.isValidDomainFormat(domain)) {
-            this.showValidationError('Please enter a valid domain name (letters, numbers, and hyphens only)');
+            this.showValidationError('Please enter a valid domain name (letters in any script, numbers, and hyphens only)');
             return;
         }
         this.hideValidationError();
@@ -419,49 +475,67 @@ class DomainCheckerClient {
             this.showError('Failed to check domain availability. Please check your connection and try again.');
         }
     }
-    async checkDomainAvailability(baseDomain) {
-        try {
-            this.updateProgress(10, 'Preparing domain check...');
-            const request = {
-                baseDomain,
-                tlds: SUPPORTED_TLDS,
-                options: {
-                    concurrent: true,
-                    timeout: 10000,
-                    retries: 2
-                }
+    checkDomainAvailability(baseDomain) {
+        return new Promise(resolve => {
+            this.updateProgress(0, SUPPORTED_TLDS.length, 'Sending request to API...');
+            const params = new URLSearchParams({ baseDomain, tlds: SUPPORTED_TLDS.join(',') });
+            const stream = new EventSource(`${this.apiBaseUrl}/check-domain/stream?${params}`);
+            let finished = false;
+            const finish = () => {
+                finished = true;
+                stream.close();
+                this.hideProgress();
+                resolve();
             };
-            this.updateProgress(20, 'Sending request to API...');
-            const response = await fetch(`${this.apiBaseUrl}/check-domain`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(request)
+            // Each TLD's card is shown as soon as it answers; the summary follows once all have
+            stream.addEventListener('result', event => {
+                const result = JSON.parse(event.data);
+                this.resultsGrid.appendChild(this.createResultCard(result));
             });
-            if (!response.ok) {
-                throw new Error(`API request failed: ${response.status}`);
-            }
-            this.updateProgress(50, 'Processing results...');
-            const result = await response.json();
-            this.updateProgress(100, 'Complete!');
-            setTimeout(() => {
-                this.hideProgress();
-                this.displayResults(result);
+            stream.addEventListener('progress', event => {
+                const progress = JSON.parse(event.data);
+                this.updateProgress(progress.completed, progress.total, `Checked ${progress.completed} of ${progress.total} domains...`);
+            });
+            stream.addEventListener('complete', event => {
+                const complete = JSON.parse(event.data);
+                finish();
+                const results = complete.results;
+                this.displayResults({
+                    baseDomain: complete.baseDomain,
+                    results,
+                    executionTime: complete.totalExecutionTime,
+                    summary: {
+                        total: results.length,
+                        available: results.filter(r => r.status === 'available').length,
+                        taken: results.filter(r => r.status === 'taken').length,
+                        errors: results.filter(r => r.status === 'error').length
+                    }
+                });
                 // Track analytics
                 if (this.analytics) {
-                    this.analytics.trackSearch(baseDomain, result.executionTime || 0, result.results || []);
+                    this.analytics.trackSearch(baseDomain, complete.totalExecutionTime, results);
                 }
-            }, 500);
-        }
-        catch (error) {
-            console.error('API request failed:', error);
-            this.hideProgress();
-            this.showError('Failed to check domain availability. Please try again.');
-        }
+            });
+            stream.addEventListener('failed', event => {
+                const failure = JSON.parse(event.data);
+                finish();
+                this.showError(failure.message || 'Failed to check domain availability. Please try again.');
+            });
+            // The server closes the stream after "complete" or "failed", so an error before either
+            // means the check was cut short; close instead of letting EventSource start it again
+            stream.onerror = () => {
+                if (finished) {
+                    return;
+                }
+                console.error('Domain check stream failed');
+                finish();
+                this.showError('Failed to check domain availability. Please try again.');
+            };
+        });
     }
     isValidDomainFormat(domain) {
-        const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/;
+        // Letters of any script are accepted; the API converts internationalized names to punycode
+        const domainRegex = /^[\p{L}\p{M}\p{Nd}]([\p{L}\p{M}\p{Nd}-]{0,61}[\p{L}\p{M}\p{Nd}])?$/u;
         return domainRegex.test(domain) && domain.length <= 63;
     }
     validateDomainName(domain) {
@@ -511,6 +585,7 @@ class DomainCheckerClient {
             const available = this.currentResults.filter(r => r.status === 'available').length;
             const taken = this.currentResults.filter(r => r.status === 'taken').length;
             const errors = this.currentResults.filter(r => r.status === 'error').length;
+            const expiring = this.currentResults.filter(r => EXPIRING_STATUSES.includes(r.status)).length;
             const summary = document.createElement('div');
             summary.className = 'results-summary';
             summary.innerHTML = `
@@ -518,6 +593,7 @@ class DomainCheckerClient {
         <div class="summary-stats">
           <span class="stat available">✅ ${available} Available</span>
           <span class="stat taken">❌ ${taken} Taken</span>
+          ${expiring > 0 ? `<span class="stat expiring">⏳ ${expiring} Expiring</span>` : ''}
           ${errors > 0 ? `<span class="stat error">⚠️ ${errors} Errors</span>` : ''}
         </div>
       `;
@@ -559,11 +635,13 @@ class DomainCheckerClient {
         const available = this.currentResults.filter(r => r.status === 'available').length;
         const taken = this.currentResults.filter(r => r.status === 'taken').length;
         const errors = this.currentResults.filter(r => r.status === 'error').length;
+        const expiring = this.currentResults.filter(r => EXPIRING_STATUSES.includes(r.status)).length;
         summary.innerHTML = `
       <h3>Summary for "${response.baseDomain || 'domain'}"</h3>
       <div class="summary-stats">
         <span class="stat available">✅ ${available} Available</span>
         <span class="stat taken">❌ ${taken} Taken</span>
+        ${expiring > 0 ? `<span class="stat expiring">⏳ ${expiring} Expiring</span>` : ''}
         ${errors > 0 ? `<span class="stat error">⚠️ ${errors} Errors</span>` : ''}
       </div>
       <div class="summary-time">
@@ -576,11 +654,18 @@ class DomainCheckerClient {
         const resultCard = document.createElement('div');
         resultCard.className = `result-card ${result.status}`;
         const statusIcon = this.getStatusIcon(result.status);
-        const statusText = this.getStatusText(result.status);
+        // "Likely available (DNS only)" vs "Confirmed available (registry)" when the API provides it
+        const statusText = result.verdict || this.getStatusText(result.status);
         const statusClass = result.status;
+        const evidenceTitle = (result.evidence || [])
+            .map(item => `${item.source}: ${item.detail}`)
+            .join('\n')
+            .replace(/"/g, '&quot;');
+        const requirementsTitle = (result.eligibility?.requirements || []).join('\n').replace(/"/g, '&quot;');
+        const isRegistrable = result.status === 'available' || result.status === 'premium';
         // Build pricing information HTML
         let pricingHtml = '';
-        if (result.status === 'available' && result.pricing) {
+        if (isRegistrable && result.pricing) {
             const pricing = result.pricing;
             pricingHtml = `
         <div class="pricing-info">
@@ -596,29 +681,38 @@ class DomainCheckerClient {
             <span class="registrar-label">Best Price:</span>
             <a href="${pricing.registrarUrl}" target="_blank" class="registrar-link">${pricing.registrar}</a>
           </div>
-          ${pricing.isPremium ? '<div class="premium-badge">Premium TLD</div>' : ''}
+          ${pricing.isPremium ? `<div class="premium-badge">${pricing.tier ? `Premium name (${pricing.tier})` : 'Premium TLD'}</div>` : ''}
           ${pricing.notes ? `<div class="pricing-notes">${pricing.notes}</div>` : ''}
         </div>
       `;
         }
-        // Copy button for available domains
-        const copyButton = result.status === 'available' ?
+        // Copy button for registrable domains
+        const copyButton = isRegistrable ?
             `<button class="copy-button" onclick="window.domainChecker.copyToClipboard('${result.domain}')" title="Copy domain name">
         📋 Copy
       </button>` : '';
         resultCard.innerHTML = `
       <div class="domain-name">
-        ${result.domain}
+        <span>
+          ${result.unicodeDomain || result.domain}
+          ${result.unicodeDomain ? `<span class="ascii-domain" title="ASCII form (A-label) used for lookups">${result.domain}</span>` : ''}
+        </span>
         ${copyButton}
       </div>
-      <div class="status ${statusClass}">
+      <div class="status ${statusClass}" title="${evidenceTitle}">
         <span class="status-icon">${statusIcon}</span>
         <span class="status-text">${statusText}</span>
       </div>
       <div class="details">
         <span class="method">${result.checkMethod || 'API'}</span>
         <span class="time">${result.executionTime || 0}ms</span>
+        ${result.confidence !== undefined ? `<span class="confidence ${result.verdictBasis || ''}">${Math.round(result.confidence * 100)}% confidence</span>` : ''}
+        ${result.parked ? `<span class="parked" title="Matched ${result.parked.matchedBy} ${result.parked.value}">Parked (${result.parked.provider})</span>` : ''}
+        ${result.wildcard?.matched ? `<span class="wildcard" title="${result.wildcard.zone} answers every name with ${result.wildcard.addresses.join(', ')}">Wildcard DNS</span>` : ''}
+        ${result.nameTier ? `<span class="name-tier" title="${result.nameTier.reason.replace(/"/g, '&quot;')}">${result.nameTier.kind === 'reserved' ? 'Reserved name' : `Premium (${result.nameTier.tier})`}</span>` : ''}
+        ${result.eligibility?.restricted ? `<span class="restricted" title="${requirementsTitle}">Restricted</span>` : ''}
       </div>
+      ${isRegistrable && result.eligibility?.requirements.length ? `<div class="requirements">${result.eligibility.requirements.join('<br>')}</div>` : ''}
       ${pricingHtml}
       ${result.error ? `<div class="error-details">${result.error}</div>` : ''}
     `;
@@ -628,6 +722,12 @@ class DomainCheckerClient {
         switch (status) {
             case 'available': return '✅';
             case 'taken': return '❌';
+            case 'expired': return '⏳';
+            case 'redemption': return '♻️';
+            case 'pending-delete': return '🗑️';
+            case 'reserved': return '🔒';
+            case 'premium': return '💎';
+            case 'blocked': return '🚫';
             case 'error': return '⚠️';
             case 'checking': return '🔄';
             default: return '❓';
@@ -637,6 +737,12 @@ class DomainCheckerClient {
         switch (status) {
             case 'available': return 'Available';
             case 'taken': return 'Taken';
+            case 'expired': return 'Expired (Grace Period)';
+            case 'redemption': return 'Redemption Period';
+            case 'pending-delete': return 'Pending Delete';
+            case 'reserved': return 'Reserved';
+            case 'premium': return 'Premium';
+            case 'blocked': return 'Blocked';
             case 'error': return 'Error';
             case 'checking': return 'Checking';
             default: return 'Unknown';
@@ -691,9 +797,17 @@ class DomainCheckerClient {
             summary: response.summary,
             results: this.currentResults.map(result => ({
                 domain: result.domain,
+                unicodeDomain: result.unicodeDomain,
                 status: result.status,
                 checkMethod: result.checkMethod,
                 executionTime: result.executionTime,
+                confidence: result.confidence,
+                verdict: result.verdict,
+                evidence: result.evidence,
+                parked: result.parked,
+                wildcard: result.wildcard,
+                nameTier: result.nameTier,
+                eligibility: result.eligibility,
                 pricing: result.pricing,
                 error: result.error
             }))
@@ -762,6 +876,8 @@ class DomainCheckerClient {
         if (this.singleModeBtn && this.bulkModeBtn) {
             this.switchToSingleMode();
         }
+        // Stop following a bulk check job; it keeps running on the server
+        this.activeJobId = null;
         // Clear any browser storage (if any exists)
         try {
             localStorage.clear();
@@ -854,6 +970,13 @@ style.textContent = `
     align-items: center;
     justify-content: space-between;
   }
+
+  .ascii-domain {
+    display: block;
+    font-size: 0.75rem;
+    font-weight: normal;
+    color: #6c757d;
+  }
 `;
 document.head.appendChild(style);
 // Initialize the application when DOM is ready
@@ -6,16 +6,56 @@
 // Type definitions
 interface DomainResult {
   domain: string;
-  status: 'available' | 'taken' | 'error' | 'checking';
+  unicodeDomain?: string;
+  status: 'available' | 'taken' | 'expired' | 'redemption' | 'pending-delete'
+    | 'reserved' | 'premium' | 'blocked' | 'error' | 'checking';
   checkMethod: string;
   executionTime: number;
   error?: string;
+  confidence?: number;
+  verdictBasis?: 'registry' | 'zone' | 'dns';
+  verdict?: string;
+  evidence?: Array<{
+    source: string;
+    status: string;
+    confidence: number;
+    detail: string;
+    snippet?: string;
+    server?: string;
+    rcode?: string;
+    authenticated?: boolean;
+    executionTime?: number;
+  }>;
+  parked?: {
+    provider: string;
+    matchedBy: 'nameserver' | 'address';
+    value: string;
+  };
+  wildcard?: {
+    zone: string;
+    addresses: string[];
+    matched: boolean;
+  };
+  nameTier?: {
+    kind: 'reserved' | 'premium';
+    tier?: string;
+    source: 'registry' | 'heuristic';
+    reason: string;
+  };
+  eligibility?: {
+    tld: string;
+    eligible: boolean;
+    violations: string[];
+    restricted: boolean;
+    requirements: string[];
+  };
   pricing?: {
     firstYearPrice: string;
     renewalPrice: string;
     registrar: string;
     registrarUrl: string;
     isPremium: boolean;
+    tier?: string;
     notes?: string;
   };
 }
@@ -32,6 +72,41 @@ interface QueryResponse {
   };
 }
 
+// Events of GET /api/check-domain/stream besides each "result"
+interface StreamProgressEvent {
+  completed: number;
+  total: number;
+}
+
+interface StreamCompleteEvent {
+  baseDomain: string;
+  results: DomainResult[];
+  totalExecutionTime: number;
+}
+
+interface StreamFailedEvent {
+  message: string;
+  errors: string[];
+}
+
+// State of a bulk check job (GET /api/jobs/:id)
+interface BulkCheckJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'cancelled';
+  tlds: string[];
+  progress: {
+    total: number;
+    checked: number;
+    failed: number;
+    cancelled: number;
+    pending: number;
+  };
+  results: DomainResult[];
+  resultOffset: number;
+  totalResults: number;
+  failures: Array<{ name: string; error: string }>;
+}
+
 interface ApiHealthResponse {
   status: 'healthy' | 'error';
   uptime: number;
@@ -41,8 +116,19 @@ interface ApiHealthResponse {
 interface ValidationResponse {
   isValid: boolean;
   message?: string;
+  asciiDomain?: string;
+  unicodeDomain?: string;
 }
 
+// Registered domains on their way back to the available pool
+const EXPIRING_STATUSES = ['expired', 'redemption', 'pending-delete'];
+
+// Bulk checks run as jobs on the server; the running job's ID survives a page reload
+const BULK_JOB_STORAGE_KEY = 'bulkCheckJobId';
+const BULK_MAX_DOMAINS = 1000;
+const BULK_TLDS = ['.com', '.net', '.org', '.io', '.ai', '.co'];
+const JOB_POLL_INTERVAL_MS = 1000;
+
 // Enhanced TLD list with more popular extensions
 const SUPPORTED_TLDS = [
   '.com', '.net', '.org', '.ai', '.dev', '.io', '.co',
@@ -56,6 +142,7 @@ class DomainCheckerClient {
   private failedDomains: string[];
   private retryAttempts: Map<string, number>;
   private maxRetryAttempts: number;
+  private activeJobId: string | null = null;
   private analytics: any; // AnalyticsManager instance
   
   // DOM elements
@@ -80,7 +167,7 @@ class DomainCheckerClient {
   private apiStatus!: HTMLDivElement;
 
   constructor() {
-    this.apiBaseUrl = 'http://localhost:3001/api';
+    this.apiBaseUrl = 'http://localhost:3001/api/v1';
     this.currentResults = [];
     this.failedDomains = [];
     this.retryAttempts = new Map();
@@ -91,8 +178,13 @@ class DomainCheckerClient {
     
     this.initializeElements();
     this.setupEventListeners();
+    // A bulk check still running on the server is followed again after a reload
+    const bulkJobId = this.getStoredBulkJobId();
     this.clearAllData(); // Clear any residual data on startup
     this.checkApiHealth();
+    if (bulkJobId) {
+      this.resumeBulkJob(bulkJobId);
+    }
   }
 
   private initializeElements(): void {
@@ -274,8 +366,8 @@ class DomainCheckerClient {
       return;
     }
 
-    if (domains.length > 20) {
-      this.showValidationError('Maximum 20 domains allowed at once.');
+    if (domains.length > BULK_MAX_DOMAINS) {
+      this.showValidationError(`Maximum ${BULK_MAX_DOMAINS} domains allowed at once.`);
       return;
     }
 
@@ -287,53 +379,117 @@ class DomainCheckerClient {
     }
 
     try {
-      this.showResults();
-      this.updateProgress(0, domains.length, 'Preparing bulk check...');
-
-      // Process domains in batches to avoid overwhelming the API
-      const batchSize = 5;
-      const results: any[] = [];
-
-      for (let i = 0; i < domains.length; i += batchSize) {
-        const batch = domains.slice(i, i + batchSize);
-        const batchPromises = batch.map(domain => this.checkSingleDomain(domain));
-        
-        const batchResults = await Promise.allSettled(batchPromises);
-        results.push(...batchResults);
-
-        // Update progress
-        const completed = Math.min(i + batchSize, domains.length);
-        this.updateProgress(completed, domains.length, `Checked ${completed} of ${domains.length} domains...`);
+      this.showProgress();
+      this.updateProgress(0, domains.length, 'Starting bulk check...');
+
+      const response = await fetch(`${this.apiBaseUrl}/jobs`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ names: domains, tlds: BULK_TLDS })
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const job: BulkCheckJob = await response.json();
+      await this.followBulkJob(job.id);
+
+    } catch (error) {
+      console.error('Bulk check error:', error);
+      this.hideProgress();
+      this.showError('Failed to check domains. Please try again.');
+    }
+  }
+
+  private async resumeBulkJob(jobId: string): Promise<void> {
+    try {
+      this.switchToBulkMode();
+      this.showProgress();
+      this.updateProgress(0, 1, 'Resuming bulk check...');
+      await this.followBulkJob(jobId);
+    } catch (error) {
+      console.error('Bulk check error:', error);
+      this.hideProgress();
+      this.showError('Failed to resume the bulk check. Please start it again.');
+    }
+  }
+
+  /**
+   * Poll a bulk check job until it finishes, fetching only the results not seen yet
+   */
+  private async followBulkJob(jobId: string): Promise<void> {
+    this.activeJobId = jobId;
+    this.storeBulkJobId(jobId);
+    const results: DomainResult[] = [];
+
+    // Stops early when the page is cleared or another job is started
+    while (this.activeJobId === jobId) {
+      const response = await fetch(`${this.apiBaseUrl}/jobs/${encodeURIComponent(jobId)}?offset=${results.length}`);
+      if (response.status === 404) {
+        // Finished too long ago, or the server was restarted
+        this.finishBulkJob();
+        this.showError('The bulk check is no longer available. Please start it again.');
+        return;
       }
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const job: BulkCheckJob = await response.json();
+      results.push(...job.results);
+
+      const done = job.progress.checked + job.progress.failed;
+      this.updateProgress(done, job.progress.total, `Checked ${done} of ${job.progress.total} domains...`);
 
-      // Process results
-      this.currentResults = [];
-      results.forEach((result, index) => {
-        if (result.status === 'fulfilled' && result.value) {
-          // Add all results from the API response
-          this.currentResults.push(...result.value.results);
-        } else {
-          // Handle failed domain - create error results for all TLDs
-          const domain = domains[index];
-          const errorTlds = ['.com', '.net', '.org', '.io', '.ai', '.co'];
-          errorTlds.forEach(tld => {
-            this.currentResults.push({
-              domain: domain + tld,
+      if (job.status === 'completed' || job.status === 'cancelled') {
+        // Names whose check failed are shown as errors under each TLD
+        job.failures.forEach(({ name, error }) => {
+          job.tlds.forEach(tld => {
+            results.push({
+              domain: name + tld,
               status: 'error' as const,
               checkMethod: 'API',
               executionTime: 0,
-              error: 'Check failed'
+              error
             });
           });
-        }
-      });
+        });
 
-      this.displayResults(this.currentResults);
-      this.updateProgress(domains.length, domains.length, `Completed checking ${domains.length} domains`);
+        this.finishBulkJob();
+        this.displayResults(results);
+        return;
+      }
 
-    } catch (error) {
-      console.error('Bulk check error:', error);
-      this.showError('Failed to check domains. Please try again.');
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+  }
+
+  private finishBulkJob(): void {
+    this.activeJobId = null;
+    this.storeBulkJobId(null);
+    this.hideProgress();
+  }
+
+  private getStoredBulkJobId(): string | null {
+    try {
+      return localStorage.getItem(BULK_JOB_STORAGE_KEY);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private storeBulkJobId(jobId: string | null): void {
+    try {
+      if (jobId) {
+        localStorage.setItem(BULK_JOB_STORAGE_KEY, jobId);
+      } else {
+        localStorage.removeItem(BULK_JOB_STORAGE_KEY);
+      }
+    } catch (e) {
+      // Ignore storage errors; the job then cannot be resumed after a reload
     }
   }
 
@@ -366,11 +522,11 @@ class DomainCheckerClient {
     const helpElement = document.getElementById('bulk-help');
     if (helpElement) {
       const count = domains.length;
-      const maxCount = 20;
+      const maxCount = BULK_MAX_DOMAINS;
       const remaining = maxCount - count;
       
       if (count === 0) {
-        helpElement.textContent = 'Enter each domain on a new line. You can check up to 20 domains at once.';
+        helpElement.textContent = `Enter each domain on a new line. You can check up to ${BULK_MAX_DOMAINS} domains at once.`;
         helpElement.className = 'input-help';
       } else if (count <= maxCount) {
         helpElement.textContent = `${count} domain${count !== 1 ? 's' : ''} ready to check. ${remaining} remaining.`;
@@ -382,25 +538,6 @@ class DomainCheckerClient {
     }
   }
 
-  private async checkSingleDomain(baseDomain: string): Promise<any> {
-    const response = await fetch(`${this.apiBaseUrl}/check-domain`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        baseDomain: baseDomain,
-        tlds: ['.com', '.net', '.org', '.io', '.ai', '.co']
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    return await response.json();
-  }
-
   private toggleFilters(): void {
     const filtersPanel = document.getElementById('advanced-filters');
     const showBtn = document.getElementById('show-filters') as HTMLButtonElement;
@@ -525,7 +662,7 @@ class DomainCheckerClient {
 
     // Client-side validation first
     if (!this.isValidDomainFormat(domain)) {
-      this.showValidationError('Please enter a valid domain name (letters, numbers, and hyphens only)');
+      this.showValidationError('Please enter a valid domain name (letters in any script, numbers, and hyphens only)');
       return;
     }
 
@@ -560,59 +697,76 @@ class DomainCheckerClient {
     }
   }
 
-  private async checkDomainAvailability(baseDomain: string): Promise<void> {
-    try {
-      this.updateProgress(10, 'Preparing domain check...');
-
-      const request = {
-        baseDomain,
-        tlds: SUPPORTED_TLDS,
-        options: {
-          concurrent: true,
-          timeout: 10000,
-          retries: 2
-        }
-      };
+  private checkDomainAvailability(baseDomain: string): Promise<void> {
+    return new Promise(resolve => {
+      this.updateProgress(0, SUPPORTED_TLDS.length, 'Sending request to API...');
 
-      this.updateProgress(20, 'Sending request to API...');
+      const params = new URLSearchParams({ baseDomain, tlds: SUPPORTED_TLDS.join(',') });
+      const stream = new EventSource(`${this.apiBaseUrl}/check-domain/stream?${params}`);
+      let finished = false;
+      const finish = () => {
+        finished = true;
+        stream.close();
+        this.hideProgress();
+        resolve();
+      };
 
-      const response = await fetch(`${this.apiBaseUrl}/check-domain`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(request)
+      // Each TLD's card is shown as soon as it answers; the summary follows once all have
+      stream.addEventListener('result', event => {
+        const result: DomainResult = JSON.parse((event as MessageEvent).data);
+        this.resultsGrid.appendChild(this.createResultCard(result));
       });
 
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.status}`);
-      }
+      stream.addEventListener('progress', event => {
+        const progress: StreamProgressEvent = JSON.parse((event as MessageEvent).data);
+        this.updateProgress(progress.completed, progress.total, `Checked ${progress.completed} of ${progress.total} domains...`);
+      });
 
-      this.updateProgress(50, 'Processing results...');
+      stream.addEventListener('complete', event => {
+        const complete: StreamCompleteEvent = JSON.parse((event as MessageEvent).data);
+        finish();
+
+        const results = complete.results;
+        this.displayResults({
+          baseDomain: complete.baseDomain,
+          results,
+          executionTime: complete.totalExecutionTime,
+          summary: {
+            total: results.length,
+            available: results.filter(r => r.status === 'available').length,
+            taken: results.filter(r => r.status === 'taken').length,
+            errors: results.filter(r => r.status === 'error').length
+          }
+        });
 
-      const result: QueryResponse = await response.json();
-      
-      this.updateProgress(100, 'Complete!');
-      
-      setTimeout(() => {
-        this.hideProgress();
-        this.displayResults(result);
-        
         // Track analytics
         if (this.analytics) {
-          this.analytics.trackSearch(baseDomain, result.executionTime || 0, result.results || []);
+          this.analytics.trackSearch(baseDomain, complete.totalExecutionTime, results);
         }
-      }, 500);
+      });
 
-    } catch (error) {
-      console.error('API request failed:', error);
-      this.hideProgress();
-      this.showError('Failed to check domain availability. Please try again.');
-    }
+      stream.addEventListener('failed', event => {
+        const failure: StreamFailedEvent = JSON.parse((event as MessageEvent).data);
+        finish();
+        this.showError(failure.message || 'Failed to check domain availability. Please try again.');
+      });
+
+      // The server closes the stream after "complete" or "failed", so an error before either
+      // means the check was cut short; close instead of letting EventSource start it again
+      stream.onerror = () => {
+        if (finished) {
+          return;
+        }
+        console.error('Domain check stream failed');
+        finish();
+        this.showError('Failed to check domain availability. Please try again.');
+      };
+    });
   }
 
   private isValidDomainFormat(domain: string): boolean {
-    const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/;
+    // Letters of any script are accepted; the API converts internationalized names to punycode
+    const domainRegex = /^[\p{L}\p{M}\p{Nd}]([\p{L}\p{M}\p{Nd}-]{0,61}[\p{L}\p{M}\p{Nd}])?$/u;
     return domainRegex.test(domain) && domain.length <= 63;
   }
 
@@ -669,6 +823,7 @@ class DomainCheckerClient {
       const available = this.currentResults.filter(r => r.status === 'available').length;
       const taken = this.currentResults.filter(r => r.status === 'taken').length;
       const errors = this.currentResults.filter(r => r.status === 'error').length;
+      const expiring = this.currentResults.filter(r => EXPIRING_STATUSES.includes(r.status)).length;
       
       const summary = document.createElement('div');
       summary.className = 'results-summary';
@@ -677,6 +832,7 @@ class DomainCheckerClient {
         <div class="summary-stats">
           <span class="stat available">✅ ${available} Available</span>
           <span class="stat taken">❌ ${taken} Taken</span>
+          ${expiring > 0 ? `<span class="stat expiring">⏳ ${expiring} Expiring</span>` : ''}
           ${errors > 0 ? `<span class="stat error">⚠️ ${errors} Errors</span>` : ''}
         </div>
       `;
@@ -726,12 +882,14 @@ class DomainCheckerClient {
     const available = this.currentResults.filter(r => r.status === 'available').length;
     const taken = this.currentResults.filter(r => r.status === 'taken').length;
     const errors = this.currentResults.filter(r => r.status === 'error').length;
+    const expiring = this.currentResults.filter(r => EXPIRING_STATUSES.includes(r.status)).length;
     
     summary.innerHTML = `
       <h3>Summary for "${response.baseDomain || 'domain'}"</h3>
       <div class="summary-stats">
         <span class="stat available">✅ ${available} Available</span>
         <span class="stat taken">❌ ${taken} Taken</span>
+        ${expiring > 0 ? `<span class="stat expiring">⏳ ${expiring} Expiring</span>` : ''}
         ${errors > 0 ? `<span class="stat error">⚠️ ${errors} Errors</span>` : ''}
       </div>
       <div class="summary-time">
@@ -747,12 +905,20 @@ class DomainCheckerClient {
     resultCard.className = `result-card ${result.status}`;
     
     const statusIcon = this.getStatusIcon(result.status);
-    const statusText = this.getStatusText(result.status);
+    // "Likely available (DNS only)" vs "Confirmed available (registry)" when the API provides it
+    const statusText = result.verdict || this.getStatusText(result.status);
     const statusClass = result.status;
+    const evidenceTitle = (result.evidence || [])
+      .map(item => `${item.source}: ${item.detail}`)
+      .join('\n')
+      .replace(/"/g, '&quot;');
+    const requirementsTitle = (result.eligibility?.requirements || []).join('\n').replace(/"/g, '&quot;');
+    
+    const isRegistrable = result.status === 'available' || result.status === 'premium';
     
     // Build pricing information HTML
     let pricingHtml = '';
-    if (result.status === 'available' && result.pricing) {
+    if (isRegistrable && result.pricing) {
       const pricing = result.pricing;
       pricingHtml = `
         <div class="pricing-info">
@@ -768,31 +934,40 @@ class DomainCheckerClient {
             <span class="registrar-label">Best Price:</span>
             <a href="${pricing.registrarUrl}" target="_blank" class="registrar-link">${pricing.registrar}</a>
           </div>
-          ${pricing.isPremium ? '<div class="premium-badge">Premium TLD</div>' : ''}
+          ${pricing.isPremium ? `<div class="premium-badge">${pricing.tier ? `Premium name (${pricing.tier})` : 'Premium TLD'}</div>` : ''}
           ${pricing.notes ? `<div class="pricing-notes">${pricing.notes}</div>` : ''}
         </div>
       `;
     }
 
-    // Copy button for available domains
-    const copyButton = result.status === 'available' ? 
+    // Copy button for registrable domains
+    const copyButton = isRegistrable ? 
       `<button class="copy-button" onclick="window.domainChecker.copyToClipboard('${result.domain}')" title="Copy domain name">
         📋 Copy
       </button>` : '';
     
     resultCard.innerHTML = `
       <div class="domain-name">
-        ${result.domain}
+        <span>
+          ${result.unicodeDomain || result.domain}
+          ${result.unicodeDomain ? `<span class="ascii-domain" title="ASCII form (A-label) used for lookups">${result.domain}</span>` : ''}
+        </span>
         ${copyButton}
       </div>
-      <div class="status ${statusClass}">
+      <div class="status ${statusClass}" title="${evidenceTitle}">
         <span class="status-icon">${statusIcon}</span>
         <span class="status-text">${statusText}</span>
       </div>
       <div class="details">
         <span class="method">${result.checkMethod || 'API'}</span>
         <span class="time">${result.executionTime || 0}ms</span>
+        ${result.confidence !== undefined ? `<span class="confidence ${result.verdictBasis || ''}">${Math.round(result.confidence * 100)}% confidence</span>` : ''}
+        ${result.parked ? `<span class="parked" title="Matched ${result.parked.matchedBy} ${result.parked.value}">Parked (${result.parked.provider})</span>` : ''}
+        ${result.wildcard?.matched ? `<span class="wildcard" title="${result.wildcard.zone} answers every name with ${result.wildcard.addresses.join(', ')}">Wildcard DNS</span>` : ''}
+        ${result.nameTier ? `<span class="name-tier" title="${result.nameTier.reason.replace(/"/g, '&quot;')}">${result.nameTier.kind === 'reserved' ? 'Reserved name' : `Premium (${result.nameTier.tier})`}</span>` : ''}
+        ${result.eligibility?.restricted ? `<span class="restricted" title="${requirementsTitle}">Restricted</span>` : ''}
       </div>
+      ${isRegistrable && result.eligibility?.requirements.length ? `<div class="requirements">${result.eligibility.requirements.join('<br>')}</div>` : ''}
       ${pricingHtml}
       ${result.error ? `<div class="error-details">${result.error}</div>` : ''}
     `;
@@ -804,6 +979,12 @@ class DomainCheckerClient {
     switch (status) {
       case 'available': return '✅';
       case 'taken': return '❌';
+      case 'expired': return '⏳';
+      case 'redemption': return '♻️';
+      case 'pending-delete': return '🗑️';
+      case 'reserved': return '🔒';
+      case 'premium': return '💎';
+      case 'blocked': return '🚫';
       case 'error': return '⚠️';
       case 'checking': return '🔄';
       default: return '❓';
@@ -814,6 +995,12 @@ class DomainCheckerClient {
     switch (status) {
       case 'available': return 'Available';
       case 'taken': return 'Taken';
+      case 'expired': return 'Expired (Grace Period)';
+      case 'redemption': return 'Redemption Period';
+      case 'pending-delete': return 'Pending Delete';
+      case 'reserved': return 'Reserved';
+      case 'premium': return 'Premium';
+      case 'blocked': return 'Blocked';
       case 'error': return 'Error';
       case 'checking': return 'Checking';
       default: return 'Unknown';
@@ -873,9 +1060,17 @@ class DomainCheckerClient {
       summary: response.summary,
       results: this.currentResults.map(result => ({
         domain: result.domain,
+        unicodeDomain: result.unicodeDomain,
         status: result.status,
         checkMethod: result.checkMethod,
         executionTime: result.executionTime,
+        confidence: result.confidence,
+        verdict: result.verdict,
+        evidence: result.evidence,
+        parked: result.parked,
+        wildcard: result.wildcard,
+        nameTier: result.nameTier,
+        eligibility: result.eligibility,
         pricing: result.pricing,
         error: result.error
       }))
@@ -956,6 +1151,9 @@ class DomainCheckerClient {
       this.switchToSingleMode();
     }
     
+    // Stop following a bulk check job; it keeps running on the server
+    this.activeJobId = null;
+
     // Clear any browser storage (if any exists)
     try {
       localStorage.clear();
@@ -1053,6 +1251,13 @@ style.textContent = `
     align-items: center;
     justify-content: space-between;
   }
+
+  .ascii-domain {
+    display: block;
+    font-size: 0.75rem;
+    font-weight: normal;
+    color: #6c757d;
+  }
 `;
 document.head.appendChild(style);
 
@@ -0,0 +1,146 @@
+import { createHash, randomBytes } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Limits of one API key; 0 means unlimited
+ */
+export interface IApiKeyQuotas {
+  requestsPerMinute: number;
+  requestsPerDay: number;
+  /** Domains checked (one per name and TLD) */
+  checksPerMinute: number;
+  checksPerDay: number;
+}
+
+/**
+ * Stored API key; the key itself is only kept as its SHA-256 hash
+ */
+export interface IApiKey {
+  id: string;
+  /** Who or what the key was issued to */
+  name: string;
+  /** SHA-256 of the key, hex */
+  hash: string;
+  createdAt: string;
+  revokedAt: string | null;
+  quotas: IApiKeyQuotas;
+}
+
+interface IApiKeyFile {
+  version: number;
+  keys: IApiKey[];
+}
+
+/**
+ * API Key Store - issues API keys and recognizes them by hash, backed by a JSON file
+ * Keys are shown once when created; the file holds only their hashes, so reading it does not
+ * reveal a usable key. Changes are written to a temporary file and moved into place.
+ */
+export class ApiKeyStore {
+  static readonly FILE_VERSION = 1;
+  static readonly DEFAULT_QUOTAS: IApiKeyQuotas = {
+    requestsPerMinute: 60,
+    requestsPerDay: 10000,
+    checksPerMinute: 300,
+    checksPerDay: 50000
+  };
+  private static readonly KEY_PREFIX = 'dck_';
+
+  private keys: Map<string, IApiKey> = new Map();
+  private filePath: string | null = null;
+
+  /**
+   * Hash a key the way the store keeps it
+   */
+  static hash(key: string): string {
+    return createHash('sha256').update(key, 'utf8').digest('hex');
+  }
+
+  /**
+   * Back the store with a JSON file: its keys are loaded now and every change is written back.
+   * A missing file is created on the first change.
+   * @param filePath - Path of the key file
+   * @throws Error if the file exists but is not a valid key file
+   */
+  loadFromFile(filePath: string): void {
+    const keys = new Map<string, IApiKey>();
+    if (fs.existsSync(filePath)) {
+      const file = JSON.parse(fs.readFileSync(filePath, 'utf8')) as IApiKeyFile;
+      if (!file || file.version !== ApiKeyStore.FILE_VERSION || !Array.isArray(file.keys)) {
+        throw new Error(`Invalid API key file: ${filePath}`);
+      }
+
+      for (const key of file.keys) {
+        keys.set(key.hash, { ...key, quotas: { ...ApiKeyStore.DEFAULT_QUOTAS, ...key.quotas } });
+      }
+    }
+
+    this.keys = keys;
+    this.filePath = filePath;
+  }
+
+  /**
+   * Issue a key
+   * @param name - Who or what the key is for
+   * @param quotas - Limits overriding DEFAULT_QUOTAS
+   * @returns The key, which is not stored and cannot be shown again, and its record
+   */
+  create(name: string, quotas: Partial<IApiKeyQuotas> = {}): { key: string; record: IApiKey } {
+    const key = `${ApiKeyStore.KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const record: IApiKey = {
+      id: `key_${randomBytes(6).toString('hex')}`,
+      name,
+      hash: ApiKeyStore.hash(key),
+      createdAt: new Date().toISOString(),
+      revokedAt: null,
+      quotas: { ...ApiKeyStore.DEFAULT_QUOTAS, ...quotas }
+    };
+
+    this.keys.set(record.hash, record);
+    this.save();
+    return { key, record: { ...record } };
+  }
+
+  /**
+   * Revoke a key; revoked keys stay in the file for reference
+   * @returns Revoked key, or null if there is no key with the ID
+   */
+  revoke(id: string): IApiKey | null {
+    const record = Array.from(this.keys.values()).find(key => key.id === id);
+    if (!record) {
+      return null;
+    }
+
+    record.revokedAt = record.revokedAt || new Date().toISOString();
+    this.save();
+    return { ...record };
+  }
+
+  /**
+   * Find the record of a presented key
+   * @returns Key record, or null if the key is unknown or revoked
+   */
+  authenticate(key: string): IApiKey | null {
+    const record = this.keys.get(ApiKeyStore.hash(key));
+    return record && !record.revokedAt ? record : null;
+  }
+
+  /**
+   * List the keys, including revoked ones
+   */
+  list(): IApiKey[] {
+    return Array.from(this.keys.values(), key => ({ ...key, quotas: { ...key.quotas } }));
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    const file: IApiKeyFile = { version: ApiKeyStore.FILE_VERSION, keys: Array.from(this.keys.values()) };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(`${this.filePath}.tmp`, JSON.stringify(file, null, 2), { mode: 0o600 });
+    fs.renameSync(`${this.filePath}.tmp`, this.filePath);
+  }
+}
\ No newline at end of file
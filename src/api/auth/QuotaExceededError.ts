@@ -0,0 +1,18 @@
+/**
+ * Error raised when an API key has used up one of its quotas
+ */
+export class QuotaExceededError extends Error {
+  /** Quota that was exceeded, e.g. "checksPerMinute" */
+  readonly quota: string;
+  readonly limit: number;
+  /** Milliseconds until the quota's window resets, or null if the request can never fit in it */
+  readonly retryAfterMs: number | null;
+
+  constructor(quota: string, limit: number, retryAfterMs: number | null, message?: string) {
+    super(message || `Quota exceeded: ${quota} is ${limit}`);
+    this.name = 'QuotaExceededError';
+    this.quota = quota;
+    this.limit = limit;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
\ No newline at end of file
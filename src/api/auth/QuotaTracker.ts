@@ -0,0 +1,176 @@
+import type { IApiKey, IApiKeyQuotas } from './ApiKeyStore';
+import { QuotaExceededError } from './QuotaExceededError';
+
+export type QuotaWindow = 'minute' | 'day';
+
+/**
+ * What a key used in the current window of a quota
+ */
+export interface IQuotaWindowUsage {
+  requests: number;
+  checks: number;
+  /** Limits of the window; 0 means unlimited */
+  requestLimit: number;
+  checkLimit: number;
+  /** When the window's counts start over */
+  resetAt: string;
+}
+
+/**
+ * Consumption of one API key
+ */
+export interface IApiKeyUsage {
+  minute: IQuotaWindowUsage;
+  day: IQuotaWindowUsage;
+  /** Everything the key used since the server started */
+  total: { requests: number; checks: number; since: string };
+}
+
+/**
+ * What one request costs
+ */
+export interface IQuotaCharge {
+  requests?: number;
+  /** Number of domains to be checked */
+  checks?: number;
+}
+
+interface IWindowCounter {
+  start: number;
+  requests: number;
+  checks: number;
+}
+
+interface IKeyUsage {
+  windows: Record<QuotaWindow, IWindowCounter>;
+  requests: number;
+  checks: number;
+  since: number;
+}
+
+/**
+ * Quota Tracker - counts requests and domain checks per API key in fixed minute and day windows
+ * A request is charged in full or not at all: if it would take any window over its limit,
+ * nothing is counted and QuotaExceededError says when that window resets.
+ */
+export class QuotaTracker {
+  static readonly WINDOW_MS: Record<QuotaWindow, number> = { minute: 60 * 1000, day: 24 * 60 * 60 * 1000 };
+  private static readonly QUOTAS: Record<QuotaWindow, Record<'requests' | 'checks', keyof IApiKeyQuotas>> = {
+    minute: { requests: 'requestsPerMinute', checks: 'checksPerMinute' },
+    day: { requests: 'requestsPerDay', checks: 'checksPerDay' }
+  };
+
+  private usage: Map<string, IKeyUsage> = new Map();
+  private now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  /**
+   * Charge one request to a key
+   * @throws QuotaExceededError if a request quota is used up
+   */
+  consumeRequest(key: IApiKey): void {
+    this.consume(key, { requests: 1 });
+  }
+
+  /**
+   * Charge a request and its domain checks to a key together
+   * Every quota is checked before anything is counted, so a request refused for its checks
+   * uses up no request quota either.
+   * @param key - Key making the request
+   * @param charge - Requests and checks to count
+   * @param checkWindows - Quotas to charge the checks to; background jobs, which the job queue throttles,
+   *   only count per day. Requests always count per minute and per day
+   * @throws QuotaExceededError if a quota would be exceeded
+   */
+  consume(key: IApiKey, charge: IQuotaCharge, checkWindows: QuotaWindow[] = ['minute', 'day']): void {
+    const usage = this.getKeyUsage(key.id);
+    const amounts: Array<{ name: QuotaWindow; kind: 'requests' | 'checks'; amount: number }> = [
+      ...(['minute', 'day'] as const).map(name => ({ name, kind: 'requests' as const, amount: charge.requests || 0 })),
+      ...checkWindows.map(name => ({ name, kind: 'checks' as const, amount: charge.checks || 0 }))
+    ].filter(({ amount }) => amount > 0);
+
+    for (const { name, kind, amount } of amounts) {
+      const quota = QuotaTracker.QUOTAS[name][kind];
+      const limit = key.quotas[quota];
+      const counter = this.getCounter(usage, name);
+      if (limit <= 0) {
+        continue;
+      }
+      if (amount > limit) {
+        throw new QuotaExceededError(quota, limit, null, `Request needs ${amount} ${kind}, more than the ${quota} quota of ${limit}`);
+      }
+      if (counter[kind] + amount > limit) {
+        const retryAfterMs = counter.start + QuotaTracker.WINDOW_MS[name] - this.now();
+        throw new QuotaExceededError(quota, limit, retryAfterMs);
+      }
+    }
+
+    for (const { name, kind, amount } of amounts) {
+      this.getCounter(usage, name)[kind] += amount;
+    }
+    usage.requests += charge.requests || 0;
+    usage.checks += charge.checks || 0;
+  }
+
+  /**
+   * Report a key's consumption
+   */
+  getUsage(key: IApiKey): IApiKeyUsage {
+    const usage = this.getKeyUsage(key.id);
+    const window = (name: QuotaWindow): IQuotaWindowUsage => {
+      const counter = this.getCounter(usage, name);
+      return {
+        requests: counter.requests,
+        checks: counter.checks,
+        requestLimit: key.quotas[QuotaTracker.QUOTAS[name].requests],
+        checkLimit: key.quotas[QuotaTracker.QUOTAS[name].checks],
+        resetAt: new Date(counter.start + QuotaTracker.WINDOW_MS[name]).toISOString()
+      };
+    };
+
+    return {
+      minute: window('minute'),
+      day: window('day'),
+      total: { requests: usage.requests, checks: usage.checks, since: new Date(usage.since).toISOString() }
+    };
+  }
+
+  private getKeyUsage(id: string): IKeyUsage {
+    let usage = this.usage.get(id);
+    if (!usage) {
+      const now = this.now();
+      usage = {
+        windows: {
+          minute: { start: this.windowStart('minute', now), requests: 0, checks: 0 },
+          day: { start: this.windowStart('day', now), requests: 0, checks: 0 }
+        },
+        requests: 0,
+        checks: 0,
+        since: now
+      };
+      this.usage.set(id, usage);
+    }
+    return usage;
+  }
+
+  /**
+   * Get the counter of a window, starting it over if the window has passed
+   */
+  private getCounter(usage: IKeyUsage, name: QuotaWindow): IWindowCounter {
+    const start = this.windowStart(name, this.now());
+    if (usage.windows[name].start !== start) {
+      usage.windows[name] = { start, requests: 0, checks: 0 };
+    }
+    return usage.windows[name];
+  }
+
+  /**
+   * Windows are aligned to the clock: minutes start at :00 and days at midnight UTC
+   */
+  private windowStart(name: QuotaWindow, now: number): number {
+    return now - (now % QuotaTracker.WINDOW_MS[name]);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,6 @@
+// API keys, per-key quotas and usage accounting
+export { ApiKeyStore } from './ApiKeyStore';
+export type { IApiKey, IApiKeyQuotas } from './ApiKeyStore';
+export { QuotaTracker } from './QuotaTracker';
+export type { QuotaWindow, IQuotaCharge, IQuotaWindowUsage, IApiKeyUsage } from './QuotaTracker';
+export { QuotaExceededError } from './QuotaExceededError';
\ No newline at end of file
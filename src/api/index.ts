@@ -1,6 +1,12 @@
 #!/usr/bin/env node
 
 import { ApiServer } from './server';
+import { ApiKeyStore } from './auth';
+import { DomainResultCache } from '../services/DomainResultCache';
+import { LatencyTracker } from '../services/latency/LatencyTracker';
+import { PublicSuffixService } from '../services/PublicSuffixService';
+import { TLDCatalog } from '../services/catalog';
+import { ZoneFileIndex } from '../services/zone';
 
 /**
  * Entry point for the Domain Availability Checker API Server
@@ -11,8 +17,56 @@ async function main() {
   console.log('🚀 Starting Domain Availability Checker API Server...');
   console.log(`📡 Port: ${port}`);
   console.log(`🌐 Environment: ${process.env['NODE_ENV'] || 'development'}`);
+
+  // Keep cached results across restarts when a cache file is configured
+  const cacheFile = process.env['RESULT_CACHE_FILE'];
+  if (cacheFile) {
+    DomainResultCache.getInstance().loadFromFile(cacheFile);
+    console.log(`💾 Result cache: ${cacheFile}`);
+  }
+
+  // Keep observed latency, and the timeouts derived from it, across restarts
+  const latencyFile = process.env['LATENCY_STATS_FILE'];
+  if (latencyFile) {
+    LatencyTracker.getInstance().loadFromFile(latencyFile);
+    console.log(`⏱️  Latency stats: ${latencyFile}`);
+  }
   
-  const server = new ApiServer(port);
+  // Replace the bundled suffix rules with a current public_suffix_list.dat
+  const suffixListFile = process.env['PUBLIC_SUFFIX_LIST_FILE'];
+  if (suffixListFile) {
+    PublicSuffixService.getInstance().loadFromFile(suffixListFile);
+    console.log(`🌍 Public suffix list: ${suffixListFile}`);
+  }
+
+  // Refresh the TLD catalog, e.g. from IANA's tlds-alpha-by-domain.txt
+  const tldCatalogFile = process.env['TLD_CATALOG_FILE'];
+  if (tldCatalogFile) {
+    TLDCatalog.getInstance().loadFromFile(tldCatalogFile);
+    console.log(`📚 TLD catalog: ${tldCatalogFile}`);
+  }
+
+  // Answer from zone files imported with import-zones, confirming only names missing from them
+  const zoneIndexDir = process.env['ZONE_INDEX_DIR'];
+  if (zoneIndexDir) {
+    const zones = ZoneFileIndex.getInstance().loadDirectory(zoneIndexDir);
+    console.log(`🗂️  Zone file index: ${zoneIndexDir} (${zones.join(', ') || 'no zones'})`);
+  }
+  
+  // Require API keys issued with manage-api-keys, and limit which sites may call the API
+  const apiKeysFile = process.env['API_KEYS_FILE'];
+  let apiKeys: ApiKeyStore | undefined;
+  if (apiKeysFile) {
+    apiKeys = new ApiKeyStore();
+    apiKeys.loadFromFile(apiKeysFile);
+    console.log(`🔑 API keys: ${apiKeysFile} (${apiKeys.list().filter(key => !key.revokedAt).length} active)`);
+  }
+  const corsOrigins = process.env['CORS_ORIGINS']?.split(',').map(origin => origin.trim()).filter(Boolean);
+
+  const server = new ApiServer(port, {
+    ...(apiKeys && { apiKeys }),
+    ...(corsOrigins && corsOrigins.length > 0 && { corsOrigins })
+  });
   
   // Graceful shutdown handling
   process.on('SIGINT', async () => {
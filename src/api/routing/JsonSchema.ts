@@ -0,0 +1,186 @@
+/**
+ * The subset of JSON Schema (as used by OpenAPI 3.0) that request validation understands
+ * Schemas with $ref are only used to describe responses and are never validated.
+ */
+export interface IJsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: Array<string | number | boolean>;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: IJsonSchema;
+  properties?: Record<string, IJsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | IJsonSchema;
+  nullable?: boolean;
+  format?: string;
+  example?: unknown;
+  $ref?: string;
+}
+
+/**
+ * Part of a request a field was read from
+ */
+export type RequestLocation = 'path' | 'query' | 'body';
+
+/**
+ * One invalid field of a request
+ */
+export interface IFieldError {
+  in: RequestLocation;
+  /** Field path, e.g. "names[2]"; empty for the whole body */
+  field: string;
+  message: string;
+}
+
+/**
+ * Schema Validator - checks values against IJsonSchema and converts query strings to the
+ * types their schema asks for. Every invalid field is reported, not just the first.
+ */
+export class SchemaValidator {
+  /**
+   * Validate a value
+   * @param schema - Schema the value must match
+   * @param value - Value to validate
+   * @param location - Part of the request the value came from
+   * @param field - Path of the value, prefixed to the paths of nested fields
+   * @returns Invalid fields; empty when the value is valid
+   */
+  validate(schema: IJsonSchema, value: unknown, location: RequestLocation, field: string = ''): IFieldError[] {
+    const error = (message: string): IFieldError[] => [{ in: location, field, message }];
+
+    if (value === null && schema.nullable) {
+      return [];
+    }
+    if (schema.type && !this.hasType(value, schema.type)) {
+      return error(`must be ${schema.type === 'array' || schema.type === 'integer' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}`);
+    }
+    if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+      return error(`must be one of ${schema.enum.join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return error(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return error(`must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        return error(`must match ${schema.pattern}`);
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return error(`must be at least ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return error(`must be at most ${schema.maximum}`);
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return error(schema.minItems === 1 ? 'must not be empty' : `must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return error(`must have at most ${schema.maxItems} items`);
+      }
+      const items = schema.items;
+      return items ? value.flatMap((item, i) => this.validate(items, item, location, `${field}[${i}]`)) : [];
+    }
+
+    if (this.hasType(value, 'object')) {
+      return this.validateProperties(schema, value as Record<string, unknown>, location, field);
+    }
+    return [];
+  }
+
+  /**
+   * Convert query string values to the types of their properties' schemas
+   * Arrays accept repeated parameters and comma-separated lists (?tlds=.com,.net); values
+   * that do not convert are kept as strings, so validation reports them.
+   * @param schema - Object schema of the query
+   * @param query - Parsed query string
+   * @returns Query with converted values
+   */
+  coerceQuery(schema: IJsonSchema, query: Record<string, string | string[] | undefined>): Record<string, unknown> {
+    const coerced: Record<string, unknown> = { ...query };
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      const value = query[name];
+      if (value === undefined) {
+        continue;
+      }
+
+      const values = ([] as string[]).concat(value);
+      if (property.type === 'array') {
+        const items = values.flatMap(item => item.split(',')).map(item => item.trim()).filter(Boolean);
+        coerced[name] = property.items ? items.map(item => this.coerceValue(property.items!, item)) : items;
+      } else if (values.length === 1) {
+        coerced[name] = this.coerceValue(property, values[0]!);
+      }
+    }
+    return coerced;
+  }
+
+  private validateProperties(schema: IJsonSchema, value: Record<string, unknown>, location: RequestLocation, field: string): IFieldError[] {
+    const errors: IFieldError[] = [];
+    const path = (name: string) => (field ? `${field}.${name}` : name);
+
+    for (const name of schema.required || []) {
+      if (value[name] === undefined) {
+        errors.push({ in: location, field: path(name), message: 'is required' });
+      }
+    }
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      if (value[name] !== undefined) {
+        errors.push(...this.validate(property, value[name], location, path(name)));
+      }
+    }
+
+    if (schema.additionalProperties !== undefined && schema.additionalProperties !== true) {
+      const additional = schema.additionalProperties;
+      // Own properties only, so names such as constructor or __proto__ are not taken for declared ones
+      const declared = new Set(Object.keys(schema.properties || {}));
+      for (const name of Object.keys(value).filter(key => !declared.has(key))) {
+        errors.push(...(additional === false
+          ? [{ in: location, field: path(name), message: 'is not allowed' }]
+          : this.validate(additional, value[name], location, path(name))));
+      }
+    }
+    return errors;
+  }
+
+  private coerceValue(schema: IJsonSchema, value: string): unknown {
+    switch (schema.type) {
+      case 'integer':
+      case 'number':
+        return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+      case 'boolean':
+        return value === 'true' ? true : value === 'false' ? false : value;
+      default:
+        return value;
+    }
+  }
+
+  private hasType(value: unknown, type: NonNullable<IJsonSchema['type']>): boolean {
+    switch (type) {
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      default:
+        return typeof value === type;
+    }
+  }
+}
\ No newline at end of file
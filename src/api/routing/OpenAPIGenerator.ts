@@ -0,0 +1,117 @@
+import type { IJsonSchema } from './JsonSchema';
+import type { IRoute } from './Router';
+
+/**
+ * Info object of the generated document
+ */
+export interface IOpenAPIInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+/**
+ * OpenAPI Generator - describes route definitions as an OpenAPI 3.0 document
+ * The document is built from the same definitions the router matches and validates against,
+ * so the description cannot drift from what the server accepts.
+ */
+export class OpenAPIGenerator {
+  static readonly OPENAPI_VERSION = '3.0.3';
+
+  private info: IOpenAPIInfo;
+  private schemas: Record<string, IJsonSchema>;
+  private securitySchemes: Record<string, Record<string, unknown>>;
+
+  /**
+   * @param info - Title, version and description of the API
+   * @param schemas - Component schemas the routes refer to with $ref
+   * @param securitySchemes - Ways to authenticate, any of which is accepted by non-public routes
+   */
+  constructor(
+    info: IOpenAPIInfo,
+    schemas: Record<string, IJsonSchema> = {},
+    securitySchemes: Record<string, Record<string, unknown>> = {}
+  ) {
+    this.info = info;
+    this.schemas = schemas;
+    this.securitySchemes = securitySchemes;
+  }
+
+  /**
+   * Generate the document
+   * @param routes - Route definitions
+   * @param basePath - Base path the routes are served under (the document's server URL)
+   * @returns OpenAPI document, ready to be serialized as JSON
+   */
+  generate(routes: IRoute[], basePath: string): Record<string, unknown> {
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const route of routes) {
+      // "/jobs/:id" is written "/jobs/{id}" in OpenAPI
+      const path = route.path.replace(/:([^/]+)/g, '{$1}');
+      paths[path] = { ...paths[path], [route.method.toLowerCase()]: this.createOperation(route) };
+    }
+
+    const tags = Array.from(new Set(routes.flatMap(route => route.tags || []))).map(name => ({ name }));
+    return {
+      openapi: OpenAPIGenerator.OPENAPI_VERSION,
+      info: { ...this.info },
+      servers: [{ url: basePath }],
+      ...(tags.length > 0 && { tags }),
+      paths,
+      components: {
+        schemas: { ...this.schemas },
+        ...(Object.keys(this.securitySchemes).length > 0 && { securitySchemes: { ...this.securitySchemes } })
+      }
+    };
+  }
+
+  private createOperation(route: IRoute): Record<string, unknown> {
+    const parameters = [
+      ...this.createParameters(route.params, 'path'),
+      ...this.createParameters(route.query, 'query')
+    ];
+
+    const responses: Record<string, unknown> = {};
+    for (const [status, response] of Object.entries(route.responses)) {
+      responses[status] = {
+        description: response.description,
+        ...(response.headers && { headers: response.headers }),
+        ...(response.schema && { content: { [response.contentType || 'application/json']: { schema: response.schema } } })
+      };
+    }
+
+    const schemes = Object.keys(this.securitySchemes);
+    return {
+      operationId: route.operationId,
+      summary: route.summary,
+      ...(route.description && { description: route.description }),
+      ...(route.tags && { tags: route.tags }),
+      // Public routes opt out of the schemes with an empty requirement list
+      ...(schemes.length > 0 && { security: route.public ? [] : schemes.map(name => ({ [name]: [] })) }),
+      ...(parameters.length > 0 && { parameters }),
+      ...(route.body && {
+        requestBody: { required: true, content: { 'application/json': { schema: route.body } } }
+      }),
+      responses
+    };
+  }
+
+  /**
+   * Turn the properties of an object schema into parameter objects
+   */
+  private createParameters(schema: IJsonSchema | undefined, location: 'path' | 'query'): Array<Record<string, unknown>> {
+    return Object.entries(schema?.properties || {}).map(([name, property]) => {
+      const { description, ...parameterSchema } = property;
+      return {
+        name,
+        in: location,
+        // Path parameters are always required
+        required: location === 'path' || Boolean(schema?.required?.includes(name)),
+        ...(description && { description }),
+        // Arrays in the query are comma-separated lists (repeating the parameter works too)
+        ...(property.type === 'array' && { style: 'form', explode: false }),
+        schema: parameterSchema
+      };
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,193 @@
+import type http from 'http';
+import type { IApiKey, QuotaWindow } from '../auth';
+import { SchemaValidator } from './JsonSchema';
+import type { IFieldError, IJsonSchema } from './JsonSchema';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * Validated request passed to a route handler
+ */
+export interface IRouteRequest {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  /** Path parameters, decoded */
+  params: Record<string, string>;
+  /** Query parameters, converted to the types of the route's query schema */
+  query: Record<string, any>;
+  /** Parsed JSON body, if the route takes one */
+  body: any;
+  /** Prefix the request was made under (e.g. "/api/v1"), for building links */
+  basePath: string;
+  /** Key the request was authenticated with; null when API keys are not enabled or the route is public */
+  apiKey: IApiKey | null;
+}
+
+/**
+ * Documented response of a route
+ */
+export interface IRouteResponse {
+  description: string;
+  schema?: IJsonSchema;
+  /** Defaults to application/json */
+  contentType?: string;
+  headers?: Record<string, { description: string; schema: IJsonSchema }>;
+}
+
+/**
+ * Route definition: what the router matches and validates, and what the OpenAPI document describes
+ */
+export interface IRoute {
+  method: HttpMethod;
+  /** Path below the base path, with ":name" parameters (e.g. "/jobs/:id") */
+  path: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags?: string[];
+  /** Object schema of the path parameters */
+  params?: IJsonSchema;
+  /** Object schema of the query parameters */
+  query?: IJsonSchema;
+  /** Schema of the JSON body; routes without one do not read the body */
+  body?: IJsonSchema;
+  responses: Record<number, IRouteResponse>;
+  /** Whether the route can be called without an API key */
+  public?: boolean;
+  /** Domain checks a validated request makes, charged to the caller's check quotas */
+  checks?: (request: IRouteRequest) => number;
+  /** Check quotas the checks count against; every window by default */
+  checkWindows?: QuotaWindow[];
+  handler: (request: IRouteRequest) => Promise<void>;
+}
+
+/**
+ * Route found for a request
+ */
+export interface IRouteMatch {
+  route: IRoute;
+  params: Record<string, string>;
+  basePath: string;
+}
+
+interface ICompiledRoute {
+  route: IRoute;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+/**
+ * Router - matches requests against route definitions under one or more base paths
+ * The first base path is the current API version; the others are served as aliases of it
+ * (e.g. the unversioned "/api" paths that predate versioning).
+ */
+export class Router {
+  private basePaths: string[];
+  private prefixes: string[];
+  private routes: ICompiledRoute[] = [];
+  private validator = new SchemaValidator();
+
+  constructor(basePaths: string[]) {
+    if (basePaths.length === 0) {
+      throw new Error('Router needs at least one base path');
+    }
+    this.basePaths = [...basePaths];
+    // Longest first, so "/api/v1/jobs" is not read as "/v1/jobs" under "/api"
+    this.prefixes = [...basePaths].sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Add a route
+   * @throws Error if a route with the same method and path exists
+   */
+  add(route: IRoute): this {
+    if (this.routes.some(({ route: existing }) => existing.method === route.method && existing.path === route.path)) {
+      throw new Error(`Duplicate route: ${route.method} ${route.path}`);
+    }
+
+    const paramNames: string[] = [];
+    const source = route.path.split('/').map(segment => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }).join('/');
+
+    this.routes.push({ route, pattern: new RegExp(`^${source}$`), paramNames });
+    return this;
+  }
+
+  /**
+   * Get the route definitions in the order they were added
+   */
+  getRoutes(): IRoute[] {
+    return this.routes.map(({ route }) => route);
+  }
+
+  /**
+   * Get the base path of the current API version
+   */
+  getBasePath(): string {
+    return this.basePaths[0]!;
+  }
+
+  /**
+   * Find the route for a request
+   * @param method - Request method
+   * @param pathname - Request path without the query string
+   * @returns Match; the methods the path allows if only the method is wrong; null if nothing matches
+   */
+  match(method: string, pathname: string): IRouteMatch | { allowedMethods: HttpMethod[] } | null {
+    const basePath = this.prefixes.find(prefix => pathname.startsWith(`${prefix}/`));
+    if (!basePath) {
+      return null;
+    }
+
+    const path = pathname.slice(basePath.length);
+    const allowedMethods: HttpMethod[] = [];
+    for (const { route, pattern, paramNames } of this.routes) {
+      const values = pattern.exec(path);
+      if (!values) {
+        continue;
+      }
+      if (route.method !== method) {
+        allowedMethods.push(route.method);
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      try {
+        paramNames.forEach((name, i) => params[name] = decodeURIComponent(values[i + 1]!));
+      } catch {
+        // Malformed escapes name no resource
+        return null;
+      }
+      return { route, params, basePath };
+    }
+
+    return allowedMethods.length > 0 ? { allowedMethods } : null;
+  }
+
+  /**
+   * Validate the parameters, query and body of a matched request against its route's schemas
+   * @returns Query converted to its schema's types, and every invalid field
+   */
+  validate(
+    match: IRouteMatch,
+    query: Record<string, string | string[] | undefined>,
+    body: unknown
+  ): { query: Record<string, unknown>; errors: IFieldError[] } {
+    const { route, params } = match;
+    const coercedQuery = route.query ? this.validator.coerceQuery(route.query, query) : { ...query };
+
+    return {
+      query: coercedQuery,
+      errors: [
+        ...(route.params ? this.validator.validate(route.params, params, 'path') : []),
+        ...(route.query ? this.validator.validate(route.query, coercedQuery, 'query') : []),
+        ...(route.body ? this.validator.validate(route.body, body, 'body') : [])
+      ]
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,7 @@
+// Route definitions, request validation and the OpenAPI document generated from them
+export { Router } from './Router';
+export type { HttpMethod, IRoute, IRouteMatch, IRouteRequest, IRouteResponse } from './Router';
+export { SchemaValidator } from './JsonSchema';
+export type { IJsonSchema, IFieldError, RequestLocation } from './JsonSchema';
+export { OpenAPIGenerator } from './OpenAPIGenerator';
+export type { IOpenAPIInfo } from './OpenAPIGenerator';
\ No newline at end of file
@@ -0,0 +1,180 @@
+import type { IJsonSchema } from './routing';
+
+/**
+ * Refer to one of the API_SCHEMAS components
+ */
+export function schemaRef(name: string): IJsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+const AVAILABILITY_STATUSES = [
+  'available', 'taken', 'expired', 'redemption', 'pending-delete', 'reserved', 'premium', 'blocked', 'checking', 'error', 'unknown'
+];
+
+/**
+ * Component schemas of the OpenAPI document, describing what the endpoints answer with
+ * Results carry more detail than listed here (evidence, WHOIS and RDAP data, ...), so
+ * DomainResult allows additional properties.
+ */
+export const API_SCHEMAS: Record<string, IJsonSchema> = {
+  Error: {
+    type: 'object',
+    required: ['error', 'message', 'timestamp'],
+    properties: {
+      error: { type: 'boolean', enum: [true] },
+      message: { type: 'string' },
+      timestamp: { type: 'string', format: 'date-time' }
+    }
+  },
+  FieldError: {
+    type: 'object',
+    required: ['in', 'field', 'message'],
+    properties: {
+      in: { type: 'string', enum: ['path', 'query', 'body'] },
+      field: { type: 'string', description: 'Path of the field, e.g. "names[2]"; empty for the whole body' },
+      message: { type: 'string', example: 'is required' }
+    }
+  },
+  ValidationError: {
+    type: 'object',
+    required: ['error', 'message', 'errors', 'timestamp'],
+    properties: {
+      error: { type: 'boolean', enum: [true] },
+      message: { type: 'string', example: 'Invalid request: baseDomain is required' },
+      errors: { type: 'array', items: { $ref: '#/components/schemas/FieldError' } },
+      timestamp: { type: 'string', format: 'date-time' }
+    }
+  },
+  DomainResult: {
+    type: 'object',
+    required: ['domain', 'baseDomain', 'tld', 'status', 'lastChecked', 'checkMethod'],
+    additionalProperties: true,
+    properties: {
+      domain: { type: 'string', description: 'Full domain name in ASCII (punycode) form', example: 'example.com' },
+      unicodeDomain: { type: 'string', description: 'Unicode form of an internationalized name' },
+      baseDomain: { type: 'string', example: 'example' },
+      tld: { type: 'string', example: '.com' },
+      status: { type: 'string', enum: AVAILABILITY_STATUSES },
+      lastChecked: { type: 'string', format: 'date-time' },
+      checkMethod: { type: 'string', enum: ['DNS', 'WHOIS', 'RDAP', 'HYBRID', 'ZONE'] },
+      confidence: { type: 'number', description: 'How certain the verdict is (0-1)' },
+      error: { type: 'string' },
+      executionTime: { type: 'integer', description: 'Milliseconds' }
+    }
+  },
+  CheckResponse: {
+    type: 'object',
+    required: ['success', 'queryId', 'results', 'timestamp', 'errors'],
+    properties: {
+      success: { type: 'boolean' },
+      queryId: { type: 'string' },
+      baseDomain: { type: 'string' },
+      results: { type: 'array', items: { $ref: '#/components/schemas/DomainResult' } },
+      timestamp: { type: 'string', format: 'date-time' },
+      errors: { type: 'array', items: { type: 'string' } },
+      totalExecutionTime: { type: 'integer', description: 'Milliseconds' }
+    }
+  },
+  ValidationResult: {
+    type: 'object',
+    required: ['domain', 'isValid', 'message', 'errors'],
+    properties: {
+      domain: { type: 'string' },
+      isValid: { type: 'boolean' },
+      message: { type: 'string' },
+      errors: { type: 'array', items: { type: 'string' } },
+      asciiDomain: { type: 'string' },
+      unicodeDomain: { type: 'string' },
+      warnings: { type: 'array', items: { type: 'string' } },
+      eligibility: { type: 'array', items: { type: 'object' }, description: 'Registration rules of each TLD the name was checked against' }
+    }
+  },
+  DomainPricing: {
+    type: 'object',
+    required: ['domain', 'tld', 'firstYearPrice', 'renewalPrice', 'registrar', 'registrarUrl', 'isPremium'],
+    properties: {
+      domain: { type: 'string' },
+      tld: { type: 'string' },
+      firstYearPrice: { type: 'number', description: 'USD' },
+      renewalPrice: { type: 'number', description: 'USD' },
+      registrar: { type: 'string' },
+      registrarUrl: { type: 'string' },
+      isPremium: { type: 'boolean' },
+      tier: { type: 'string', description: 'Registry premium tier, e.g. "gold"' },
+      notes: { type: 'string' }
+    }
+  },
+  ApiKeyUsage: {
+    type: 'object',
+    required: ['key', 'quotas', 'usage', 'timestamp'],
+    properties: {
+      key: {
+        type: 'object',
+        properties: { id: { type: 'string' }, name: { type: 'string' }, createdAt: { type: 'string', format: 'date-time' } }
+      },
+      quotas: {
+        type: 'object',
+        description: 'Limits of the key; 0 means unlimited',
+        properties: {
+          requestsPerMinute: { type: 'integer' },
+          requestsPerDay: { type: 'integer' },
+          checksPerMinute: { type: 'integer' },
+          checksPerDay: { type: 'integer' }
+        }
+      },
+      usage: {
+        type: 'object',
+        properties: {
+          minute: { $ref: '#/components/schemas/QuotaWindowUsage' },
+          day: { $ref: '#/components/schemas/QuotaWindowUsage' },
+          total: {
+            type: 'object',
+            description: 'Consumption since the server started',
+            properties: { requests: { type: 'integer' }, checks: { type: 'integer' }, since: { type: 'string', format: 'date-time' } }
+          }
+        }
+      },
+      timestamp: { type: 'string', format: 'date-time' }
+    }
+  },
+  QuotaWindowUsage: {
+    type: 'object',
+    properties: {
+      requests: { type: 'integer' },
+      checks: { type: 'integer', description: 'Domains checked (one per name and TLD)' },
+      requestLimit: { type: 'integer' },
+      checkLimit: { type: 'integer' },
+      resetAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  BulkCheckJob: {
+    type: 'object',
+    required: ['id', 'status', 'priority', 'tlds', 'createdAt', 'startedAt', 'finishedAt', 'progress', 'results', 'resultOffset', 'totalResults', 'failures'],
+    properties: {
+      id: { type: 'string' },
+      status: { type: 'string', enum: ['queued', 'running', 'completed', 'cancelled'] },
+      priority: { type: 'string', enum: ['low', 'normal', 'high'] },
+      tlds: { type: 'array', items: { type: 'string' } },
+      createdAt: { type: 'string', format: 'date-time' },
+      startedAt: { type: 'string', format: 'date-time', nullable: true },
+      finishedAt: { type: 'string', format: 'date-time', nullable: true },
+      progress: {
+        type: 'object',
+        properties: {
+          total: { type: 'integer' },
+          checked: { type: 'integer' },
+          failed: { type: 'integer' },
+          cancelled: { type: 'integer' },
+          pending: { type: 'integer' }
+        }
+      },
+      results: { type: 'array', items: { $ref: '#/components/schemas/DomainResult' }, description: 'Results from resultOffset on' },
+      resultOffset: { type: 'integer' },
+      totalResults: { type: 'integer' },
+      failures: {
+        type: 'array',
+        items: { type: 'object', properties: { name: { type: 'string' }, error: { type: 'string' } } }
+      }
+    }
+  }
+};
\ No newline at end of file
@@ -1,29 +1,80 @@
 import http from 'http';
 import url from 'url';
+import type { Duplex } from 'stream';
 import { DomainApplicationService } from '../application/DomainApplicationService';
 import { CheckDomainAvailabilityCommand } from '../application/commands/CheckDomainAvailabilityCommand';
 import { ValidateDomainCommand } from '../application/commands/ValidateDomainCommand';
 import { GetDomainPricingQuery } from '../application/queries/GetDomainPricingQuery';
+import { GetTLDCatalogQuery } from '../application/queries/GetTLDCatalogQuery';
+import { StartBulkCheckJobCommand } from '../application/commands/StartBulkCheckJobCommand';
+import { CancelBulkCheckJobCommand } from '../application/commands/CancelBulkCheckJobCommand';
+import { GetBulkCheckJobQuery } from '../application/queries/GetBulkCheckJobQuery';
+import { BulkCheckJobManager, JobQueueFullError } from '../application/jobs';
+import type { BulkCheckJobPriority, IBulkCheckJob } from '../application/jobs';
+import { CircuitBreakerRegistry, CircuitState } from '../patterns/circuit-breaker';
+import { LatencyTracker } from '../services/latency/LatencyTracker';
 import type { IQueryResponse } from '../models';
+import type { IValidationResult } from '../controllers/IDomainController';
+import type { TLDCatalogListing } from '../application/queries/GetTLDCatalogQuery';
+import type { ITLDCatalogFilter, TLDType } from '../services/catalog';
+import { DomainEvents } from '../patterns/observer/IEventBus';
+import type { ICheckStartedEvent, IResultUpdatedEvent, ICheckCompletedEvent } from '../patterns/observer/IEventBus';
+import { CheckSession, CloseCode, WebSocketConnection } from './websocket';
+import { OpenAPIGenerator, Router } from './routing';
+import type { IFieldError, IJsonSchema, IRouteRequest, IRouteResponse } from './routing';
+import { QuotaExceededError, QuotaTracker } from './auth';
+import type { ApiKeyStore, IApiKey } from './auth';
+import { API_SCHEMAS, schemaRef } from './schemas';
+
+/**
+ * Options of the API server
+ */
+export interface IApiServerOptions {
+  /** Require API keys from this store; without one the API is open to anonymous callers */
+  apiKeys?: ApiKeyStore;
+  /** Counts consumption against each key's quotas */
+  quotas?: QuotaTracker;
+  /** Origins browsers may call the API from; any origin if omitted */
+  corsOrigins?: string[];
+}
 
 /**
  * Lightweight API Server - delegates all business logic to application layer
  * Handles only HTTP concerns: routing, parsing, serialization
  */
 export class ApiServer {
+  private static readonly TLD_TYPES: TLDType[] = ['gTLD', 'ccTLD', 'brand', 'sponsored'];
+  private static readonly DEFAULT_TLDS = ['.com', '.net', '.org'];
+  private static readonly JOB_PRIORITIES: BulkCheckJobPriority[] = ['low', 'normal', 'high'];
+  // Current version first; the unversioned paths that predate it remain aliases of v1
+  private static readonly BASE_PATHS = ['/api/v1', '/api'];
+  // Comment lines sent while slow registries answer, so proxies keep the stream open
+  private static readonly STREAM_HEARTBEAT_MS = 15000;
+  private static readonly WEBSOCKET_PATHS = ['/api/v1/ws', '/api/ws'];
+
   private server: http.Server;
   private applicationService: DomainApplicationService;
   private port: number;
+  private router: Router;
+  private openApiDocument: Record<string, unknown> | null = null;
+  private sessions: Set<CheckSession> = new Set();
+  private apiKeys: ApiKeyStore | null;
+  private quotas: QuotaTracker;
+  private corsOrigins: string[] | null;
 
-  constructor(port: number = 3001) {
+  constructor(port: number = 3001, options: IApiServerOptions = {}) {
     this.port = port;
+    this.apiKeys = options.apiKeys || null;
+    this.quotas = options.quotas || new QuotaTracker();
+    this.corsOrigins = options.corsOrigins || null;
     this.applicationService = new DomainApplicationService();
+    this.router = this.createRouter();
     this.server = this.createServer();
   }
 
   private createServer(): http.Server {
-    return http.createServer((req, res) => {
-      this.setCorsHeaders(res);
+    const server = http.createServer((req, res) => {
+      this.setCorsHeaders(req, res);
 
       if (req.method === 'OPTIONS') {
         res.writeHead(200);
@@ -33,40 +84,384 @@ export class ApiServer {
 
       this.handleRequest(req, res);
     });
+
+    server.on('upgrade', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => this.handleUpgrade(req, socket, head));
+    return server;
+  }
+
+  /**
+   * Take over upgrade requests to /api/v1/ws as interactive checking sessions (see CheckSession
+   * for the protocol); other upgrades are refused
+   */
+  private handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    const { pathname } = url.parse(req.url || '');
+    if (!ApiServer.WEBSOCKET_PATHS.includes(pathname || '')) {
+      WebSocketConnection.refuse(socket, '404 Not Found');
+      return;
+    }
+
+    // Browsers cannot set headers on WebSockets, so the key may come as ?access_token=
+    let apiKey: IApiKey | null = null;
+    if (this.apiKeys) {
+      apiKey = this.authenticate(req, url.parse(req.url || '', true).query);
+      if (!apiKey) {
+        WebSocketConnection.refuse(socket, '401 Unauthorized', ['WWW-Authenticate: Bearer']);
+        return;
+      }
+    }
+
+    const connection = WebSocketConnection.accept(req, socket, head);
+    if (!connection) {
+      return;
+    }
+
+    // Each check message is charged like a request to the check endpoint
+    const key = apiKey;
+    const session = new CheckSession(
+      connection,
+      this.applicationService.getMediator(),
+      this.applicationService.getEventBus(),
+      ApiServer.DEFAULT_TLDS,
+      key && ((checks: number) => this.quotas.consume(key, { requests: 1, checks }))
+    );
+    this.sessions.add(session);
+    connection.onClose(() => this.sessions.delete(session));
   }
 
-  private setCorsHeaders(res: http.ServerResponse): void {
-    res.setHeader('Access-Control-Allow-Origin', '*');
+  private setCorsHeaders(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (!this.corsOrigins) {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+    } else {
+      const origin = req.headers['origin'];
+      if (origin && this.corsOrigins.includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+      }
+      res.setHeader('Vary', 'Origin');
+    }
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
     res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
     res.setHeader('Content-Type', 'application/json');
   }
 
+  /**
+   * Define the API's routes; GET /api/openapi.json describes the same definitions
+   */
+  private createRouter(): Router {
+    const invalidRequest = { description: 'Invalid request', schema: schemaRef('ValidationError') };
+    const notFound = { description: 'Not found', schema: schemaRef('Error') };
+    // Answers of every route that needs an API key (when keys are enabled)
+    const keyed: Record<number, IRouteResponse> = {
+      401: { description: 'Missing or invalid API key', schema: schemaRef('Error') },
+      429: {
+        description: 'Quota exceeded',
+        schema: schemaRef('Error'),
+        headers: { 'Retry-After': { description: 'Seconds until the quota resets', schema: { type: 'integer' } } }
+      }
+    };
+    const checkCount = (tldList: string[] | undefined) => (tldList || ApiServer.DEFAULT_TLDS).length;
+    const tlds: IJsonSchema = {
+      type: 'array',
+      minItems: 1,
+      maxItems: CheckDomainAvailabilityCommand.MAX_TLDS,
+      items: { type: 'string', minLength: 1 },
+      description: `TLDs to check; ${ApiServer.DEFAULT_TLDS.join(', ')} by default`,
+      example: ['.com', '.io']
+    };
+    const fresh: IJsonSchema = { type: 'boolean', description: 'Skip cached results' };
+    const jobParams: IJsonSchema = {
+      type: 'object',
+      required: ['id'],
+      properties: { id: { type: 'string', description: 'Job ID' } }
+    };
+
+    return new Router(ApiServer.BASE_PATHS)
+      .add({
+        method: 'GET',
+        path: '/health',
+        operationId: 'getHealth',
+        summary: 'Health check',
+        tags: ['Status'],
+        public: true,
+        responses: {
+          200: {
+            description: 'Server status; degraded while an upstream circuit is open',
+            schema: {
+              type: 'object',
+              properties: {
+                status: { type: 'string', enum: ['healthy', 'degraded'] },
+                timestamp: { type: 'string', format: 'date-time' },
+                uptime: { type: 'number', description: 'Seconds' },
+                version: { type: 'string' },
+                circuits: { type: 'array', items: { type: 'object' } }
+              }
+            }
+          }
+        },
+        handler: ({ res }) => this.handleHealthCheck(res)
+      })
+      .add({
+        method: 'GET',
+        path: '/latency',
+        operationId: 'getLatencyStats',
+        summary: 'Observed latency and adaptive timeouts per TLD and source',
+        tags: ['Status'],
+        responses: { 200: { description: 'Latency statistics', schema: { type: 'object' } }, ...keyed },
+        handler: ({ res }) => this.handleLatencyStats(res)
+      })
+      .add({
+        method: 'GET',
+        path: '/tlds',
+        operationId: 'listTLDs',
+        summary: 'TLD catalog',
+        tags: ['TLDs'],
+        query: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ApiServer.TLD_TYPES },
+            idn: { type: 'boolean', description: 'Internationalized TLDs only (or none)' },
+            registrable: { type: 'boolean', description: 'TLDs open for registration' },
+            default: { type: 'boolean', description: 'TLDs checked by default' },
+            secondLevel: { type: 'boolean', description: 'Second-level registrations such as .co.uk' },
+            q: { type: 'string', description: 'Search TLDs and operators' }
+          }
+        },
+        responses: {
+          200: { description: 'Matching catalog entries', schema: { type: 'object', properties: { tlds: { type: 'array', items: { type: 'object' } } } } },
+          400: invalidRequest,
+          ...keyed
+        },
+        handler: ({ query, res }) => this.handleTLDCatalog(query, res)
+      })
+      .add({
+        method: 'POST',
+        path: '/check-domain',
+        operationId: 'checkDomain',
+        summary: 'Check domain availability',
+        tags: ['Checks'],
+        query: { type: 'object', properties: { fresh } },
+        body: {
+          type: 'object',
+          required: ['baseDomain'],
+          properties: {
+            baseDomain: { type: 'string', minLength: 1, maxLength: 253, description: 'Name to check, e.g. "example"' },
+            tlds,
+            fresh
+          }
+        },
+        responses: { 200: { description: 'Result per TLD', schema: schemaRef('CheckResponse') }, 400: invalidRequest, ...keyed },
+        checks: ({ body }) => checkCount(body.tlds),
+        handler: ({ body, query, res }) => this.handleDomainCheck(body, query['fresh'] === true, res)
+      })
+      .add({
+        method: 'GET',
+        path: '/check-domain/stream',
+        operationId: 'streamDomainCheck',
+        summary: 'Check domain availability, streaming results as they arrive',
+        description: 'Server-Sent Events: "start", then "result" and "progress" per domain, and finally "complete" or "failed".',
+        tags: ['Checks'],
+        query: {
+          type: 'object',
+          required: ['baseDomain'],
+          properties: {
+            baseDomain: { type: 'string', minLength: 1, maxLength: 253, description: 'Name to check' },
+            tlds,
+            fresh
+          }
+        },
+        responses: {
+          200: { description: 'Event stream', contentType: 'text/event-stream', schema: { type: 'string' } },
+          400: invalidRequest,
+          ...keyed
+        },
+        checks: ({ query }) => checkCount(query['tlds']),
+        handler: ({ query, res }) => this.handleDomainCheckStream(query, res)
+      })
+      .add({
+        method: 'POST',
+        path: '/validate-domain',
+        operationId: 'validateDomain',
+        summary: 'Validate a domain name against syntax and registry rules',
+        tags: ['Checks'],
+        body: {
+          type: 'object',
+          required: ['domain'],
+          properties: {
+            domain: { type: 'string', minLength: 1, description: 'Name or full domain' },
+            tlds: { ...tlds, description: 'TLDs whose registration rules to check the name against' }
+          }
+        },
+        responses: { 200: { description: 'Validation result', schema: schemaRef('ValidationResult') }, 400: invalidRequest, ...keyed },
+        handler: ({ body, res }) => this.handleDomainValidation(body, res)
+      })
+      .add({
+        method: 'POST',
+        path: '/domain-pricing',
+        operationId: 'getDomainPricing',
+        summary: 'Get pricing for a domain',
+        tags: ['Pricing'],
+        body: {
+          type: 'object',
+          required: ['domain'],
+          properties: { domain: { type: 'string', minLength: 1, description: 'Full domain, e.g. "example.com"' } }
+        },
+        responses: {
+          200: { description: 'Pricing', schema: schemaRef('DomainPricing') },
+          400: invalidRequest,
+          404: { description: 'No pricing for the domain', schema: schemaRef('Error') },
+          ...keyed
+        },
+        handler: ({ body, res }) => this.handleDomainPricing(body, res)
+      })
+      .add({
+        method: 'POST',
+        path: '/jobs',
+        operationId: 'startBulkCheckJob',
+        summary: 'Start a bulk check job',
+        tags: ['Jobs'],
+        body: {
+          type: 'object',
+          required: ['names'],
+          properties: {
+            names: {
+              type: 'array',
+              minItems: 1,
+              maxItems: BulkCheckJobManager.MAX_NAMES,
+              // Blank names would leave nothing to check once trimmed
+              items: { type: 'string', minLength: 1, pattern: '\\S' },
+              description: 'Names to check under every TLD'
+            },
+            tlds,
+            priority: { type: 'string', enum: ApiServer.JOB_PRIORITIES, description: 'Defaults to normal' },
+            fresh
+          }
+        },
+        responses: {
+          202: {
+            description: 'Job started',
+            schema: schemaRef('BulkCheckJob'),
+            headers: { Location: { description: 'URL of the job', schema: { type: 'string' } } }
+          },
+          400: invalidRequest,
+          ...keyed,
+          503: { description: 'The job queue is full', schema: schemaRef('Error') }
+        },
+        // Jobs run throttled by the job queue, so only the daily check quota applies; duplicate
+        // names are checked once, so they are charged once
+        checks: ({ body }) => BulkCheckJobManager.normalizeNames(body.names).length * checkCount(body.tlds),
+        checkWindows: ['day'],
+        handler: ({ body, basePath, res }) => this.handleStartJob(body, basePath, res)
+      })
+      .add({
+        method: 'GET',
+        path: '/jobs/:id',
+        operationId: 'getBulkCheckJob',
+        summary: 'Job progress and results',
+        tags: ['Jobs'],
+        params: jobParams,
+        query: {
+          type: 'object',
+          properties: { offset: { type: 'integer', minimum: 0, description: 'Number of results already fetched' } }
+        },
+        responses: { 200: { description: 'Job', schema: schemaRef('BulkCheckJob') }, 400: invalidRequest, 404: notFound, ...keyed },
+        handler: ({ params, query, res }) => this.handleGetJob(params['id']!, query['offset'] ?? 0, res)
+      })
+      .add({
+        method: 'DELETE',
+        path: '/jobs/:id',
+        operationId: 'cancelBulkCheckJob',
+        summary: 'Cancel a job',
+        tags: ['Jobs'],
+        params: jobParams,
+        responses: { 200: { description: 'Cancelled job', schema: schemaRef('BulkCheckJob') }, 404: notFound, ...keyed },
+        handler: ({ params, res }) => this.handleCancelJob(params['id']!, res)
+      })
+      .add({
+        method: 'GET',
+        path: '/usage',
+        operationId: 'getUsage',
+        summary: 'Quotas and consumption of the calling API key',
+        tags: ['Status'],
+        responses: {
+          200: { description: 'Usage of the key', schema: schemaRef('ApiKeyUsage') },
+          404: { description: 'API keys are not enabled on this server', schema: schemaRef('Error') },
+          ...keyed
+        },
+        handler: ({ apiKey, res }) => this.handleUsage(apiKey, res)
+      })
+      .add({
+        method: 'GET',
+        path: '/openapi.json',
+        operationId: 'getOpenAPIDocument',
+        summary: 'This OpenAPI document',
+        tags: ['Meta'],
+        public: true,
+        responses: { 200: { description: 'OpenAPI 3 document', schema: { type: 'object' } } },
+        handler: ({ res }) => this.handleOpenAPIDocument(res)
+      });
+  }
+
   private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
     try {
       const parsedUrl = url.parse(req.url || '', true);
-      const pathname = parsedUrl.pathname;
-      const method = req.method;
+      const pathname = parsedUrl.pathname || '';
+      const method = req.method || 'GET';
 
       console.log(`${new Date().toISOString()} - ${method} ${pathname}`);
 
-      // Route to appropriate handler
-      switch (`${method} ${pathname}`) {
-        case 'GET /api/health':
-          await this.handleHealthCheck(res);
-          break;
-        case 'POST /api/check-domain':
-          await this.handleDomainCheck(req, res);
-          break;
-        case 'POST /api/validate-domain':
-          await this.handleDomainValidation(req, res);
-          break;
-        case 'POST /api/domain-pricing':
-          await this.handleDomainPricing(req, res);
-          break;
-        default:
-          this.sendError(res, 404, 'Endpoint not found');
+      const match = this.router.match(method, pathname);
+      if (!match) {
+        this.sendError(res, 404, 'Endpoint not found');
+        return;
+      }
+      if ('allowedMethods' in match) {
+        res.setHeader('Allow', match.allowedMethods.join(', '));
+        this.sendError(res, 405, `Method ${method} not allowed`);
+        return;
+      }
+
+      let apiKey: IApiKey | null = null;
+      if (this.apiKeys && !match.route.public) {
+        apiKey = this.authenticate(req, parsedUrl.query);
+        if (!apiKey) {
+          res.setHeader('WWW-Authenticate', 'Bearer');
+          this.sendError(res, 401, 'Missing or invalid API key');
+          return;
+        }
+        // Requests that check domains are charged together with their checks once the request is
+        // valid, so one refused for either quota counts against neither
+        const key = apiKey;
+        if (!match.route.checks && !this.chargeQuota(res, () => this.quotas.consumeRequest(key))) {
+          return;
+        }
+      }
+
+      let body: unknown;
+      if (match.route.body) {
+        try {
+          const text = await this.parseRequestBody(req);
+          body = text.trim() ? this.parseJson(text) : {};
+        } catch {
+          this.sendValidationError(res, [{ in: 'body', field: '', message: 'must be valid JSON' }]);
+          return;
+        }
+      }
+
+      const { query, errors } = this.router.validate(match, parsedUrl.query, body);
+      if (errors.length > 0) {
+        this.sendValidationError(res, errors);
+        return;
+      }
+
+      const request: IRouteRequest = { req, res, params: match.params, query, body, basePath: match.basePath, apiKey };
+      const { checks, checkWindows } = match.route;
+      if (apiKey && checks) {
+        const key = apiKey;
+        if (!this.chargeQuota(res, () => this.quotas.consume(key, { requests: 1, checks: checks(request) }, checkWindows))) {
+          return;
+        }
       }
+
+      await match.route.handler(request);
     } catch (error) {
       console.error('Server error:', error);
       this.sendError(res, 500, 'Internal server error');
@@ -74,30 +469,59 @@ export class ApiServer {
   }
 
   private async handleHealthCheck(res: http.ServerResponse): Promise<void> {
+    const circuits = CircuitBreakerRegistry.getInstance().getSnapshots();
     const health = {
-      status: 'healthy',
+      // Still serving, but checks against upstreams with an open circuit fall back or fail fast
+      status: circuits.some(circuit => circuit.state === CircuitState.OPEN) ? 'degraded' : 'healthy',
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
-      version: '1.0.0'
+      version: '1.0.0',
+      circuits
     };
 
     this.sendJson(res, 200, health);
   }
 
-  private async handleDomainCheck(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
-    try {
-      const body = await this.parseRequestBody(req);
-      const request = this.parseJson(body);
+  private async handleLatencyStats(res: http.ServerResponse): Promise<void> {
+    const tracker = LatencyTracker.getInstance();
 
-      if (!request.baseDomain || typeof request.baseDomain !== 'string') {
-        this.sendError(res, 400, 'Invalid request: baseDomain is required');
-        return;
+    this.sendJson(res, 200, {
+      options: tracker.getOptions(),
+      stats: tracker.getStats(),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  private async handleTLDCatalog(query: Record<string, any>, res: http.ServerResponse): Promise<void> {
+    const filter: ITLDCatalogFilter = {};
+    if (query['type'] !== undefined) {
+      filter.type = query['type'] as TLDType;
+    }
+
+    // Boolean filters: ?idn=true&registrable=true&default=true&secondLevel=false
+    const flags = { idn: 'idn', registrable: 'registrable', checkedByDefault: 'default', secondLevel: 'secondLevel' } as const;
+    for (const [key, param] of Object.entries(flags) as Array<[keyof typeof flags, string]>) {
+      if (typeof query[param] === 'boolean') {
+        filter[key] = query[param];
       }
+    }
 
+    if (query['q']) {
+      filter.search = query['q'];
+    }
+
+    const listing = await this.applicationService.getMediator().send(new GetTLDCatalogQuery(filter)) as TLDCatalogListing;
+    this.sendJson(res, 200, { ...listing, timestamp: new Date().toISOString() });
+  }
+
+  private async handleDomainCheck(request: any, fresh: boolean, res: http.ServerResponse): Promise<void> {
+    try {
       // Delegate to application layer via CQRS
+      // fresh=true (query string or body) skips cached results
       const command = new CheckDomainAvailabilityCommand(
         request.baseDomain,
-        request.tlds || ['.com', '.net', '.org']
+        request.tlds || ApiServer.DEFAULT_TLDS,
+        fresh || request.fresh === true
       );
 
       const result = await this.applicationService.getMediator().send(command) as IQueryResponse;
@@ -111,24 +535,99 @@ export class ApiServer {
     }
   }
 
-  private async handleDomainValidation(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
-    try {
-      const body = await this.parseRequestBody(req);
-      const { domain } = this.parseJson(body);
+  /**
+   * Check a domain and stream the results as Server-Sent Events while its TLDs answer:
+   * "start" with the domains being checked, then "result" (an IDomainResult) and "progress"
+   * for each domain, and finally "complete" with all results or "failed". The stream ends
+   * after the last event, so EventSource clients should close instead of reconnecting.
+   */
+  private async handleDomainCheckStream(query: Record<string, any>, res: http.ServerResponse): Promise<void> {
+    const baseDomain: string = query['baseDomain'];
+    // ?tlds=.com,.net or ?tlds=.com&tlds=.net
+    const tlds: string[] = query['tlds'] || ApiServer.DEFAULT_TLDS;
 
-      if (!domain || typeof domain !== 'string') {
-        this.sendError(res, 400, 'Invalid request: domain is required');
-        return;
+    const requestId = `stream_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const eventBus = this.applicationService.getEventBus();
+    let eventId = 0;
+    const send = (event: string, data: unknown) => {
+      if (!res.writableEnded && !res.destroyed) {
+        res.write(`id: ${++eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
       }
+    };
+
+    // Events of other checks running at the same time are skipped by request ID
+    const onStarted = (event: ICheckStartedEvent) => {
+      if (event.requestId === requestId) {
+        send('start', { requestId, baseDomain, domains: event.domains, total: event.domains.length });
+      }
+    };
+    const onResult = (event: IResultUpdatedEvent) => {
+      if (event.requestId === requestId) {
+        send('result', event.result);
+        send('progress', event.progress);
+      }
+    };
+    const onCompleted = (event: ICheckCompletedEvent) => {
+      if (event.requestId === requestId) {
+        send('complete', { requestId, baseDomain, results: event.results, totalExecutionTime: event.totalExecutionTime });
+      }
+    };
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    const heartbeat = setInterval(() => {
+      if (!res.writableEnded && !res.destroyed) {
+        res.write(': keep-alive\n\n');
+      }
+    }, ApiServer.STREAM_HEARTBEAT_MS);
+
+    eventBus.subscribe(DomainEvents.CHECK_STARTED, onStarted);
+    eventBus.subscribe(DomainEvents.RESULT_UPDATED, onResult);
+    eventBus.subscribe(DomainEvents.CHECK_COMPLETED, onCompleted);
+    const unsubscribe = () => {
+      clearInterval(heartbeat);
+      eventBus.unsubscribe(DomainEvents.CHECK_STARTED, onStarted);
+      eventBus.unsubscribe(DomainEvents.RESULT_UPDATED, onResult);
+      eventBus.unsubscribe(DomainEvents.CHECK_COMPLETED, onCompleted);
+    };
+    // A client that goes away stops receiving events; the check itself still completes
+    res.on('close', unsubscribe);
+
+    try {
+      const command = new CheckDomainAvailabilityCommand(baseDomain, tlds, query['fresh'] === true, requestId);
+      const result = await this.applicationService.getMediator().send(command) as IQueryResponse;
+      if (!result.success) {
+        send('failed', { requestId, baseDomain, message: result.errors[0] || 'Failed to check domain availability', errors: result.errors });
+      }
+    } catch (error) {
+      console.error('Domain check stream error:', error);
+      send('failed', { requestId, baseDomain, message: 'Failed to check domain availability', errors: [] });
+    } finally {
+      unsubscribe();
+      res.end();
+    }
+  }
+
+  private async handleDomainValidation(request: any, res: http.ServerResponse): Promise<void> {
+    try {
+      const { domain, tlds } = request;
 
       // Delegate to application layer via CQRS
-      const command = new ValidateDomainCommand(domain);
-      const isValid = await this.applicationService.getMediator().send(command);
+      const command = new ValidateDomainCommand(domain, tlds);
+      const result = await this.applicationService.getMediator().send(command) as IValidationResult;
       
       this.sendJson(res, 200, { 
         domain, 
-        isValid, 
-        message: isValid ? 'Domain is valid' : 'Invalid domain format' 
+        isValid: result.isValid, 
+        message: result.isValid ? 'Domain is valid' : result.errorMessage || 'Invalid domain format',
+        errors: result.errors,
+        ...(result.isValid && { asciiDomain: result.sanitizedDomain }),
+        ...(result.unicodeDomain && { unicodeDomain: result.unicodeDomain }),
+        ...(result.warnings && { warnings: result.warnings }),
+        ...(result.eligibility && { eligibility: result.eligibility })
       });
     } catch (error) {
       console.error('Domain validation error:', error);
@@ -136,15 +635,9 @@ export class ApiServer {
     }
   }
 
-  private async handleDomainPricing(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  private async handleDomainPricing(request: any, res: http.ServerResponse): Promise<void> {
     try {
-      const body = await this.parseRequestBody(req);
-      const { domain } = this.parseJson(body);
-
-      if (!domain || typeof domain !== 'string') {
-        this.sendError(res, 400, 'Invalid request: domain is required');
-        return;
-      }
+      const { domain } = request;
 
       // Delegate to application layer via CQRS
       const query = new GetDomainPricingQuery(domain);
@@ -162,6 +655,107 @@ export class ApiServer {
     }
   }
 
+  private async handleStartJob(request: any, basePath: string, res: http.ServerResponse): Promise<void> {
+    const { names, tlds, priority, fresh } = request;
+
+    try {
+      const command = new StartBulkCheckJobCommand(names, tlds || ApiServer.DEFAULT_TLDS, priority || 'normal', fresh === true);
+      const job = await this.applicationService.getMediator().send(command) as IBulkCheckJob;
+
+      res.setHeader('Location', `${basePath}/jobs/${encodeURIComponent(job.id)}`);
+      this.sendJson(res, 202, job);
+    } catch (error) {
+      if (error instanceof JobQueueFullError) {
+        this.sendError(res, 503, error.message);
+        return;
+      }
+      console.error('Job start error:', error);
+      this.sendError(res, 500, 'Failed to start job');
+    }
+  }
+
+  private async handleGetJob(jobId: string, offset: number, res: http.ServerResponse): Promise<void> {
+    // ?offset=N skips the results a poller already has
+    const job = await this.applicationService.getMediator().send(new GetBulkCheckJobQuery(jobId, offset)) as IBulkCheckJob | null;
+    if (!job) {
+      this.sendError(res, 404, 'Job not found');
+      return;
+    }
+
+    this.sendJson(res, 200, job);
+  }
+
+  private async handleCancelJob(jobId: string, res: http.ServerResponse): Promise<void> {
+    const job = await this.applicationService.getMediator().send(new CancelBulkCheckJobCommand(jobId)) as IBulkCheckJob | null;
+    if (!job) {
+      this.sendError(res, 404, 'Job not found');
+      return;
+    }
+
+    this.sendJson(res, 200, job);
+  }
+
+  private async handleUsage(apiKey: IApiKey | null, res: http.ServerResponse): Promise<void> {
+    if (!apiKey) {
+      this.sendError(res, 404, 'API keys are not enabled on this server');
+      return;
+    }
+
+    this.sendJson(res, 200, {
+      key: { id: apiKey.id, name: apiKey.name, createdAt: apiKey.createdAt },
+      quotas: apiKey.quotas,
+      usage: this.quotas.getUsage(apiKey),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  private async handleOpenAPIDocument(res: http.ServerResponse): Promise<void> {
+    if (!this.openApiDocument) {
+      const generator = new OpenAPIGenerator({
+        title: 'Domain Availability Checker API',
+        version: '1.0.0',
+        description: 'Check domain availability across TLDs over DNS, WHOIS and RDAP. '
+          + 'Servers with API keys enabled require a key on every operation not marked otherwise.'
+      }, API_SCHEMAS, {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        // For EventSource and WebSocket clients, which cannot set headers
+        accessToken: { type: 'apiKey', in: 'query', name: 'access_token' }
+      });
+      this.openApiDocument = generator.generate(this.router.getRoutes(), this.router.getBasePath());
+    }
+
+    this.sendJson(res, 200, this.openApiDocument);
+  }
+
+  /**
+   * Find the key of a request: "Authorization: Bearer <key>", or ?access_token=<key>
+   */
+  private authenticate(req: http.IncomingMessage, query: Record<string, string | string[] | undefined>): IApiKey | null {
+    const bearer = /^Bearer\s+(\S+)$/i.exec(req.headers['authorization'] || '');
+    const token = bearer ? bearer[1] : query['access_token'];
+    return typeof token === 'string' && token && this.apiKeys ? this.apiKeys.authenticate(token) : null;
+  }
+
+  /**
+   * Charge a request to its key's quotas, answering 429 if one is used up
+   * @returns Whether the request may proceed
+   */
+  private chargeQuota(res: http.ServerResponse, charge: () => void): boolean {
+    try {
+      charge();
+      return true;
+    } catch (error) {
+      if (!(error instanceof QuotaExceededError)) {
+        throw error;
+      }
+      if (error.retryAfterMs !== null) {
+        res.setHeader('Retry-After', String(Math.max(1, Math.ceil(error.retryAfterMs / 1000))));
+      }
+      this.sendError(res, 429, error.message);
+      return false;
+    }
+  }
+
   // HTTP utility methods
   private parseRequestBody(req: http.IncomingMessage): Promise<string> {
     return new Promise((resolve, reject) => {
@@ -194,21 +788,50 @@ export class ApiServer {
     this.sendJson(res, statusCode, error);
   }
 
+  /**
+   * Answer 400 listing every invalid field, e.g. "Invalid request: baseDomain is required"
+   */
+  private sendValidationError(res: http.ServerResponse, errors: IFieldError[]): void {
+    const fields = errors.map(error => `${error.field || error.in} ${error.message}`).join('; ');
+    this.sendJson(res, 400, {
+      error: true,
+      message: `Invalid request: ${fields}`,
+      errors,
+      timestamp: new Date().toISOString()
+    });
+  }
+
   public start(): Promise<void> {
     return new Promise((resolve) => {
       this.server.listen(this.port, () => {
         console.log(`🚀 Domain Checker API Server running on http://localhost:${this.port}`);
-        console.log(`📡 API Endpoints:`);
-        console.log(`   GET  /api/health - Health check`);
-        console.log(`   POST /api/check-domain - Check domain availability`);
-        console.log(`   POST /api/validate-domain - Validate domain format`);
-        console.log(`   POST /api/domain-pricing - Get pricing for specific domain`);
+        console.log(`🔑 API keys: ${this.apiKeys ? 'required' : 'not enabled, the API is open to anyone'}`);
+        console.log(`📡 API Endpoints (the unversioned /api paths are aliases of /api/v1):`);
+        console.log(`   GET  /api/v1/health - Health check`);
+        console.log(`   GET  /api/v1/latency - Observed latency and adaptive timeouts`);
+        console.log(`   GET  /api/v1/tlds - TLD catalog (filters: type, idn, registrable, default, secondLevel, q)`);
+        console.log(`   POST /api/v1/check-domain - Check domain availability`);
+        console.log(`   GET  /api/v1/check-domain/stream - Stream availability results as they arrive (SSE)`);
+        console.log(`   POST /api/v1/validate-domain - Validate domain format`);
+        console.log(`   POST /api/v1/domain-pricing - Get pricing for specific domain`);
+        console.log(`   POST /api/v1/jobs - Start a bulk check job`);
+        console.log(`   GET  /api/v1/jobs/:id - Job progress and results (offset skips results already fetched)`);
+        console.log(`   DELETE /api/v1/jobs/:id - Cancel a job`);
+        console.log(`   GET  /api/v1/usage - Quotas and consumption of the calling API key`);
+        console.log(`   GET  /api/openapi.json - OpenAPI 3 description of these endpoints`);
+        console.log(`   WS   /api/v1/ws - Interactive checking session (subscribe, check, cancel)`);
         resolve();
       });
     });
   }
 
   public stop(): Promise<void> {
+    // Upgraded sockets are no longer tracked by the HTTP server and would keep it from closing
+    for (const session of this.sessions) {
+      session.close(CloseCode.GOING_AWAY, 'Server shutting down');
+    }
+    this.sessions.clear();
+
     return new Promise((resolve) => {
       this.server.close(() => {
         console.log('API Server stopped');
@@ -0,0 +1,276 @@
+import { CheckDomainAvailabilityCommand } from '../../application/commands/CheckDomainAvailabilityCommand';
+import type { IMediator } from '../../patterns/mediator';
+import { DomainEvents } from '../../patterns/observer/IEventBus';
+import type {
+  IEventBus,
+  ICheckStartedEvent,
+  IResultUpdatedEvent,
+  ICheckCompletedEvent
+} from '../../patterns/observer/IEventBus';
+import type { IDomainResult, IQueryResponse } from '../../models';
+import { QuotaExceededError } from '../auth';
+import { CloseCode } from './WebSocketConnection';
+import type { WebSocketConnection } from './WebSocketConnection';
+
+/**
+ * Messages a client sends; every message carries an id its replies are correlated with
+ */
+export type CheckSessionRequest =
+  /** Set the TLDs checked by default and whether a new check supersedes running ones */
+  | { type: 'subscribe'; id: string; tlds?: string[]; supersede?: boolean }
+  /** Check a candidate name across TLDs */
+  | { type: 'check'; id: string; name: string; tlds?: string[]; fresh?: boolean }
+  /** Stop a check (target is its id), or every running check without a target */
+  | { type: 'cancel'; id: string; target?: string };
+
+/**
+ * Messages the server sends; id is that of the request the message answers
+ */
+export type CheckSessionMessage =
+  | { type: 'subscribed'; id: string; tlds: string[]; supersede: boolean }
+  | { type: 'accepted'; id: string; name: string; superseded: string[] }
+  | { type: 'started'; id: string; domains: string[]; total: number }
+  | { type: 'result'; id: string; result: IDomainResult; progress: { completed: number; total: number } }
+  | { type: 'complete'; id: string; results: IDomainResult[]; totalExecutionTime: number }
+  | { type: 'cancelled'; id: string; checks: string[] }
+  | { type: 'error'; id: string | null; message: string; errors?: string[]; retryAfter?: number };
+
+/**
+ * Check Session - the JSON protocol spoken over one WebSocket connection
+ * Checks run through the mediator like any other availability check, and their events are
+ * picked off the event bus by request ID and pushed to the client as each TLD answers.
+ * Cancelling a check stops its messages and skips its TLDs that were not queried yet; lookups
+ * already sent to registries still finish and warm the result cache for the next check.
+ */
+export class CheckSession {
+  /** Running checks per session; typing clients supersede, so this only bounds scripted ones */
+  static readonly MAX_CHECKS = 10;
+  private static readonly MAX_NAME_LENGTH = 253;
+
+  private connection: WebSocketConnection;
+  private mediator: IMediator;
+  private eventBus: IEventBus;
+  private tlds: string[];
+  private supersede = true;
+  /** Running checks: request ID on the event bus -> check id of the client and its cancellation */
+  private checks: Map<string, { id: string; controller: AbortController }> = new Map();
+  private chargeQuota: ((checks: number) => void) | null;
+  private sessionId = `ws_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private checkCount = 0;
+
+  /**
+   * @param chargeQuota - Charges a check of this many domains to the client's API key, throwing
+   * QuotaExceededError if it does not fit its quotas; null when API keys are not enabled
+   */
+  constructor(
+    connection: WebSocketConnection,
+    mediator: IMediator,
+    eventBus: IEventBus,
+    tlds: string[],
+    chargeQuota: ((checks: number) => void) | null = null
+  ) {
+    this.connection = connection;
+    this.mediator = mediator;
+    this.eventBus = eventBus;
+    this.tlds = [...tlds];
+    this.chargeQuota = chargeQuota;
+
+    eventBus.subscribe(DomainEvents.CHECK_STARTED, this.onStarted);
+    eventBus.subscribe(DomainEvents.RESULT_UPDATED, this.onResult);
+    eventBus.subscribe(DomainEvents.CHECK_COMPLETED, this.onCompleted);
+
+    connection.onMessage(message => this.handleMessage(message));
+    connection.onClose(() => this.dispose());
+  }
+
+  /**
+   * Close the session, e.g. when the server shuts down
+   */
+  close(code: number = CloseCode.GOING_AWAY, reason: string = ''): void {
+    this.connection.close(code, reason);
+    this.dispose();
+  }
+
+  /**
+   * Get the ids of the client's running checks
+   */
+  getRunningChecks(): string[] {
+    return Array.from(this.checks.values(), check => check.id);
+  }
+
+  private handleMessage(message: string): void {
+    let request: any;
+    try {
+      request = JSON.parse(message);
+    } catch {
+      this.send({ type: 'error', id: null, message: 'Invalid JSON' });
+      return;
+    }
+
+    if (!request || typeof request !== 'object' || Array.isArray(request)) {
+      this.send({ type: 'error', id: null, message: 'Invalid message: must be a JSON object' });
+      return;
+    }
+    if (typeof request.id !== 'string' || !request.id) {
+      this.send({ type: 'error', id: null, message: 'Invalid message: id is required' });
+      return;
+    }
+
+    switch (request.type) {
+      case 'subscribe':
+        this.handleSubscribe(request);
+        break;
+      case 'check':
+        this.handleCheck(request);
+        break;
+      case 'cancel':
+        this.handleCancel(request);
+        break;
+      default:
+        this.send({ type: 'error', id: request.id, message: 'Invalid message: type must be subscribe, check or cancel' });
+    }
+  }
+
+  private handleSubscribe(request: any): void {
+    if (request.tlds !== undefined && !this.isTLDList(request.tlds)) {
+      this.send({ type: 'error', id: request.id, message: `Invalid request: tlds must be a non-empty array of at most ${CheckDomainAvailabilityCommand.MAX_TLDS} strings` });
+      return;
+    }
+    if (request.supersede !== undefined && typeof request.supersede !== 'boolean') {
+      this.send({ type: 'error', id: request.id, message: 'Invalid request: supersede must be a boolean' });
+      return;
+    }
+
+    if (request.tlds !== undefined) {
+      this.tlds = [...request.tlds];
+    }
+    if (request.supersede !== undefined) {
+      this.supersede = request.supersede;
+    }
+    this.send({ type: 'subscribed', id: request.id, tlds: [...this.tlds], supersede: this.supersede });
+  }
+
+  private handleCheck(request: any): void {
+    const { id, name } = request;
+    if (typeof name !== 'string' || !name.trim() || name.length > CheckSession.MAX_NAME_LENGTH) {
+      this.send({ type: 'error', id, message: 'Invalid request: name is required' });
+      return;
+    }
+    if (request.tlds !== undefined && !this.isTLDList(request.tlds)) {
+      this.send({ type: 'error', id, message: `Invalid request: tlds must be a non-empty array of at most ${CheckDomainAvailabilityCommand.MAX_TLDS} strings` });
+      return;
+    }
+    if (this.getRunningChecks().includes(id)) {
+      this.send({ type: 'error', id, message: `Invalid request: check ${id} is already running` });
+      return;
+    }
+
+    const tlds: string[] = request.tlds || this.tlds;
+    if (!this.supersede && this.checks.size >= CheckSession.MAX_CHECKS) {
+      this.send({ type: 'error', id, message: `Too many checks running: at most ${CheckSession.MAX_CHECKS} per session` });
+      return;
+    }
+    try {
+      this.chargeQuota?.(tlds.length);
+    } catch (error) {
+      if (!(error instanceof QuotaExceededError)) {
+        throw error;
+      }
+      this.send({
+        type: 'error',
+        id,
+        message: error.message,
+        ...(error.retryAfterMs !== null && { retryAfter: Math.max(1, Math.ceil(error.retryAfterMs / 1000)) })
+      });
+      return;
+    }
+
+    const superseded = this.supersede ? this.cancelChecks() : [];
+    const requestId = `${this.sessionId}_${++this.checkCount}`;
+    const controller = new AbortController();
+    this.checks.set(requestId, { id, controller });
+    this.send({ type: 'accepted', id, name, superseded });
+    this.runCheck(requestId, id, name.trim(), tlds, request.fresh === true, controller.signal);
+  }
+
+  private handleCancel(request: any): void {
+    if (request.target !== undefined && typeof request.target !== 'string') {
+      this.send({ type: 'error', id: request.id, message: 'Invalid request: target must be a check id' });
+      return;
+    }
+
+    this.send({ type: 'cancelled', id: request.id, checks: this.cancelChecks(request.target) });
+  }
+
+  private async runCheck(requestId: string, id: string, name: string, tlds: string[], fresh: boolean, signal: AbortSignal): Promise<void> {
+    try {
+      const command = new CheckDomainAvailabilityCommand(name, tlds, fresh, requestId, signal);
+      const response = await this.mediator.send(command) as IQueryResponse;
+      // Successful checks were answered by CHECK_COMPLETED
+      if (!response.success && this.checks.delete(requestId)) {
+        this.send({ type: 'error', id, message: response.errors[0] || 'Failed to check domain availability', errors: response.errors });
+      }
+    } catch (error) {
+      console.error('WebSocket check error:', error);
+      if (this.checks.delete(requestId)) {
+        this.send({ type: 'error', id, message: 'Failed to check domain availability' });
+      }
+    }
+  }
+
+  /**
+   * Stop running checks: their messages stop and their TLDs not queried yet are skipped
+   * @param target - Check id of the client; every running check if omitted
+   * @returns Check ids that were running
+   */
+  private cancelChecks(target?: string): string[] {
+    const cancelled: string[] = [];
+    for (const [requestId, { id, controller }] of this.checks) {
+      if (target === undefined || id === target) {
+        this.checks.delete(requestId);
+        controller.abort();
+        cancelled.push(id);
+      }
+    }
+    return cancelled;
+  }
+
+  // Events of checks from other sessions, and of cancelled checks, are skipped by request ID
+  private onStarted = (event: ICheckStartedEvent): void => {
+    const id = this.checks.get(event.requestId)?.id;
+    if (id !== undefined) {
+      this.send({ type: 'started', id, domains: event.domains, total: event.domains.length });
+    }
+  };
+
+  private onResult = (event: IResultUpdatedEvent): void => {
+    const id = this.checks.get(event.requestId)?.id;
+    if (id !== undefined) {
+      this.send({ type: 'result', id, result: event.result, progress: event.progress });
+    }
+  };
+
+  private onCompleted = (event: ICheckCompletedEvent): void => {
+    const id = this.checks.get(event.requestId)?.id;
+    if (id !== undefined) {
+      this.checks.delete(event.requestId);
+      this.send({ type: 'complete', id, results: event.results, totalExecutionTime: event.totalExecutionTime });
+    }
+  };
+
+  private isTLDList(tlds: unknown): tlds is string[] {
+    return Array.isArray(tlds) && tlds.length > 0 && tlds.length <= CheckDomainAvailabilityCommand.MAX_TLDS &&
+      tlds.every(tld => typeof tld === 'string' && tld.length > 0);
+  }
+
+  private send(message: CheckSessionMessage): void {
+    this.connection.send(JSON.stringify(message));
+  }
+
+  private dispose(): void {
+    this.cancelChecks();
+    this.eventBus.unsubscribe(DomainEvents.CHECK_STARTED, this.onStarted);
+    this.eventBus.unsubscribe(DomainEvents.RESULT_UPDATED, this.onResult);
+    this.eventBus.unsubscribe(DomainEvents.CHECK_COMPLETED, this.onCompleted);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,382 @@
+import { createHash } from 'crypto';
+import type http from 'http';
+import type { Duplex } from 'stream';
+import { TextDecoder } from 'util';
+
+/**
+ * Close codes used by the server (RFC 6455 section 7.4.1)
+ */
+export enum CloseCode {
+  NORMAL = 1000,
+  GOING_AWAY = 1001,
+  PROTOCOL_ERROR = 1002,
+  UNSUPPORTED_DATA = 1003,
+  INVALID_PAYLOAD = 1007,
+  MESSAGE_TOO_BIG = 1009
+}
+
+/**
+ * Options for a WebSocket connection
+ */
+export interface IWebSocketOptions {
+  /** Largest message accepted, in bytes; larger ones close the connection */
+  maxMessageBytes: number;
+  /** Interval of keep-alive pings; a connection that missed the last pong is dropped */
+  heartbeatMs: number;
+}
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/**
+ * WebSocket Connection - server side of RFC 6455 on a socket taken over from the HTTP server
+ * Handles the opening handshake, masking, fragmented messages, ping/pong and the closing
+ * handshake for text messages; extensions and binary messages are not supported.
+ */
+export class WebSocketConnection {
+  private static readonly GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+  private socket: Duplex;
+  private options: IWebSocketOptions;
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentBytes = 0;
+  private fragmented = false;
+  private closeSent = false;
+  private closed = false;
+  private alive = true;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private closeTimer: NodeJS.Timeout | null = null;
+  private decoder = new TextDecoder('utf-8', { fatal: true });
+  private messageListeners: Array<(message: string) => void> = [];
+  private closeListeners: Array<(code: number, reason: string) => void> = [];
+
+  constructor(socket: Duplex, options: Partial<IWebSocketOptions> = {}) {
+    this.socket = socket;
+    this.options = {
+      maxMessageBytes: options.maxMessageBytes ?? 64 * 1024,
+      heartbeatMs: options.heartbeatMs ?? 30000
+    };
+
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('close', () => this.handleClosed(CloseCode.GOING_AWAY, ''));
+    socket.on('error', () => socket.destroy());
+
+    if (this.options.heartbeatMs > 0) {
+      this.heartbeat = setInterval(() => this.ping(), this.options.heartbeatMs);
+    }
+  }
+
+  /**
+   * Complete the opening handshake of an HTTP upgrade request
+   * @param req - Upgrade request
+   * @param socket - Socket of the request
+   * @param head - Bytes the client sent after the request
+   * @returns Connection, or null if the request was refused (the socket is then closed)
+   */
+  static accept(
+    req: http.IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+    options: Partial<IWebSocketOptions> = {}
+  ): WebSocketConnection | null {
+    const key = req.headers['sec-websocket-key'];
+    const upgrade = (req.headers['upgrade'] || '').toLowerCase();
+    if (req.method !== 'GET' || upgrade !== 'websocket' || typeof key !== 'string' || Buffer.from(key, 'base64').length !== 16) {
+      WebSocketConnection.refuse(socket, '400 Bad Request');
+      return null;
+    }
+    if (req.headers['sec-websocket-version'] !== '13') {
+      WebSocketConnection.refuse(socket, '426 Upgrade Required', ['Sec-WebSocket-Version: 13']);
+      return null;
+    }
+
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${WebSocketConnection.acceptKey(key)}`,
+      '',
+      ''
+    ].join('\r\n'));
+
+    const connection = new WebSocketConnection(socket, options);
+    if (head.length > 0) {
+      connection.receive(head);
+    }
+    return connection;
+  }
+
+  /**
+   * Compute the Sec-WebSocket-Accept value for a Sec-WebSocket-Key
+   */
+  static acceptKey(key: string): string {
+    return createHash('sha1').update(key + WebSocketConnection.GUID).digest('base64');
+  }
+
+  /**
+   * Answer an upgrade request with an HTTP error and close its socket
+   */
+  static refuse(socket: Duplex, status: string, headers: string[] = []): void {
+    socket.end([`HTTP/1.1 ${status}`, 'Connection: close', ...headers, '', ''].join('\r\n'));
+  }
+
+  /**
+   * Register a listener for text messages
+   */
+  onMessage(listener: (message: string) => void): void {
+    this.messageListeners.push(listener);
+  }
+
+  /**
+   * Register a listener called once when the connection is closed
+   */
+  onClose(listener: (code: number, reason: string) => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  /**
+   * Send a text message
+   */
+  send(message: string): void {
+    if (!this.closeSent && !this.closed) {
+      this.writeFrame(OPCODE_TEXT, Buffer.from(message, 'utf8'));
+    }
+  }
+
+  /**
+   * Start the closing handshake; the socket is closed when the client answers
+   */
+  close(code: number = CloseCode.NORMAL, reason: string = ''): void {
+    if (this.closeSent || this.closed) {
+      return;
+    }
+    this.closeSent = true;
+
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.writeFrame(OPCODE_CLOSE, payload);
+
+    // Clients that never answer are not waited on for long
+    this.closeTimer = setTimeout(() => this.socket.destroy(), 5000);
+  }
+
+  /**
+   * Check whether the connection is open for messages
+   */
+  isOpen(): boolean {
+    return !this.closeSent && !this.closed;
+  }
+
+  private ping(): void {
+    if (!this.alive) {
+      this.socket.destroy();
+      return;
+    }
+    this.alive = false;
+    this.writeFrame(OPCODE_PING, Buffer.alloc(0));
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (!this.closed) {
+      const frame = this.readFrame();
+      if (!frame) {
+        return;
+      }
+      this.handleFrame(frame.fin, frame.opcode, frame.payload);
+    }
+  }
+
+  /**
+   * Take the next complete frame off the buffer
+   * @returns Frame, or null if more bytes are needed (or the connection was failed)
+   */
+  private readFrame(): { fin: boolean; opcode: number; payload: Buffer } | null {
+    if (this.buffer.length < 2) {
+      return null;
+    }
+
+    const first = this.buffer[0]!;
+    const second = this.buffer[1]!;
+    const fin = (first & 0x80) !== 0;
+    const opcode = first & 0x0f;
+
+    // No extensions are negotiated, and clients must mask every frame
+    if ((first & 0x70) !== 0 || (second & 0x80) === 0) {
+      this.fail(CloseCode.PROTOCOL_ERROR, 'Invalid frame');
+      return null;
+    }
+
+    let length = second & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (this.buffer.length < 4) {
+        return null;
+      }
+      length = this.buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (this.buffer.length < 10) {
+        return null;
+      }
+      const longLength = this.buffer.readBigUInt64BE(2);
+      if (longLength > BigInt(this.options.maxMessageBytes)) {
+        this.fail(CloseCode.MESSAGE_TOO_BIG, 'Message too big');
+        return null;
+      }
+      length = Number(longLength);
+      offset = 10;
+    }
+
+    if (length > this.options.maxMessageBytes) {
+      this.fail(CloseCode.MESSAGE_TOO_BIG, 'Message too big');
+      return null;
+    }
+    if (this.buffer.length < offset + 4 + length) {
+      return null;
+    }
+
+    const mask = this.buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) {
+      payload[i]! ^= mask[i & 3]!;
+    }
+    this.buffer = this.buffer.subarray(offset + 4 + length);
+
+    return { fin, opcode, payload };
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    if (opcode >= OPCODE_CLOSE) {
+      if (!fin || payload.length > 125) {
+        this.fail(CloseCode.PROTOCOL_ERROR, 'Invalid control frame');
+        return;
+      }
+      this.handleControlFrame(opcode, payload);
+      return;
+    }
+
+    if (opcode === OPCODE_BINARY) {
+      this.fail(CloseCode.UNSUPPORTED_DATA, 'Only text messages are supported');
+      return;
+    }
+    if (opcode !== OPCODE_TEXT && opcode !== OPCODE_CONTINUATION) {
+      this.fail(CloseCode.PROTOCOL_ERROR, 'Unknown opcode');
+      return;
+    }
+    // A continuation needs a message to continue, and a new message needs the last one finished
+    if ((opcode === OPCODE_CONTINUATION) !== this.fragmented) {
+      this.fail(CloseCode.PROTOCOL_ERROR, 'Unexpected continuation frame');
+      return;
+    }
+
+    this.fragmentBytes += payload.length;
+    if (this.fragmentBytes > this.options.maxMessageBytes) {
+      this.fail(CloseCode.MESSAGE_TOO_BIG, 'Message too big');
+      return;
+    }
+    this.fragments.push(payload);
+    this.fragmented = !fin;
+    if (!fin) {
+      return;
+    }
+
+    const data = Buffer.concat(this.fragments);
+    this.fragments = [];
+    this.fragmentBytes = 0;
+
+    let message: string;
+    try {
+      message = this.decoder.decode(data);
+    } catch {
+      this.fail(CloseCode.INVALID_PAYLOAD, 'Invalid UTF-8');
+      return;
+    }
+
+    for (const listener of this.messageListeners) {
+      listener(message);
+    }
+  }
+
+  private handleControlFrame(opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODE_PING:
+        this.writeFrame(OPCODE_PONG, payload);
+        break;
+      case OPCODE_PONG:
+        this.alive = true;
+        break;
+      case OPCODE_CLOSE: {
+        const code = payload.length >= 2 ? payload.readUInt16BE(0) : CloseCode.NORMAL;
+        const reason = payload.length > 2 ? payload.subarray(2).toString('utf8') : '';
+        // Echo the close, then end the connection (the server closes the TCP connection first)
+        if (!this.closeSent) {
+          this.closeSent = true;
+          this.writeFrame(OPCODE_CLOSE, payload.subarray(0, 2));
+        }
+        this.socket.end();
+        this.handleClosed(code, reason);
+        break;
+      }
+      default:
+        this.fail(CloseCode.PROTOCOL_ERROR, 'Unknown opcode');
+    }
+  }
+
+  /**
+   * Fail the connection after a protocol violation
+   */
+  private fail(code: CloseCode, reason: string): void {
+    this.close(code, reason);
+    this.socket.end();
+    this.handleClosed(code, reason);
+  }
+
+  private writeFrame(opcode: number, payload: Buffer): void {
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+
+    if (!this.socket.destroyed) {
+      this.socket.write(Buffer.concat([header, payload]));
+    }
+  }
+
+  private handleClosed(code: number, reason: string): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.buffer = Buffer.alloc(0);
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    if (this.closeTimer) {
+      clearTimeout(this.closeTimer);
+      this.closeTimer = null;
+    }
+
+    for (const listener of this.closeListeners) {
+      listener(code, reason);
+    }
+  }
+}
\ No newline at end of file
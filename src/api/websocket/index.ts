@@ -0,0 +1,5 @@
+// WebSocket API for interactive checking sessions
+export { WebSocketConnection, CloseCode } from './WebSocketConnection';
+export type { IWebSocketOptions } from './WebSocketConnection';
+export { CheckSession } from './CheckSession';
+export type { CheckSessionRequest, CheckSessionMessage } from './CheckSession';
\ No newline at end of file
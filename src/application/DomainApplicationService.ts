@@ -1,7 +1,15 @@
 import { Mediator } from '../patterns/mediator';
+import { EventBus } from '../patterns/observer/EventBus';
+import type { IEventBus } from '../patterns/observer/IEventBus';
 import { CheckDomainAvailabilityHandler } from './handlers/CheckDomainAvailabilityHandler';
 import { ValidateDomainHandler } from './handlers/ValidateDomainHandler';
 import { GetDomainPricingHandler } from './handlers/GetDomainPricingHandler';
+import { GetTLDCatalogHandler } from './handlers/GetTLDCatalogHandler';
+import { StartBulkCheckJobHandler } from './handlers/StartBulkCheckJobHandler';
+import { CancelBulkCheckJobHandler } from './handlers/CancelBulkCheckJobHandler';
+import { GetBulkCheckJobHandler } from './handlers/GetBulkCheckJobHandler';
+import { CheckDomainAvailabilityCommand } from './commands/CheckDomainAvailabilityCommand';
+import { BulkCheckJobManager } from './jobs/BulkCheckJobManager';
 
 /**
  * Application service that coordinates domain-related operations
@@ -9,9 +17,16 @@ import { GetDomainPricingHandler } from './handlers/GetDomainPricingHandler';
  */
 export class DomainApplicationService {
   private mediator: Mediator;
+  private eventBus: IEventBus;
+  private jobs: BulkCheckJobManager;
 
   constructor() {
     this.mediator = new Mediator();
+    this.eventBus = new EventBus();
+    // Job names are checked through the mediator like any other check
+    this.jobs = new BulkCheckJobManager((baseDomain, tlds, fresh) =>
+      this.mediator.send(new CheckDomainAvailabilityCommand(baseDomain, tlds, fresh))
+    );
     this.registerHandlers();
   }
 
@@ -22,6 +37,13 @@ export class DomainApplicationService {
     return this.mediator;
   }
 
+  /**
+   * Get the event bus the handlers publish check progress on
+   */
+  getEventBus(): IEventBus {
+    return this.eventBus;
+  }
+
   /**
    * Register all command and query handlers
    */
@@ -29,7 +51,7 @@ export class DomainApplicationService {
     // Register command handlers
     this.mediator.registerCommand(
       'CheckDomainAvailability',
-      new CheckDomainAvailabilityHandler()
+      new CheckDomainAvailabilityHandler(this.eventBus)
     );
 
     this.mediator.registerCommand(
@@ -37,10 +59,30 @@ export class DomainApplicationService {
       new ValidateDomainHandler()
     );
 
+    this.mediator.registerCommand(
+      'StartBulkCheckJob',
+      new StartBulkCheckJobHandler(this.jobs)
+    );
+
+    this.mediator.registerCommand(
+      'CancelBulkCheckJob',
+      new CancelBulkCheckJobHandler(this.jobs)
+    );
+
     // Register query handlers
     this.mediator.registerQuery(
       'GetDomainPricing',
       new GetDomainPricingHandler()
     );
+
+    this.mediator.registerQuery(
+      'GetTLDCatalog',
+      new GetTLDCatalogHandler()
+    );
+
+    this.mediator.registerQuery(
+      'GetBulkCheckJob',
+      new GetBulkCheckJobHandler(this.jobs)
+    );
   }
 }
\ No newline at end of file
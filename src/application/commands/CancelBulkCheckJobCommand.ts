@@ -0,0 +1,11 @@
+import type { ICommand } from '../../patterns/mediator';
+import type { IBulkCheckJob } from '../jobs';
+
+/**
+ * Command to cancel a background bulk check job
+ */
+export class CancelBulkCheckJobCommand implements ICommand<IBulkCheckJob | null> {
+  readonly type = 'CancelBulkCheckJob';
+
+  constructor(public readonly jobId: string) {}
+}
\ No newline at end of file
@@ -5,10 +5,19 @@ import type { IQueryResponse } from '../../models';
  * Command to check domain availability across multiple TLDs
  */
 export class CheckDomainAvailabilityCommand implements ICommand<IQueryResponse> {
+  /** TLDs one check may name, so a single request cannot start thousands of lookups */
+  static readonly MAX_TLDS = 100;
+
   readonly type = 'CheckDomainAvailability';
 
   constructor(
     public readonly baseDomain: string,
-    public readonly tlds: string[] = ['.com', '.net', '.org']
+    public readonly tlds: string[] = ['.com', '.net', '.org'],
+    /** Bypass cached results */
+    public readonly fresh: boolean = false,
+    /** Identifies the check in the response and in the events published while it runs */
+    public readonly requestId?: string,
+    /** Aborting it skips the TLDs not queried yet, e.g. when the client no longer wants the results */
+    public readonly signal?: AbortSignal
   ) {}
 }
\ No newline at end of file
@@ -0,0 +1,17 @@
+import type { ICommand } from '../../patterns/mediator';
+import type { BulkCheckJobPriority, IBulkCheckJob } from '../jobs';
+
+/**
+ * Command to check a list of names in a background job
+ */
+export class StartBulkCheckJobCommand implements ICommand<IBulkCheckJob> {
+  readonly type = 'StartBulkCheckJob';
+
+  constructor(
+    public readonly names: string[],
+    public readonly tlds: string[] = ['.com', '.net', '.org'],
+    public readonly priority: BulkCheckJobPriority = 'normal',
+    /** Bypass cached results */
+    public readonly fresh: boolean = false
+  ) {}
+}
\ No newline at end of file
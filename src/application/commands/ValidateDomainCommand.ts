@@ -1,10 +1,15 @@
 import type { ICommand } from '../../patterns/mediator';
+import type { IValidationResult } from '../../controllers/IDomainController';
 
 /**
  * Command to validate domain format
  */
-export class ValidateDomainCommand implements ICommand<boolean> {
+export class ValidateDomainCommand implements ICommand<IValidationResult> {
   readonly type = 'ValidateDomain';
 
-  constructor(public readonly domain: string) {}
+  /**
+   * @param domain - Domain name to validate
+   * @param tlds - TLDs whose IDN tables the name is checked against
+   */
+  constructor(public readonly domain: string, public readonly tlds?: string[]) {}
 }
\ No newline at end of file
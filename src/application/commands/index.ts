@@ -1,2 +1,4 @@
 export * from './CheckDomainAvailabilityCommand';
-export * from './ValidateDomainCommand';
\ No newline at end of file
+export * from './ValidateDomainCommand';
+export * from './StartBulkCheckJobCommand';
+export * from './CancelBulkCheckJobCommand';
\ No newline at end of file
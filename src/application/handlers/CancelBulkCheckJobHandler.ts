@@ -0,0 +1,21 @@
+import type { ICommandHandler } from '../../patterns/mediator';
+import type { CancelBulkCheckJobCommand } from '../commands/CancelBulkCheckJobCommand';
+import type { BulkCheckJobManager, IBulkCheckJob } from '../jobs';
+
+/**
+ * Handler for cancelling bulk check jobs
+ */
+export class CancelBulkCheckJobHandler implements ICommandHandler<CancelBulkCheckJobCommand, IBulkCheckJob | null> {
+  private jobs: BulkCheckJobManager;
+
+  constructor(jobs: BulkCheckJobManager) {
+    this.jobs = jobs;
+  }
+
+  /**
+   * Handle cancel bulk check job command
+   */
+  async handle(command: CancelBulkCheckJobCommand): Promise<IBulkCheckJob | null> {
+    return this.jobs.cancel(command.jobId);
+  }
+}
\ No newline at end of file
@@ -1,78 +1,152 @@
 import type { ICommandHandler } from '../../patterns/mediator';
-import type { CheckDomainAvailabilityCommand } from '../commands/CheckDomainAvailabilityCommand';
-import type { IQueryResponse, IDisplayPricing } from '../../models';
+import { CheckDomainAvailabilityCommand } from '../commands/CheckDomainAvailabilityCommand';
+import type { IQueryResponse, IDisplayPricing, IDomainResult, IRegistrationEligibility } from '../../models';
+import { AvailabilityStatus } from '../../models/AvailabilityStatus';
+import { DomainEvents } from '../../patterns/observer/IEventBus';
+import type { IEventBus, ICheckStartedEvent, IResultUpdatedEvent, ICheckCompletedEvent } from '../../patterns/observer/IEventBus';
+import type { IQueryStrategy } from '../../patterns/strategy/IQueryStrategy';
 import { DomainQueryEngine } from '../../services/DomainQueryEngine';
 import { HybridQueryService } from '../../services/HybridQueryService';
+import { ZoneFileQueryStrategy } from '../../services/ZoneFileQueryStrategy';
+import { ZoneFileIndex } from '../../services/zone/ZoneFileIndex';
 import { DomainPricingService } from '../../services/DomainPricingService';
+import { PremiumNameDetector } from '../../services/PremiumNameDetector';
+import { DomainResultCache } from '../../services/DomainResultCache';
+import { LatencyTracker } from '../../services/latency/LatencyTracker';
 import { InputValidator } from '../../validators/InputValidator';
+import { RegistrationRulesEngine } from '../../validators/RegistrationRulesEngine';
 
 /**
  * Handler for domain availability checking command
  * Contains all business logic for domain checking workflow
+ * With an event bus, each result is published (RESULT_UPDATED) as soon as its TLD answers,
+ * between CHECK_STARTED and CHECK_COMPLETED events carrying the command's request ID.
  */
 export class CheckDomainAvailabilityHandler 
   implements ICommandHandler<CheckDomainAvailabilityCommand, IQueryResponse> {
   
   private queryEngine: DomainQueryEngine;
+  private queryStrategy: IQueryStrategy;
   private validator: InputValidator;
+  private registrationRules: RegistrationRulesEngine;
   private pricingService: DomainPricingService;
+  private premiumNames: PremiumNameDetector;
+  private eventBus: IEventBus | null;
 
-  constructor() {
+  constructor(eventBus: IEventBus | null = null) {
+    this.eventBus = eventBus;
     this.queryEngine = new DomainQueryEngine();
     this.validator = new InputValidator();
+    this.registrationRules = new RegistrationRulesEngine();
     this.pricingService = new DomainPricingService();
+    this.premiumNames = new PremiumNameDetector();
     
-    // Initialize query strategy
-    const hybridStrategy = new HybridQueryService();
-    this.queryEngine.setQueryStrategy(hybridStrategy);
+    // Initialize query strategy: imported zone files answer first, the hybrid check confirms
+    // names missing from them and checks TLDs without a zone file, with the timeouts and retries
+    // each TLD's observed latency calls for
+    const latencyTracker = LatencyTracker.getInstance();
+    const hybridStrategy = new HybridQueryService(latencyTracker);
+    this.queryStrategy = new ZoneFileQueryStrategy(ZoneFileIndex.getInstance(), hybridStrategy);
+    this.queryEngine.setQueryStrategy(this.queryStrategy);
+    this.queryEngine.setResultCache(DomainResultCache.getInstance());
+    this.queryEngine.setLatencyTracker(latencyTracker);
   }
 
   /**
    * Handle domain availability check command
    */
   async handle(command: CheckDomainAvailabilityCommand): Promise<IQueryResponse> {
-    const { baseDomain, tlds } = command;
+    const { baseDomain, tlds, fresh, signal } = command;
+    const queryId = command.requestId || this.generateQueryId();
+    const startTime = Date.now();
 
-    // Validate input
-    if (!this.validator.validateDomainName(baseDomain).isValid) {
+    // Validate input; all-numeric names are accepted or refused by each registry's rules below
+    const validation = this.validator.validateDomainName(baseDomain, { allowAllNumeric: true });
+    if (!validation.isValid) {
       return {
         success: false,
-        queryId: this.generateQueryId(),
+        queryId,
         results: [],
         errors: [`Invalid domain format: ${baseDomain}`],
         timestamp: new Date().toISOString()
       };
     }
 
+    if (tlds && tlds.length > CheckDomainAvailabilityCommand.MAX_TLDS) {
+      return {
+        success: false,
+        queryId,
+        results: [],
+        errors: [`Too many TLDs: at most ${CheckDomainAvailabilityCommand.MAX_TLDS} per check`],
+        timestamp: new Date().toISOString()
+      };
+    }
+
     try {
-      // Execute domain checking logic
-      const results = await this.queryEngine.checkMultipleTLDs(baseDomain, tlds);
-      
-      // Add pricing information for available domains
-      const enrichedResults = results.map(result => {
-        if (result.status === 'available') {
-          const pricing = this.pricingService.getDomainPricing(result.domain);
-          if (pricing) {
-            const displayPricing: IDisplayPricing = {
-              firstYearPrice: `$${pricing.firstYearPrice}`,
-              renewalPrice: `$${pricing.renewalPrice}`,
-              registrar: pricing.registrar,
-              registrarUrl: pricing.registrarUrl,
-              isPremium: pricing.isPremium,
-              ...(pricing.notes && { notes: pricing.notes })
-            };
-            return {
-              ...result,
-              pricing: displayPricing
-            };
-          }
+      // Internationalized names are looked up by their A-label, and only under TLDs whose
+      // IDN tables accept their characters; the other TLDs, suffixes that are not public
+      // suffixes (e.g. ".example.com"), TLDs closed to registration and TLDs whose
+      // registration rules the name breaks are answered without a lookup
+      const asciiDomain = validation.sanitizedDomain;
+      const targetTlds = tlds || this.queryEngine.getSupportedTLDs();
+      const rejected = new Map<string, IDomainResult>();
+      const eligibility = new Map<string, IRegistrationEligibility>();
+      for (const tld of targetTlds) {
+        const tldError = this.queryEngine.validateTLD(tld);
+        if (tldError) {
+          rejected.set(tld, this.createRejectedResult(asciiDomain, tld, tldError));
+          continue;
+        }
+
+        const tldEligibility = this.registrationRules.evaluate(asciiDomain, tld);
+        eligibility.set(tld, tldEligibility);
+
+        const tldErrors = this.validator.validateForTLD(asciiDomain, tld).map(error => error.message);
+        if (tldErrors.length > 0 || !tldEligibility.eligible) {
+          rejected.set(tld, this.createRejectedResult(asciiDomain, tld, [...tldErrors, ...tldEligibility.violations].join('; ')));
         }
-        return result;
+      }
+
+      this.eventBus?.publish<ICheckStartedEvent>(DomainEvents.CHECK_STARTED, {
+        domains: targetTlds.map(tld => `${asciiDomain}${tld}`),
+        requestId: queryId,
+        strategy: this.queryStrategy.getName()
+      });
+
+      // Results are enriched and published one at a time as their TLDs answer, rejected TLDs first
+      const enriched = new Map<string, IDomainResult>();
+      const publishResult = (result: IDomainResult) => {
+        const enrichedResult = this.enrichResult(result, validation.unicodeDomain, eligibility.get(result.tld));
+        enriched.set(result.tld, enrichedResult);
+        this.eventBus?.publish<IResultUpdatedEvent>(DomainEvents.RESULT_UPDATED, {
+          requestId: queryId,
+          result: enrichedResult,
+          progress: { completed: enriched.size, total: targetTlds.length }
+        });
+      };
+      rejected.forEach(publishResult);
+
+      // Execute domain checking logic
+      const queryTlds = targetTlds.filter(tld => !rejected.has(tld));
+      const queried = queryTlds.length > 0
+        ? await this.queryEngine.checkMultipleTLDs(asciiDomain, queryTlds, { fresh, onResult: publishResult, ...(signal && { signal }) })
+        : [];
+      const results = rejected.size > 0
+        ? targetTlds.map(tld => rejected.get(tld) || queried.find(result => result.tld === tld)).filter((result): result is IDomainResult => !!result)
+        : queried;
+      const enrichedResults = results.map(result =>
+        enriched.get(result.tld) ?? this.enrichResult(result, validation.unicodeDomain, eligibility.get(result.tld))
+      );
+
+      this.eventBus?.publish<ICheckCompletedEvent>(DomainEvents.CHECK_COMPLETED, {
+        results: enrichedResults,
+        requestId: queryId,
+        totalExecutionTime: Date.now() - startTime
       });
       
       return {
         success: true,
-        queryId: this.generateQueryId(),
+        queryId,
         results: enrichedResults,
         errors: [],
         timestamp: new Date().toISOString()
@@ -80,7 +154,7 @@ export class CheckDomainAvailabilityHandler
     } catch (error) {
       return {
         success: false,
-        queryId: this.generateQueryId(),
+        queryId,
         results: [],
         errors: [error instanceof Error ? error.message : 'Unknown error occurred'],
         timestamp: new Date().toISOString()
@@ -88,6 +162,56 @@ export class CheckDomainAvailabilityHandler
     }
   }
 
+  /**
+   * Flag reserved and premium names, and add registration rules and pricing information
+   * for registrable domains
+   */
+  private enrichResult(queryResult: IDomainResult, unicodeDomain: string | undefined, tldEligibility: IRegistrationEligibility | undefined): IDomainResult {
+    const result = this.premiumNames.annotate({
+      ...queryResult,
+      ...(unicodeDomain && { unicodeDomain: `${unicodeDomain}${queryResult.tld}` }),
+      ...(tldEligibility && { eligibility: tldEligibility })
+    });
+    if (result.status === AvailabilityStatus.AVAILABLE || result.status === AvailabilityStatus.PREMIUM) {
+      const pricing = this.pricingService.getDomainPricing(result.domain);
+      if (pricing) {
+        // Registry premium names cost more than the standard TLD price; names on a premium
+        // list are priced by their tier, others only as far as the registry tells
+        const isPremiumName = result.status === AvailabilityStatus.PREMIUM;
+        const notes = isPremiumName && !pricing.tier ? 'Registry premium name - price is set by the registry' : pricing.notes;
+        const displayPricing: IDisplayPricing = {
+          firstYearPrice: `$${pricing.firstYearPrice}`,
+          renewalPrice: `$${pricing.renewalPrice}`,
+          registrar: pricing.registrar,
+          registrarUrl: pricing.registrarUrl,
+          isPremium: pricing.isPremium || isPremiumName,
+          ...(pricing.tier && { tier: pricing.tier }),
+          ...(notes && { notes })
+        };
+        return {
+          ...result,
+          pricing: displayPricing
+        };
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Create the result for a TLD that does not accept the name
+   */
+  private createRejectedResult(baseDomain: string, tld: string, error: string): IDomainResult {
+    return {
+      domain: `${baseDomain}${tld}`,
+      baseDomain,
+      tld,
+      status: AvailabilityStatus.ERROR,
+      lastChecked: new Date(),
+      checkMethod: 'HYBRID',
+      error
+    };
+  }
+
   private generateQueryId(): string {
     return `query_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
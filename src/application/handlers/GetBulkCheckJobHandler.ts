@@ -0,0 +1,22 @@
+import type { IQueryHandler } from '../../patterns/mediator';
+import type { GetBulkCheckJobQuery } from '../queries/GetBulkCheckJobQuery';
+import type { BulkCheckJobManager, IBulkCheckJob } from '../jobs';
+
+/**
+ * Handler for bulk check job query
+ * Reports progress, the results so far and failed names
+ */
+export class GetBulkCheckJobHandler implements IQueryHandler<GetBulkCheckJobQuery, IBulkCheckJob | null> {
+  private jobs: BulkCheckJobManager;
+
+  constructor(jobs: BulkCheckJobManager) {
+    this.jobs = jobs;
+  }
+
+  /**
+   * Handle bulk check job query
+   */
+  async handle(query: GetBulkCheckJobQuery): Promise<IBulkCheckJob | null> {
+    return this.jobs.get(query.jobId, query.resultOffset);
+  }
+}
\ No newline at end of file
@@ -27,16 +27,12 @@ export class GetDomainPricingHandler
 
     return {
       domain: query.domain,
-      tld: this.extractTLD(query.domain),
+      tld: pricing.tld,
       registrationPrice: pricing.firstYearPrice,
       renewalPrice: pricing.renewalPrice,
       currency: 'USD',
-      isPremium: pricing.isPremium
+      isPremium: pricing.isPremium,
+      ...(pricing.tier && { tier: pricing.tier })
     };
   }
-
-  private extractTLD(domain: string): string {
-    const parts = domain.split('.');
-    return parts.length > 1 ? `.${parts[parts.length - 1]}` : '';
-  }
 }
\ No newline at end of file
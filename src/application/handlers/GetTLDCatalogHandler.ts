@@ -0,0 +1,32 @@
+import type { IQueryHandler } from '../../patterns/mediator';
+import type { GetTLDCatalogQuery, TLDCatalogListing } from '../queries/GetTLDCatalogQuery';
+import { TLDCatalog } from '../../services/catalog';
+import { RegistryBootstrapService } from '../../services/RegistryBootstrapService';
+
+/**
+ * Handler for TLD catalog query
+ * Lists catalog entries matching the query's filter, marking the TLDs no registry endpoint is known for
+ */
+export class GetTLDCatalogHandler implements IQueryHandler<GetTLDCatalogQuery, TLDCatalogListing> {
+  private catalog: TLDCatalog;
+  private bootstrap: RegistryBootstrapService;
+
+  constructor(bootstrap: RegistryBootstrapService = RegistryBootstrapService.getInstance()) {
+    this.catalog = TLDCatalog.getInstance();
+    this.bootstrap = bootstrap;
+  }
+
+  /**
+   * Handle TLD catalog query
+   */
+  async handle(query: GetTLDCatalogQuery): Promise<TLDCatalogListing> {
+    const tlds = this.catalog.getAll(query.filter)
+      .map(entry => ({ ...entry, supported: this.bootstrap.hasEndpoint(entry.tld) }));
+
+    return {
+      tlds,
+      total: tlds.length,
+      publication: this.catalog.getPublication()
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+import type { ICommandHandler } from '../../patterns/mediator';
+import type { StartBulkCheckJobCommand } from '../commands/StartBulkCheckJobCommand';
+import type { BulkCheckJobManager, IBulkCheckJob } from '../jobs';
+
+/**
+ * Handler for starting bulk check jobs
+ * Queues the job's names; they are checked in the background
+ */
+export class StartBulkCheckJobHandler implements ICommandHandler<StartBulkCheckJobCommand, IBulkCheckJob> {
+  private jobs: BulkCheckJobManager;
+
+  constructor(jobs: BulkCheckJobManager) {
+    this.jobs = jobs;
+  }
+
+  /**
+   * Handle start bulk check job command
+   */
+  async handle(command: StartBulkCheckJobCommand): Promise<IBulkCheckJob> {
+    return this.jobs.start({
+      names: command.names,
+      tlds: command.tlds,
+      priority: command.priority,
+      fresh: command.fresh
+    });
+  }
+}
\ No newline at end of file
@@ -1,23 +1,56 @@
 import type { ICommandHandler } from '../../patterns/mediator';
 import type { ValidateDomainCommand } from '../commands/ValidateDomainCommand';
+import type { IValidationResult } from '../../controllers/IDomainController';
+import type { IRegistrationEligibility } from '../../models';
 import { InputValidator } from '../../validators/InputValidator';
+import { RegistrationRulesEngine } from '../../validators/RegistrationRulesEngine';
+import { TLDService } from '../../services/TLDService';
 
 /**
  * Handler for domain validation command
  * Contains validation business logic
  */
-export class ValidateDomainHandler implements ICommandHandler<ValidateDomainCommand, boolean> {
+export class ValidateDomainHandler implements ICommandHandler<ValidateDomainCommand, IValidationResult> {
   private validator: InputValidator;
+  private tldService: TLDService;
+  private registrationRules: RegistrationRulesEngine;
 
   constructor() {
     this.validator = new InputValidator();
+    this.tldService = new TLDService();
+    this.registrationRules = new RegistrationRulesEngine();
   }
 
   /**
    * Handle domain validation command
    */
-  async handle(command: ValidateDomainCommand): Promise<boolean> {
-    const result = this.validator.validateDomainName(command.domain);
-    return result.isValid;
+  async handle(command: ValidateDomainCommand): Promise<IValidationResult> {
+    // Whether an all-numeric name is acceptable depends on the registry, so it is left to the
+    // registration rules when the caller names TLDs
+    const tlds = command.tlds || [];
+    const result = this.validator.validateDomainName(command.domain, { allowAllNumeric: tlds.length > 0 });
+    if (!result.isValid || tlds.length === 0) {
+      return result;
+    }
+
+    // TLDs that are closed, do not accept an internationalized name or whose rules the name
+    // breaks do not make it invalid for the others
+    const warnings: string[] = [];
+    const eligibility: IRegistrationEligibility[] = [];
+    for (const tld of tlds) {
+      const tldError = this.tldService.validateTLD(tld);
+      if (tldError) {
+        warnings.push(tldError);
+        continue;
+      }
+
+      const tldEligibility = this.registrationRules.evaluate(result.sanitizedDomain, tld);
+      warnings.push(
+        ...this.validator.validateForTLD(result.sanitizedDomain, tld).map(error => error.message),
+        ...tldEligibility.violations
+      );
+      eligibility.push(tldEligibility);
+    }
+    return { ...result, eligibility, ...(warnings.length > 0 && { warnings }) };
   }
 }
\ No newline at end of file
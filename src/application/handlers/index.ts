@@ -1,3 +1,7 @@
 export * from './CheckDomainAvailabilityHandler';
 export * from './ValidateDomainHandler';
-export * from './GetDomainPricingHandler';
\ No newline at end of file
+export * from './GetDomainPricingHandler';
+export * from './GetTLDCatalogHandler';
+export * from './StartBulkCheckJobHandler';
+export * from './CancelBulkCheckJobHandler';
+export * from './GetBulkCheckJobHandler';
\ No newline at end of file
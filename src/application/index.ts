@@ -1,4 +1,5 @@
 export * from './DomainApplicationService';
 export * from './commands';
 export * from './queries';
-export * from './handlers';
\ No newline at end of file
+export * from './handlers';
+export * from './jobs';
\ No newline at end of file
@@ -0,0 +1,298 @@
+import { randomUUID } from 'crypto';
+import { CommandQueue, CommandPriority } from '../../patterns/command/CommandQueue';
+import type { ICommand, ICommandResult } from '../../patterns/command/ICommand';
+import type { IDomainResult, IQueryResponse } from '../../models';
+import { NameCheckCommand } from './NameCheckCommand';
+import { JobQueueFullError } from './JobQueueFullError';
+
+export type BulkCheckJobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+export type BulkCheckJobPriority = 'low' | 'normal' | 'high';
+
+/**
+ * Checks one name across TLDs
+ */
+export type NameChecker = (baseDomain: string, tlds: string[], fresh: boolean) => Promise<IQueryResponse>;
+
+/**
+ * Names to check in a job
+ */
+export interface IBulkCheckJobRequest {
+  /** Base names (e.g., "example"); duplicates are checked once */
+  names: string[];
+  /** TLDs to check every name under */
+  tlds: string[];
+  /** Queue priority relative to other jobs (default: normal) */
+  priority?: BulkCheckJobPriority;
+  /** Skip cached results */
+  fresh?: boolean;
+}
+
+/**
+ * Name whose check failed
+ */
+export interface IBulkCheckFailure {
+  name: string;
+  error: string;
+}
+
+/**
+ * State of a bulk check job
+ */
+export interface IBulkCheckJob {
+  id: string;
+  status: BulkCheckJobStatus;
+  priority: BulkCheckJobPriority;
+  tlds: string[];
+  createdAt: string;
+  /** When the first name was checked */
+  startedAt: string | null;
+  /** When the last name was checked or the job was cancelled */
+  finishedAt: string | null;
+  progress: {
+    /** Names in the job */
+    total: number;
+    /** Names whose results are in */
+    checked: number;
+    /** Names whose check failed */
+    failed: number;
+    /** Names left unchecked when the job was cancelled */
+    cancelled: number;
+    /** Names still queued or being checked */
+    pending: number;
+  };
+  /** Results from resultOffset on, in the order their names finished */
+  results: IDomainResult[];
+  resultOffset: number;
+  totalResults: number;
+  failures: IBulkCheckFailure[];
+}
+
+interface IJobState {
+  id: string;
+  status: BulkCheckJobStatus;
+  priority: BulkCheckJobPriority;
+  tlds: string[];
+  fresh: boolean;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  total: number;
+  /** Names still queued or being checked, by queue command ID */
+  pending: Map<string, string>;
+  checked: number;
+  cancelled: number;
+  results: IDomainResult[];
+  failures: IBulkCheckFailure[];
+}
+
+/**
+ * Bulk Check Job Manager - checks large lists of names in the background
+ * Each name becomes a command in a CommandQueue shared by all jobs, so the queue's priorities
+ * decide which job goes first and its concurrency limits how hard the registries are asked.
+ * Jobs are kept in memory and can be polled for an hour after they finish; past MAX_FINISHED_JOBS
+ * finished jobs the oldest ones are dropped sooner.
+ */
+export class BulkCheckJobManager {
+  static readonly MAX_NAMES = 5000;
+  static readonly MAX_FINISHED_JOBS = 100;
+  private static readonly PRIORITIES: Record<BulkCheckJobPriority, CommandPriority> = {
+    low: CommandPriority.LOW,
+    normal: CommandPriority.NORMAL,
+    high: CommandPriority.HIGH
+  };
+  private static readonly RETENTION_MS = 60 * 60 * 1000;
+
+  private jobs: Map<string, IJobState> = new Map();
+  private commandJobs: Map<string, IJobState> = new Map();
+  private checkName: NameChecker;
+  private queue: CommandQueue;
+
+  constructor(
+    checkName: NameChecker,
+    queue: CommandQueue = new CommandQueue({
+      maxConcurrency: 5,
+      maxQueueSize: 20000,
+      processingDelay: 50,
+      maxAttempts: 2,
+      retainResults: false
+    })
+  ) {
+    this.checkName = checkName;
+    this.queue = queue;
+    this.queue.onSettled((command, result) => this.recordResult(command, result));
+  }
+
+  /**
+   * Get the names a job checks: trimmed, lowercased and without blanks or duplicates
+   * @param names - Names as requested
+   * @returns Names to be checked
+   */
+  static normalizeNames(names: string[]): string[] {
+    return Array.from(new Set(names.map(name => name.trim().toLowerCase()).filter(Boolean)));
+  }
+
+  /**
+   * Queue the names of a new job
+   * @returns The queued job
+   * @throws Error if there are no names or more than MAX_NAMES
+   * @throws JobQueueFullError if the queue has no room for the names
+   */
+  start(request: IBulkCheckJobRequest): IBulkCheckJob {
+    this.pruneFinishedJobs();
+
+    const names = BulkCheckJobManager.normalizeNames(request.names);
+    if (names.length === 0) {
+      throw new Error('No names to check');
+    }
+    if (names.length > BulkCheckJobManager.MAX_NAMES) {
+      throw new Error(`Too many names: at most ${BulkCheckJobManager.MAX_NAMES} per job`);
+    }
+
+    const available = this.queue.getConfig().maxQueueSize - this.queue.getStatistics().queueSize;
+    if (names.length > available) {
+      throw new JobQueueFullError(names.length, Math.max(0, available));
+    }
+
+    const priority = request.priority || 'normal';
+    const job: IJobState = {
+      id: randomUUID(),
+      status: 'queued',
+      priority,
+      tlds: [...request.tlds],
+      fresh: request.fresh === true,
+      createdAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
+      total: names.length,
+      pending: new Map(),
+      checked: 0,
+      cancelled: 0,
+      results: [],
+      failures: []
+    };
+
+    const commands = names.map(name => {
+      const command = new NameCheckCommand(name, baseDomain => {
+        if (!job.startedAt) {
+          job.startedAt = new Date();
+          job.status = 'running';
+        }
+        return this.checkName(baseDomain, job.tlds, job.fresh);
+      }, BulkCheckJobManager.PRIORITIES[priority]);
+      job.pending.set(command.getId(), name);
+      this.commandJobs.set(command.getId(), job);
+      return command;
+    });
+
+    this.jobs.set(job.id, job);
+    this.queue.enqueueBatch(commands, BulkCheckJobManager.PRIORITIES[priority]);
+    return this.snapshot(job);
+  }
+
+  /**
+   * Get a job's state
+   * @param jobId - Job ID
+   * @param resultOffset - Skip the results a poller already has
+   * @returns Job, or null if it does not exist (anymore)
+   */
+  get(jobId: string, resultOffset: number = 0): IBulkCheckJob | null {
+    this.pruneFinishedJobs();
+    const job = this.jobs.get(jobId);
+    return job ? this.snapshot(job, resultOffset) : null;
+  }
+
+  /**
+   * Cancel a job: queued names are dropped, and results of names being checked are ignored
+   * @param jobId - Job ID
+   * @returns Job, or null if it does not exist (anymore)
+   */
+  cancel(jobId: string): IBulkCheckJob | null {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return null;
+    }
+
+    if (job.status === 'queued' || job.status === 'running') {
+      for (const commandId of job.pending.keys()) {
+        this.queue.cancel(commandId);
+        this.commandJobs.delete(commandId);
+      }
+      job.cancelled = job.pending.size;
+      job.pending.clear();
+      job.status = 'cancelled';
+      job.finishedAt = new Date();
+    }
+
+    return this.snapshot(job);
+  }
+
+  private recordResult(command: ICommand<any>, result: ICommandResult<IQueryResponse>): void {
+    const job = this.commandJobs.get(command.getId());
+    if (!job) {
+      return;
+    }
+    this.commandJobs.delete(command.getId());
+
+    const name = job.pending.get(command.getId())!;
+    job.pending.delete(command.getId());
+
+    // A check that ran but refused the name (e.g., invalid format) is a failure too
+    const response = result.success ? result.data : undefined;
+    if (response?.success) {
+      job.results.push(...response.results);
+      job.checked++;
+    } else {
+      job.failures.push({
+        name,
+        error: response ? response.errors.join('; ') || 'Check failed' : result.error || 'Unknown error'
+      });
+    }
+
+    if (job.pending.size === 0) {
+      job.status = 'completed';
+      job.finishedAt = new Date();
+    }
+  }
+
+  private snapshot(job: IJobState, resultOffset: number = 0): IBulkCheckJob {
+    const offset = Math.min(Math.max(0, Math.floor(resultOffset)), job.results.length);
+    return {
+      id: job.id,
+      status: job.status,
+      priority: job.priority,
+      tlds: [...job.tlds],
+      createdAt: job.createdAt.toISOString(),
+      startedAt: job.startedAt ? job.startedAt.toISOString() : null,
+      finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+      progress: {
+        total: job.total,
+        checked: job.checked,
+        failed: job.failures.length,
+        cancelled: job.cancelled,
+        pending: job.pending.size
+      },
+      results: job.results.slice(offset),
+      resultOffset: offset,
+      totalResults: job.results.length,
+      failures: [...job.failures]
+    };
+  }
+
+  private pruneFinishedJobs(): void {
+    const cutoff = Date.now() - BulkCheckJobManager.RETENTION_MS;
+    const finished: IJobState[] = [];
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && job.finishedAt.getTime() < cutoff) {
+        this.jobs.delete(id);
+      } else if (job.finishedAt) {
+        finished.push(job);
+      }
+    }
+
+    // Results of finished jobs stay in memory, so only so many of them are kept
+    finished
+      .sort((a, b) => a.finishedAt!.getTime() - b.finishedAt!.getTime())
+      .slice(0, Math.max(0, finished.length - BulkCheckJobManager.MAX_FINISHED_JOBS))
+      .forEach(job => this.jobs.delete(job.id));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,16 @@
+/**
+ * Error raised when a bulk check job does not fit into the job queue
+ */
+export class JobQueueFullError extends Error {
+  /** Names the job would have queued */
+  readonly requested: number;
+  /** Names the queue has room for */
+  readonly available: number;
+
+  constructor(requested: number, available: number) {
+    super(`Job queue is full: ${requested} names requested, room for ${available}`);
+    this.name = 'JobQueueFullError';
+    this.requested = requested;
+    this.available = available;
+  }
+}
\ No newline at end of file
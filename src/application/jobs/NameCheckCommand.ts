@@ -0,0 +1,31 @@
+import { BaseCommand } from '../../patterns/command/BaseCommand';
+import type { IQueryResponse } from '../../models';
+
+/**
+ * Queue command that checks one name of a bulk check job across the job's TLDs
+ * Retries are left to the queue, whose attempts and back-off apply to all queued work.
+ */
+export class NameCheckCommand extends BaseCommand<IQueryResponse> {
+  private readonly baseDomain: string;
+  private readonly check: (baseDomain: string) => Promise<IQueryResponse>;
+
+  constructor(baseDomain: string, check: (baseDomain: string) => Promise<IQueryResponse>, priority: number = 0) {
+    super(`NameCheck:${baseDomain}`, { maxRetries: 0 }, priority);
+    this.baseDomain = baseDomain;
+    this.check = check;
+  }
+
+  /**
+   * Check the name
+   */
+  protected async executeInternal(): Promise<IQueryResponse> {
+    return this.check(this.baseDomain);
+  }
+
+  /**
+   * Get the name being checked
+   */
+  getBaseDomain(): string {
+    return this.baseDomain;
+  }
+}
\ No newline at end of file
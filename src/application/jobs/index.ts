@@ -0,0 +1,12 @@
+// Background bulk check jobs
+export { BulkCheckJobManager } from './BulkCheckJobManager';
+export type {
+  BulkCheckJobStatus,
+  BulkCheckJobPriority,
+  NameChecker,
+  IBulkCheckJobRequest,
+  IBulkCheckFailure,
+  IBulkCheckJob
+} from './BulkCheckJobManager';
+export { NameCheckCommand } from './NameCheckCommand';
+export { JobQueueFullError } from './JobQueueFullError';
\ No newline at end of file
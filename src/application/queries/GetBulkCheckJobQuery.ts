@@ -0,0 +1,15 @@
+import type { IQuery } from '../../patterns/mediator';
+import type { IBulkCheckJob } from '../jobs';
+
+/**
+ * Query for the progress and results of a background bulk check job
+ */
+export class GetBulkCheckJobQuery implements IQuery<IBulkCheckJob | null> {
+  readonly type = 'GetBulkCheckJob';
+
+  /**
+   * @param jobId - Job ID
+   * @param resultOffset - Number of results the caller already has
+   */
+  constructor(public readonly jobId: string, public readonly resultOffset: number = 0) {}
+}
\ No newline at end of file
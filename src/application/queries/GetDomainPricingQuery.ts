@@ -10,6 +10,7 @@ export interface DomainPricing {
   renewalPrice: number;
   currency: string;
   isPremium: boolean;
+  tier?: string;
 }
 
 export class GetDomainPricingQuery implements IQuery<DomainPricing | null> {
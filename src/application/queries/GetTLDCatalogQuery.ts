@@ -0,0 +1,25 @@
+import type { IQuery } from '../../patterns/mediator';
+import type { ITLDCatalogEntry, ITLDCatalogFilter } from '../../services/catalog';
+
+/**
+ * Catalog entry together with whether its names can be checked
+ */
+export interface TLDCatalogListingEntry extends ITLDCatalogEntry {
+  /** A registry endpoint is known for the TLD; checks under unsupported TLDs cannot reach a registry */
+  supported: boolean;
+}
+
+/**
+ * Query to list the TLDs in the catalog
+ */
+export interface TLDCatalogListing {
+  tlds: TLDCatalogListingEntry[];
+  total: number;
+  publication: string | null;
+}
+
+export class GetTLDCatalogQuery implements IQuery<TLDCatalogListing> {
+  readonly type = 'GetTLDCatalog';
+
+  constructor(public readonly filter: ITLDCatalogFilter = {}) {}
+}
\ No newline at end of file
@@ -1 +1,3 @@
-export * from './GetDomainPricingQuery';
\ No newline at end of file
+export * from './GetDomainPricingQuery';
+export * from './GetTLDCatalogQuery';
+export * from './GetBulkCheckJobQuery';
\ No newline at end of file
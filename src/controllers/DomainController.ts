@@ -1,4 +1,5 @@
 import type { IQueryRequest, IQueryResponse } from '../models';
+import type { IValidationResult } from './IDomainController';
 import { DomainApplicationService } from '../application/DomainApplicationService';
 import { CheckDomainAvailabilityCommand } from '../application/commands/CheckDomainAvailabilityCommand';
 import { ValidateDomainCommand } from '../application/commands/ValidateDomainCommand';
@@ -73,7 +74,8 @@ export class DomainController {
   async validateDomainInput(domain: string): Promise<boolean> {
     try {
       const command = new ValidateDomainCommand(domain);
-      return await this.applicationService.getMediator().send(command);
+      const result = await this.applicationService.getMediator().send(command) as IValidationResult;
+      return result.isValid;
     } catch (error) {
       console.error('Domain validation error:', error);
       return false;
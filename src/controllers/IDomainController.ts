@@ -1,4 +1,4 @@
-import type { IQueryRequest, IQueryResponse, IQueryError } from '../models';
+import type { IQueryRequest, IQueryResponse, IQueryError, IRegistrationEligibility } from '../models';
 
 /**
  * Interface for Domain Controller - main orchestration layer
@@ -139,10 +139,14 @@ export interface IValidationResult {
   sanitizedDomain: string;
   /** Sanitized input (alias for compatibility) */
   sanitizedInput: string;
+  /** Unicode form (U-label) of a valid internationalized name; sanitizedDomain holds its A-label */
+  unicodeDomain?: string;
   /** Array of validation errors */
   errors: IValidationError[];
   /** Primary error message */
   errorMessage?: string;
+  /** Registration rules of each requested TLD as they apply to the name */
+  eligibility?: IRegistrationEligibility[];
   /** Validation warnings (non-blocking) */
   warnings?: string[];
   /** Suggested corrections */
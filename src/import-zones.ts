@@ -0,0 +1,31 @@
+#!/usr/bin/env node
+
+import { ZoneFileImporter } from './services/zone';
+
+/**
+ * Import TLD zone files (e.g. downloaded from ICANN's CZDS) into a zone file index
+ * Usage: node dist/import-zones.js <index-directory> <zone-file>...
+ * Point the API server's ZONE_INDEX_DIR at the index directory to use it. Labels are sorted in
+ * chunks of ZoneFileImporter.CHUNK_LABELS, so memory use stays around 100MB for any zone size;
+ * the temporary chunk files need about as much disk space as the zone's labels.
+ */
+async function main() {
+  const [directory, ...zoneFiles] = process.argv.slice(2);
+  if (!directory || zoneFiles.length === 0) {
+    console.error('Usage: import-zones <index-directory> <zone-file>...');
+    console.error(`Labels are sorted in chunks of ${ZoneFileImporter.CHUNK_LABELS} (about 100MB of memory) in temporary files under the index directory.`);
+    process.exit(1);
+  }
+
+  const importer = new ZoneFileImporter();
+  for (const zoneFile of zoneFiles) {
+    const startTime = Date.now();
+    const zone = await importer.importFile(zoneFile, directory);
+    console.log(`🗂️  ${zone.tld}: ${zone.count} delegated names from ${zone.source} (serial ${zone.serial ?? 'unknown'}) in ${Date.now() - startTime}ms`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Zone import failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
\ No newline at end of file
@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+
+import { ApiKeyStore } from './api/auth';
+import type { IApiKeyQuotas } from './api/auth';
+
+const QUOTA_OPTIONS: Record<string, keyof IApiKeyQuotas> = {
+  '--requests-per-minute': 'requestsPerMinute',
+  '--requests-per-day': 'requestsPerDay',
+  '--checks-per-minute': 'checksPerMinute',
+  '--checks-per-day': 'checksPerDay'
+};
+
+const USAGE = [
+  'Usage: manage-api-keys <key-file> create <name> [--requests-per-minute N] [--requests-per-day N]',
+  '                                              [--checks-per-minute N] [--checks-per-day N]',
+  '       manage-api-keys <key-file> list',
+  '       manage-api-keys <key-file> revoke <key-id>',
+  'Quotas default to the store defaults; 0 means unlimited. Restart the API server to apply changes.'
+].join('\n');
+
+/**
+ * Issue, list and revoke the API keys in a key file
+ * Usage: node dist/manage-api-keys.js <key-file> create|list|revoke ...
+ * Point the API server's API_KEYS_FILE at the key file to require keys.
+ */
+function main() {
+  const [filePath, action, ...args] = process.argv.slice(2);
+  if (!filePath || !action) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const store = new ApiKeyStore();
+  store.loadFromFile(filePath);
+
+  switch (action) {
+    case 'create': {
+      const [name, ...options] = args;
+      if (!name) {
+        throw new Error('A name is required');
+      }
+
+      const quotas: Partial<IApiKeyQuotas> = {};
+      for (let i = 0; i < options.length; i += 2) {
+        const quota = QUOTA_OPTIONS[options[i]!];
+        const value = Number(options[i + 1]);
+        if (!quota || !Number.isInteger(value) || value < 0) {
+          throw new Error(`Invalid option: ${options[i]} ${options[i + 1] ?? ''}`.trim());
+        }
+        quotas[quota] = value;
+      }
+
+      const { key, record } = store.create(name, quotas);
+      console.log(`🔑 Created ${record.id} for ${record.name}`);
+      console.log(`   Key: ${key}`);
+      console.log('   The key is not stored and cannot be shown again.');
+      break;
+    }
+    case 'list':
+      for (const key of store.list()) {
+        const { requestsPerMinute, requestsPerDay, checksPerMinute, checksPerDay } = key.quotas;
+        const status = key.revokedAt ? `revoked ${key.revokedAt}` : 'active';
+        console.log(`${key.id}  ${key.name}  (${status}; requests ${requestsPerMinute}/min ${requestsPerDay}/day, checks ${checksPerMinute}/min ${checksPerDay}/day)`);
+      }
+      break;
+    case 'revoke': {
+      const record = args[0] ? store.revoke(args[0]) : null;
+      if (!record) {
+        throw new Error(`No key with ID ${args[0] ?? ''}`.trim());
+      }
+      console.log(`🚫 Revoked ${record.id} (${record.name})`);
+      break;
+    }
+    default:
+      console.error(USAGE);
+      process.exit(1);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('❌ API key command failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
\ No newline at end of file
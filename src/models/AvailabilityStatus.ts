@@ -6,10 +6,33 @@ export enum AvailabilityStatus {
   AVAILABLE = 'available',
   /** Domain is already registered/taken */
   TAKEN = 'taken',
+  /** Registration has expired and is in the auto-renew grace period; the registrant can still renew */
+  EXPIRED = 'expired',
+  /** Registration was deleted and is in the redemption grace period; only the registrant can restore it */
+  REDEMPTION = 'redemption',
+  /** Domain is scheduled for purge by the registry and will become available shortly */
+  PENDING_DELETE = 'pending-delete',
+  /** Name is reserved by the registry and cannot be registered */
+  RESERVED = 'reserved',
+  /** Name can be registered at a registry premium price */
+  PREMIUM = 'premium',
+  /** Name is blocked from registration by a registry protection service */
+  BLOCKED = 'blocked',
   /** Domain availability check is in progress */
   CHECKING = 'checking',
   /** Error occurred during availability check */
   ERROR = 'error',
   /** Domain availability status is unknown */
   UNKNOWN = 'unknown'
+}
+
+/**
+ * Check whether a status is a definitive answer from a completed check
+ * @param status - Status to check
+ * @returns False for CHECKING, ERROR and UNKNOWN
+ */
+export function isDefinitiveStatus(status: AvailabilityStatus | string): boolean {
+  return status !== AvailabilityStatus.CHECKING
+    && status !== AvailabilityStatus.ERROR
+    && status !== AvailabilityStatus.UNKNOWN;
 }
\ No newline at end of file
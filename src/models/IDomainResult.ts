@@ -1,4 +1,5 @@
 import type { AvailabilityStatus } from './AvailabilityStatus';
+import type { QueryErrorType } from './types';
 
 /**
  * Domain pricing information (full service data)
@@ -18,6 +19,8 @@ export interface IDomainPricing {
   registrarUrl: string;
   /** Whether this is a premium domain */
   isPremium: boolean;
+  /** Registry premium tier of the name (e.g. "gold"), when it is priced above the TLD */
+  tier?: string;
   /** Additional notes about pricing */
   notes?: string;
 }
@@ -36,16 +39,143 @@ export interface IDisplayPricing {
   registrarUrl: string;
   /** Whether this is a premium domain */
   isPremium: boolean;
+  /** Registry premium tier of the name (e.g. "gold") */
+  tier?: string;
   /** Additional notes about pricing */
   notes?: string;
 }
 
+/**
+ * Source that can report on a domain's availability (ZONE: an imported TLD zone file)
+ */
+export type EvidenceSource = 'DNS' | 'WHOIS' | 'RDAP' | 'ZONE';
+
+/**
+ * Whether a verdict is backed by a registry (WHOIS/RDAP), by the registry's zone file, or
+ * inferred from DNS alone
+ */
+export type VerdictBasis = 'registry' | 'zone' | 'dns';
+
+/**
+ * What a single source reported while checking a domain
+ */
+export interface IAvailabilityEvidence {
+  /** Source that produced the evidence */
+  source: EvidenceSource;
+  /** Status reported by the source */
+  status: AvailabilityStatus;
+  /** How certain the source is of its own answer (0-1) */
+  confidence: number;
+  /** Human-readable summary of what the source saw */
+  detail: string;
+  /** Excerpt of the raw response backing the evidence */
+  snippet?: string;
+  /** Server that answered, if known */
+  server?: string;
+  /** DNS response code, e.g. "NXDOMAIN" (DNS evidence from the wire client) */
+  rcode?: string;
+  /** Whether the resolver set the AD flag, i.e. validated the answer with DNSSEC */
+  authenticated?: boolean;
+  /** Time taken by the source in milliseconds */
+  executionTime?: number;
+  /** Time the server took to answer the query that succeeded, excluding rate limiter waits, retries and backoff */
+  responseTime?: number;
+}
+
+/**
+ * Answer from one resolver during a consensus check
+ */
+export interface IResolverVote {
+  /** Resolver address as configured */
+  resolver: string;
+  /** AVAILABLE, TAKEN, or ERROR if the resolver did not answer */
+  status: AvailabilityStatus;
+  /** DNS response code returned by the resolver */
+  rcode?: string;
+  /** Why the resolver could not be used */
+  error?: string;
+}
+
+/**
+ * Outcome of asking several resolvers the same question
+ */
+export interface IDNSConsensus {
+  /** Agreeing resolvers required for a definitive status */
+  quorum: number;
+  /** Resolvers behind the leading status */
+  agreeing: number;
+  /** Resolvers that answered */
+  responded: number;
+  /** Whether the leading status reached the quorum */
+  reached: boolean;
+  /** Whether answering resolvers reported different statuses */
+  disagreement: boolean;
+  /** Answer from each resolver, in configuration order */
+  votes: IResolverVote[];
+}
+
+/**
+ * Parking service a registered domain appears to be parked with
+ */
+export interface IParkingDetection {
+  /** Provider name from the parking data file */
+  provider: string;
+  /** Whether a name server or an A record identified the provider */
+  matchedBy: 'nameserver' | 'address';
+  /** The name server or address that matched */
+  value: string;
+}
+
+/**
+ * Wildcard records found in the domain's TLD
+ */
+export interface IWildcardDetection {
+  /** Zone answering random labels, e.g. ".ws" */
+  zone: string;
+  /** Addresses returned for a random probe label */
+  addresses: string[];
+  /** Whether the domain's own records are just the wildcard answer */
+  matched: boolean;
+}
+
+/**
+ * Registry treatment of a particular name, as opposed to its TLD
+ */
+export interface INameTier {
+  /** Reserved names cannot be registered; premium names cost more than the standard TLD price */
+  kind: 'reserved' | 'premium';
+  /** Premium price tier (e.g. "platinum"); premium names only */
+  tier?: string;
+  /** Whether the name is on a registry list or was matched by a heuristic such as its length */
+  source: 'registry' | 'heuristic';
+  /** Why the name was flagged */
+  reason: string;
+}
+
+/**
+ * Whether a name can be registered under a TLD according to the registry's rules
+ */
+export interface IRegistrationEligibility {
+  /** TLD the rules belong to */
+  tld: string;
+  /** Whether the name meets the registry's naming rules */
+  eligible: boolean;
+  /** Rules the name breaks (e.g. minimum length, reserved names) */
+  violations: string[];
+  /** Whether only registrants meeting the requirements may register */
+  restricted: boolean;
+  /** Registrant requirements and other notes (e.g. nexus or local presence) */
+  requirements: string[];
+}
+
 /**
  * Interface representing the result of a domain availability check
  */
 export interface IDomainResult {
-  /** Full domain name (e.g., "synth.com") */
+  /** Full domain name (e.g., "synth.com"); the punycode A-label form for internationalized names */
   domain: string;
+  /** Unicode form of an internationalized domain name for display (e.g., "münchen.de") */
+  unicodeDomain?: string;
   /** Base name without TLD (e.g., "synth") */
   baseDomain: string;
   /** Top-level domain (e.g., ".com") */
@@ -55,23 +185,54 @@ export interface IDomainResult {
   /** Timestamp when the check was last performed */
   lastChecked: Date;
   /** Method used to check availability */
-  checkMethod: 'DNS' | 'WHOIS' | 'HYBRID';
+  checkMethod: 'DNS' | 'WHOIS' | 'RDAP' | 'HYBRID' | 'ZONE';
   /** Error message if status is ERROR */
   error?: string;
+  /** Kind of failure behind the error, when known (e.g. RATE_LIMIT when a server refused the query) */
+  errorType?: QueryErrorType;
   /** Number of retry attempts made */
   retryCount?: number;
   /** Execution time for this check in milliseconds */
   executionTime?: number;
+  /** Time the server took to answer the query that succeeded, excluding rate limiter waits, retries and backoff */
+  responseTime?: number;
   /** DNS records found during lookup (for DNS method) */
   dnsRecords?: string[];
+  /** Seconds the DNS answer may be cached - record TTL, or SOA minimum for negative answers */
+  dnsTtl?: number;
   /** WHOIS data found during lookup (for WHOIS method) */
   whoisData?: {
     registrar?: string;
     expirationDate?: Date;
     registrationDate?: Date;
+    updatedDate?: Date;
     nameServers?: string[];
     status?: string[];
   };
+  /** WHOIS servers queried in order, registry first (for WHOIS method) */
+  referralChain?: string[];
+  /** Confidence in the status (0-1), computed from the evidence */
+  confidence?: number;
+  /** Whether the status is confirmed by a registry or inferred from DNS alone */
+  verdictBasis?: VerdictBasis;
+  /** Display verdict, e.g. "Likely available (DNS only)" */
+  verdict?: string;
+  /** Evidence from each source consulted, in query order */
+  evidence?: IAvailabilityEvidence[];
+  /** Per-resolver answers when DNS ran in consensus mode */
+  consensus?: IDNSConsensus;
+  /** Parking service the domain is parked with, if any */
+  parked?: IParkingDetection;
+  /** Wildcard records in the TLD that DNS answers had to be checked against */
+  wildcard?: IWildcardDetection;
+  /** Whether the result was served from the result cache */
+  cacheHit?: boolean;
+  /** When the cached result was stored (cache hits only) */
+  cachedAt?: Date;
+  /** Registration rules of the TLD as they apply to the name */
+  eligibility?: IRegistrationEligibility;
+  /** Set when the registry reserves the name or sells it at a premium */
+  nameTier?: INameTier;
   /** Pricing information (only for available domains) - simplified for display */
   pricing?: IDisplayPricing;
 }
\ No newline at end of file
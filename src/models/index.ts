@@ -1,8 +1,8 @@
 // Core enums
-export { AvailabilityStatus } from './AvailabilityStatus';
+export { AvailabilityStatus, isDefinitiveStatus } from './AvailabilityStatus';
 
 // Core interfaces
-export type { IDomainResult, IDomainPricing, IDisplayPricing } from './IDomainResult';
+export type { IDomainResult, IDomainPricing, IDisplayPricing, IAvailabilityEvidence, EvidenceSource, VerdictBasis, IDNSConsensus, IResolverVote, IParkingDetection, IWildcardDetection, IRegistrationEligibility, INameTier } from './IDomainResult';
 export type { IQueryRequest } from './IQueryRequest';
 export type { IQueryResponse } from './IQueryResponse';
 export type { IQueryError } from './IQueryError';
@@ -1,17 +1,22 @@
+import bundledTLDCatalog from '../data/tld-catalog.json';
+
 /**
- * Supported top-level domains for domain availability checking
+ * Top-level domains checked by default, as listed in the bundled TLD catalog
+ * (TLDCatalog reflects catalogs loaded at runtime)
  */
-export const SUPPORTED_TLDS = ['.com', '.net', '.org', '.ai', '.dev', '.io', '.co'] as const;
+export const SUPPORTED_TLDS: readonly string[] = Object.entries(bundledTLDCatalog.tlds)
+  .filter(([, entry]) => 'checkedByDefault' in entry && entry.checkedByDefault)
+  .map(([tld]) => `.${tld}`);
 
 /**
- * Type representing a supported TLD
+ * Type representing a supported TLD (including the dot)
  */
-export type SupportedTLD = typeof SUPPORTED_TLDS[number];
+export type SupportedTLD = string;
 
 /**
  * Type representing the method used to check domain availability
  */
-export type CheckMethod = 'DNS' | 'WHOIS' | 'HYBRID';
+export type CheckMethod = 'DNS' | 'WHOIS' | 'RDAP' | 'HYBRID' | 'ZONE';
 
 /**
  * Type representing the possible error types during domain queries
@@ -0,0 +1,171 @@
+import { CircuitState } from './ICircuitBreaker';
+import type { ICircuitBreakerConfig, ICircuitBreakerSnapshot } from './ICircuitBreaker';
+import { CircuitOpenError } from './CircuitOpenError';
+
+/**
+ * Circuit Breaker - stops calling an upstream that keeps failing
+ * After failureThreshold consecutive failures the circuit opens and calls fail fast for the
+ * cool-down; then trial calls are let through and the first result decides whether it
+ * closes again or reopens for another cool-down.
+ */
+export class CircuitBreaker {
+  static readonly DEFAULT_CONFIG: ICircuitBreakerConfig = {
+    failureThreshold: 5,
+    cooldownMs: 30000,
+    halfOpenMaxCalls: 1
+  };
+
+  private readonly name: string;
+  private config: ICircuitBreakerConfig;
+  private state: CircuitState = CircuitState.CLOSED;
+  private failures = 0;
+  private openedAt = 0;
+  private trialCalls = 0;
+  private lastError: string | undefined;
+
+  constructor(name: string, config: Partial<ICircuitBreakerConfig> = {}) {
+    this.name = name;
+    this.config = { ...CircuitBreaker.DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Run an operation through the breaker
+   * @param operation - Call to the upstream
+   * @param isFailure - Decides whether an error counts against the upstream (default: all errors)
+   * @returns Result of the operation
+   * @throws CircuitOpenError without calling the upstream if the circuit is open
+   */
+  async execute<T>(operation: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    this.acquire();
+
+    try {
+      const result = await operation();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.recordFailure(error);
+      } else {
+        this.recordSuccess();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a call would currently be let through
+   * @returns False while the circuit is open or all trial calls are taken
+   */
+  canAttempt(): boolean {
+    const state = this.getState();
+    return state === CircuitState.CLOSED ||
+      (state === CircuitState.HALF_OPEN && this.trialCalls < this.config.halfOpenMaxCalls);
+  }
+
+  /**
+   * Get the current state, moving an open circuit to half-open once its cool-down has passed
+   */
+  getState(): CircuitState {
+    if (this.state === CircuitState.OPEN && Date.now() >= this.openedAt + this.config.cooldownMs) {
+      this.state = CircuitState.HALF_OPEN;
+      this.trialCalls = 0;
+    }
+    return this.state;
+  }
+
+  /**
+   * Record a successful call, closing the circuit
+   */
+  recordSuccess(): void {
+    this.releaseTrial();
+    this.state = CircuitState.CLOSED;
+    this.failures = 0;
+  }
+
+  /**
+   * Record a failed call, opening the circuit at the threshold or when a trial call fails
+   * @param error - Error raised by the call
+   */
+  recordFailure(error?: unknown): void {
+    this.releaseTrial();
+    this.failures++;
+    if (error !== undefined) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (this.getState() === CircuitState.HALF_OPEN || this.failures >= this.config.failureThreshold) {
+      this.state = CircuitState.OPEN;
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Close the circuit and forget its failures
+   */
+  reset(): void {
+    this.state = CircuitState.CLOSED;
+    this.failures = 0;
+    this.trialCalls = 0;
+    this.lastError = undefined;
+  }
+
+  /**
+   * Get the breaker name
+   */
+  getName(): string {
+    return this.name;
+  }
+
+  /**
+   * Get the breaker configuration
+   */
+  getConfig(): ICircuitBreakerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Update the breaker configuration
+   * @param config - Settings to override
+   */
+  setConfig(config: Partial<ICircuitBreakerConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Get a point-in-time view of the breaker
+   */
+  getSnapshot(): ICircuitBreakerSnapshot {
+    const state = this.getState();
+    const opened = state !== CircuitState.CLOSED;
+
+    return {
+      name: this.name,
+      state,
+      failures: this.failures,
+      openedAt: opened ? new Date(this.openedAt) : null,
+      retryAt: state === CircuitState.OPEN ? new Date(this.openedAt + this.config.cooldownMs) : null,
+      ...(this.lastError !== undefined && { lastError: this.lastError })
+    };
+  }
+
+  /**
+   * Take a slot for a call, failing fast if none is available
+   */
+  private acquire(): void {
+    const state = this.getState();
+    if (state === CircuitState.OPEN ||
+      (state === CircuitState.HALF_OPEN && this.trialCalls >= this.config.halfOpenMaxCalls)) {
+      throw new CircuitOpenError(this.name, new Date(Math.max(Date.now(), this.openedAt + this.config.cooldownMs)));
+    }
+
+    if (state === CircuitState.HALF_OPEN) {
+      this.trialCalls++;
+    }
+  }
+
+  private releaseTrial(): void {
+    if (this.state === CircuitState.HALF_OPEN && this.trialCalls > 0) {
+      this.trialCalls--;
+    }
+  }
+}
\ No newline at end of file
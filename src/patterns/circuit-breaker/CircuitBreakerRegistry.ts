@@ -0,0 +1,105 @@
+import { CircuitBreaker } from './CircuitBreaker';
+import type { ICircuitBreakerConfig, ICircuitBreakerSnapshot } from './ICircuitBreaker';
+
+/**
+ * Circuit Breaker Registry - one breaker per upstream, shared by every service calling it
+ * Upstreams are named "<source>:<server>", e.g. "dns:1.1.1.1" or "whois:whois.nic.io",
+ * so DNS, WHOIS and hybrid checks all see the same failure history for a server.
+ */
+export class CircuitBreakerRegistry {
+  private static instance: CircuitBreakerRegistry;
+
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private defaults: ICircuitBreakerConfig;
+  private overrides: Map<string, Partial<ICircuitBreakerConfig>> = new Map();
+
+  constructor(defaults: Partial<ICircuitBreakerConfig> = {}) {
+    this.defaults = { ...CircuitBreaker.DEFAULT_CONFIG, ...defaults };
+  }
+
+  /**
+   * Get the registry shared by all query services
+   */
+  static getInstance(): CircuitBreakerRegistry {
+    if (!CircuitBreakerRegistry.instance) {
+      CircuitBreakerRegistry.instance = new CircuitBreakerRegistry();
+    }
+    return CircuitBreakerRegistry.instance;
+  }
+
+  /**
+   * Get the breaker for an upstream, creating it on first use
+   * @param name - Upstream name
+   * @returns Circuit breaker
+   */
+  get(name: string): CircuitBreaker {
+    const key = name.toLowerCase();
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(key, { ...this.defaults, ...this.overrides.get(key) });
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Run an operation through the breaker of an upstream
+   * @param name - Upstream name
+   * @param operation - Call to the upstream
+   * @param isFailure - Decides whether an error counts against the upstream
+   * @returns Result of the operation
+   * @throws CircuitOpenError if the upstream's circuit is open
+   */
+  execute<T>(name: string, operation: () => Promise<T>, isFailure?: (error: unknown) => boolean): Promise<T> {
+    return this.get(name).execute(operation, isFailure);
+  }
+
+  /**
+   * Check whether an upstream may currently be called
+   * @param name - Upstream name
+   * @returns False if the upstream's circuit is open
+   */
+  isAvailable(name: string): boolean {
+    const breaker = this.breakers.get(name.toLowerCase());
+    return !breaker || breaker.canAttempt();
+  }
+
+  /**
+   * Set the configuration of breakers without their own
+   * @param config - Settings to override
+   */
+  setDefaultConfig(config: Partial<ICircuitBreakerConfig>): void {
+    this.defaults = { ...this.defaults, ...config };
+    this.breakers.forEach((breaker, name) => {
+      breaker.setConfig({ ...this.defaults, ...this.overrides.get(name) });
+    });
+  }
+
+  /**
+   * Give an upstream its own thresholds
+   * @param name - Upstream name
+   * @param config - Settings to override
+   */
+  configure(name: string, config: Partial<ICircuitBreakerConfig>): void {
+    const key = name.toLowerCase();
+    this.overrides.set(key, { ...this.overrides.get(key), ...config });
+    this.breakers.get(key)?.setConfig({ ...this.defaults, ...this.overrides.get(key) });
+  }
+
+  /**
+   * Get the state of every breaker created so far
+   * @returns Snapshots sorted by upstream name
+   */
+  getSnapshots(): ICircuitBreakerSnapshot[] {
+    return Array.from(this.breakers.values())
+      .map(breaker => breaker.getSnapshot())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Close every circuit and forget all breakers
+   */
+  reset(): void {
+    this.breakers.clear();
+  }
+}
\ No newline at end of file
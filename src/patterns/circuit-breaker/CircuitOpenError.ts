@@ -0,0 +1,16 @@
+/**
+ * Error raised instead of calling an upstream whose circuit is open
+ */
+export class CircuitOpenError extends Error {
+  /** Upstream the open circuit protects */
+  readonly upstream: string;
+  /** When trial calls will be allowed again */
+  readonly retryAt: Date;
+
+  constructor(upstream: string, retryAt: Date) {
+    super(`Circuit open for ${upstream}, retry after ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.upstream = upstream;
+    this.retryAt = retryAt;
+  }
+}
\ No newline at end of file
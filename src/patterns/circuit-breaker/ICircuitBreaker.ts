@@ -0,0 +1,41 @@
+/**
+ * States of a circuit breaker
+ */
+export enum CircuitState {
+  /** Calls go through; failures are counted */
+  CLOSED = 'closed',
+  /** Calls fail fast until the cool-down ends */
+  OPEN = 'open',
+  /** The cool-down ended; a limited number of trial calls decide whether to close again */
+  HALF_OPEN = 'half-open'
+}
+
+/**
+ * Configuration for a circuit breaker
+ */
+export interface ICircuitBreakerConfig {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** Milliseconds the circuit stays open before trial calls are allowed */
+  cooldownMs: number;
+  /** Trial calls allowed at once while half-open */
+  halfOpenMaxCalls: number;
+}
+
+/**
+ * Point-in-time view of a circuit breaker, e.g. for health reporting
+ */
+export interface ICircuitBreakerSnapshot {
+  /** Upstream the breaker protects, e.g. "whois:whois.verisign-grs.com" */
+  name: string;
+  /** Current state */
+  state: CircuitState;
+  /** Consecutive failures counted so far */
+  failures: number;
+  /** When the circuit last opened, or null if it is closed */
+  openedAt: Date | null;
+  /** When trial calls will be allowed again, for open circuits */
+  retryAt: Date | null;
+  /** Message of the most recent failure */
+  lastError?: string;
+}
\ No newline at end of file
@@ -0,0 +1,6 @@
+// Circuit breaker pattern exports
+export { CircuitState } from './ICircuitBreaker';
+export type { ICircuitBreakerConfig, ICircuitBreakerSnapshot } from './ICircuitBreaker';
+export { CircuitBreaker } from './CircuitBreaker';
+export { CircuitBreakerRegistry } from './CircuitBreakerRegistry';
+export { CircuitOpenError } from './CircuitOpenError';
\ No newline at end of file
@@ -4,6 +4,7 @@ import { CommandInvoker } from './CommandInvoker';
 import { IRetryConfig } from './ICommand';
 import type { IDomainResult } from '../../models';
 import type { IQueryStrategy } from '../strategy/IQueryStrategy';
+import { PublicSuffixService } from '../../services/PublicSuffixService';
 
 /**
  * Result of batch domain check operation
@@ -35,6 +36,10 @@ export interface IBatchDomainCheckConfig {
   batchDelay: number;
   /** Size of each batch */
   batchSize: number;
+  /** Called with each domain's result as soon as its check settles */
+  onResult?: (result: IDomainResult) => void;
+  /** Once aborted, domains not queried yet are skipped (see DomainCheckCommand.CANCELLED_ERROR) */
+  signal?: AbortSignal;
 }
 
 /**
@@ -62,7 +67,9 @@ export class BatchDomainCheckCommand extends BaseCommand<IBatchDomainCheckResult
       maxConcurrency: config.maxConcurrency ?? 5,
       failFast: config.failFast ?? false,
       batchDelay: config.batchDelay ?? 100,
-      batchSize: config.batchSize ?? 10
+      batchSize: config.batchSize ?? 10,
+      ...(config.onResult && { onResult: config.onResult }),
+      ...(config.signal && { signal: config.signal })
     };
     
     this.invoker = new CommandInvoker();
@@ -141,11 +148,17 @@ export class BatchDomainCheckCommand extends BaseCommand<IBatchDomainCheckResult
   }> {
     // Create commands for each domain
     const commands = domains.map(domain => 
-      new DomainCheckCommand(domain, this.strategy, this.getRetryConfig())
+      new DomainCheckCommand(domain, this.strategy, this.getRetryConfig(), 0, this.config.signal || null)
     );
 
-    // Execute commands with controlled concurrency
-    const results = await this.invoker.executeBatch(commands, this.config.maxConcurrency);
+    // Execute commands with controlled concurrency, reporting each result as it settles
+    const { onResult } = this.config;
+    const results = await this.invoker.executeBatch(commands, this.config.maxConcurrency, 0, onResult && ((result, index) => {
+      const domain = domains[index] || 'unknown';
+      onResult(result.success && result.data
+        ? result.data
+        : this.createErrorResults([{ domain, error: result.error || 'Unknown error' }])[0]!);
+    }));
     
     const successful: IDomainResult[] = [];
     const failed: Array<{ domain: string; error: string }> = [];
@@ -169,7 +182,7 @@ export class BatchDomainCheckCommand extends BaseCommand<IBatchDomainCheckResult
    */
   private createErrorResults(failed: Array<{ domain: string; error: string }>): IDomainResult[] {
     return failed.map(({ domain, error }) => {
-      const [baseDomain, tld] = this.parseDomain(domain);
+      const { baseDomain, tld } = PublicSuffixService.getInstance().parse(domain);
       
       return {
         domain,
@@ -185,21 +198,6 @@ export class BatchDomainCheckCommand extends BaseCommand<IBatchDomainCheckResult
     });
   }
 
-  /**
-   * Parse domain into base domain and TLD
-   */
-  private parseDomain(domain: string): [string, string] {
-    const lastDotIndex = domain.lastIndexOf('.');
-    if (lastDotIndex === -1) {
-      return [domain, ''];
-    }
-    
-    return [
-      domain.substring(0, lastDotIndex),
-      domain.substring(lastDotIndex)
-    ];
-  }
-
   /**
    * Create empty result for edge cases
    */
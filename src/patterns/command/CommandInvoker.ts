@@ -56,14 +56,21 @@ export class CommandInvoker implements ICommandInvoker {
 
   /**
    * Execute multiple commands in parallel
+   * @param onResult - Called with each command's result (and its index) as soon as it settles
    */
-  async executeParallel<T>(commands: ICommand<T>[]): Promise<ICommandResult<T>[]> {
+  async executeParallel<T>(
+    commands: ICommand<T>[],
+    onResult?: (result: ICommandResult<T>, index: number) => void
+  ): Promise<ICommandResult<T>[]> {
     if (commands.length === 0) {
       return [];
     }
 
     // Execute all commands concurrently
-    const promises = commands.map(command => this.execute(command));
+    const promises = commands.map((command, index) => this.execute(command).then(result => {
+      onResult?.(result, index);
+      return result;
+    }));
     
     try {
       return await Promise.all(promises);
@@ -97,13 +104,14 @@ export class CommandInvoker implements ICommandInvoker {
   async executeBatch<T>(
     commands: ICommand<T>[],
     batchSize: number = 5,
-    delayBetweenBatches: number = 0
+    delayBetweenBatches: number = 0,
+    onResult?: (result: ICommandResult<T>, index: number) => void
   ): Promise<ICommandResult<T>[]> {
     const results: ICommandResult<T>[] = [];
     
     for (let i = 0; i < commands.length; i += batchSize) {
       const batch = commands.slice(i, i + batchSize);
-      const batchResults = await this.executeParallel(batch);
+      const batchResults = await this.executeParallel(batch, onResult && ((result, index) => onResult(result, i + index)));
       results.push(...batchResults);
       
       // Add delay between batches if specified
@@ -38,8 +38,15 @@ export interface ICommandQueueConfig {
   processingDelay: number;
   /** Maximum attempts for failed commands */
   maxAttempts: number;
+  /** Whether to keep results for getCompletedResults() and getFailedCommands() */
+  retainResults: boolean;
 }
 
+/**
+ * Listener for commands that completed, or failed after their last attempt
+ */
+export type CommandSettledListener = (command: ICommand<any>, result: ICommandResult<any>) => void;
+
 /**
  * Command queue that manages command execution with priority, concurrency control, and batch processing
  */
@@ -52,6 +59,8 @@ export class CommandQueue {
   private activeCommands: Set<string> = new Set();
   private completedCommands: Map<string, ICommandResult<any>> = new Map();
   private failedCommands: Map<string, { command: ICommand<any>; error: string; attempts: number }> = new Map();
+  private cancelledCommands: Set<string> = new Set();
+  private settledListeners: CommandSettledListener[] = [];
 
   constructor(config: Partial<ICommandQueueConfig> = {}) {
     this.config = {
@@ -60,7 +69,8 @@ export class CommandQueue {
       defaultPriority: config.defaultPriority ?? CommandPriority.NORMAL,
       autoStart: config.autoStart ?? true,
       processingDelay: config.processingDelay ?? 100,
-      maxAttempts: config.maxAttempts ?? 3
+      maxAttempts: config.maxAttempts ?? 3,
+      retainResults: config.retainResults ?? true
     };
     
     this.invoker = new CommandInvoker();
@@ -100,6 +110,9 @@ export class CommandQueue {
     }
 
     this.queue.splice(insertIndex, 0, entry);
+
+    // Processing stops whenever the queue runs empty
+    this.resume();
     return true;
   }
 
@@ -162,6 +175,37 @@ export class CommandQueue {
     }
   }
 
+  /**
+   * Cancel a command: queued commands are removed, running ones are cancelled through the
+   * invoker and their results dropped
+   * @returns True if the command was queued or running
+   */
+  cancel(commandId: string): boolean {
+    const index = this.queue.findIndex(entry => entry.command.getId() === commandId);
+    if (index !== -1) {
+      const [entry] = this.queue.splice(index, 1);
+      if (typeof (entry!.command as any).cancel === 'function') {
+        (entry!.command as any).cancel();
+      }
+      return true;
+    }
+
+    if (this.activeCommands.has(commandId)) {
+      this.cancelledCommands.add(commandId);
+      void this.invoker.cancel(commandId);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Register a listener for commands that completed, or failed after their last attempt
+   */
+  onSettled(listener: CommandSettledListener): void {
+    this.settledListeners.push(listener);
+  }
+
   /**
    * Clear all commands from the queue
    */
@@ -262,25 +306,39 @@ export class CommandQueue {
     
     this.activeCommands.add(commandId);
 
+    let result: ICommandResult<T>;
     try {
-      const result = await this.invoker.execute(entry.command);
-      
-      if (result.success) {
-        this.completedCommands.set(commandId, result);
-      } else {
-        await this.handleCommandFailure(entry, result.error || 'Unknown error');
-      }
+      result = await this.invoker.execute(entry.command);
     } catch (error) {
-      await this.handleCommandFailure(entry, error instanceof Error ? error.message : String(error));
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        executionTime: 0,
+        commandId,
+        timestamp: new Date()
+      };
     } finally {
       this.activeCommands.delete(commandId);
     }
+
+    if (this.cancelledCommands.delete(commandId)) {
+      return;
+    }
+
+    if (result.success) {
+      if (this.config.retainResults) {
+        this.completedCommands.set(commandId, result);
+      }
+      this.notifySettled(entry.command, result);
+    } else {
+      await this.handleCommandFailure(entry, result);
+    }
   }
 
   /**
    * Handle command failure with retry logic
    */
-  private async handleCommandFailure<T>(entry: IQueueEntry<T>, error: string): Promise<void> {
+  private async handleCommandFailure<T>(entry: IQueueEntry<T>, result: ICommandResult<T>): Promise<void> {
     const commandId = entry.command.getId();
     
     if (entry.attempts < entry.maxAttempts) {
@@ -290,15 +348,32 @@ export class CommandQueue {
       setTimeout(() => {
         if (this.running) {
           this.queue.unshift(entry); // Add to front for priority
+          this.resume();
         }
       }, delay);
     } else {
       // Max attempts reached, mark as failed
-      this.failedCommands.set(commandId, {
-        command: entry.command,
-        error,
-        attempts: entry.attempts
-      });
+      if (this.config.retainResults) {
+        this.failedCommands.set(commandId, {
+          command: entry.command,
+          error: result.error || 'Unknown error',
+          attempts: entry.attempts
+        });
+      }
+      this.notifySettled(entry.command, result);
+    }
+  }
+
+  /**
+   * Notify listeners of a settled command; a failing listener does not affect the others
+   */
+  private notifySettled<T>(command: ICommand<T>, result: ICommandResult<T>): void {
+    for (const listener of this.settledListeners) {
+      try {
+        listener(command, result);
+      } catch (error) {
+        console.error(`Error in settled listener for command '${command.getName()}':`, error);
+      }
     }
   }
 
@@ -1,31 +1,58 @@
 import { BaseCommand } from './BaseCommand';
 import { IDomainCheckCommand, IRetryConfig } from './ICommand';
 import type { IDomainResult } from '../../models';
+import { AvailabilityStatus } from '../../models/AvailabilityStatus';
 import type { IQueryStrategy } from '../strategy/IQueryStrategy';
+import { PublicSuffixService } from '../../services/PublicSuffixService';
 
 /**
  * Command implementation for domain availability checking
  * Encapsulates domain check operations with built-in retry logic and error handling
  */
 export class DomainCheckCommand extends BaseCommand<IDomainResult> implements IDomainCheckCommand {
+  /** Error of the results of checks skipped because their signal was aborted */
+  static readonly CANCELLED_ERROR = 'Check cancelled';
+
   private readonly domain: string;
   private readonly strategy: IQueryStrategy;
+  private readonly signal: AbortSignal | null;
 
+  /**
+   * @param signal - Once aborted, the check is skipped if it has not started querying yet
+   */
   constructor(
     domain: string,
     strategy: IQueryStrategy,
     retryConfig: Partial<IRetryConfig> = {},
-    priority: number = 0
+    priority: number = 0,
+    signal: AbortSignal | null = null
   ) {
     super(`DomainCheck:${domain}`, retryConfig, priority);
     this.domain = domain;
     this.strategy = strategy;
+    this.signal = signal;
   }
 
   /**
    * Execute the domain availability check using the configured strategy
    */
   protected async executeInternal(): Promise<IDomainResult> {
+    // Answered rather than thrown, so a cancelled check is not retried
+    if (this.signal?.aborted) {
+      const { baseDomain, tld } = PublicSuffixService.getInstance().parse(this.domain);
+      return {
+        domain: this.domain,
+        baseDomain,
+        tld,
+        status: AvailabilityStatus.ERROR,
+        lastChecked: new Date(),
+        checkMethod: this.strategy.getName() as IDomainResult['checkMethod'],
+        retryCount: 0,
+        executionTime: 0,
+        error: DomainCheckCommand.CANCELLED_ERROR
+      };
+    }
+
     if (!this.strategy.canHandle(this.domain)) {
       throw new Error(`Strategy ${this.strategy.getName()} cannot handle domain: ${this.domain}`);
     }
@@ -92,7 +119,8 @@ export class DomainCheckCommand extends BaseCommand<IDomainResult> implements ID
       this.domain,
       this.strategy,
       this.getRetryConfig(),
-      this.getMetadata().priority
+      this.getMetadata().priority,
+      this.signal
     );
     
     return cloned;
@@ -24,7 +24,7 @@ export type { ICommandStatistics } from './CommandInvoker';
 
 // Command queue for batch processing
 export { CommandQueue, CommandPriority } from './CommandQueue';
-export type { ICommandQueueConfig, IQueueStatistics } from './CommandQueue';
+export type { ICommandQueueConfig, IQueueStatistics, CommandSettledListener } from './CommandQueue';
 
 // Import classes for utility functions
 import { DomainCheckCommand } from './DomainCheckCommand';
@@ -104,6 +104,7 @@ export const CommandUtils = {
     defaultPriority: CommandPriority.NORMAL,
     autoStart: true,
     processingDelay: 100,
-    maxAttempts: 3
+    maxAttempts: 3,
+    retainResults: true
   })
 };
\ No newline at end of file
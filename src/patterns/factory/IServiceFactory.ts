@@ -1,6 +1,7 @@
 import type { DNSLookupService } from '../../services/DNSLookupService';
 import type { WHOISQueryService } from '../../services/WHOISQueryService';
 import type { HybridQueryService } from '../../services/HybridQueryService';
+import type { RDAPQueryService } from '../../services/RDAPQueryService';
 
 /**
  * Interface for query services created by the factory
@@ -17,7 +18,7 @@ export interface IQueryService {
    * Get the type of this service
    * @returns Service type identifier
    */
-  getServiceType(): 'DNS' | 'WHOIS' | 'HYBRID';
+  getServiceType(): 'DNS' | 'WHOIS' | 'RDAP' | 'HYBRID';
 
   /**
    * Get service configuration
@@ -65,6 +66,13 @@ export interface IServiceFactory {
    */
   createWHOISService(config?: Partial<IServiceConfig>): WHOISQueryService;
 
+  /**
+   * Create an RDAP query service
+   * @param config - Optional service configuration
+   * @returns RDAP query service instance
+   */
+  createRDAPService(config?: Partial<IServiceConfig>): RDAPQueryService;
+
   /**
    * Create a hybrid service (DNS + WHOIS)
    * @param config - Optional service configuration
@@ -78,7 +86,7 @@ export interface IServiceFactory {
    * @param config - Optional service configuration
    * @returns Query service instance
    */
-  getServiceByType(type: 'DNS' | 'WHOIS' | 'HYBRID', config?: Partial<IServiceConfig>): IQueryService;
+  getServiceByType(type: 'DNS' | 'WHOIS' | 'RDAP' | 'HYBRID', config?: Partial<IServiceConfig>): IQueryService;
 
   /**
    * Configure default settings for all services
@@ -2,6 +2,9 @@ import type { IServiceFactory, IQueryService, IServiceConfig } from './IServiceF
 import { DNSLookupService } from '../../services/DNSLookupService';
 import { WHOISQueryService } from '../../services/WHOISQueryService';
 import { HybridQueryService } from '../../services/HybridQueryService';
+import { RDAPQueryService } from '../../services/RDAPQueryService';
+import { LatencyTracker } from '../../services/latency/LatencyTracker';
+import { PublicSuffixService } from '../../services/PublicSuffixService';
 
 /**
  * Service Factory implementation for creating domain query services
@@ -11,8 +14,13 @@ export class ServiceFactory implements IServiceFactory {
   private defaultConfig: IServiceConfig;
   private serviceInstances: Map<string, IQueryService> = new Map();
   private enableCaching: boolean;
+  private latencyTracker: LatencyTracker;
 
-  constructor(defaultConfig?: Partial<IServiceConfig>, enableCaching: boolean = true) {
+  constructor(
+    defaultConfig?: Partial<IServiceConfig>,
+    enableCaching: boolean = true,
+    latencyTracker: LatencyTracker = LatencyTracker.getInstance()
+  ) {
     this.defaultConfig = {
       timeoutMs: 5000,
       maxRetries: 3,
@@ -21,6 +29,7 @@ export class ServiceFactory implements IServiceFactory {
       ...defaultConfig
     };
     this.enableCaching = enableCaching;
+    this.latencyTracker = latencyTracker;
   }
 
   /**
@@ -47,6 +56,7 @@ export class ServiceFactory implements IServiceFactory {
       priority: 1,
       enabled: true
     });
+    service.setWildcardDetection(true);
     
     if (cacheKey) {
       this.serviceInstances.set(cacheKey, service as any);
@@ -87,6 +97,38 @@ export class ServiceFactory implements IServiceFactory {
     return service;
   }
 
+  /**
+   * Create an RDAP query service
+   * @param config - Optional service configuration
+   * @returns RDAP query service instance
+   */
+  createRDAPService(config?: Partial<IServiceConfig>): RDAPQueryService {
+    const finalConfig = { ...this.defaultConfig, ...config };
+    const cacheKey = this.enableCaching ? `RDAP_${this.getConfigHash(finalConfig)}` : null;
+    
+    if (cacheKey && this.serviceInstances.has(cacheKey)) {
+      return this.serviceInstances.get(cacheKey)! as RDAPQueryService;
+    }
+    
+    const service = new RDAPQueryService();
+    
+    // Always configure service with final config (defaults + overrides)
+    service.setConfig({
+      timeoutMs: finalConfig.timeoutMs !== undefined ? finalConfig.timeoutMs : 3000,
+      maxRetries: finalConfig.maxRetries !== undefined ? finalConfig.maxRetries : 2,
+      retryDelayMs: finalConfig.retryDelayMs !== undefined ? finalConfig.retryDelayMs : 500,
+      useExponentialBackoff: finalConfig.useExponentialBackoff !== undefined ? finalConfig.useExponentialBackoff : false,
+      priority: 2,
+      enabled: true
+    });
+    
+    if (cacheKey) {
+      this.serviceInstances.set(cacheKey, service as any);
+    }
+    
+    return service;
+  }
+
   /**
    * Create a hybrid service (DNS + WHOIS)
    * @param config - Optional service configuration
@@ -125,12 +167,14 @@ export class ServiceFactory implements IServiceFactory {
    * @param config - Optional service configuration
    * @returns Query service instance
    */
-  getServiceByType(type: 'DNS' | 'WHOIS' | 'HYBRID', config?: Partial<IServiceConfig>): IQueryService {
+  getServiceByType(type: 'DNS' | 'WHOIS' | 'RDAP' | 'HYBRID', config?: Partial<IServiceConfig>): IQueryService {
     switch (type) {
       case 'DNS':
         return this.createDNSService(config);
       case 'WHOIS':
         return this.createWHOISService(config);
+      case 'RDAP':
+        return this.createRDAPService(config);
       case 'HYBRID':
         return this.createHybridService(config);
       default:
@@ -165,21 +209,37 @@ export class ServiceFactory implements IServiceFactory {
    * @param baseType - Base service type to use
    * @returns Optimized service instance
    */
-  createOptimizedService(domain: string, baseType: 'DNS' | 'WHOIS' | 'HYBRID' = 'HYBRID'): IQueryService {
-    const optimizedConfig = this.getOptimizedConfig(domain);
+  createOptimizedService(domain: string, baseType: 'DNS' | 'WHOIS' | 'RDAP' | 'HYBRID' = 'HYBRID'): IQueryService {
+    const optimizedConfig = this.getOptimizedConfig(domain, baseType);
     return this.getServiceByType(baseType, optimizedConfig);
   }
 
+  /**
+   * Get the tracker whose latency statistics drive optimized configurations
+   * @returns Latency tracker
+   */
+  getLatencyTracker(): LatencyTracker {
+    return this.latencyTracker;
+  }
+
   /**
    * Get optimized configuration based on domain characteristics
    * @param domain - Domain to optimize for
+   * @param source - Service type that will query the domain
    * @returns Optimized service configuration
    */
-  private getOptimizedConfig(domain: string): Partial<IServiceConfig> {
-    const tld = this.extractTLD(domain);
+  private getOptimizedConfig(domain: string, source: 'DNS' | 'WHOIS' | 'RDAP' | 'HYBRID'): Partial<IServiceConfig> {
+    const tld = PublicSuffixService.getInstance().getPublicSuffix(domain);
+
+    // Prefer settings learned from this TLD's observed latency once there are enough samples
+    const adaptiveConfig = this.latencyTracker.getAdaptiveConfig(tld, source);
+    if (adaptiveConfig) {
+      return adaptiveConfig;
+    }
+
     const config: Partial<IServiceConfig> = {};
     
-    // Optimize timeouts based on TLD characteristics
+    // Otherwise optimize timeouts based on TLD characteristics
     switch (tld) {
       case '.com':
       case '.net':
@@ -213,16 +273,6 @@ export class ServiceFactory implements IServiceFactory {
     return config;
   }
 
-  /**
-   * Extract TLD from domain name
-   * @param domain - Full domain name
-   * @returns TLD portion
-   */
-  private extractTLD(domain: string): string {
-    const lastDotIndex = domain.lastIndexOf('.');
-    return lastDotIndex !== -1 ? domain.substring(lastDotIndex) : '';
-  }
-
   /**
    * Generate a hash for service configuration to enable caching
    * @param config - Service configuration
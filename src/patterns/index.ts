@@ -8,7 +8,7 @@ export type { IQueryService, IServiceConfig, IServiceFactory } from './factory/I
 export { ServiceFactory } from './factory/ServiceFactory';
 
 // Strategy Pattern exports
-export type { IQueryStrategy, IStrategyConfig, IStrategyContext } from './strategy/IQueryStrategy';
+export type { IQueryStrategy, IStrategyConfig, IConsensusConfig, IStrategyContext } from './strategy/IQueryStrategy';
 export { QueryStrategyType } from './strategy/IQueryStrategy';
 
 // Command Pattern exports
@@ -19,5 +19,8 @@ export type { IApplicationState, IApplicationStateContext, IUICallbacks as IStat
 export { ApplicationStateType } from './state/IApplicationState';
 export { ApplicationStateManager, BaseApplicationState, IdleState, ValidatingState, CheckingState, CompletedState, ErrorState } from './state';
 
+// Circuit Breaker Pattern exports
+export * from './circuit-breaker';
+
 // Repository Pattern exports
 export type { IDomainResultRepository, IQueryHistoryRepository, IQueryStatistics } from './repository/IDomainResultRepository';
\ No newline at end of file
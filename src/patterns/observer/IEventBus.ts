@@ -87,6 +87,7 @@ export interface ICheckStartedEvent {
  * Event data for result updates
  */
 export interface IResultUpdatedEvent {
+  requestId: string;
   result: import('../../models').IDomainResult;
   progress: {
     completed: number;
@@ -6,6 +6,7 @@ import type {
 } from './IApplicationState';
 import { ApplicationStateType } from './IApplicationState';
 import type { IDomainResult } from '../../models';
+import { isDefinitiveStatus } from '../../models/AvailabilityStatus';
 
 import { IdleState } from './IdleState';
 import { ValidatingState } from './ValidatingState';
@@ -220,9 +221,7 @@ export class ApplicationStateManager implements IApplicationStateManager {
       
       if (allCompleted && hasResults) {
         // Check if we have any successful results
-        const hasSuccessfulResults = this.context.results.some(r => 
-          r.status === 'available' || r.status === 'taken'
-        );
+        const hasSuccessfulResults = this.context.results.some(r => isDefinitiveStatus(r.status));
         
         if (hasSuccessfulResults) {
           this.transitionTo('completed' as ApplicationStateType);
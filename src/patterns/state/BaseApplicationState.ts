@@ -1,6 +1,7 @@
 import type { IApplicationState, IApplicationStateContext, IUICallbacks } from './IApplicationState';
 import { ApplicationStateType } from './IApplicationState';
 import type { IDomainResult, IQueryError } from '../../models';
+import { AvailabilityStatus } from '../../models/AvailabilityStatus';
 
 /**
  * Base class for application states providing common functionality
@@ -49,6 +50,17 @@ export abstract class BaseApplicationState implements IApplicationState {
       this.context.results.push(result);
     }
 
+    // Record typed failures so the error state can tell e.g. rate limiting from network errors
+    if (result.status === AvailabilityStatus.ERROR && result.errorType) {
+      this.context.errors.push({
+        domain: result.domain,
+        errorType: result.errorType,
+        message: result.error || `${result.errorType} error`,
+        retryable: result.errorType !== 'INVALID_RESPONSE',
+        timestamp: result.lastChecked
+      });
+    }
+
     // Update progress
     this.context.progress.completed = this.context.results.filter(r => 
       r.status !== 'checking'
@@ -177,8 +189,9 @@ export abstract class BaseApplicationState implements IApplicationState {
       return false;
     }
 
-    // Check for valid characters (alphanumeric and hyphens only)
-    if (!/^[a-zA-Z0-9-]+$/.test(trimmed)) {
+    // Check for valid characters (letters of any script, digits and hyphens);
+    // internationalized names are converted to punycode by the server
+    if (!/^[\p{L}\p{M}\p{Nd}-]+$/u.test(trimmed)) {
       return false;
     }
 
@@ -2,7 +2,7 @@ import { BaseApplicationState } from './BaseApplicationState';
 import { ApplicationStateType } from './IApplicationState';
 import type { IApplicationStateContext } from './IApplicationState';
 import type { IDomainResult } from '../../models';
-import { AvailabilityStatus } from '../../models/AvailabilityStatus';
+import { AvailabilityStatus, isDefinitiveStatus } from '../../models/AvailabilityStatus';
 
 /**
  * Checking state - domain availability checks are in progress
@@ -68,9 +68,7 @@ export class CheckingState extends BaseApplicationState {
     super.handleError(error);
     
     // Check if we should transition to error state or continue with partial results
-    const hasAnySuccessfulResults = this.context.results.some(r => 
-      r.status === AvailabilityStatus.AVAILABLE || r.status === AvailabilityStatus.TAKEN
-    );
+    const hasAnySuccessfulResults = this.context.results.some(r => isDefinitiveStatus(r.status));
     
     const allFailed = this.context.results.every(r => 
       r.status === AvailabilityStatus.ERROR
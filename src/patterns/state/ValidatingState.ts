@@ -73,7 +73,7 @@ export class ValidatingState extends BaseApplicationState {
       
       if (input.length < 1 || input.length > 63) {
         errorMessage += 'Domain must be between 1 and 63 characters long.';
-      } else if (!/^[a-zA-Z0-9-]+$/.test(input)) {
+      } else if (!/^[\p{L}\p{M}\p{Nd}-]+$/u.test(input)) {
         errorMessage += 'Domain can only contain letters, numbers, and hyphens.';
       } else if (input.startsWith('-') || input.endsWith('-')) {
         errorMessage += 'Domain cannot start or end with a hyphen.';
@@ -64,6 +64,18 @@ export interface IStrategyConfig {
   priority: number;
   /** Whether this strategy is enabled */
   enabled: boolean;
+  /** Ask several resolvers and require a quorum before trusting DNS (DNS strategies only) */
+  consensus?: IConsensusConfig;
+}
+
+/**
+ * Multi-resolver consensus settings
+ */
+export interface IConsensusConfig {
+  /** Resolvers queried in parallel, e.g. ["1.1.1.1", "8.8.8.8", "9.9.9.9"] */
+  resolvers: string[];
+  /** Agreeing resolvers required for a definitive status (default: a strict majority) */
+  quorum?: number;
 }
 
 /**
@@ -0,0 +1,172 @@
+import type { IAvailabilityEvidence, IDomainResult, EvidenceSource, VerdictBasis } from '../models';
+import { AvailabilityStatus, isDefinitiveStatus } from '../models/AvailabilityStatus';
+
+/**
+ * Verdict reached from the evidence gathered for a domain
+ */
+export interface IAvailabilityVerdict {
+  /** Winning status */
+  status: AvailabilityStatus;
+  /** Confidence in the status (0-1) */
+  confidence: number;
+  /** Whether a registry source supports the status */
+  verdictBasis: VerdictBasis;
+  /** Display verdict for available/taken statuses */
+  verdict?: string;
+}
+
+/**
+ * Availability Verdict Service - weighs evidence from DNS and registry sources into a single verdict
+ * Registries are authoritative for registration state, while DNS only shows whether a name
+ * resolves: a registered domain without name servers looks exactly like an unregistered one
+ */
+export class AvailabilityVerdictService {
+  /** Relative trust in each source */
+  private static readonly SOURCE_WEIGHTS: Record<EvidenceSource, number> = {
+    RDAP: 3,
+    WHOIS: 3,
+    ZONE: 2,
+    DNS: 1
+  };
+
+  /** Confidence assumed for results that carry no evidence of their own */
+  private static readonly DEFAULT_CONFIDENCE: Record<EvidenceSource, number> = {
+    RDAP: 0.95,
+    WHOIS: 0.9,
+    ZONE: 0.9,
+    DNS: 0.5
+  };
+
+  private static readonly MAX_SNIPPET_LENGTH = 300;
+
+  /**
+   * Combine evidence into a verdict.
+   * Each definitive piece of evidence scores its source weight times its confidence; the
+   * status with the highest score wins. Confidence is the winner's share of the total score,
+   * scaled by the most certain source supporting it, so disagreement lowers confidence.
+   * @param evidence - Evidence from every source consulted
+   * @returns Verdict, or null if no source gave a definitive answer
+   */
+  combine(evidence: IAvailabilityEvidence[]): IAvailabilityVerdict | null {
+    const scores = new Map<AvailabilityStatus, number>();
+    let total = 0;
+
+    for (const item of this.usable(evidence)) {
+      const score = AvailabilityVerdictService.SOURCE_WEIGHTS[item.source] * item.confidence;
+      scores.set(item.status, (scores.get(item.status) || 0) + score);
+      total += score;
+    }
+
+    let status: AvailabilityStatus | null = null;
+    let winnerScore = 0;
+    for (const [candidate, score] of scores) {
+      if (score > winnerScore) {
+        status = candidate;
+        winnerScore = score;
+      }
+    }
+
+    if (status === null) {
+      return null;
+    }
+
+    const supporting = this.usable(evidence).filter(item => item.status === status);
+    const certainty = Math.max(...supporting.map(item => item.confidence));
+    const verdictBasis: VerdictBasis = supporting.some(item => item.source === 'WHOIS' || item.source === 'RDAP')
+      ? 'registry'
+      : supporting.some(item => item.source === 'ZONE') ? 'zone' : 'dns';
+    const verdict = this.describe(status, verdictBasis);
+
+    return {
+      status,
+      confidence: Math.round((winnerScore / total) * certainty * 100) / 100,
+      verdictBasis,
+      ...(verdict && { verdict })
+    };
+  }
+
+  /**
+   * Build the confidence and evidence fields of a domain result
+   * @param evidence - Evidence gathered for the result
+   * @returns Fields to spread into an IDomainResult
+   */
+  summarize(evidence: IAvailabilityEvidence[]): Pick<IDomainResult, 'confidence' | 'verdictBasis' | 'verdict' | 'evidence'> {
+    const verdict = this.combine(evidence);
+    if (!verdict) {
+      return { confidence: 0, evidence };
+    }
+
+    return {
+      confidence: verdict.confidence,
+      verdictBasis: verdict.verdictBasis,
+      ...(verdict.verdict && { verdict: verdict.verdict }),
+      evidence
+    };
+  }
+
+  /**
+   * Get the evidence behind a result, deriving it from the status for results without any
+   * @param result - Result reported by a source
+   * @param source - Source that produced the result
+   * @returns Evidence for the result
+   */
+  toEvidence(result: IDomainResult, source: EvidenceSource): IAvailabilityEvidence[] {
+    if (result.evidence && result.evidence.length > 0) {
+      return result.evidence;
+    }
+
+    return [{
+      source,
+      status: result.status,
+      confidence: isDefinitiveStatus(result.status) ? AvailabilityVerdictService.DEFAULT_CONFIDENCE[source] : 0,
+      detail: result.error || `${source} reported ${result.status}`,
+      ...(result.executionTime !== undefined && { executionTime: result.executionTime }),
+      ...(result.responseTime !== undefined && { responseTime: result.responseTime })
+    }];
+  }
+
+  /**
+   * Describe an available/taken verdict together with what backs it
+   * @param status - Verdict status
+   * @param verdictBasis - Whether a registry supports the status
+   * @returns Display verdict, or undefined for other statuses
+   */
+  describe(status: AvailabilityStatus, verdictBasis: VerdictBasis): string | undefined {
+    // A delegation in the zone file proves a registration, but names without name servers
+    // (e.g. on hold) are missing from it too
+    const confirmed = verdictBasis === 'registry' || (verdictBasis === 'zone' && status === AvailabilityStatus.TAKEN);
+    const qualifier = confirmed ? 'Confirmed' : 'Likely';
+    const suffix = verdictBasis === 'registry' ? '(registry)' : verdictBasis === 'zone' ? '(zone file)' : '(DNS only)';
+
+    switch (status) {
+      case AvailabilityStatus.AVAILABLE:
+        return `${qualifier} available ${suffix}`;
+      case AvailabilityStatus.TAKEN:
+        return `${qualifier} taken ${suffix}`;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Cut a raw response down to the lines worth keeping as evidence
+   * Skips blank lines and WHOIS comment/legal banners ("%", "#", ">>>")
+   * @param raw - Raw response text
+   * @returns Excerpt of at most MAX_SNIPPET_LENGTH characters
+   */
+  excerpt(raw: string): string {
+    const lines = raw
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !/^(?:%|#|>>>)/.test(line));
+
+    const snippet = lines.join('\n');
+    return snippet.length > AvailabilityVerdictService.MAX_SNIPPET_LENGTH
+      ? `${snippet.slice(0, AvailabilityVerdictService.MAX_SNIPPET_LENGTH - 3)}...`
+      : snippet;
+  }
+
+  private usable(evidence: IAvailabilityEvidence[]): IAvailabilityEvidence[] {
+    return evidence.filter(item => isDefinitiveStatus(item.status) && item.confidence > 0);
+  }
+}
\ No newline at end of file
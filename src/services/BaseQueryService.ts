@@ -1,6 +1,8 @@
 import type { IDomainResult } from '../models/IDomainResult';
 import type { IServiceConfig } from '../patterns/factory/IServiceFactory';
 import { AvailabilityStatus } from '../models/AvailabilityStatus';
+import { CircuitOpenError } from '../patterns/circuit-breaker/CircuitOpenError';
+import { PublicSuffixService } from './PublicSuffixService';
 
 /**
  * Base class for query services providing common functionality
@@ -40,20 +42,17 @@ export abstract class BaseQueryService {
   /**
    * Abstract method to get service type
    */
-  abstract getServiceType(): 'DNS' | 'WHOIS' | 'HYBRID';
+  abstract getServiceType(): 'DNS' | 'WHOIS' | 'RDAP' | 'HYBRID';
 
   /**
-   * Parse domain into components
+   * Parse domain into components, splitting at the public suffix (e.g., ".co.uk")
    */
   protected parseDomain(domain: string): { baseDomain: string; tld: string } {
-    const lastDotIndex = domain.lastIndexOf('.');
-    if (lastDotIndex === -1) {
+    const { baseDomain, tld } = PublicSuffixService.getInstance().parse(domain);
+    if (!tld) {
       throw new Error(`Invalid domain format: ${domain}`);
     }
     
-    const baseDomain = domain.substring(0, lastDotIndex);
-    const tld = domain.substring(lastDotIndex);
-    
     return { baseDomain, tld };
   }
 
@@ -63,7 +62,7 @@ export abstract class BaseQueryService {
   protected createDomainResult(
     domain: string,
     status: AvailabilityStatus,
-    checkMethod: 'DNS' | 'WHOIS' | 'HYBRID',
+    checkMethod: 'DNS' | 'WHOIS' | 'RDAP' | 'HYBRID',
     executionTime?: number,
     error?: string,
     retryCount?: number
@@ -107,6 +106,11 @@ export abstract class BaseQueryService {
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
 
+        // An open circuit stays open for its cool-down, so retrying would only fail again
+        if (error instanceof CircuitOpenError) {
+          throw error;
+        }
+
         if (attempt < maxRetries) {
           const delay = this.config.useExponentialBackoff
             ? this.config.retryDelayMs * Math.pow(2, attempt)
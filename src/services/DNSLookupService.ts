@@ -1,7 +1,51 @@
 import { promises as dns } from 'dns';
-import type { IDomainResult } from '../models';
+import { randomBytes } from 'crypto';
+import type {
+  IAvailabilityEvidence,
+  IDNSConsensus,
+  IDomainResult,
+  IParkingDetection,
+  IResolverVote,
+  IWildcardDetection
+} from '../models';
 import { AvailabilityStatus } from '../models/AvailabilityStatus';
-import type { IQueryStrategy, IStrategyConfig } from '../patterns/strategy/IQueryStrategy';
+import type { IConsensusConfig, IQueryStrategy, IStrategyConfig } from '../patterns/strategy/IQueryStrategy';
+import { CircuitBreakerRegistry } from '../patterns/circuit-breaker/CircuitBreakerRegistry';
+import { AvailabilityVerdictService } from './AvailabilityVerdictService';
+import { ParkedDomainService } from './ParkedDomainService';
+import { PublicSuffixService } from './PublicSuffixService';
+import { DNSWireClient, DNSRcode, DNSRecordType } from './dns';
+import type { IDNSQueryResult } from './dns';
+
+/**
+ * How the DNS lookup decides availability
+ * - resolver: asks the system resolver for records at the name itself
+ * - delegation: asks the TLD's authoritative servers whether the name is delegated
+ */
+export type DNSLookupMode = 'resolver' | 'delegation';
+
+/**
+ * Outcome of a DNS lookup before it is turned into a domain result
+ */
+interface IDNSLookupResult {
+  available: boolean;
+  records: string[];
+  mode: DNSLookupMode;
+  /** Server(s) that answered, when known */
+  server?: string;
+  /** Response code reported by the wire client */
+  rcode?: string;
+  /** AD flag reported by the wire client */
+  authenticated?: boolean;
+  /** Seconds the answer may be cached, when the wire client saw the TTLs */
+  ttl?: number;
+  /** Per-resolver answers (consensus mode) */
+  consensus?: IDNSConsensus;
+  /** Wildcard records found in the TLD */
+  wildcard?: IWildcardDetection;
+  /** Parking provider recognized from the records */
+  parked?: IParkingDetection;
+}
 
 /**
  * DNS Lookup Service - provides fast domain availability checking using DNS resolution
@@ -17,26 +61,57 @@ export class DNSLookupService implements IQueryStrategy {
     enabled: true
   };
 
+  // No records only means the name does not resolve - registered domains can be undelegated
+  private static readonly NO_RECORDS_CONFIDENCE = 0.5;
+  private static readonly RECORDS_CONFIDENCE = 0.8;
+  // NS records at the name mean the parent zone delegates it, which requires a registration
+  private static readonly DELEGATED_CONFIDENCE = 0.9;
+  // The parent zone answering for itself is close to authoritative; registered names on
+  // serverHold or without name servers are the exception, as they are not delegated
+  private static readonly PARENT_DELEGATION_CONFIDENCE = 0.95;
+  // An explicit NXDOMAIN is stronger than an empty answer but still says nothing about
+  // registered names that are not delegated
+  private static readonly NXDOMAIN_CONFIDENCE = 0.8;
+  // Records identical to the TLD wildcard suggest no registration, but a registered
+  // name may point at the same addresses
+  private static readonly WILDCARD_CONFIDENCE = 0.4;
+  private static readonly MAX_DELEGATION_SERVERS = 4;
+
+  private verdicts = new AvailabilityVerdictService();
+  private wireClient = new DNSWireClient();
+  private resolvers: string[] | null = null;
+  private parking = new ParkedDomainService();
+  private suffixes = PublicSuffixService.getInstance();
+  private wildcardDetection = false;
+  private wildcardCache: Map<string, string[]> = new Map();
+  private lookupMode: DNSLookupMode = 'resolver';
+  private delegationServers: string[] | null = null;
+  private tldServerCache: Map<string, string[]> = new Map();
+  private breakers: CircuitBreakerRegistry;
+
+  constructor(breakers: CircuitBreakerRegistry = CircuitBreakerRegistry.getInstance()) {
+    this.breakers = breakers;
+  }
+
   /**
    * Check domain availability (alias for execute method)
    * @param domain - Full domain name to check
+   * @param resolvers - Resolvers to query for this check only (see setResolvers)
    * @returns Promise resolving to domain result
    */
-  async checkDomain(domain: string): Promise<IDomainResult> {
-    return this.execute(domain);
+  async checkDomain(domain: string, resolvers?: string[]): Promise<IDomainResult> {
+    return this.execute(domain, resolvers);
   }
 
-
-
   /**
    * Execute DNS-based domain availability check
    * @param domain - Full domain name to check
+   * @param resolvers - Resolvers to query for this check only (see setResolvers)
    * @returns Promise resolving to domain result
    */
-  async execute(domain: string): Promise<IDomainResult> {
+  async execute(domain: string, resolvers?: string[]): Promise<IDomainResult> {
     const startTime = Date.now();
-    const baseDomain = this.extractBaseDomain(domain);
-    const tld = this.extractTLD(domain);
+    const { baseDomain, tld } = this.suffixes.parse(domain);
 
     // Validate domain format first
     if (!this.isValidDomainFormat(domain)) {
@@ -56,19 +131,59 @@ export class DNSLookupService implements IQueryStrategy {
 
     try {
       // Perform DNS resolution with timeout
-      const result = await this.performDNSLookup(domain);
+      const callResolvers = resolvers && resolvers.length > 0 ? resolvers : null;
+      const activeResolvers = callResolvers || this.resolvers;
+      const consensus = this.config.consensus;
+      // Probe the TLD first so that wildcard answers are not mistaken for a registration
+      const wildcardAddresses = this.wildcardDetection && this.lookupMode === 'resolver'
+        ? await this.detectWildcard(tld, callResolvers || (consensus && consensus.resolvers.length > 0 ? consensus.resolvers : this.resolvers))
+        : [];
+      // Each upstream has its own circuit; consensus lookups go through one per resolver
+      const upstream = this.getUpstreamName(tld, activeResolvers);
+      // The wildcard probe is not part of the lookup's response time
+      const lookupStart = Date.now();
+      let result: IDNSLookupResult;
+      if (this.lookupMode === 'delegation') {
+        result = await this.breakers.execute(upstream, () => this.performDelegationLookup(domain, activeResolvers));
+      } else if (!callResolvers && consensus && consensus.resolvers.length > 0) {
+        result = await this.performConsensusLookup(domain, consensus);
+      } else if (activeResolvers) {
+        result = await this.breakers.execute(upstream, () => this.performWireLookup(domain, activeResolvers));
+      } else {
+        result = await this.breakers.execute(upstream, () => this.performDNSLookup(domain));
+      }
+      const responseTime = Date.now() - lookupStart;
+      if (wildcardAddresses.length > 0) {
+        result = this.applyWildcard(result, tld, wildcardAddresses);
+      }
+      if (!result.available) {
+        const parked = this.parking.classify(this.recordValues(result.records, 'NS'), this.recordValues(result.records, 'A'));
+        if (parked) {
+          result = { ...result, parked };
+        }
+      }
       const executionTime = Date.now() - startTime;
+      let status = result.available ? AvailabilityStatus.AVAILABLE : AvailabilityStatus.TAKEN;
+      if (result.consensus && !result.consensus.reached) {
+        status = AvailabilityStatus.UNKNOWN;
+      }
 
       return {
         domain,
         baseDomain,
         tld,
-        status: result.available ? AvailabilityStatus.AVAILABLE : AvailabilityStatus.TAKEN,
+        status,
         lastChecked: new Date(),
         checkMethod: 'DNS' as const,
         retryCount: 0,
         executionTime,
-        ...(result.records && result.records.length > 0 && { dnsRecords: result.records })
+        responseTime,
+        ...(result.records && result.records.length > 0 && { dnsRecords: result.records }),
+        ...(result.ttl !== undefined && { dnsTtl: result.ttl }),
+        ...this.verdicts.summarize([{ ...this.createEvidence(status, result, executionTime), responseTime }]),
+        ...(result.consensus && { consensus: result.consensus }),
+        ...(result.wildcard && { wildcard: result.wildcard }),
+        ...(result.parked && { parked: result.parked })
       };
     } catch (error) {
       const executionTime = Date.now() - startTime;
@@ -83,7 +198,14 @@ export class DNSLookupService implements IQueryStrategy {
         checkMethod: 'DNS' as const,
         retryCount: 0,
         executionTime,
-        error: errorMessage
+        error: errorMessage,
+        ...this.verdicts.summarize([{
+          source: 'DNS',
+          status: AvailabilityStatus.ERROR,
+          confidence: 0,
+          detail: errorMessage,
+          executionTime
+        }])
       };
     }
   }
@@ -138,15 +260,363 @@ export class DNSLookupService implements IQueryStrategy {
     return 'DNSLookupService';
   }
 
+  /**
+   * Describe what a DNS lookup showed about the domain
+   * @param status - Status derived from the lookup
+   * @param result - Lookup outcome
+   * @param executionTime - Lookup time in milliseconds
+   * @returns DNS evidence
+   */
+  private createEvidence(status: AvailabilityStatus, result: IDNSLookupResult, executionTime: number): IAvailabilityEvidence {
+    if (result.consensus) {
+      // Scale the leading answer by the share of resolvers behind it
+      const { consensus, ...lookup } = result;
+      const evidence = this.createEvidence(status, lookup, executionTime);
+      return {
+        ...evidence,
+        confidence: consensus.reached
+          ? Math.round(evidence.confidence * (consensus.agreeing / consensus.votes.length) * 100) / 100
+          : 0,
+        detail: `${evidence.detail}; ${consensus.agreeing} of ${consensus.votes.length} resolvers agree (quorum ${consensus.quorum})`
+      };
+    }
+
+    const response = {
+      ...(result.server && { server: result.server }),
+      ...(result.rcode && { rcode: result.rcode }),
+      ...(result.authenticated !== undefined && { authenticated: result.authenticated }),
+      executionTime
+    };
+
+    if (result.mode === 'delegation') {
+      return {
+        source: 'DNS',
+        status,
+        confidence: result.available
+          ? DNSLookupService.NXDOMAIN_CONFIDENCE
+          : DNSLookupService.PARENT_DELEGATION_CONFIDENCE,
+        detail: result.available
+          ? 'TLD name servers returned NXDOMAIN (not delegated)'
+          : 'TLD name servers delegate the domain',
+        ...(result.records.length > 0 && { snippet: result.records.join('\n') }),
+        ...response
+      };
+    }
+
+    if (result.wildcard && result.wildcard.matched) {
+      return {
+        source: 'DNS',
+        status,
+        confidence: DNSLookupService.WILDCARD_CONFIDENCE,
+        detail: `Only the ${result.wildcard.zone} wildcard records were found`,
+        snippet: result.records.join('\n'),
+        ...response
+      };
+    }
+
+    if (result.records.length === 0) {
+      return {
+        source: 'DNS',
+        status,
+        confidence: result.rcode === 'NXDOMAIN'
+          ? DNSLookupService.NXDOMAIN_CONFIDENCE
+          : DNSLookupService.NO_RECORDS_CONFIDENCE,
+        detail: result.rcode
+          ? `No A, AAAA, MX or NS records found (${result.rcode})`
+          : 'No A, AAAA, MX or NS records found',
+        ...response
+      };
+    }
+
+    const recordTypes = result.records.map(record => record.split(':')[0]);
+    return {
+      source: 'DNS',
+      status,
+      confidence: recordTypes.includes('NS')
+        ? DNSLookupService.DELEGATED_CONFIDENCE
+        : DNSLookupService.RECORDS_CONFIDENCE,
+      detail: result.parked
+        ? `Found ${recordTypes.join(', ')} records; parked with ${result.parked.provider}`
+        : `Found ${recordTypes.join(', ')} records`,
+      snippet: result.records.join('\n'),
+      ...response
+    };
+  }
+
+  /**
+   * Ask the TLD's authoritative servers whether the domain is delegated.
+   * The parent zone answers NXDOMAIN for names it does not delegate and a referral
+   * (NOERROR with NS records in the authority section) for names it does.
+   * @param domain - Domain to lookup
+   * @param resolvers - Resolvers used to discover the TLD servers, if configured
+   * @returns Delegation lookup result
+   */
+  private async performDelegationLookup(domain: string, resolvers: string[] | null): Promise<IDNSLookupResult> {
+    const tld = this.suffixes.getPublicSuffix(domain);
+    const servers = this.delegationServers || await this.getTLDNameServers(tld, resolvers || undefined);
+    if (servers.length === 0) {
+      throw new Error(`No authoritative name servers found for ${tld}`);
+    }
+
+    const response = await this.wireClient.query(domain, DNSRecordType.NS, {
+      servers,
+      timeoutMs: this.config.timeoutMs,
+      recursionDesired: false
+    });
+    const { message } = response;
+
+    if (message.rcode === DNSRcode.NXDOMAIN) {
+      const ttl = this.getNegativeTtl(response);
+      return {
+        available: true,
+        records: [],
+        mode: 'delegation',
+        server: response.server,
+        rcode: response.rcode,
+        ...(ttl !== undefined && { ttl })
+      };
+    }
+    if (message.rcode !== DNSRcode.NOERROR) {
+      throw new Error(`Delegation lookup failed: ${response.rcode}`);
+    }
+
+    // Servers that are also authoritative for the child zone answer directly
+    const owner = domain.toLowerCase().replace(/\.$/, '');
+    const delegation = [...message.answers, ...message.authority]
+      .filter(record => record.type === DNSRecordType.NS && record.name.toLowerCase() === owner);
+    const nameservers = delegation.map(record => record.data);
+
+    return {
+      available: false,
+      records: nameservers.length > 0 ? [`NS: ${nameservers.join(', ')}`] : [],
+      mode: 'delegation',
+      server: response.server,
+      rcode: response.rcode,
+      ...(delegation.length > 0 && { ttl: Math.min(...delegation.map(record => record.ttl)) })
+    };
+  }
+
+  /**
+   * Name of the circuit breaker guarding the servers a lookup goes to
+   * @param tld - TLD of the domain, for delegation lookups
+   * @param resolvers - Wire client resolvers, or null for the OS resolver
+   * @returns Upstream name, e.g. "dns:system", "dns:1.1.1.1" or "dns:delegation:.com"
+   */
+  private getUpstreamName(tld: string, resolvers: string[] | null): string {
+    if (this.lookupMode === 'delegation') {
+      return `dns:delegation:${tld}`;
+    }
+    return resolvers ? `dns:${resolvers.join(',')}` : 'dns:system';
+  }
+
+  /**
+   * Find the addresses a TLD returns for names that do not exist, if it has wildcard records.
+   * A random label cannot be registered, so any answer to it comes from a wildcard.
+   * @param tld - TLD including the dot
+   * @param resolvers - Resolvers to ask through the wire client, or null for the OS resolver
+   * @returns Wildcard addresses (empty if the TLD has none); conclusive answers are cached per TLD
+   */
+  private async detectWildcard(tld: string, resolvers: string[] | null): Promise<string[]> {
+    const zone = tld.replace(/^\./, '').toLowerCase();
+    const cached = this.wildcardCache.get(zone);
+    if (cached) {
+      return cached;
+    }
+
+    const probe = `${randomBytes(12).toString('hex')}.${zone}`;
+    let addresses: string[];
+    try {
+      if (resolvers) {
+        const response = await this.wireClient.query(probe, DNSRecordType.A, { servers: resolvers, timeoutMs: this.config.timeoutMs });
+        if (response.message.rcode !== DNSRcode.NOERROR && response.message.rcode !== DNSRcode.NXDOMAIN) {
+          return [];
+        }
+        addresses = response.message.answers
+          .filter(record => record.type === DNSRecordType.A)
+          .map(record => record.data);
+      } else {
+        addresses = await dns.resolve4(probe);
+      }
+    } catch (error: any) {
+      if (resolvers || !error || !['ENOTFOUND', 'ENODATA'].includes(error.code)) {
+        return []; // Inconclusive - probe again on the next lookup
+      }
+      addresses = [];
+    }
+
+    this.wildcardCache.set(zone, addresses);
+    return addresses;
+  }
+
+  /**
+   * Check whether the records found are only the TLD's wildcard answer
+   * @param result - Lookup result
+   * @param tld - TLD including the dot
+   * @param wildcardAddresses - Addresses the TLD returns for random labels
+   * @returns Lookup result with the wildcard finding; wildcard-only answers count as available
+   */
+  private applyWildcard(result: IDNSLookupResult, tld: string, wildcardAddresses: string[]): IDNSLookupResult {
+    const addresses = this.recordValues(result.records, 'A');
+    // A delegation (NS records) is a registration even if the name points at the wildcard addresses
+    const matched = addresses.length > 0 &&
+      this.recordValues(result.records, 'NS').length === 0 &&
+      addresses.every(address => wildcardAddresses.includes(address));
+
+    return {
+      ...result,
+      available: result.available || matched,
+      wildcard: { zone: tld, addresses: wildcardAddresses, matched }
+    };
+  }
+
+  /**
+   * Get the values of one record type from formatted records such as "A: 192.0.2.1, 192.0.2.2"
+   */
+  private recordValues(records: string[], type: string): string[] {
+    const record = records.find(entry => entry.startsWith(`${type}: `));
+    return record ? record.slice(type.length + 2).split(', ') : [];
+  }
+
+  /**
+   * Ask each consensus resolver separately and keep the answer most of them agree on.
+   * Ties go to TAKEN: filtering resolvers fake NXDOMAIN, but rarely invent records.
+   * @param domain - Domain to lookup
+   * @param consensus - Resolvers and quorum
+   * @returns Lookup result of the leading answer, with the votes
+   */
+  private async performConsensusLookup(domain: string, consensus: IConsensusConfig): Promise<IDNSLookupResult> {
+    const lookups = await Promise.allSettled(
+      consensus.resolvers.map(resolver =>
+        this.breakers.execute(this.getUpstreamName('', [resolver]), () => this.performWireLookup(domain, [resolver]))
+      )
+    );
+
+    const votes: IResolverVote[] = lookups.map((lookup, index) => {
+      const resolver = consensus.resolvers[index]!;
+      if (lookup.status === 'rejected') {
+        return {
+          resolver,
+          status: AvailabilityStatus.ERROR,
+          error: lookup.reason instanceof Error ? lookup.reason.message : 'DNS lookup failed'
+        };
+      }
+      return {
+        resolver,
+        status: lookup.value.available ? AvailabilityStatus.AVAILABLE : AvailabilityStatus.TAKEN,
+        ...(lookup.value.rcode && { rcode: lookup.value.rcode })
+      };
+    });
+
+    const answers = lookups.flatMap(lookup => lookup.status === 'fulfilled' ? [lookup.value] : []);
+    if (answers.length === 0) {
+      throw new Error('Network error during DNS lookup: no resolver answered');
+    }
+
+    const available = answers.filter(answer => answer.available);
+    const taken = answers.filter(answer => !answer.available);
+    const leading = available.length > taken.length ? available : taken;
+    const quorum = consensus.quorum && consensus.quorum > 0
+      ? consensus.quorum
+      : Math.floor(consensus.resolvers.length / 2) + 1;
+
+    return {
+      ...leading[0]!,
+      server: leading.map(answer => answer.server).join(', '),
+      consensus: {
+        quorum,
+        agreeing: leading.length,
+        responded: answers.length,
+        reached: leading.length >= quorum,
+        disagreement: available.length > 0 && taken.length > 0,
+        votes
+      }
+    };
+  }
+
+  /**
+   * Look the domain up through the built-in wire client instead of the OS resolver
+   * @param domain - Domain to lookup
+   * @param resolvers - Resolvers to query, in order of preference
+   * @returns DNS lookup result with the response code and AD flag
+   */
+  private async performWireLookup(domain: string, resolvers: string[]): Promise<IDNSLookupResult> {
+    const recordTypes = [DNSRecordType.A, DNSRecordType.AAAA, DNSRecordType.MX, DNSRecordType.NS];
+    const results = await Promise.allSettled(recordTypes.map(type =>
+      this.wireClient.query(domain, type, {
+        servers: resolvers,
+        timeoutMs: this.config.timeoutMs,
+        dnssecOk: true
+      })
+    ));
+
+    const responses: IDNSQueryResult[] = [];
+    const records: string[] = [];
+    const ttls: number[] = [];
+    results.forEach((result, index) => {
+      if (result.status !== 'fulfilled') {
+        return;
+      }
+      const type = recordTypes[index]!;
+      const answers = result.value.message.answers.filter(record => record.type === type);
+      const ttl = answers.length > 0
+        ? Math.min(...answers.map(record => record.ttl))
+        : this.getNegativeTtl(result.value);
+
+      responses.push(result.value);
+      if (answers.length > 0) {
+        records.push(`${DNSRecordType[type]}: ${answers.map(record => record.data).join(', ')}`);
+      }
+      if (ttl !== undefined) {
+        ttls.push(ttl);
+      }
+    });
+
+    if (responses.length === 0) {
+      throw new Error('Network error during DNS lookup');
+    }
+
+    const failed = responses.find(response =>
+      response.message.rcode === DNSRcode.SERVFAIL || response.message.rcode === DNSRcode.REFUSED
+    );
+    if (records.length === 0 && failed) {
+      throw new Error(`DNS server returned ${failed.rcode}`);
+    }
+
+    // NXDOMAIN on any type means the name does not exist at all
+    const primary = responses.find(response => response.message.rcode === DNSRcode.NXDOMAIN) || responses[0]!;
+    return {
+      available: records.length === 0,
+      records,
+      mode: 'resolver',
+      server: primary.server,
+      rcode: primary.rcode,
+      authenticated: responses.every(response => response.message.flags.authenticData),
+      ...(ttls.length > 0 && { ttl: Math.min(...ttls) })
+    };
+  }
+
+  /**
+   * How long a negative answer (NXDOMAIN or no records) may be cached: the lower of the
+   * SOA record's TTL and its MINIMUM field (RFC 2308 section 5)
+   * @param response - Wire client response
+   * @returns TTL in seconds, or undefined if the response carries no SOA record
+   */
+  private getNegativeTtl(response: IDNSQueryResult): number | undefined {
+    const soa = response.message.authority.find(record => record.type === DNSRecordType.SOA);
+    if (!soa) {
+      return undefined;
+    }
+
+    const minimum = Number(soa.data.split(' ')[6]);
+    return Number.isFinite(minimum) ? Math.min(soa.ttl, minimum) : soa.ttl;
+  }
+
   /**
    * Perform DNS lookup with timeout handling
    * @param domain - Domain to lookup
    * @returns DNS lookup result
    */
-  private async performDNSLookup(domain: string): Promise<{
-    available: boolean;
-    records: string[];
-  }> {
+  private async performDNSLookup(domain: string): Promise<IDNSLookupResult> {
     return new Promise((resolve, reject) => {
       const timeoutId = setTimeout(() => {
         reject(new Error(`DNS lookup timeout after ${this.config.timeoutMs}ms`));
@@ -195,7 +665,8 @@ export class DNSLookupService implements IQueryStrategy {
         // If no records found, it might be available (but not definitive)
         resolve({
           available: !hasAnyRecords,
-          records: records.length > 0 ? records : []
+          records: records.length > 0 ? records : [],
+          mode: 'resolver'
         });
       }).catch(error => {
         clearTimeout(timeoutId);
@@ -277,33 +748,6 @@ export class DNSLookupService implements IQueryStrategy {
     }
   }
 
-  /**
-   * Extract base domain from full domain name
-   * @param domain - Full domain name
-   * @returns Base domain without TLD
-   */
-  private extractBaseDomain(domain: string): string {
-    const parts = domain.toLowerCase().split('.');
-    if (parts.length >= 2) {
-      // Return everything except the TLD
-      return parts.slice(0, -1).join('.');
-    }
-    return domain.toLowerCase();
-  }
-
-  /**
-   * Extract TLD from full domain name
-   * @param domain - Full domain name
-   * @returns TLD including the dot
-   */
-  private extractTLD(domain: string): string {
-    const parts = domain.toLowerCase().split('.');
-    if (parts.length >= 2) {
-      return '.' + parts[parts.length - 1];
-    }
-    return '';
-  }
-
   /**
    * Validate domain format for DNS lookup
    * @param domain - Domain to validate
@@ -343,6 +787,111 @@ export class DNSLookupService implements IQueryStrategy {
     }
   }
 
+  /**
+   * Query these resolvers with the built-in wire client instead of the OS resolver.
+   * Wire lookups report the DNS response code and DNSSEC AD flag in the evidence.
+   * @param resolvers - Resolver addresses, optionally with port (e.g. "1.1.1.1", "[2606:4700::1111]:53"),
+   *                    or null to go back to the OS resolver
+   */
+  setResolvers(resolvers: string[] | null): void {
+    this.resolvers = resolvers && resolvers.length > 0 ? [...resolvers] : null;
+  }
+
+  /**
+   * Get the resolvers used by the wire client
+   * @returns Resolver addresses, or null when the OS resolver is used
+   */
+  getResolvers(): string[] | null {
+    return this.resolvers ? [...this.resolvers] : null;
+  }
+
+  /**
+   * Check whether the DNS servers used for a domain may currently be queried
+   * @param domain - Domain to check
+   * @returns False while their circuit is open (in consensus mode, every resolver's circuit)
+   */
+  isUpstreamAvailable(domain: string): boolean {
+    const consensus = this.config.consensus;
+    if (this.lookupMode === 'resolver' && consensus && consensus.resolvers.length > 0) {
+      return consensus.resolvers.some(resolver => this.breakers.isAvailable(this.getUpstreamName('', [resolver])));
+    }
+    return this.breakers.isAvailable(this.getUpstreamName(this.suffixes.getPublicSuffix(domain), this.resolvers));
+  }
+
+  /**
+   * Probe each TLD with a random label before looking names up, so wildcard answers are not
+   * reported as registrations (resolver mode only)
+   * @param enabled - Whether to detect wildcards
+   */
+  setWildcardDetection(enabled: boolean): void {
+    this.wildcardDetection = enabled;
+  }
+
+  /**
+   * Get whether wildcard detection is enabled
+   * @returns True if TLDs are probed for wildcards
+   */
+  getWildcardDetection(): boolean {
+    return this.wildcardDetection;
+  }
+
+  /**
+   * Set how availability is decided
+   * @param mode - Lookup mode
+   */
+  setLookupMode(mode: DNSLookupMode): void {
+    this.lookupMode = mode;
+  }
+
+  /**
+   * Get the current lookup mode
+   * @returns Lookup mode
+   */
+  getLookupMode(): DNSLookupMode {
+    return this.lookupMode;
+  }
+
+  /**
+   * Use fixed addresses for delegation lookups instead of the TLD's discovered name servers
+   * @param servers - Server addresses, optionally with port (e.g. "127.0.0.1:5353"), or null to discover them
+   */
+  setDelegationServers(servers: string[] | null): void {
+    this.delegationServers = servers && servers.length > 0 ? [...servers] : null;
+  }
+
+  /**
+   * Get the addresses of a TLD's authoritative name servers
+   * @param tld - TLD with or without the leading dot
+   * @param resolvers - Resolvers to ask through the wire client instead of the OS resolver
+   * @returns IPv4 addresses of the TLD servers (cached per TLD)
+   */
+  async getTLDNameServers(tld: string, resolvers?: string[]): Promise<string[]> {
+    const zone = tld.replace(/^\./, '').toLowerCase();
+    const cached = this.tldServerCache.get(zone);
+    if (cached) {
+      return cached;
+    }
+
+    const resolve = async (name: string, type: DNSRecordType): Promise<string[]> => {
+      if (!resolvers) {
+        return type === DNSRecordType.NS ? dns.resolveNs(name) : dns.resolve4(name);
+      }
+      const response = await this.wireClient.query(name, type, { servers: resolvers, timeoutMs: this.config.timeoutMs });
+      return response.message.answers.filter(record => record.type === type).map(record => record.data);
+    };
+
+    const hosts = await resolve(zone, DNSRecordType.NS);
+    const addresses = await Promise.allSettled(
+      hosts.slice(0, DNSLookupService.MAX_DELEGATION_SERVERS).map(host => resolve(host, DNSRecordType.A))
+    );
+    const servers = addresses.flatMap(result => result.status === 'fulfilled' ? result.value : []);
+
+    if (servers.length > 0) {
+      this.tldServerCache.set(zone, servers);
+    }
+    return servers;
+  }
+
   /**
    * Perform reverse DNS lookup
    * @param ip - IP address to lookup
@@ -0,0 +1,53 @@
+import type { IDomainResult } from '../models';
+import { AvailabilityStatus } from '../models/AvailabilityStatus';
+
+/**
+ * Domain Lifecycle Service - refines "taken" into lifecycle statuses using EPP status codes
+ * Works with WHOIS EPP codes ("redemptionPeriod") and RDAP status strings ("redemption period")
+ */
+export class DomainLifecycleService {
+  /**
+   * EPP status codes (RFC 3915 grace periods, RFC 5731 domain statuses) in precedence order,
+   * normalized to lowercase letters only
+   */
+  private static readonly LIFECYCLE_CODES: Array<[string, AvailabilityStatus]> = [
+    ['redemptionperiod', AvailabilityStatus.REDEMPTION],
+    ['pendingrestore', AvailabilityStatus.REDEMPTION],
+    ['pendingdelete', AvailabilityStatus.PENDING_DELETE],
+    ['autorenewperiod', AvailabilityStatus.EXPIRED]
+  ];
+
+  /**
+   * Refine a status using the registration data found during the check
+   * Only TAKEN is refined; every other status is returned unchanged
+   * @param status - Status determined by the query service
+   * @param whoisData - Registration data from WHOIS or RDAP
+   * @returns Lifecycle status, or the original status
+   */
+  resolveStatus(status: AvailabilityStatus, whoisData?: IDomainResult['whoisData']): AvailabilityStatus {
+    if (status !== AvailabilityStatus.TAKEN || !whoisData?.status) {
+      return status;
+    }
+
+    return this.deriveFromEPPStatuses(whoisData.status);
+  }
+
+  /**
+   * Derive the lifecycle status of a registered domain from its EPP status codes
+   * During redemption registries report both redemptionPeriod and pendingDelete,
+   * so redemption takes precedence over pending delete
+   * @param statuses - EPP status codes or RDAP status strings
+   * @returns Lifecycle status, or TAKEN for an ordinary registration
+   */
+  deriveFromEPPStatuses(statuses: string[]): AvailabilityStatus {
+    const codes = new Set(statuses.map(status => status.toLowerCase().replace(/[^a-z]/g, '')));
+
+    for (const [code, lifecycleStatus] of DomainLifecycleService.LIFECYCLE_CODES) {
+      if (codes.has(code)) {
+        return lifecycleStatus;
+      }
+    }
+
+    return AvailabilityStatus.TAKEN;
+  }
+}
\ No newline at end of file
@@ -1,4 +1,8 @@
 import type { IDomainResult } from '../models';
+import { PublicSuffixService } from './PublicSuffixService';
+import { TLDCatalog } from './catalog/TLDCatalog';
+import type { ITLDPricing } from './catalog/TLDCatalog';
+import { PremiumNameDetector } from './PremiumNameDetector';
 
 /**
  * Domain pricing information
@@ -18,186 +22,40 @@ export interface IDomainPricing {
   registrarUrl: string;
   /** Whether this is a premium domain */
   isPremium: boolean;
+  /** Registry premium tier of the name (e.g. "gold"), when it is priced above the TLD */
+  tier?: string;
   /** Additional notes about pricing */
   notes?: string;
 }
 
 /**
  * Domain Pricing Service - provides estimated pricing information for domain registration
- * Based on typical market rates from major registrars (2024 data)
+ * Based on typical market rates from major registrars (2024 data), as listed in the TLD catalog;
+ * names a registry sells at a premium are priced by their tier instead, and reserved names not at all
  */
 export class DomainPricingService {
-  private readonly pricingData: Map<string, {
-    firstYear: number;
-    renewal: number;
-    registrar: string;
-    registrarUrl: string;
-    isPremium: boolean;
-    notes?: string;
-  }> = new Map([
-    // Standard TLDs
-    ['.com', {
-      firstYear: 8.99,
-      renewal: 14.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Most popular and trusted extension'
-    }],
-    ['.net', {
-      firstYear: 10.99,
-      renewal: 15.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Good alternative to .com'
-    }],
-    ['.org', {
-      firstYear: 9.99,
-      renewal: 14.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Ideal for organizations and nonprofits'
-    }],
-    
-    // Premium/Specialty TLDs
-    ['.ai', {
-      firstYear: 79.99,
-      renewal: 89.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: true,
-      notes: 'Popular for AI and tech companies'
-    }],
-    ['.dev', {
-      firstYear: 12.99,
-      renewal: 17.99,
-      registrar: 'Google Domains',
-      registrarUrl: 'https://domains.google.com',
-      isPremium: false,
-      notes: 'Perfect for developers and tech projects'
-    }],
-    ['.io', {
-      firstYear: 49.99,
-      renewal: 59.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: true,
-      notes: 'Popular with startups and tech companies'
-    }],
-    ['.co', {
-      firstYear: 24.99,
-      renewal: 32.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Short alternative to .com'
-    }],
-    
-    // Additional Popular TLDs
-    ['.app', {
-      firstYear: 18.99,
-      renewal: 22.99,
-      registrar: 'Google Domains',
-      registrarUrl: 'https://domains.google.com',
-      isPremium: false,
-      notes: 'Perfect for mobile apps and web applications'
-    }],
-    ['.tech', {
-      firstYear: 49.99,
-      renewal: 54.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: true,
-      notes: 'Ideal for technology companies'
-    }],
-    ['.online', {
-      firstYear: 2.99,
-      renewal: 39.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Great for online businesses and services'
-    }],
-    ['.store', {
-      firstYear: 2.99,
-      renewal: 59.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Perfect for e-commerce and retail'
-    }],
-    ['.shop', {
-      firstYear: 2.99,
-      renewal: 39.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Ideal for online shops and retail'
-    }],
-    ['.site', {
-      firstYear: 2.99,
-      renewal: 32.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Generic extension for any website'
-    }],
-    ['.blog', {
-      firstYear: 2.99,
-      renewal: 32.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Perfect for blogs and content creators'
-    }],
-    ['.news', {
-      firstYear: 2.99,
-      renewal: 32.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Great for news sites and media'
-    }],
-    ['.info', {
-      firstYear: 2.99,
-      renewal: 19.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Good for informational websites'
-    }],
-    ['.biz', {
-      firstYear: 2.99,
-      renewal: 19.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Alternative for business websites'
-    }],
-    ['.me', {
-      firstYear: 2.99,
-      renewal: 24.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Great for personal websites and portfolios'
-    }],
-    ['.tv', {
-      firstYear: 32.99,
-      renewal: 39.99,
-      registrar: 'Namecheap',
-      registrarUrl: 'https://www.namecheap.com',
-      isPremium: false,
-      notes: 'Perfect for video content and streaming'
-    }]
-  ]);
+  private readonly pricingData: Map<string, ITLDPricing>;
+  private suffixes: PublicSuffixService;
+  private premiumNames: PremiumNameDetector;
+
+  constructor(
+    suffixes: PublicSuffixService = PublicSuffixService.getInstance(),
+    catalog: TLDCatalog = TLDCatalog.getInstance(),
+    premiumNames: PremiumNameDetector = new PremiumNameDetector(suffixes)
+  ) {
+    this.suffixes = suffixes;
+    this.premiumNames = premiumNames;
+    this.pricingData = new Map(
+      catalog.getAll()
+        .filter(entry => entry.pricing)
+        .map((entry): [string, ITLDPricing] => [entry.tld, entry.pricing!])
+    );
+  }
 
   /**
    * Get pricing information for a domain
    * @param domain - Full domain name (e.g., "example.com")
-   * @returns Domain pricing information
+   * @returns Domain pricing information, or null if the TLD has no price or the name is reserved
    */
   getDomainPricing(domain: string): IDomainPricing | null {
     const tld = this.extractTLD(domain);
@@ -210,6 +68,26 @@ export class DomainPricingService {
       return null;
     }
 
+    const nameTier = this.premiumNames.detect(domain);
+    if (nameTier?.kind === 'reserved') {
+      // Reserved names cannot be registered, so they have no price
+      return null;
+    }
+    const tierPricing = nameTier?.tier ? this.premiumNames.getTierPricing(nameTier.tier) : null;
+    if (nameTier?.tier && tierPricing) {
+      return {
+        domain,
+        tld,
+        firstYearPrice: tierPricing.firstYear,
+        renewalPrice: tierPricing.renewal,
+        registrar: pricing.registrar,
+        registrarUrl: pricing.registrarUrl,
+        isPremium: true,
+        tier: nameTier.tier,
+        notes: `Premium name (${nameTier.tier} tier) - ${nameTier.reason}`
+      };
+    }
+
     return {
       domain,
       tld,
@@ -268,6 +146,20 @@ export class DomainPricingService {
     }));
   }
 
+  /**
+   * Add or replace the pricing of a TLD or second-level public suffix
+   * @param tld - TLD or public suffix including the dot (e.g., ".co.uk")
+   * @param pricing - Pricing of registrations under it
+   * @throws Error if names are not registered directly under the suffix
+   */
+  setTLDPricing(tld: string, pricing: ITLDPricing): void {
+    const suffix = tld.toLowerCase();
+    if (!suffix.startsWith('.') || !this.suffixes.isPublicSuffix(suffix)) {
+      throw new Error(`${tld} is not a public suffix`);
+    }
+    this.pricingData.set(suffix, { ...pricing });
+  }
+
   /**
    * Calculate total cost for multiple years
    * @param domain - Domain name
@@ -307,7 +199,7 @@ export class DomainPricingService {
 
     // Simplified comparison data - in a real app, this would come from APIs
     const basePrice = this.pricingData.get(tld);
-    if (!basePrice) {
+    if (!basePrice || this.premiumNames.detect(domain)?.kind === 'reserved') {
       return [];
     }
 
@@ -337,15 +229,11 @@ export class DomainPricingService {
   }
 
   /**
-   * Extract TLD from domain name
+   * Extract the public suffix prices are set for
    * @param domain - Full domain name
-   * @returns TLD with dot (e.g., ".com") or null
+   * @returns Suffix with dot (e.g., ".com" or ".co.uk") or null
    */
   private extractTLD(domain: string): string | null {
-    const parts = domain.toLowerCase().split('.');
-    if (parts.length < 2) {
-      return null;
-    }
-    return '.' + parts[parts.length - 1];
+    return this.suffixes.getPublicSuffix(domain) || null;
   }
 }
\ No newline at end of file
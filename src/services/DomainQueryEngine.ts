@@ -2,9 +2,23 @@ import type { IDomainResult } from '../models';
 import type { IQueryStrategy } from '../patterns/strategy/IQueryStrategy';
 import type { ICommand } from '../patterns/command/ICommand';
 import { DomainCheckCommand } from '../patterns/command/DomainCheckCommand';
-import { BatchDomainCheckCommand, type IBatchDomainCheckResult } from '../patterns/command/BatchDomainCheckCommand';
+import { BatchDomainCheckCommand, type IBatchDomainCheckConfig, type IBatchDomainCheckResult } from '../patterns/command/BatchDomainCheckCommand';
 import { TLDService } from './TLDService';
 import { DomainResultService } from './DomainResultService';
+import type { DomainResultCache } from './DomainResultCache';
+import type { LatencyTracker } from './latency/LatencyTracker';
+
+/**
+ * Options for a multi-TLD check
+ */
+export interface ICheckOptions {
+  /** Skip cached results and query again (fresh results are still cached) */
+  fresh?: boolean;
+  /** Called with each domain's result as soon as it is known, cached results first */
+  onResult?: (result: IDomainResult) => void;
+  /** Once aborted, TLDs not queried yet are skipped and answered with DomainCheckCommand.CANCELLED_ERROR */
+  signal?: AbortSignal;
+}
 
 /**
  * Simplified Domain Query Engine - orchestrates domain checking workflow
@@ -14,6 +28,8 @@ export class DomainQueryEngine {
   private queryStrategy: IQueryStrategy | null = null;
   private tldService: TLDService;
   private resultService: DomainResultService;
+  private resultCache: DomainResultCache | null = null;
+  private latencyTracker: LatencyTracker | null = null;
 
   constructor() {
     this.tldService = new TLDService();
@@ -27,28 +43,67 @@ export class DomainQueryEngine {
     this.queryStrategy = strategy;
   }
 
+  /**
+   * Cache results per domain and strategy, or pass null to always query
+   */
+  setResultCache(cache: DomainResultCache | null): void {
+    this.resultCache = cache;
+  }
+
+  /**
+   * Record the latency of queried results, or pass null to stop recording
+   */
+  setLatencyTracker(tracker: LatencyTracker | null): void {
+    this.latencyTracker = tracker;
+  }
+
   /**
    * Check multiple TLDs for a base domain
    */
-  async checkMultipleTLDs(baseDomain: string, tlds?: string[]): Promise<IDomainResult[]> {
+  async checkMultipleTLDs(baseDomain: string, tlds?: string[], options: ICheckOptions = {}): Promise<IDomainResult[]> {
     if (!this.queryStrategy) {
       throw new Error('Query strategy must be set before checking domains');
     }
 
-    // Initialize results
-    const results = this.resultService.initializeDomainResults(baseDomain, tlds);
-    const domains = results.map(r => r.domain);
-
-    // Create and execute batch command
-    const batchCommand = this.createBatchCheckCommand(domains);
-    const batchResult = await batchCommand.execute();
+    // Results of this check only: concurrent checks (e.g. bulk jobs) each keep their own
+    const checkResults = new DomainResultService();
+    const results = checkResults.initializeDomainResults(baseDomain, tlds);
+    const strategyName = this.queryStrategy.getName();
+
+    // Serve what the cache still holds and only query the rest
+    const domains: string[] = [];
+    for (const { domain } of results) {
+      const cached = this.resultCache && !options.fresh ? this.resultCache.get(domain, strategyName) : null;
+      if (cached) {
+        checkResults.updateResult(domain, cached);
+        options.onResult?.(cached);
+      } else {
+        domains.push(domain);
+      }
+    }
 
-    // Update results with batch results
-    for (const [domain, result] of Object.entries(batchResult.results)) {
-      this.resultService.updateResult(domain, result);
+    if (domains.length > 0) {
+      // Create and execute batch command
+      const batchCommand = this.createBatchCheckCommand(domains, {
+        ...(options.onResult && { onResult: options.onResult }),
+        ...(options.signal && { signal: options.signal })
+      });
+      const batchResult = await batchCommand.execute();
+
+      // Update results with batch results; skipped domains were never queried, so they are not kept
+      for (const result of batchResult.results) {
+        checkResults.updateResult(result.domain, result);
+        if (result.error === DomainCheckCommand.CANCELLED_ERROR) {
+          continue;
+        }
+        this.resultCache?.set(result.domain, strategyName, result);
+        this.latencyTracker?.recordResult(result);
+      }
     }
 
-    return this.resultService.getAllResults();
+    // The engine reports the latest check rather than every domain it has ever checked
+    this.resultService = checkResults;
+    return results.map(({ domain }) => checkResults.getResult(domain)!);
   }
 
   /**
@@ -58,6 +113,21 @@ export class DomainQueryEngine {
     return this.tldService.getSupportedTLDs();
   }
 
+  /**
+   * Get the second-level public suffixes (e.g., ".co.uk") that can be added to checks
+   */
+  getSecondLevelTLDs(): string[] {
+    return this.tldService.getSecondLevelTLDs();
+  }
+
+  /**
+   * Explain why names cannot be checked under a TLD or public suffix
+   * @returns Reason, or null if the TLD can be checked
+   */
+  validateTLD(tld: string): string | null {
+    return this.tldService.validateTLD(tld);
+  }
+
   /**
    * Create a command for checking a single domain
    */
@@ -72,7 +142,7 @@ export class DomainQueryEngine {
   /**
    * Create a batch command for checking multiple domains
    */
-  createBatchCheckCommand(domains: string[]): ICommand<IBatchDomainCheckResult> {
+  createBatchCheckCommand(domains: string[], config: Partial<IBatchDomainCheckConfig> = {}): ICommand<IBatchDomainCheckResult> {
     if (!this.queryStrategy) {
       throw new Error('Query strategy must be set before creating commands');
     }
@@ -81,11 +151,11 @@ export class DomainQueryEngine {
       throw new Error('Domains array cannot be empty');
     }
 
-    return new BatchDomainCheckCommand(domains, this.queryStrategy);
+    return new BatchDomainCheckCommand(domains, this.queryStrategy, config);
   }
 
   /**
-   * Get current results
+   * Get the results of the latest check
    */
   getAllResults(): IDomainResult[] {
     return this.resultService.getAllResults();
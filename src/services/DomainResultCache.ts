@@ -0,0 +1,294 @@
+import fs from 'fs';
+import type { IDomainResult } from '../models';
+import { AvailabilityStatus } from '../models/AvailabilityStatus';
+
+/**
+ * How long results are kept, by outcome
+ */
+export interface IResultCacheTTLs {
+  /** Registered names (taken and lifecycle, reserved, premium or blocked statuses) */
+  takenMs: number;
+  /** Available names - kept short, as they can be registered at any moment */
+  availableMs: number;
+  /** Errors and unknown results, so failing lookups are not hammered */
+  errorMs: number;
+}
+
+/**
+ * Options for the result cache
+ */
+export interface IResultCacheOptions {
+  /** Entries kept before the least recently used is evicted */
+  maxEntries?: number;
+  /** Overrides for the default TTLs */
+  ttls?: Partial<IResultCacheTTLs>;
+}
+
+/**
+ * Cache statistics
+ */
+export interface IResultCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+interface ICacheEntry {
+  result: IDomainResult;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * On-disk cache file format
+ */
+interface IResultCacheFile {
+  version: number;
+  entries: Array<ICacheEntry & { key: string }>;
+}
+
+/**
+ * Domain Result Cache - LRU cache of domain results keyed by domain and strategy
+ * Taken, available and error results expire separately, never outliving the DNS answer they
+ * came from, and the cache can be backed by a JSON file so it survives restarts
+ */
+export class DomainResultCache {
+  static readonly DEFAULT_TTLS: IResultCacheTTLs = {
+    takenMs: 6 * 60 * 60 * 1000,
+    availableMs: 5 * 60 * 1000,
+    errorMs: 30 * 1000
+  };
+
+  private static instance: DomainResultCache;
+  private static readonly DEFAULT_MAX_ENTRIES = 5000;
+  private static readonly FILE_VERSION = 1;
+  private static readonly DATE_FIELDS = new Set(['lastChecked', 'cachedAt', 'expirationDate', 'registrationDate', 'updatedDate']);
+
+  // Map iteration order doubles as recency order: the first entry is the least recently used
+  private entries: Map<string, ICacheEntry> = new Map();
+  private ttls: IResultCacheTTLs;
+  private maxEntries: number;
+  private filePath: string | null = null;
+  private flushPending = false;
+  private flushPromise: Promise<void> = Promise.resolve();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: IResultCacheOptions = {}) {
+    this.ttls = { ...DomainResultCache.DEFAULT_TTLS, ...options.ttls };
+    this.maxEntries = options.maxEntries || DomainResultCache.DEFAULT_MAX_ENTRIES;
+  }
+
+  /**
+   * Get the cache shared by all query strategies
+   */
+  static getInstance(): DomainResultCache {
+    if (!DomainResultCache.instance) {
+      DomainResultCache.instance = new DomainResultCache();
+    }
+    return DomainResultCache.instance;
+  }
+
+  /**
+   * Look up a cached result
+   * @param domain - Full domain name
+   * @param strategy - Name of the strategy that produced the result
+   * @returns Cached result marked with cacheHit and cachedAt, or null if missing or expired
+   */
+  get(domain: string, strategy: string): IDomainResult | null {
+    const key = this.createKey(domain, strategy);
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+        this.scheduleFlush();
+      }
+      this.misses++;
+      return null;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+
+    return { ...entry.result, cacheHit: true, cachedAt: new Date(entry.storedAt) };
+  }
+
+  /**
+   * Store a result
+   * @param domain - Full domain name
+   * @param strategy - Name of the strategy that produced the result
+   * @param result - Result to cache
+   * @returns True if the result was cached (results still being checked are not)
+   */
+  set(domain: string, strategy: string, result: IDomainResult): boolean {
+    const ttl = this.getTTL(result);
+    if (ttl <= 0) {
+      return false;
+    }
+
+    const { cacheHit: _cacheHit, cachedAt: _cachedAt, ...fresh } = result;
+    const key = this.createKey(domain, strategy);
+    const storedAt = Date.now();
+
+    this.entries.delete(key);
+    this.entries.set(key, { result: fresh, storedAt, expiresAt: storedAt + ttl });
+    this.evict();
+    this.scheduleFlush();
+    return true;
+  }
+
+  /**
+   * Get how long a result may be cached
+   * @param result - Domain result
+   * @returns TTL in milliseconds (0 if the result must not be cached)
+   */
+  getTTL(result: IDomainResult): number {
+    let ttl: number;
+    switch (result.status) {
+      case AvailabilityStatus.CHECKING:
+        return 0;
+      case AvailabilityStatus.AVAILABLE:
+        ttl = this.ttls.availableMs;
+        break;
+      case AvailabilityStatus.ERROR:
+      case AvailabilityStatus.UNKNOWN:
+        ttl = this.ttls.errorMs;
+        break;
+      default:
+        ttl = this.ttls.takenMs;
+    }
+
+    // Do not keep a result longer than the DNS answer behind it (record TTL or SOA minimum)
+    if (result.dnsTtl !== undefined) {
+      ttl = Math.min(ttl, result.dnsTtl * 1000);
+    }
+    return ttl;
+  }
+
+  /**
+   * Remove cached results for a domain
+   * @param domain - Full domain name
+   * @param strategy - Strategy to invalidate, or all strategies if omitted
+   * @returns Number of entries removed
+   */
+  invalidate(domain: string, strategy?: string): number {
+    const suffix = `|${domain.toLowerCase()}`;
+    const keys = strategy
+      ? [this.createKey(domain, strategy)]
+      : Array.from(this.entries.keys()).filter(key => key.endsWith(suffix));
+
+    const removed = keys.filter(key => this.entries.delete(key)).length;
+    if (removed > 0) {
+      this.scheduleFlush();
+    }
+    return removed;
+  }
+
+  /**
+   * Remove all cached results and reset the statistics
+   */
+  clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.scheduleFlush();
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): IResultCacheStats {
+    return { entries: this.entries.size, hits: this.hits, misses: this.misses };
+  }
+
+  /**
+   * Get the TTLs in use
+   */
+  getTTLs(): IResultCacheTTLs {
+    return { ...this.ttls };
+  }
+
+  /**
+   * Change the TTLs for results stored from now on
+   * @param ttls - TTLs to override
+   */
+  setTTLs(ttls: Partial<IResultCacheTTLs>): void {
+    this.ttls = { ...this.ttls, ...ttls };
+  }
+
+  /**
+   * Back the cache with a JSON file: unexpired entries are loaded now and every change is
+   * written back. A missing file is created on the first write.
+   * @param filePath - Path of the cache file
+   * @throws Error if the file exists but is not a valid cache file
+   */
+  loadFromFile(filePath: string): void {
+    if (fs.existsSync(filePath)) {
+      const file = JSON.parse(fs.readFileSync(filePath, 'utf8'), (key, value) =>
+        DomainResultCache.DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value
+      ) as IResultCacheFile;
+
+      if (!file || file.version !== DomainResultCache.FILE_VERSION || !Array.isArray(file.entries)) {
+        throw new Error(`Invalid result cache file: ${filePath}`);
+      }
+
+      const now = Date.now();
+      for (const { key, ...entry } of file.entries) {
+        if (entry.expiresAt > now) {
+          this.entries.set(key, entry);
+        }
+      }
+      this.evict();
+    }
+
+    this.filePath = filePath;
+  }
+
+  /**
+   * Wait for pending writes to the cache file
+   */
+  async flush(): Promise<void> {
+    await this.flushPromise;
+  }
+
+  private createKey(domain: string, strategy: string): string {
+    return `${strategy}|${domain.toLowerCase()}`;
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Write the cache file once the current batch of changes is done
+   */
+  private scheduleFlush(): void {
+    if (!this.filePath || this.flushPending) {
+      return;
+    }
+
+    const filePath = this.filePath;
+    this.flushPending = true;
+    this.flushPromise = this.flushPromise
+      .then(async () => {
+        this.flushPending = false;
+        const file: IResultCacheFile = {
+          version: DomainResultCache.FILE_VERSION,
+          entries: Array.from(this.entries, ([key, entry]) => ({ key, ...entry }))
+        };
+        await fs.promises.writeFile(filePath, JSON.stringify(file));
+      })
+      .catch(error => {
+        console.warn('Failed to write result cache file:', error);
+      });
+  }
+}
\ No newline at end of file
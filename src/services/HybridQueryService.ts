@@ -1,8 +1,13 @@
-import type { IDomainResult } from '../models';
+import type { IAvailabilityEvidence, IDomainResult } from '../models';
 import { AvailabilityStatus } from '../models/AvailabilityStatus';
 import type { IQueryStrategy, IStrategyConfig } from '../patterns/strategy/IQueryStrategy';
 import { DNSLookupService } from './DNSLookupService';
 import { WHOISQueryService } from './WHOISQueryService';
+import { RDAPQueryService } from './RDAPQueryService';
+import { AvailabilityVerdictService } from './AvailabilityVerdictService';
+import { ParkedDomainService } from './ParkedDomainService';
+import { PublicSuffixService } from './PublicSuffixService';
+import type { LatencySource, LatencyTracker } from './latency/LatencyTracker';
 
 /**
  * Hybrid Query Service - combines DNS and WHOIS strategies for optimal speed and accuracy
@@ -20,15 +25,31 @@ export class HybridQueryService implements IQueryStrategy {
 
   private dnsService: DNSLookupService;
   private whoisService: WHOISQueryService;
+  private rdapService: RDAPQueryService;
   private concurrentTimeout = 5000; // Timeout for individual concurrent operations
+  private verdicts = new AvailabilityVerdictService();
+  private parking = new ParkedDomainService();
+  private suffixes = PublicSuffixService.getInstance();
+  private latencyTracker: LatencyTracker | null;
+  // Copies of the source services configured from a TLD's observed latency, by source and TLD
+  private tunedServices: Map<string, DNSLookupService | WHOISQueryService | RDAPQueryService> = new Map();
 
-  constructor() {
+  /**
+   * @param latencyTracker - Observed latency per TLD and source; once a TLD has enough samples,
+   * its queries use the timeout and retries derived from them instead of the fixed ones
+   */
+  constructor(latencyTracker: LatencyTracker | null = null) {
+    this.latencyTracker = latencyTracker;
     this.dnsService = new DNSLookupService();
     this.whoisService = new WHOISQueryService();
+    this.rdapService = new RDAPQueryService();
     
     // Configure services for hybrid use
     this.dnsService.setConfig({ timeoutMs: this.concurrentTimeout, maxRetries: 1 });
+    // Wildcard TLDs answer for every name, which would otherwise read as a registration
+    this.dnsService.setWildcardDetection(true);
     this.whoisService.setConfig({ timeoutMs: this.concurrentTimeout, maxRetries: 1 });
+    this.rdapService.setConfig({ timeoutMs: this.concurrentTimeout, maxRetries: 1 });
   }
 
   /**
@@ -40,8 +61,6 @@ export class HybridQueryService implements IQueryStrategy {
     return this.execute(domain);
   }
 
-
-
   /**
    * Execute hybrid domain availability check using both DNS and WHOIS concurrently
    * @param domain - Full domain name to check
@@ -49,8 +68,7 @@ export class HybridQueryService implements IQueryStrategy {
    */
   async execute(domain: string): Promise<IDomainResult> {
     const startTime = Date.now();
-    const baseDomain = this.extractBaseDomain(domain);
-    const tld = this.extractTLD(domain);
+    const { baseDomain, tld } = this.suffixes.parse(domain);
 
     // Validate domain format first
     if (!this.isValidDomainFormat(domain)) {
@@ -101,13 +119,33 @@ export class HybridQueryService implements IQueryStrategy {
    * @returns Promise resolving to array of results (some may be errors)
    */
   private async executeConcurrentQueries(domain: string): Promise<Array<IDomainResult | Error>> {
-    // Create promises for concurrent execution
-    const dnsPromise = this.dnsService.execute(domain).catch(error => error);
-    const whoisPromise = this.whoisService.execute(domain).catch(error => error);
-
-    // Execute concurrently with timeout
+    // Sources whose circuit is open are skipped rather than waited on until they time out
+    const { tld } = this.suffixes.parse(domain);
+    const selected = this.selectRegistryService(domain);
+    const registrySource = selected === this.whoisService ? 'WHOIS' : 'RDAP';
+    const dnsService = this.tuneService(this.dnsService, 'DNS', tld, () => {
+      const service = new DNSLookupService();
+      service.setWildcardDetection(this.dnsService.getWildcardDetection());
+      return service;
+    });
+    const registryService = selected && (selected === this.whoisService
+      ? this.tuneService(this.whoisService, 'WHOIS', tld, () => new WHOISQueryService())
+      : this.tuneService(this.rdapService, 'RDAP', tld, () => new RDAPQueryService()));
+    const dnsPromise = this.dnsService.isUpstreamAvailable(domain)
+      ? dnsService.execute(domain).catch(error => error)
+      : Promise.resolve(new Error('DNS servers unavailable (circuit open)'));
+    const whoisPromise = registryService
+      ? registryService.execute(domain).catch(error => error)
+      : Promise.resolve(new Error('WHOIS and RDAP servers unavailable (circuit open)'));
+
+    // Execute concurrently with timeout, leaving a slow TLD's sources time for all their attempts
+    const timeoutMs = Math.max(
+      this.config.timeoutMs,
+      this.getAdaptiveBudget(tld, 'DNS'),
+      selected ? this.getAdaptiveBudget(tld, registrySource) : 0
+    );
     const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Concurrent queries timeout')), this.config.timeoutMs);
+      setTimeout(() => reject(new Error('Concurrent queries timeout')), timeoutMs);
     });
 
     try {
@@ -128,6 +166,68 @@ export class HybridQueryService implements IQueryStrategy {
     }
   }
 
+  /**
+   * Pick the registry source to ask: WHOIS, or RDAP when the TLD has no WHOIS server or the
+   * WHOIS server's circuit is open
+   * @param domain - Domain to query
+   * @returns Registry service, or null if neither can be queried
+   */
+  private selectRegistryService(domain: string): WHOISQueryService | RDAPQueryService | null {
+    const whoisKnown = this.whoisService.canHandle(domain);
+    const rdapKnown = this.rdapService.canHandle(domain);
+    if (whoisKnown && this.whoisService.isUpstreamAvailable(domain)) {
+      return this.whoisService;
+    }
+    if (rdapKnown && this.rdapService.isUpstreamAvailable(domain)) {
+      return this.rdapService;
+    }
+    // WHOIS reports domains of TLDs without any registry endpoint as unknown
+    return whoisKnown || rdapKnown ? null : this.whoisService;
+  }
+
+  /**
+   * Get the service to query a TLD with: the shared one, or a copy of it configured with the
+   * timeout and retries derived from the TLD's observed latency
+   * @param service - Shared service of the source
+   * @param source - Source the service queries
+   * @param tld - TLD to be queried
+   * @param create - Creates another service of the source
+   * @returns Service to query the TLD with
+   */
+  private tuneService<T extends DNSLookupService | WHOISQueryService | RDAPQueryService>(service: T, source: LatencySource, tld: string, create: () => T): T {
+    const adaptiveConfig = this.latencyTracker?.getAdaptiveConfig(tld, source);
+    if (!adaptiveConfig) {
+      return service;
+    }
+
+    // Settings follow the latency as it shifts, so the copy is reconfigured on every query
+    const key = `${source}${tld}`;
+    let tuned = this.tunedServices.get(key) as T | undefined;
+    if (!tuned) {
+      tuned = create();
+      this.tunedServices.set(key, tuned);
+    }
+    tuned.setConfig({ ...service.getConfig(), ...adaptiveConfig });
+    return tuned;
+  }
+
+  /**
+   * Get the time all attempts of a source's query for a TLD may take with the settings derived
+   * from its observed latency, including the delays between them
+   * @param tld - TLD to be queried
+   * @param source - Source to be queried
+   * @returns Time in milliseconds, 0 while the source uses its fixed settings
+   */
+  private getAdaptiveBudget(tld: string, source: LatencySource): number {
+    const adaptiveConfig = this.latencyTracker?.getAdaptiveConfig(tld, source);
+    if (!adaptiveConfig) {
+      return 0;
+    }
+
+    const { timeoutMs, maxRetries, retryDelayMs } = adaptiveConfig;
+    return timeoutMs * (maxRetries + 1) + retryDelayMs * maxRetries;
+  }
+
   /**
    * Combine DNS and WHOIS results using hybrid logic
    * @param domain - Original domain
@@ -140,8 +240,7 @@ export class HybridQueryService implements IQueryStrategy {
     results: Array<IDomainResult | Error>, 
     executionTime: number
   ): IDomainResult {
-    const baseDomain = this.extractBaseDomain(domain);
-    const tld = this.extractTLD(domain);
+    const { baseDomain, tld } = this.suffixes.parse(domain);
     
     const [dnsResult, whoisResult] = results;
     
@@ -164,8 +263,12 @@ export class HybridQueryService implements IQueryStrategy {
       };
     }
 
-    // Determine final status using hybrid logic
-    const finalStatus = this.determineHybridStatus(validDnsResult, validWhoisResult);
+    // Weigh the evidence from both sources into the final status
+    const evidence = [
+      ...(validDnsResult ? this.verdicts.toEvidence(validDnsResult, 'DNS') : []),
+      ...(validWhoisResult ? this.verdicts.toEvidence(validWhoisResult, validWhoisResult.checkMethod === 'RDAP' ? 'RDAP' : 'WHOIS') : [])
+    ];
+    const finalStatus = this.determineHybridStatus(validDnsResult, validWhoisResult, evidence);
     
     // Combine data from both sources
     const combinedResult: IDomainResult = {
@@ -176,7 +279,8 @@ export class HybridQueryService implements IQueryStrategy {
       lastChecked: new Date(),
       checkMethod: 'HYBRID' as const,
       retryCount: 0,
-      executionTime
+      executionTime,
+      ...this.verdicts.summarize(evidence)
     };
 
     // Add DNS data if available
@@ -184,11 +288,46 @@ export class HybridQueryService implements IQueryStrategy {
       combinedResult.dnsRecords = validDnsResult.dnsRecords;
     }
 
+    if (validDnsResult?.dnsTtl !== undefined) {
+      combinedResult.dnsTtl = validDnsResult.dnsTtl;
+    }
+
     // Add WHOIS data if available
     if (validWhoisResult?.whoisData) {
       combinedResult.whoisData = validWhoisResult.whoisData;
     }
 
+    if (validDnsResult?.consensus) {
+      combinedResult.consensus = validDnsResult.consensus;
+    }
+
+    if (validDnsResult?.wildcard) {
+      combinedResult.wildcard = validDnsResult.wildcard;
+    }
+
+    // WHOIS name servers identify parked domains that DNS could not resolve
+    const parked = validDnsResult?.parked ||
+      (validWhoisResult?.whoisData?.nameServers && this.parking.classify(validWhoisResult.whoisData.nameServers, []));
+    if (parked && finalStatus !== AvailabilityStatus.AVAILABLE) {
+      combinedResult.parked = parked;
+    }
+
+    // The sources are queried concurrently, so the slowest answer is the hybrid check's response time
+    const responseTimes = evidence.flatMap(item => item.responseTime !== undefined ? [item.responseTime] : []);
+    if (responseTimes.length > 0) {
+      combinedResult.responseTime = Math.max(...responseTimes);
+    }
+
+    if (validWhoisResult?.referralChain) {
+      combinedResult.referralChain = validWhoisResult.referralChain;
+    }
+
+    // Keep the kind of failure (e.g. a rate limited registry) when no source could answer
+    const errorType = validWhoisResult?.errorType || validDnsResult?.errorType;
+    if (errorType && finalStatus === AvailabilityStatus.ERROR) {
+      combinedResult.errorType = errorType;
+    }
+
     // Add error information if one query failed
     if (!validDnsResult && dnsResult instanceof Error) {
       combinedResult.error = `DNS query failed: ${dnsResult.message}`;
@@ -200,40 +339,26 @@ export class HybridQueryService implements IQueryStrategy {
   }
 
   /**
-   * Determine final availability status using hybrid logic
+   * Determine final availability status from weighted evidence
+   * Registry evidence outweighs DNS, so a registry answer decides unless it failed
    * @param dnsResult - DNS query result (may be null)
    * @param whoisResult - WHOIS query result (may be null)
+   * @param evidence - Evidence from both results
    * @returns Final availability status
    */
   private determineHybridStatus(
     dnsResult: IDomainResult | null, 
-    whoisResult: IDomainResult | null
+    whoisResult: IDomainResult | null,
+    evidence: IAvailabilityEvidence[]
   ): AvailabilityStatus {
-    // If both results are available, use WHOIS as authoritative source
-    if (dnsResult && whoisResult) {
-      // WHOIS is more authoritative for availability
-      if (whoisResult.status === AvailabilityStatus.AVAILABLE) {
-        return AvailabilityStatus.AVAILABLE;
-      }
-      if (whoisResult.status === AvailabilityStatus.TAKEN) {
-        return AvailabilityStatus.TAKEN;
-      }
-      // If WHOIS is error, fall back to DNS
-      return dnsResult.status;
-    }
-
-    // If only WHOIS is available, use it
-    if (whoisResult && !dnsResult) {
-      return whoisResult.status;
+    const verdict = this.verdicts.combine(evidence);
+    if (verdict) {
+      return verdict.status;
     }
 
-    // If only DNS is available, use it
-    if (dnsResult && !whoisResult) {
-      return dnsResult.status;
-    }
-
-    // This shouldn't happen as we check for both null earlier
-    return AvailabilityStatus.ERROR;
+    // No source gave a definitive answer - report the DNS failure, or WHOIS if DNS is missing
+    const fallback = dnsResult || whoisResult;
+    return fallback ? fallback.status : AvailabilityStatus.ERROR;
   }
 
   /**
@@ -264,13 +389,19 @@ export class HybridQueryService implements IQueryStrategy {
       const serviceTimeout = Math.floor(config.timeoutMs / 2);
       this.dnsService.setConfig({ timeoutMs: serviceTimeout });
       this.whoisService.setConfig({ timeoutMs: serviceTimeout });
+      this.rdapService.setConfig({ timeoutMs: serviceTimeout });
       this.concurrentTimeout = serviceTimeout;
     }
+
+    if (config.consensus !== undefined) {
+      this.dnsService.setConfig({ consensus: config.consensus });
+    }
     
     // Update other config properties for underlying services
     if (config.maxRetries !== undefined) {
       this.dnsService.setConfig({ maxRetries: config.maxRetries });
       this.whoisService.setConfig({ maxRetries: config.maxRetries });
+      this.rdapService.setConfig({ maxRetries: config.maxRetries });
     }
   }
 
@@ -312,6 +443,7 @@ export class HybridQueryService implements IQueryStrategy {
     this.concurrentTimeout = Math.max(1000, timeout);
     this.dnsService.setConfig({ timeoutMs: this.concurrentTimeout });
     this.whoisService.setConfig({ timeoutMs: this.concurrentTimeout });
+    this.rdapService.setConfig({ timeoutMs: this.concurrentTimeout });
   }
 
   /**
@@ -374,32 +506,6 @@ export class HybridQueryService implements IQueryStrategy {
     return results;
   }
 
-  /**
-   * Extract base domain from full domain name
-   * @param domain - Full domain name
-   * @returns Base domain without TLD
-   */
-  private extractBaseDomain(domain: string): string {
-    const parts = domain.toLowerCase().split('.');
-    if (parts.length >= 2) {
-      return parts.slice(0, -1).join('.');
-    }
-    return domain.toLowerCase();
-  }
-
-  /**
-   * Extract TLD from full domain name
-   * @param domain - Full domain name
-   * @returns TLD including the dot
-   */
-  private extractTLD(domain: string): string {
-    const parts = domain.toLowerCase().split('.');
-    if (parts.length >= 2) {
-      return '.' + parts[parts.length - 1];
-    }
-    return '';
-  }
-
   /**
    * Validate domain format for hybrid lookup
    * @param domain - Domain to validate
@@ -0,0 +1,98 @@
+import { isIP } from 'net';
+import bundledParkingProviders from '../data/parking-providers.json';
+import type { IParkingDetection } from '../models';
+
+/**
+ * Parking provider data file format
+ */
+export interface IParkingProviderFile {
+  description?: string;
+  publication?: string;
+  providers: Array<{
+    /** Provider display name */
+    name: string;
+    /** Name server domains; a name server matches when it is the domain or one of its subdomains */
+    nameServers: string[];
+    /** IPv4 CIDR ranges serving the provider's parking pages */
+    addressRanges: string[];
+  }>;
+}
+
+interface IParkingProvider {
+  name: string;
+  nameServers: string[];
+  ranges: Array<{ network: number; mask: number }>;
+}
+
+/**
+ * Parked Domain Service - recognizes registered domains that only serve a parking or for-sale page
+ * Matches name servers and A records against known parking providers from a bundled data file
+ */
+export class ParkedDomainService {
+  private providers: IParkingProvider[];
+
+  constructor(data: IParkingProviderFile = bundledParkingProviders) {
+    this.providers = data.providers.map(provider => ({
+      name: provider.name,
+      nameServers: provider.nameServers.map(server => this.normalizeHost(server)),
+      ranges: provider.addressRanges.map(range => this.parseRange(range))
+    }));
+  }
+
+  /**
+   * Classify a domain from its DNS data. Name servers are checked first as they identify the
+   * provider more reliably than shared hosting addresses.
+   * @param nameServers - Name servers of the domain
+   * @param addresses - IPv4 addresses the domain resolves to
+   * @returns Matching provider, or null if the domain does not look parked
+   */
+  classify(nameServers: string[], addresses: string[]): IParkingDetection | null {
+    for (const server of nameServers.map(host => this.normalizeHost(host))) {
+      const provider = this.providers.find(candidate =>
+        candidate.nameServers.some(suffix => server === suffix || server.endsWith(`.${suffix}`))
+      );
+      if (provider) {
+        return { provider: provider.name, matchedBy: 'nameserver', value: server };
+      }
+    }
+
+    for (const address of addresses.filter(value => isIP(value) === 4)) {
+      const numeric = this.toNumber(address);
+      const provider = this.providers.find(candidate =>
+        candidate.ranges.some(range => ((numeric & range.mask) >>> 0) === range.network)
+      );
+      if (provider) {
+        return { provider: provider.name, matchedBy: 'address', value: address };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the names of the known parking providers
+   * @returns Provider names
+   */
+  getProviderNames(): string[] {
+    return this.providers.map(provider => provider.name);
+  }
+
+  private normalizeHost(host: string): string {
+    return host.trim().toLowerCase().replace(/\.$/, '');
+  }
+
+  private parseRange(range: string): { network: number; mask: number } {
+    const [address = '', prefix = '32'] = range.split('/');
+    const bits = Number(prefix);
+    if (isIP(address) !== 4 || !Number.isInteger(bits) || bits < 0 || bits > 32) {
+      throw new Error(`Invalid parking address range: ${range}`);
+    }
+
+    const mask = bits === 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0;
+    return { network: (this.toNumber(address) & mask) >>> 0, mask };
+  }
+
+  private toNumber(address: string): number {
+    return address.split('.').reduce((value, octet) => ((value << 8) | Number(octet)) >>> 0, 0);
+  }
+}
\ No newline at end of file
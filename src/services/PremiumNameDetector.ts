@@ -0,0 +1,145 @@
+import bundledPremiumNames from '../data/premium-names.json';
+import type { IDomainResult, INameTier } from '../models';
+import { AvailabilityStatus } from '../models/AvailabilityStatus';
+import { PublicSuffixService } from './PublicSuffixService';
+
+/**
+ * Price of one premium tier
+ */
+export interface IPremiumTierPricing {
+  /** First year registration price in USD */
+  firstYear: number;
+  /** Annual renewal price in USD */
+  renewal: number;
+}
+
+/**
+ * Reserved and premium names of one registry
+ */
+export interface IRegistryNameList {
+  /** Names the registry keeps for itself, in addition to the names reserved everywhere */
+  reserved?: string[];
+  /** Premium names and their tier */
+  premium?: Record<string, string>;
+  /** Tier of names by length (e.g. { "2": "gold" }); a tier for "1" opens single-character names */
+  shortNames?: Record<string, string>;
+}
+
+/**
+ * Premium name list file format
+ */
+export interface IPremiumNameFile {
+  description?: string;
+  publication?: string;
+  /** Price of each tier */
+  tiers: Record<string, IPremiumTierPricing>;
+  /** Names reserved under every TLD (e.g. "nic", "whois") */
+  reserved: string[];
+  /** Lists per TLD or second-level suffix, including the dot */
+  tlds: Record<string, IRegistryNameList>;
+}
+
+/**
+ * Registry list loaded for lookups, so names like "constructor" never match object members
+ */
+interface ILoadedNameList {
+  reserved: Set<string>;
+  premium: Map<string, string>;
+  shortNames: Map<string, string>;
+}
+
+/**
+ * Premium Name Detector - flags names a registry reserves or sells at a premium
+ * Registry lists are consulted first; names not on a list are judged by length, since
+ * registries commonly hold back single-character names and price short ones by tier.
+ * A DNS check cannot tell these names apart from ordinary unregistered ones.
+ */
+export class PremiumNameDetector {
+  private tiers: Map<string, IPremiumTierPricing>;
+  private reserved: Set<string>;
+  private lists: Map<string, ILoadedNameList>;
+  private suffixes: PublicSuffixService;
+
+  constructor(
+    suffixes: PublicSuffixService = PublicSuffixService.getInstance(),
+    data: IPremiumNameFile = bundledPremiumNames
+  ) {
+    this.suffixes = suffixes;
+    this.tiers = new Map(Object.entries(data.tiers));
+    this.reserved = new Set(data.reserved.map(name => name.toLowerCase()));
+    this.lists = new Map(
+      Object.entries(data.tlds).map(([tld, list]) => [tld.toLowerCase(), {
+        reserved: new Set(list.reserved || []),
+        premium: new Map(Object.entries(list.premium || {})),
+        shortNames: new Map(Object.entries(list.shortNames || {}))
+      }])
+    );
+  }
+
+  /**
+   * Check whether the registry reserves a name or sells it at a premium
+   * @param domain - Full domain name in ASCII form (e.g., "ai.io")
+   * @returns Treatment of the name, or null for ordinary names
+   */
+  detect(domain: string): INameTier | null {
+    const { baseDomain, tld } = this.suffixes.parse(domain);
+    if (!baseDomain || !tld) {
+      return null;
+    }
+
+    const list = this.lists.get(tld);
+    if (this.reserved.has(baseDomain) || list?.reserved.has(baseDomain)) {
+      return { kind: 'reserved', source: 'registry', reason: `"${baseDomain}" is reserved by the ${tld} registry` };
+    }
+
+    const listedTier = list?.premium.get(baseDomain);
+    if (listedTier) {
+      return { kind: 'premium', tier: listedTier, source: 'registry', reason: `"${baseDomain}" is on the ${tld} premium list` };
+    }
+
+    const lengthTier = list?.shortNames.get(String(baseDomain.length));
+    if (lengthTier) {
+      return { kind: 'premium', tier: lengthTier, source: 'heuristic', reason: `${baseDomain.length}-character ${tld} names are priced as premium` };
+    }
+    if (baseDomain.length === 1) {
+      return { kind: 'reserved', source: 'heuristic', reason: `Single-character ${tld} names are held back by the registry` };
+    }
+    return null;
+  }
+
+  /**
+   * Get the price of a premium tier
+   * @param tier - Tier name (e.g. "gold")
+   * @returns Tier pricing, or null for unknown tiers
+   */
+  getTierPricing(tier: string): IPremiumTierPricing | null {
+    const pricing = this.tiers.get(tier);
+    return pricing ? { ...pricing } : null;
+  }
+
+  /**
+   * Flag a check result whose name is reserved or premium
+   * Names that looked available are reported as RESERVED or PREMIUM instead, since the
+   * sources cannot see the registry's lists; other statuses are kept.
+   * @param result - Result of an availability check
+   * @returns Result with nameTier set, or the result itself for ordinary names
+   */
+  annotate(result: IDomainResult): IDomainResult {
+    const nameTier = this.detect(result.domain);
+    if (!nameTier) {
+      return result;
+    }
+
+    if (result.status !== AvailabilityStatus.AVAILABLE) {
+      return { ...result, nameTier };
+    }
+
+    // The "available" verdict no longer describes the status
+    const { verdict: _verdict, ...rest } = result;
+    return {
+      ...rest,
+      status: nameTier.kind === 'reserved' ? AvailabilityStatus.RESERVED : AvailabilityStatus.PREMIUM,
+      nameTier
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,214 @@
+import fs from 'fs';
+import { domainToASCII } from 'url';
+import bundledPublicSuffixList from '../data/public-suffix-list.json';
+
+/**
+ * Public Suffix List file format (bundled JSON copy)
+ */
+export interface IPublicSuffixFile {
+  description?: string;
+  publication?: string;
+  source?: string;
+  /** Rules in the list's syntax: "co.uk", "*.sch.uk" (wildcard), "!city.kawasaki.jp" (exception) */
+  rules: string[];
+}
+
+/**
+ * Domain split at its public suffix
+ */
+export interface IParsedDomain {
+  /** Labels in front of the public suffix (e.g., "example" for "example.co.uk") */
+  baseDomain: string;
+  /** Public suffix including the dot (e.g., ".co.uk"), or an empty string for single labels */
+  tld: string;
+}
+
+/**
+ * Public Suffix Service - splits domain names at their public suffix
+ * Matches names against the ICANN section of the Public Suffix List (publicsuffix.org), so
+ * "example.co.uk" is registered under ".co.uk" rather than ".uk". Names under suffixes the
+ * list does not know fall back to their last label, like the list's implicit "*" rule.
+ */
+export class PublicSuffixService {
+  private static instance: PublicSuffixService;
+  private static readonly PRIVATE_SECTION_START = '===BEGIN PRIVATE DOMAINS===';
+  private static readonly PRIVATE_SECTION_END = '===END PRIVATE DOMAINS===';
+
+  private rules: Set<string> = new Set();
+  private wildcards: Set<string> = new Set();
+  private exceptions: Set<string> = new Set();
+  private publication: string | null;
+
+  constructor(data: IPublicSuffixFile = bundledPublicSuffixList) {
+    this.applyRules(data.rules);
+    this.publication = data.publication || null;
+  }
+
+  /**
+   * Get the shared instance used by the query services
+   */
+  static getInstance(): PublicSuffixService {
+    if (!PublicSuffixService.instance) {
+      PublicSuffixService.instance = new PublicSuffixService();
+    }
+    return PublicSuffixService.instance;
+  }
+
+  /**
+   * Split a domain at its public suffix
+   * A domain that is itself a public suffix keeps its first label as the base domain,
+   * so "co.uk" is read as "co" under ".uk".
+   * @param domain - Full domain name
+   * @returns Base domain and public suffix (empty for names without a dot)
+   */
+  parse(domain: string): IParsedDomain {
+    const labels = domain.toLowerCase().replace(/\.$/, '').split('.');
+    if (labels.length < 2) {
+      return { baseDomain: labels[0] || '', tld: '' };
+    }
+
+    const suffixLength = Math.min(this.getSuffixLength(labels), labels.length - 1);
+    return {
+      baseDomain: labels.slice(0, -suffixLength).join('.'),
+      tld: `.${labels.slice(-suffixLength).join('.')}`
+    };
+  }
+
+  /**
+   * Get the public suffix of a domain
+   * @param domain - Full domain name
+   * @returns Public suffix including the dot (e.g., ".co.uk"), or an empty string
+   */
+  getPublicSuffix(domain: string): string {
+    return this.parse(domain).tld;
+  }
+
+  /**
+   * Get the name a registrant holds for a domain (the public suffix plus one label)
+   * @param domain - Full domain name, possibly with subdomains
+   * @returns Registrable domain (e.g., "example.co.uk" for "www.example.co.uk"), or null
+   */
+  getRegistrableDomain(domain: string): string | null {
+    const { baseDomain, tld } = this.parse(domain);
+    if (!baseDomain || !tld) {
+      return null;
+    }
+    return `${baseDomain.substring(baseDomain.lastIndexOf('.') + 1)}${tld}`;
+  }
+
+  /**
+   * Check whether names are registered directly under a suffix
+   * @param suffix - Suffix with or without the leading dot (e.g., ".co.uk")
+   */
+  isPublicSuffix(suffix: string): boolean {
+    const labels = suffix.toLowerCase().replace(/^\./, '').split('.');
+    return labels.every(label => label.length > 0) && this.getSuffixLength(labels) === labels.length;
+  }
+
+  /**
+   * Get the publication timestamp of the loaded list
+   */
+  getPublication(): string | null {
+    return this.publication;
+  }
+
+  /**
+   * Load a newer copy of the list from disk, replacing the current rules
+   * Accepts the official public_suffix_list.dat (its private section is skipped, since
+   * names there are not registered with a registry) or a JSON file in the bundled format.
+   * @param filePath - Path of the list
+   * @throws Error if the file cannot be read or contains no rules
+   */
+  loadFromFile(filePath: string): void {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load public suffix list ${filePath}: ${reason}`);
+    }
+
+    const file = content.trimStart().startsWith('{')
+      ? JSON.parse(content) as IPublicSuffixFile
+      : { rules: this.parseDatFile(content) };
+
+    if (!file || !Array.isArray(file.rules) || file.rules.length === 0) {
+      throw new Error(`Invalid public suffix list: ${filePath}`);
+    }
+
+    this.applyRules(file.rules);
+    this.publication = file.publication || null;
+  }
+
+  /**
+   * Count the labels of the longest matching rule, exceptions first
+   */
+  private getSuffixLength(labels: string[]): number {
+    for (let index = 0; index < labels.length; index++) {
+      const candidate = labels.slice(index).join('.');
+      if (this.exceptions.has(candidate)) {
+        return labels.length - index - 1;
+      }
+      if (this.rules.has(candidate) || (index + 1 < labels.length && this.wildcards.has(labels.slice(index + 1).join('.')))) {
+        return labels.length - index;
+      }
+    }
+    return 1;
+  }
+
+  /**
+   * Replace the rule sets, converting Unicode rules to the ASCII form domains are looked up in
+   */
+  private applyRules(rules: string[]): void {
+    const normal = new Set<string>();
+    const wildcards = new Set<string>();
+    const exceptions = new Set<string>();
+
+    for (const rule of rules) {
+      const trimmed = rule.trim().toLowerCase();
+      if (!trimmed) {
+        continue;
+      }
+
+      if (trimmed.startsWith('!')) {
+        exceptions.add(this.toASCII(trimmed.substring(1)));
+      } else if (trimmed.startsWith('*.')) {
+        wildcards.add(this.toASCII(trimmed.substring(2)));
+      } else {
+        normal.add(this.toASCII(trimmed));
+      }
+    }
+
+    this.rules = normal;
+    this.wildcards = wildcards;
+    this.exceptions = exceptions;
+  }
+
+  /**
+   * Read the ICANN rules of a public_suffix_list.dat file
+   */
+  private parseDatFile(content: string): string[] {
+    const rules: string[] = [];
+    let isPrivate = false;
+
+    for (const line of content.split(/\r?\n/)) {
+      if (line.includes(PublicSuffixService.PRIVATE_SECTION_START)) {
+        isPrivate = true;
+      } else if (line.includes(PublicSuffixService.PRIVATE_SECTION_END)) {
+        isPrivate = false;
+      }
+
+      // Rules end at the first whitespace; everything after "//" is a comment
+      const rule = line.trim().split(/\s/)[0] || '';
+      if (!isPrivate && rule && !rule.startsWith('//')) {
+        rules.push(rule);
+      }
+    }
+
+    return rules;
+  }
+
+  private toASCII(rule: string): string {
+    return domainToASCII(rule) || rule;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,475 @@
+import http from 'http';
+import https from 'https';
+import type { IAvailabilityEvidence, IDomainResult } from '../models';
+import { AvailabilityStatus } from '../models/AvailabilityStatus';
+import type { IQueryStrategy, IStrategyConfig } from '../patterns/strategy/IQueryStrategy';
+import { RegistryBootstrapService } from './RegistryBootstrapService';
+import { DomainLifecycleService } from './DomainLifecycleService';
+import { AvailabilityVerdictService } from './AvailabilityVerdictService';
+import { PublicSuffixService } from './PublicSuffixService';
+import { RateLimiter } from './ratelimit/RateLimiter';
+import { RateLimitError } from './ratelimit/RateLimitError';
+import { CircuitBreakerRegistry } from '../patterns/circuit-breaker/CircuitBreakerRegistry';
+
+/**
+ * Subset of an RDAP entity object (RFC 9083 section 5.1) used by the service
+ */
+export interface IRDAPEntity {
+  roles?: string[];
+  vcardArray?: [string, Array<[string, Record<string, unknown>, string, unknown]>];
+  publicIds?: Array<{ type: string; identifier: string }>;
+  entities?: IRDAPEntity[];
+}
+
+/**
+ * Subset of an RDAP domain object (RFC 9083 section 5.3) used by the service
+ */
+export interface IRDAPDomainResponse {
+  objectClassName?: string;
+  ldhName?: string;
+  status?: string[];
+  events?: Array<{ eventAction: string; eventDate: string }>;
+  entities?: IRDAPEntity[];
+  nameservers?: Array<{ ldhName?: string }>;
+}
+
+/**
+ * Raw HTTP response returned by an RDAP server
+ */
+interface IRDAPHttpResponse {
+  statusCode: number;
+  body: string;
+  /** Backoff requested by a 429 response's Retry-After header */
+  retryAfterMs?: number;
+}
+
+/**
+ * Response to one RDAP lookup attempt
+ */
+interface IRDAPLookupResponse extends IRDAPHttpResponse {
+  /** Time the server took to answer, excluding rate limiter waits, retries and backoff */
+  responseTime: number;
+}
+
+/**
+ * RDAP Query Service - provides domain availability checking using the
+ * Registration Data Access Protocol (JSON over HTTPS)
+ * Implements the Strategy pattern as the structured replacement for port-43 WHOIS
+ */
+export class RDAPQueryService implements IQueryStrategy {
+  private config: IStrategyConfig = {
+    timeoutMs: 8000, // 8 second timeout for RDAP requests
+    maxRetries: 2,
+    retryDelayMs: 1000,
+    useExponentialBackoff: true,
+    priority: 1, // Same tier as WHOIS - registry data over speed
+    enabled: true
+  };
+
+  private static readonly MAX_REDIRECTS = 3;
+
+  // RDAP answers are structured registry data: a 404 is the registry saying it has no such object
+  private static readonly FOUND_CONFIDENCE = 0.98;
+  private static readonly NOT_FOUND_CONFIDENCE = 0.95;
+
+  /** RDAP base URL overrides per TLD (must end with a slash), checked before the bootstrap */
+  private servers: Map<string, string> = new Map();
+  private bootstrap: RegistryBootstrapService;
+  private lifecycle = new DomainLifecycleService();
+  private verdicts = new AvailabilityVerdictService();
+  private suffixes = PublicSuffixService.getInstance();
+  private rateLimiter: RateLimiter;
+  private breakers: CircuitBreakerRegistry;
+
+  constructor(
+    bootstrap: RegistryBootstrapService = RegistryBootstrapService.getInstance(),
+    rateLimiter: RateLimiter = RateLimiter.getInstance(),
+    breakers: CircuitBreakerRegistry = CircuitBreakerRegistry.getInstance()
+  ) {
+    this.bootstrap = bootstrap;
+    this.rateLimiter = rateLimiter;
+    this.breakers = breakers;
+  }
+
+  /**
+   * Check domain availability (alias for execute method)
+   * @param domain - Full domain name to check
+   * @returns Promise resolving to domain result
+   */
+  async checkDomain(domain: string): Promise<IDomainResult> {
+    return this.execute(domain);
+  }
+
+  /**
+   * Execute RDAP-based domain availability check
+   * @param domain - Full domain name to check
+   * @returns Promise resolving to domain result
+   */
+  async execute(domain: string): Promise<IDomainResult> {
+    const startTime = Date.now();
+    const { baseDomain, tld } = this.suffixes.parse(domain);
+
+    // Validate domain format first
+    if (!this.isValidDomainFormat(domain)) {
+      return this.createErrorResult(domain, baseDomain, tld, startTime, 'Invalid domain format');
+    }
+
+    const baseUrl = this.getRDAPServer(tld);
+    if (!baseUrl) {
+      return this.createErrorResult(domain, baseDomain, tld, startTime, `No RDAP server known for ${tld}`);
+    }
+
+    const server = new URL(baseUrl).host;
+
+    try {
+      const response = await this.breakers.execute(`rdap:${server}`, async () => {
+        const lookup = await this.performRDAPLookup(`${baseUrl}domain/${domain.toLowerCase()}`, server);
+        // Server errors count against the circuit; 404 and 429 are answers from a working server
+        if (lookup.statusCode >= 500) {
+          throw new Error(`RDAP server returned HTTP ${lookup.statusCode}`);
+        }
+        return lookup;
+      }, error => !(error instanceof RateLimitError));
+      const executionTime = Date.now() - startTime;
+
+      if (response.statusCode === 429) {
+        const backoff = this.rateLimiter.reportRateLimited(server, response.retryAfterMs);
+        throw new RateLimitError(server, backoff, 'RDAP rate limit exceeded');
+      }
+      this.rateLimiter.reportSuccess(server);
+
+      if (response.statusCode === 404) {
+        const snippet = this.verdicts.excerpt(response.body);
+        const evidence: IAvailabilityEvidence = {
+          source: 'RDAP',
+          status: AvailabilityStatus.AVAILABLE,
+          confidence: RDAPQueryService.NOT_FOUND_CONFIDENCE,
+          detail: `${server} returned HTTP 404 for the domain`,
+          ...(snippet && { snippet }),
+          server,
+          executionTime,
+          responseTime: response.responseTime
+        };
+
+        return {
+          domain,
+          baseDomain,
+          tld,
+          status: AvailabilityStatus.AVAILABLE,
+          lastChecked: new Date(),
+          checkMethod: 'RDAP' as const,
+          retryCount: 0,
+          executionTime,
+          responseTime: response.responseTime,
+          ...this.verdicts.summarize([evidence])
+        };
+      }
+
+      if (response.statusCode !== 200) {
+        return this.createErrorResult(domain, baseDomain, tld, startTime, `RDAP server returned HTTP ${response.statusCode}`);
+      }
+
+      const parsed = this.parseRDAPResponse(response.body);
+      const status = this.lifecycle.resolveStatus(AvailabilityStatus.TAKEN, parsed);
+      const evidence: IAvailabilityEvidence = {
+        source: 'RDAP',
+        status,
+        confidence: RDAPQueryService.FOUND_CONFIDENCE,
+        detail: `${server} returned a domain object${parsed.status ? ` with status ${parsed.status.join(', ')}` : ''}`,
+        snippet: this.verdicts.excerpt(response.body),
+        server,
+        executionTime,
+        responseTime: response.responseTime
+      };
+
+      return {
+        domain,
+        baseDomain,
+        tld,
+        status,
+        lastChecked: new Date(),
+        checkMethod: 'RDAP' as const,
+        retryCount: 0,
+        executionTime,
+        responseTime: response.responseTime,
+        whoisData: parsed,
+        ...this.verdicts.summarize([evidence])
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'RDAP lookup failed';
+      return this.createErrorResult(domain, baseDomain, tld, startTime, errorMessage, error instanceof RateLimitError);
+    }
+  }
+
+  /**
+   * Get the service type identifier
+   * @returns Service type string
+   */
+  getServiceType(): 'RDAP' {
+    return 'RDAP';
+  }
+
+  /**
+   * Get the current configuration
+   * @returns Configuration object
+   */
+  getConfig(): IStrategyConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Set configuration options
+   * @param config - Configuration object
+   */
+  setConfig(config: Partial<IStrategyConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Determine if this strategy can handle the given domain
+   * @param domain - Domain name to evaluate
+   * @returns True if an RDAP server is known for the domain's TLD
+   */
+  canHandle(domain: string): boolean {
+    return this.isValidDomainFormat(domain) && this.getRDAPServer(this.suffixes.getPublicSuffix(domain)) !== null;
+  }
+
+  /**
+   * Get the priority of this strategy (higher numbers = higher priority)
+   * @returns Strategy priority value
+   */
+  getPriority(): number {
+    return this.config.priority;
+  }
+
+  /**
+   * Get the name/identifier of this strategy
+   * @returns Strategy name
+   */
+  getName(): string {
+    return 'RDAPQueryService';
+  }
+
+  /**
+   * Check whether the RDAP server for a domain may currently be queried
+   * @param domain - Domain to check
+   * @returns False while the server's circuit is open
+   */
+  isUpstreamAvailable(domain: string): boolean {
+    const baseUrl = this.getRDAPServer(this.suffixes.getPublicSuffix(domain));
+    return !baseUrl || this.breakers.isAvailable(`rdap:${new URL(baseUrl).host}`);
+  }
+
+  /**
+   * Register or override the RDAP base URL for a TLD
+   * @param tld - TLD including the dot (e.g., ".com")
+   * @param baseUrl - RDAP base URL, e.g. "https://rdap.verisign.com/com/v1/"
+   */
+  setRDAPServer(tld: string, baseUrl: string): void {
+    const normalizedTld = tld.startsWith('.') ? tld.toLowerCase() : `.${tld.toLowerCase()}`;
+    this.servers.set(normalizedTld, baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+  }
+
+  /**
+   * Get the RDAP base URL for a TLD, preferring overrides over the IANA bootstrap
+   * @param tld - TLD including the dot
+   * @returns Base URL or null if none is known
+   */
+  getRDAPServer(tld: string): string | null {
+    const normalizedTld = tld.startsWith('.') ? tld.toLowerCase() : `.${tld.toLowerCase()}`;
+    return this.servers.get(normalizedTld) ?? this.bootstrap.getRDAPBaseUrl(normalizedTld);
+  }
+
+  /**
+   * Parse an RDAP domain object into the whoisData shape of IDomainResult
+   * @param body - Raw JSON response body
+   * @returns Parsed registration data
+   */
+  parseRDAPResponse(body: string): NonNullable<IDomainResult['whoisData']> {
+    let data: IRDAPDomainResponse;
+    try {
+      data = JSON.parse(body) as IRDAPDomainResponse;
+    } catch {
+      throw new Error('Invalid RDAP response: malformed JSON');
+    }
+
+    if (data.objectClassName !== undefined && data.objectClassName !== 'domain') {
+      throw new Error(`Invalid RDAP response: unexpected object class ${data.objectClassName}`);
+    }
+
+    const registrationDate = this.findEventDate(data, 'registration');
+    const expirationDate = this.findEventDate(data, 'expiration');
+    const registrar = this.findRegistrarName(data.entities || []);
+    const nameServers = (data.nameservers || [])
+      .map(ns => ns.ldhName?.toLowerCase())
+      .filter((name): name is string => Boolean(name));
+
+    return {
+      ...(registrar && { registrar }),
+      ...(registrationDate && { registrationDate }),
+      ...(expirationDate && { expirationDate }),
+      ...(nameServers.length > 0 && { nameServers }),
+      ...(data.status && data.status.length > 0 && { status: [...data.status] })
+    };
+  }
+
+  /**
+   * Perform RDAP lookup with timeout and retry logic, waiting for the server's rate limiter
+   * before each attempt
+   * @param url - Full RDAP query URL
+   * @param server - RDAP server host the rate limit applies to
+   * @returns HTTP status code, body and response time of the attempt that got an answer
+   */
+  private async performRDAPLookup(url: string, server: string): Promise<IRDAPLookupResponse> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+      try {
+        await this.rateLimiter.acquire(server, this.config.timeoutMs);
+        const startTime = Date.now();
+        const response = await this.httpGet(url, 0);
+        return { ...response, responseTime: Date.now() - startTime };
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          throw error;
+        }
+
+        lastError = error instanceof Error ? error : new Error('RDAP lookup failed');
+
+        if (attempt < this.config.maxRetries) {
+          const backoffDelay = this.config.useExponentialBackoff
+            ? Math.min(this.config.retryDelayMs * Math.pow(2, attempt), 5000)
+            : this.config.retryDelayMs;
+          await new Promise(resolve => setTimeout(resolve, backoffDelay));
+        }
+      }
+    }
+
+    throw lastError || new Error('RDAP lookup failed after all retries');
+  }
+
+  /**
+   * Issue an HTTP(S) GET request, following redirects
+   * @param url - URL to request
+   * @param redirects - Number of redirects already followed
+   * @returns Promise resolving to status code and body
+   */
+  private httpGet(url: string, redirects: number): Promise<IRDAPHttpResponse> {
+    return new Promise((resolve, reject) => {
+      const client = url.startsWith('https:') ? https : http;
+
+      const request = client.get(url, { headers: { Accept: 'application/rdap+json, application/json' } }, response => {
+        const statusCode = response.statusCode || 0;
+        const location = response.headers.location;
+
+        if (statusCode >= 300 && statusCode < 400 && location) {
+          response.resume();
+          if (redirects >= RDAPQueryService.MAX_REDIRECTS) {
+            reject(new Error('RDAP lookup failed: too many redirects'));
+            return;
+          }
+          this.httpGet(new URL(location, url).toString(), redirects + 1).then(resolve, reject);
+          return;
+        }
+
+        const retryAfterMs = statusCode === 429 ? this.parseRetryAfter(response.headers['retry-after']) : undefined;
+        let body = '';
+        response.setEncoding('utf8');
+        response.on('data', chunk => body += chunk);
+        response.on('end', () => resolve({ statusCode, body, ...(retryAfterMs !== undefined && { retryAfterMs }) }));
+        response.on('error', reject);
+      });
+
+      request.setTimeout(this.config.timeoutMs, () => {
+        request.destroy(new Error(`RDAP lookup timeout after ${this.config.timeoutMs}ms`));
+      });
+      request.on('error', reject);
+    });
+  }
+
+  /**
+   * Parse a Retry-After header, given either in seconds or as an HTTP date
+   * @param header - Header value
+   * @returns Backoff in milliseconds, or undefined if missing or unreadable
+   */
+  private parseRetryAfter(header: string | undefined): number | undefined {
+    if (!header) {
+      return undefined;
+    }
+
+    const retryAt = /^\d+$/.test(header.trim()) ? Date.now() + Number(header.trim()) * 1000 : Date.parse(header);
+    return isNaN(retryAt) ? undefined : Math.max(0, retryAt - Date.now());
+  }
+
+  /**
+   * Find the date of an RDAP event by action name
+   * @param data - RDAP domain object
+   * @param action - Event action (e.g., "registration", "expiration")
+   * @returns Parsed date or undefined
+   */
+  private findEventDate(data: IRDAPDomainResponse, action: string): Date | undefined {
+    const event = (data.events || []).find(e => e.eventAction === action);
+    if (!event) {
+      return undefined;
+    }
+
+    const date = new Date(event.eventDate);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  /**
+   * Find the registrar name from RDAP entities
+   * @param entities - RDAP entities attached to the domain
+   * @returns Registrar name from the vCard "fn" property, if present
+   */
+  private findRegistrarName(entities: IRDAPEntity[]): string | undefined {
+    const registrar = entities.find(entity => entity.roles?.includes('registrar'));
+    if (!registrar?.vcardArray) {
+      return undefined;
+    }
+
+    const fn = registrar.vcardArray[1].find(property => property[0] === 'fn');
+    return fn && typeof fn[3] === 'string' && fn[3].trim() ? fn[3].trim() : undefined;
+  }
+
+  /**
+   * Create an error result
+   */
+  private createErrorResult(
+    domain: string,
+    baseDomain: string,
+    tld: string,
+    startTime: number,
+    error: string,
+    rateLimited = false
+  ): IDomainResult {
+    const executionTime = Date.now() - startTime;
+    return {
+      domain,
+      baseDomain,
+      tld,
+      status: AvailabilityStatus.ERROR,
+      lastChecked: new Date(),
+      checkMethod: 'RDAP' as const,
+      retryCount: 0,
+      executionTime,
+      error,
+      ...(rateLimited && { errorType: 'RATE_LIMIT' as const }),
+      ...this.verdicts.summarize([{ source: 'RDAP', status: AvailabilityStatus.ERROR, confidence: 0, detail: error, executionTime }])
+    };
+  }
+
+  /**
+   * Validate domain format for RDAP lookup
+   * @param domain - Domain to validate
+   * @returns True if domain format is valid for RDAP
+   */
+  private isValidDomainFormat(domain: string): boolean {
+    if (!domain || typeof domain !== 'string') {
+      return false;
+    }
+
+    const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+    return domainRegex.test(domain) && domain.length <= 253;
+  }
+}
\ No newline at end of file
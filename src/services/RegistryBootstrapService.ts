@@ -0,0 +1,259 @@
+import fs from 'fs';
+import bundledRDAPBootstrap from '../data/rdap-dns-bootstrap.json';
+import bundledWHOISServers from '../data/whois-servers.json';
+
+/**
+ * IANA RDAP bootstrap file format (RFC 9224)
+ */
+export interface IRDAPBootstrapFile {
+  description?: string;
+  publication?: string;
+  version?: string;
+  /** Each entry pairs a list of TLDs (without dots) with a list of RDAP base URLs */
+  services: Array<[string[], string[]]>;
+}
+
+/**
+ * WHOIS server map file format
+ */
+export interface IWHOISServerFile {
+  description?: string;
+  publication?: string;
+  /** WHOIS server hostname keyed by TLD (without dot) */
+  servers: Record<string, string>;
+}
+
+/**
+ * Registry endpoints resolved for a single TLD
+ */
+export interface IRegistryEndpoint {
+  /** TLD including the dot (e.g., ".com") */
+  tld: string;
+  /** RDAP base URLs in preference order (HTTPS first) */
+  rdapUrls: string[];
+  /** Authoritative WHOIS server hostname */
+  whoisServer: string | null;
+}
+
+/**
+ * Paths used to refresh the bootstrap data from disk
+ */
+export interface IBootstrapFilePaths {
+  rdapBootstrapPath?: string;
+  whoisServersPath?: string;
+}
+
+/**
+ * Registry Bootstrap Service - routes each TLD to its authoritative RDAP and WHOIS servers
+ * Loads the IANA RDAP dns.json bootstrap and a WHOIS server map from bundled data files,
+ * and can be refreshed from newer copies on disk. Second-level suffixes such as ".co.uk"
+ * use their own entry when there is one and the entry of their TLD otherwise.
+ */
+export class RegistryBootstrapService {
+  private static instance: RegistryBootstrapService;
+
+  private rdapServers: Map<string, string[]>;
+  private whoisServers: Map<string, string>;
+  private filePaths: IBootstrapFilePaths = {};
+  private publication: string | null = null;
+
+  constructor(
+    rdapBootstrap: IRDAPBootstrapFile = bundledRDAPBootstrap as IRDAPBootstrapFile,
+    whoisServers: IWHOISServerFile = bundledWHOISServers
+  ) {
+    this.rdapServers = this.buildRDAPMap(rdapBootstrap);
+    this.whoisServers = this.buildWHOISMap(whoisServers);
+    this.publication = rdapBootstrap.publication || null;
+  }
+
+  /**
+   * Get the shared instance used by the query services
+   */
+  static getInstance(): RegistryBootstrapService {
+    if (!RegistryBootstrapService.instance) {
+      RegistryBootstrapService.instance = new RegistryBootstrapService();
+    }
+    return RegistryBootstrapService.instance;
+  }
+
+  /**
+   * Resolve the registry endpoints for a TLD
+   * @param tld - TLD with or without the leading dot
+   * @returns Endpoints, or null when neither RDAP nor WHOIS is known
+   */
+  resolve(tld: string): IRegistryEndpoint | null {
+    const key = this.normalizeTLD(tld);
+    const rdapUrls = this.lookup(this.rdapServers, key) || [];
+    const whoisServer = this.lookup(this.whoisServers, key) || null;
+
+    if (rdapUrls.length === 0 && !whoisServer) {
+      return null;
+    }
+
+    return { tld: `.${key}`, rdapUrls: [...rdapUrls], whoisServer };
+  }
+
+  /**
+   * Get the preferred RDAP base URL for a TLD
+   * @param tld - TLD with or without the leading dot
+   * @returns Base URL ending with a slash, or null
+   */
+  getRDAPBaseUrl(tld: string): string | null {
+    const urls = this.lookup(this.rdapServers, this.normalizeTLD(tld));
+    return urls && urls.length > 0 ? urls[0]! : null;
+  }
+
+  /**
+   * Get the authoritative WHOIS server for a TLD
+   * @param tld - TLD with or without the leading dot
+   * @returns WHOIS server hostname, or null
+   */
+  getWHOISServer(tld: string): string | null {
+    return this.lookup(this.whoisServers, this.normalizeTLD(tld)) || null;
+  }
+
+  /**
+   * Check whether any registry endpoint is known for a TLD
+   */
+  hasEndpoint(tld: string): boolean {
+    return this.resolve(tld) !== null;
+  }
+
+  /**
+   * Get all TLDs with at least one known endpoint
+   * @returns TLDs including the dot, sorted alphabetically
+   */
+  getKnownTLDs(): string[] {
+    const tlds = new Set([...this.rdapServers.keys(), ...this.whoisServers.keys()]);
+    return Array.from(tlds).sort().map(tld => `.${tld}`);
+  }
+
+  /**
+   * Get the publication timestamp of the loaded RDAP bootstrap
+   */
+  getPublication(): string | null {
+    return this.publication;
+  }
+
+  /**
+   * Load bootstrap data from files on disk, replacing the current data
+   * Files that are not given keep their current data
+   * @param paths - Paths to an IANA dns.json copy and/or a WHOIS server map
+   */
+  loadFromFiles(paths: IBootstrapFilePaths): void {
+    const rdapBootstrap = paths.rdapBootstrapPath
+      ? this.readJsonFile<IRDAPBootstrapFile>(paths.rdapBootstrapPath)
+      : null;
+    const whoisServers = paths.whoisServersPath
+      ? this.readJsonFile<IWHOISServerFile>(paths.whoisServersPath)
+      : null;
+
+    // Build both maps before applying either so a bad file leaves the service untouched
+    const rdapMap = rdapBootstrap ? this.buildRDAPMap(rdapBootstrap) : null;
+    const whoisMap = whoisServers ? this.buildWHOISMap(whoisServers) : null;
+
+    if (rdapMap) {
+      this.rdapServers = rdapMap;
+      this.publication = rdapBootstrap?.publication || null;
+    }
+    if (whoisMap) {
+      this.whoisServers = whoisMap;
+    }
+
+    this.filePaths = { ...this.filePaths, ...paths };
+  }
+
+  /**
+   * Re-read the files previously passed to loadFromFiles
+   * @returns True if any file was reloaded
+   */
+  refresh(): boolean {
+    if (!this.filePaths.rdapBootstrapPath && !this.filePaths.whoisServersPath) {
+      return false;
+    }
+
+    this.loadFromFiles(this.filePaths);
+    return true;
+  }
+
+  /**
+   * Build the TLD to RDAP URL map from a bootstrap file
+   */
+  private buildRDAPMap(bootstrap: IRDAPBootstrapFile): Map<string, string[]> {
+    if (!bootstrap || !Array.isArray(bootstrap.services)) {
+      throw new Error('Invalid RDAP bootstrap file: "services" must be an array');
+    }
+
+    const servers = new Map<string, string[]>();
+    for (const entry of bootstrap.services) {
+      if (!Array.isArray(entry) || !Array.isArray(entry[0]) || !Array.isArray(entry[1])) {
+        throw new Error('Invalid RDAP bootstrap file: malformed service entry');
+      }
+
+      // Prefer HTTPS endpoints as required by RFC 9224
+      const urls = entry[1]
+        .map(url => url.endsWith('/') ? url : `${url}/`)
+        .sort((a, b) => Number(b.startsWith('https:')) - Number(a.startsWith('https:')));
+
+      for (const tld of entry[0]) {
+        servers.set(this.normalizeTLD(tld), urls);
+      }
+    }
+
+    return servers;
+  }
+
+  /**
+   * Build the TLD to WHOIS server map from a server map file
+   */
+  private buildWHOISMap(file: IWHOISServerFile): Map<string, string> {
+    if (!file || typeof file.servers !== 'object' || file.servers === null) {
+      throw new Error('Invalid WHOIS server file: "servers" must be an object');
+    }
+
+    const servers = new Map<string, string>();
+    for (const [tld, server] of Object.entries(file.servers)) {
+      if (typeof server === 'string' && server.trim()) {
+        servers.set(this.normalizeTLD(tld), server.trim().toLowerCase());
+      }
+    }
+
+    return servers;
+  }
+
+  /**
+   * Find the entry for a suffix, dropping leading labels until one matches
+   * (e.g., "co.uk" falls back to "uk")
+   */
+  private lookup<T>(map: Map<string, T>, key: string): T | undefined {
+    let suffix = key;
+    while (suffix) {
+      const value = map.get(suffix);
+      if (value !== undefined) {
+        return value;
+      }
+      const dotIndex = suffix.indexOf('.');
+      suffix = dotIndex === -1 ? '' : suffix.substring(dotIndex + 1);
+    }
+    return undefined;
+  }
+
+  /**
+   * Read and parse a JSON file
+   */
+  private readJsonFile<T>(filePath: string): T {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load bootstrap file ${filePath}: ${reason}`);
+    }
+  }
+
+  /**
+   * Normalize a TLD to lowercase without the leading dot
+   */
+  private normalizeTLD(tld: string): string {
+    return tld.toLowerCase().replace(/^\./, '');
+  }
+}
\ No newline at end of file
@@ -1,19 +1,56 @@
+import { PublicSuffixService } from './PublicSuffixService';
+import { TLDCatalog } from './catalog/TLDCatalog';
+
 /**
  * Service for managing TLD (Top Level Domain) operations
- * Handles TLD validation, construction, and supported TLD management
+ * Handles TLD validation, construction, and supported TLD management.
+ * "TLD" covers second-level public suffixes such as ".co.uk" as well; the lists come
+ * from the TLD catalog.
  */
 export class TLDService {
-  private static readonly SUPPORTED_TLDS = [
-    '.com', '.net', '.org', '.ai', '.dev', '.io', '.co',
-    '.app', '.tech', '.online', '.store', '.shop', '.site',
-    '.blog', '.news', '.info', '.biz', '.me', '.tv'
-  ];
+  private suffixes: PublicSuffixService;
+  private catalog: TLDCatalog;
+
+  constructor(
+    suffixes: PublicSuffixService = PublicSuffixService.getInstance(),
+    catalog: TLDCatalog = TLDCatalog.getInstance()
+  ) {
+    this.suffixes = suffixes;
+    this.catalog = catalog;
+  }
 
   /**
-   * Get all supported TLDs
+   * Get all supported TLDs (the TLDs checked by default)
    */
   getSupportedTLDs(): string[] {
-    return [...TLDService.SUPPORTED_TLDS];
+    return this.catalog.getDefaultTLDs();
+  }
+
+  /**
+   * Get the second-level public suffixes that can be added to checks
+   */
+  getSecondLevelTLDs(): string[] {
+    return this.catalog.getSecondLevelTLDs();
+  }
+
+  /**
+   * Explain why names cannot be checked under a TLD or public suffix
+   * @param tld - TLD including the dot (e.g., ".com" or ".co.uk")
+   * @returns Reason, or null if names can be registered directly under it
+   */
+  validateTLD(tld: string): string | null {
+    if (!tld.startsWith('.') || !this.suffixes.isPublicSuffix(tld)) {
+      return `${tld} is not a public suffix; names are not registered directly under it`;
+    }
+    return this.catalog.getRegistrationError(tld);
+  }
+
+  /**
+   * Check whether names can be registered directly under a TLD or public suffix
+   * @param tld - TLD including the dot (e.g., ".com" or ".co.uk")
+   */
+  isRegistrableTLD(tld: string): boolean {
+    return this.validateTLD(tld) === null;
   }
 
   /**
@@ -29,46 +66,34 @@ export class TLDService {
       throw new Error('Base domain cannot be empty after sanitization');
     }
 
-    const targetTLDs = tlds || TLDService.SUPPORTED_TLDS;
+    const targetTLDs = tlds || this.getSupportedTLDs();
     return targetTLDs.map(tld => `${sanitizedBase}${tld}`);
   }
 
   /**
-   * Validate that a domain belongs to the supported TLDs
+   * Validate that a domain belongs to the supported TLDs or second-level suffixes
    */
   isSupportedDomain(domain: string): boolean {
-    return TLDService.SUPPORTED_TLDS.some(tld => 
-      domain.toLowerCase().endsWith(tld)
-    );
+    return this.extractTLD(domain) !== null;
   }
 
   /**
    * Extract base domain from a full domain name
    */
   extractBaseDomain(domain: string): string | null {
-    const lowerDomain = domain.toLowerCase();
-    
-    for (const tld of TLDService.SUPPORTED_TLDS) {
-      if (lowerDomain.endsWith(tld)) {
-        return lowerDomain.slice(0, -tld.length);
-      }
-    }
-    
-    return null;
+    const { baseDomain, tld } = this.suffixes.parse(domain);
+    return this.isSupportedTLD(tld) ? baseDomain : null;
   }
 
   /**
-   * Extract TLD from a full domain name
+   * Extract the supported TLD or second-level suffix from a full domain name
    */
   extractTLD(domain: string): string | null {
-    const lowerDomain = domain.toLowerCase();
-    
-    for (const tld of TLDService.SUPPORTED_TLDS) {
-      if (lowerDomain.endsWith(tld)) {
-        return tld;
-      }
-    }
-    
-    return null;
+    const tld = this.suffixes.getPublicSuffix(domain);
+    return this.isSupportedTLD(tld) ? tld : null;
+  }
+
+  private isSupportedTLD(tld: string): boolean {
+    return this.getSupportedTLDs().includes(tld) || this.getSecondLevelTLDs().includes(tld);
   }
 }
\ No newline at end of file
@@ -0,0 +1,171 @@
+import type { IAvailabilityEvidence, IDomainResult } from '../models';
+import { AvailabilityStatus } from '../models/AvailabilityStatus';
+import type { IQueryStrategy, IStrategyConfig } from '../patterns/strategy/IQueryStrategy';
+import { AvailabilityVerdictService } from './AvailabilityVerdictService';
+import { HybridQueryService } from './HybridQueryService';
+import { PublicSuffixService } from './PublicSuffixService';
+import { ZoneFileIndex } from './zone/ZoneFileIndex';
+import type { IZoneLookup } from './zone/ZoneFileIndex';
+
+/**
+ * Zone File Query Strategy - answers from imported TLD zone files without querying anyone
+ * Names delegated in the zone are registered, which is most of what bulk checks ask about.
+ * Names missing from the zone look free, but may be registered without name servers, so
+ * they are passed to the confirming strategy (hybrid by default) and its evidence is weighed
+ * together with the zone's. Domains whose zone has not been imported go straight to it.
+ */
+export class ZoneFileQueryStrategy implements IQueryStrategy {
+  private config: IStrategyConfig = {
+    timeoutMs: 15000,
+    maxRetries: 0,
+    retryDelayMs: 0,
+    useExponentialBackoff: false,
+    priority: 4, // Answers before any network strategy
+    enabled: true
+  };
+
+  /** Confidence of a delegation in the zone, and of a name missing from it */
+  private static readonly IN_ZONE_CONFIDENCE = 0.95;
+  private static readonly NOT_IN_ZONE_CONFIDENCE = 0.6;
+
+  private index: ZoneFileIndex;
+  private confirmStrategy: IQueryStrategy | null;
+  private verdicts = new AvailabilityVerdictService();
+  private suffixes = PublicSuffixService.getInstance();
+
+  constructor(
+    index: ZoneFileIndex = ZoneFileIndex.getInstance(),
+    confirmStrategy: IQueryStrategy | null = new HybridQueryService()
+  ) {
+    this.index = index;
+    this.confirmStrategy = confirmStrategy;
+  }
+
+  /**
+   * Check domain availability against the zone file index
+   * @param domain - Full domain name to check
+   * @returns Promise resolving to domain result
+   */
+  async execute(domain: string): Promise<IDomainResult> {
+    const startTime = Date.now();
+    const { baseDomain, tld } = this.suffixes.parse(domain);
+
+    let lookup: IZoneLookup | null;
+    try {
+      lookup = this.index.lookup(domain);
+    } catch (error) {
+      // An unreadable index is no reason to fail the check
+      lookup = null;
+    }
+
+    if (!lookup) {
+      if (this.confirmStrategy) {
+        return this.confirmStrategy.execute(domain);
+      }
+      return {
+        domain,
+        baseDomain,
+        tld,
+        status: AvailabilityStatus.ERROR,
+        lastChecked: new Date(),
+        checkMethod: 'ZONE',
+        executionTime: Date.now() - startTime,
+        error: `No zone file imported for ${tld}`
+      };
+    }
+
+    const lookupTime = Date.now() - startTime;
+    const zoneEvidence = this.createEvidence(lookup, lookupTime);
+    if (lookup.inZone || !this.confirmStrategy) {
+      return {
+        domain,
+        baseDomain,
+        tld,
+        status: lookup.inZone ? AvailabilityStatus.TAKEN : AvailabilityStatus.AVAILABLE,
+        lastChecked: new Date(),
+        checkMethod: 'ZONE',
+        retryCount: 0,
+        executionTime: Date.now() - startTime,
+        responseTime: lookupTime,
+        ...this.verdicts.summarize([zoneEvidence])
+      };
+    }
+
+    const confirmed = await this.confirmStrategy.execute(domain);
+    const evidence = [zoneEvidence, ...(confirmed.evidence || [])];
+    const verdict = this.verdicts.combine(evidence);
+    return {
+      ...confirmed,
+      status: verdict ? verdict.status : confirmed.status,
+      executionTime: Date.now() - startTime,
+      ...this.verdicts.summarize(evidence)
+    };
+  }
+
+  /**
+   * Determine if this strategy can handle the given domain
+   * @param domain - Domain name to evaluate
+   * @returns True if the domain's zone is imported or the confirming strategy handles it
+   */
+  canHandle(domain: string): boolean {
+    return this.index.hasTLD(this.suffixes.getPublicSuffix(domain)) || Boolean(this.confirmStrategy?.canHandle(domain));
+  }
+
+  /**
+   * Get the priority of this strategy (higher numbers = higher priority)
+   * @returns Strategy priority value
+   */
+  getPriority(): number {
+    return this.config.priority;
+  }
+
+  /**
+   * Get the name/identifier of this strategy
+   * @returns Strategy name
+   */
+  getName(): string {
+    return 'ZoneFileQueryStrategy';
+  }
+
+  /**
+   * Get the service type identifier
+   * @returns Service type string
+   */
+  getServiceType(): 'ZONE' {
+    return 'ZONE';
+  }
+
+  /**
+   * Get the current configuration
+   * @returns Configuration object
+   */
+  getConfig(): IStrategyConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Set configuration options; timeouts and retries apply to the confirming strategy
+   * @param config - Configuration object
+   */
+  setConfig(config: Partial<IStrategyConfig>): void {
+    this.config = { ...this.config, ...config };
+
+    const { priority: _priority, enabled: _enabled, ...confirmConfig } = config;
+    if (Object.keys(confirmConfig).length > 0) {
+      this.confirmStrategy?.setConfig(confirmConfig);
+    }
+  }
+
+  private createEvidence(lookup: IZoneLookup, executionTime: number): IAvailabilityEvidence {
+    const zoneVersion = lookup.serial !== null ? `serial ${lookup.serial}` : `imported ${lookup.importedAt}`;
+    return {
+      source: 'ZONE',
+      status: lookup.inZone ? AvailabilityStatus.TAKEN : AvailabilityStatus.AVAILABLE,
+      confidence: lookup.inZone ? ZoneFileQueryStrategy.IN_ZONE_CONFIDENCE : ZoneFileQueryStrategy.NOT_IN_ZONE_CONFIDENCE,
+      detail: lookup.inZone
+        ? `Delegated in the ${lookup.tld} zone file (${zoneVersion})`
+        : `Not delegated in the ${lookup.tld} zone file (${zoneVersion})`,
+      executionTime
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,313 @@
+import fs from 'fs';
+import { domainToASCII } from 'url';
+import bundledTLDCatalog from '../../data/tld-catalog.json';
+import bundledIDNScripts from '../../data/idn-scripts.json';
+import type { IIDNScriptFile } from '../../validators/IDNNormalizer';
+
+/**
+ * Kind of TLD, following the IANA root zone database
+ */
+export type TLDType = 'gTLD' | 'ccTLD' | 'brand' | 'sponsored';
+
+/**
+ * Pricing of registrations under one TLD or public suffix
+ */
+export interface ITLDPricing {
+  /** First year registration price in USD */
+  firstYear: number;
+  /** Annual renewal price in USD */
+  renewal: number;
+  /** Recommended registrar */
+  registrar: string;
+  /** Registrar website URL */
+  registrarUrl: string;
+  /** Whether this is a premium TLD */
+  isPremium: boolean;
+  /** Additional notes about pricing */
+  notes?: string;
+}
+
+/**
+ * TLD as described in the catalog file (keyed by the TLD without dot)
+ */
+export interface ITLDCatalogFileEntry {
+  type: TLDType;
+  operator?: string | null;
+  /** Open for registrations by the public (default: true) */
+  registrable?: boolean;
+  restrictions?: string | null;
+  checkedByDefault?: boolean;
+  pricing?: ITLDPricing | null;
+}
+
+/**
+ * TLD catalog file format
+ */
+export interface ITLDCatalogFile {
+  description?: string;
+  publication?: string;
+  source?: string;
+  /** Delegated TLDs and second-level suffixes (e.g. "co.uk"), without the leading dot */
+  tlds: Record<string, ITLDCatalogFileEntry>;
+}
+
+/**
+ * TLD or second-level suffix in the catalog
+ */
+export interface ITLDCatalogEntry {
+  /** TLD including the dot (e.g., ".com" or ".co.uk") */
+  tld: string;
+  type: TLDType;
+  /** Registry operator, or null when unknown */
+  operator: string | null;
+  /** Whether the registry accepts internationalized names */
+  idn: boolean;
+  /** Scripts accepted in internationalized names */
+  idnScripts: string[];
+  /** Whether the public can register names */
+  registrable: boolean;
+  /** Eligibility requirements, or null for unrestricted TLDs */
+  restrictions: string | null;
+  /** Checked when a request names no TLDs */
+  checkedByDefault: boolean;
+  pricing: ITLDPricing | null;
+}
+
+/**
+ * Criteria for listing catalog entries; omitted criteria match everything
+ */
+export interface ITLDCatalogFilter {
+  type?: TLDType;
+  idn?: boolean;
+  registrable?: boolean;
+  checkedByDefault?: boolean;
+  /** Second-level suffixes only (true) or TLDs only (false) */
+  secondLevel?: boolean;
+  /** Substring of the TLD or operator */
+  search?: string;
+}
+
+/**
+ * TLD Catalog - the TLDs the checker knows about, with their metadata
+ * Loads delegated TLDs from a bundled copy of the IANA root zone database together with the
+ * second-level suffixes and prices offered for checks, and is the single source for the
+ * default TLD list, TLD validation and pricing. IDN support comes from the IDN script tables.
+ */
+export class TLDCatalog {
+  private static instance: TLDCatalog;
+
+  private entries: Map<string, ITLDCatalogEntry>;
+  private idnScripts: Map<string, string[]>;
+  private publication: string | null;
+
+  constructor(
+    data: ITLDCatalogFile = bundledTLDCatalog as ITLDCatalogFile,
+    idnScripts: IIDNScriptFile = bundledIDNScripts
+  ) {
+    this.idnScripts = new Map(
+      Object.entries(idnScripts.tlds).map(([tld, scripts]) => [this.normalizeTLD(tld), scripts])
+    );
+    this.entries = this.buildEntries(data);
+    this.publication = data.publication || null;
+  }
+
+  /**
+   * Get the catalog shared by the services
+   */
+  static getInstance(): TLDCatalog {
+    if (!TLDCatalog.instance) {
+      TLDCatalog.instance = new TLDCatalog();
+    }
+    return TLDCatalog.instance;
+  }
+
+  /**
+   * Get the entry of a TLD or second-level suffix
+   * @param tld - TLD with or without the leading dot
+   * @returns Entry, or null if the catalog does not list it
+   */
+  get(tld: string): ITLDCatalogEntry | null {
+    const entry = this.entries.get(this.normalizeTLD(tld));
+    return entry ? this.copyEntry(entry) : null;
+  }
+
+  /**
+   * List catalog entries
+   * @param filter - Criteria entries must match
+   * @returns Matching entries sorted by TLD
+   */
+  getAll(filter: ITLDCatalogFilter = {}): ITLDCatalogEntry[] {
+    const search = filter.search?.toLowerCase().replace(/^\./, '');
+
+    return Array.from(this.entries.values())
+      .filter(entry =>
+        (filter.type === undefined || entry.type === filter.type) &&
+        (filter.idn === undefined || entry.idn === filter.idn) &&
+        (filter.registrable === undefined || entry.registrable === filter.registrable) &&
+        (filter.checkedByDefault === undefined || entry.checkedByDefault === filter.checkedByDefault) &&
+        (filter.secondLevel === undefined || this.isSecondLevel(entry.tld) === filter.secondLevel) &&
+        (!search || entry.tld.includes(search) || (entry.operator || '').toLowerCase().includes(search))
+      )
+      .sort((a, b) => a.tld.localeCompare(b.tld))
+      .map(entry => this.copyEntry(entry));
+  }
+
+  /**
+   * Get the TLDs checked when a request names none, in catalog order
+   */
+  getDefaultTLDs(): string[] {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.checkedByDefault)
+      .map(entry => entry.tld);
+  }
+
+  /**
+   * Get the second-level suffixes (e.g., ".co.uk") that can be added to checks, in catalog order
+   */
+  getSecondLevelTLDs(): string[] {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.registrable && this.isSecondLevel(entry.tld))
+      .map(entry => entry.tld);
+  }
+
+  /**
+   * Check whether a TLD is delegated in the root zone
+   * @param tld - TLD with or without the leading dot; for suffixes such as ".com.mx" the TLD is checked
+   */
+  isDelegated(tld: string): boolean {
+    const labels = this.normalizeTLD(tld).split('.');
+    return this.entries.has(labels[labels.length - 1]!);
+  }
+
+  /**
+   * Explain why names cannot be registered under a TLD
+   * @param tld - TLD or second-level suffix including the dot
+   * @returns Reason, or null if the TLD accepts registrations
+   */
+  getRegistrationError(tld: string): string | null {
+    if (!this.isDelegated(tld)) {
+      return `${tld} is not a delegated TLD`;
+    }
+
+    const labels = this.normalizeTLD(tld).split('.');
+    const entry = this.entries.get(this.normalizeTLD(tld)) || this.entries.get(labels[labels.length - 1]!);
+    if (entry && !entry.registrable) {
+      return entry.type === 'brand'
+        ? `${tld} is a closed brand TLD and does not accept registrations`
+        : `${tld} is restricted: ${entry.restrictions || 'not open for public registration'}`;
+    }
+    return null;
+  }
+
+  /**
+   * Get the pricing of a TLD or second-level suffix
+   * @param tld - TLD with or without the leading dot
+   * @returns Pricing, or null if none is known
+   */
+  getPricing(tld: string): ITLDPricing | null {
+    const pricing = this.entries.get(this.normalizeTLD(tld))?.pricing;
+    return pricing ? { ...pricing } : null;
+  }
+
+  /**
+   * Get the publication timestamp of the loaded catalog
+   */
+  getPublication(): string | null {
+    return this.publication;
+  }
+
+  /**
+   * Load a newer catalog from disk
+   * Accepts a JSON file in the catalog format, which replaces the catalog, or IANA's
+   * tlds-alpha-by-domain.txt: TLDs it lists are added (typed by length, without metadata)
+   * and TLDs no longer delegated are dropped together with their second-level suffixes.
+   * @param filePath - Path of the file
+   * @throws Error if the file cannot be read or lists no TLDs
+   */
+  loadFromFile(filePath: string): void {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load TLD catalog ${filePath}: ${reason}`);
+    }
+
+    if (content.trimStart().startsWith('{')) {
+      const file = JSON.parse(content) as ITLDCatalogFile;
+      if (!file || typeof file.tlds !== 'object' || file.tlds === null || Object.keys(file.tlds).length === 0) {
+        throw new Error(`Invalid TLD catalog: ${filePath}`);
+      }
+      this.entries = this.buildEntries(file);
+      this.publication = file.publication || null;
+      return;
+    }
+
+    // "# Version 2026100100, Last Updated Wed Oct  1 07:07:01 2026 UTC" followed by one TLD per line
+    const lines = content.split(/\r?\n/).map(line => line.trim());
+    const delegated = new Set(lines.filter(line => line && !line.startsWith('#')).map(line => this.normalizeTLD(line)));
+    if (delegated.size === 0) {
+      throw new Error(`Invalid TLD catalog: ${filePath}`);
+    }
+
+    const entries = new Map<string, ITLDCatalogEntry>();
+    this.entries.forEach((entry, key) => {
+      if (delegated.has(key.substring(key.lastIndexOf('.') + 1))) {
+        entries.set(key, entry);
+      }
+    });
+    delegated.forEach(key => {
+      if (!entries.has(key)) {
+        entries.set(key, this.createEntry(key, { type: /^[a-z]{2}$/.test(key) ? 'ccTLD' : 'gTLD' }));
+      }
+    });
+
+    this.entries = entries;
+    const version = lines.find(line => line.startsWith('#'))?.match(/Last Updated (.+)$/);
+    this.publication = version ? version[1]! : this.publication;
+  }
+
+  private buildEntries(file: ITLDCatalogFile): Map<string, ITLDCatalogEntry> {
+    const entries = new Map<string, ITLDCatalogEntry>();
+    for (const [tld, entry] of Object.entries(file.tlds)) {
+      const key = this.normalizeTLD(tld);
+      entries.set(key, this.createEntry(key, entry));
+    }
+    return entries;
+  }
+
+  private createEntry(key: string, entry: ITLDCatalogFileEntry): ITLDCatalogEntry {
+    const idnScripts = this.idnScripts.get(key) || [];
+    return {
+      tld: `.${key}`,
+      type: entry.type,
+      operator: entry.operator || null,
+      idn: idnScripts.length > 0,
+      idnScripts: [...idnScripts],
+      registrable: entry.registrable !== false,
+      restrictions: entry.restrictions || null,
+      checkedByDefault: entry.checkedByDefault === true,
+      pricing: entry.pricing ? { ...entry.pricing } : null
+    };
+  }
+
+  private copyEntry(entry: ITLDCatalogEntry): ITLDCatalogEntry {
+    return {
+      ...entry,
+      idnScripts: [...entry.idnScripts],
+      pricing: entry.pricing ? { ...entry.pricing } : null
+    };
+  }
+
+  private isSecondLevel(tld: string): boolean {
+    return tld.lastIndexOf('.') > 0;
+  }
+
+  /**
+   * Normalize a TLD to lowercase ASCII without the leading dot ("XN--P1AI" and ".рф" alike)
+   */
+  private normalizeTLD(tld: string): string {
+    const key = tld.trim().toLowerCase().replace(/^\./, '');
+    return domainToASCII(key) || key;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+// TLD catalog
+export { TLDCatalog } from './TLDCatalog';
+export type {
+  TLDType,
+  ITLDPricing,
+  ITLDCatalogFileEntry,
+  ITLDCatalogFile,
+  ITLDCatalogEntry,
+  ITLDCatalogFilter
+} from './TLDCatalog';
\ No newline at end of file
@@ -0,0 +1,456 @@
+import { isIP } from 'net';
+import { DNSRcode, DNSRecordType } from './IDNSMessage';
+import type { IDNSEdns, IDNSMessage, IDNSQuestion, IDNSRecord } from './IDNSMessage';
+
+/**
+ * Options for building a query message
+ */
+export interface IDNSQueryMessageOptions {
+  /** Ask the server to recurse (default true); authoritative servers ignore it */
+  recursionDesired?: boolean;
+  /** Set the EDNS DO bit to request DNSSEC records and the AD flag */
+  dnssecOk?: boolean;
+  /** Advertised EDNS UDP payload size */
+  udpPayloadSize?: number;
+}
+
+/**
+ * DNS Message Codec - encodes and decodes DNS messages in RFC 1035 wire format
+ * Record data is exchanged in presentation format so callers never handle raw RDATA
+ */
+export class DNSMessageCodec {
+  /** EDNS buffer size recommended by DNS Flag Day 2020 to avoid IP fragmentation */
+  static readonly DEFAULT_UDP_PAYLOAD_SIZE = 1232;
+
+  private static readonly CLASS_IN = 1;
+  private static readonly MAX_POINTER_JUMPS = 64;
+  private static readonly MAX_NAME_LENGTH = 255;
+  private static readonly MAX_LABEL_LENGTH = 63;
+
+  /**
+   * Build a query for a single name and type, with EDNS(0) enabled
+   * @param id - Message ID
+   * @param name - Domain name to query
+   * @param type - Record type
+   * @param options - Query options
+   * @returns Query message
+   */
+  createQuery(id: number, name: string, type: DNSRecordType | number, options: IDNSQueryMessageOptions = {}): IDNSMessage {
+    return {
+      id,
+      response: false,
+      opcode: 0,
+      rcode: DNSRcode.NOERROR,
+      flags: {
+        authoritative: false,
+        truncated: false,
+        recursionDesired: options.recursionDesired !== false,
+        recursionAvailable: false,
+        authenticData: false,
+        checkingDisabled: false
+      },
+      questions: [{ name, type, class: DNSMessageCodec.CLASS_IN }],
+      answers: [],
+      authority: [],
+      additional: [],
+      edns: {
+        udpPayloadSize: options.udpPayloadSize || DNSMessageCodec.DEFAULT_UDP_PAYLOAD_SIZE,
+        version: 0,
+        dnssecOk: options.dnssecOk === true
+      }
+    };
+  }
+
+  /**
+   * Encode a message to wire format (names are not compressed)
+   * @param message - Message to encode
+   * @returns Wire-format message
+   */
+  encode(message: IDNSMessage): Buffer {
+    const { flags } = message;
+    const additional = message.additional.map(record => this.encodeRecord(record));
+    if (message.edns) {
+      additional.push(this.encodeOpt(message.edns, message.rcode));
+    }
+
+    const header = Buffer.alloc(12);
+    header.writeUInt16BE(message.id, 0);
+    header.writeUInt16BE(
+      (message.response ? 0x8000 : 0) |
+      ((message.opcode & 0xf) << 11) |
+      (flags.authoritative ? 0x0400 : 0) |
+      (flags.truncated ? 0x0200 : 0) |
+      (flags.recursionDesired ? 0x0100 : 0) |
+      (flags.recursionAvailable ? 0x0080 : 0) |
+      (flags.authenticData ? 0x0020 : 0) |
+      (flags.checkingDisabled ? 0x0010 : 0) |
+      (message.rcode & 0xf),
+      2
+    );
+    header.writeUInt16BE(message.questions.length, 4);
+    header.writeUInt16BE(message.answers.length, 6);
+    header.writeUInt16BE(message.authority.length, 8);
+    header.writeUInt16BE(additional.length, 10);
+
+    return Buffer.concat([
+      header,
+      ...message.questions.map(question => this.encodeQuestion(question)),
+      ...message.answers.map(record => this.encodeRecord(record)),
+      ...message.authority.map(record => this.encodeRecord(record)),
+      ...additional
+    ]);
+  }
+
+  /**
+   * Decode a wire-format message
+   * @param buffer - Wire-format message
+   * @returns Decoded message
+   * @throws Error if the message is malformed
+   */
+  decode(buffer: Buffer): IDNSMessage {
+    try {
+      return this.decodeMessage(buffer);
+    } catch (error) {
+      // Buffer reads past the end throw RangeError; compare by name as it may come from another realm
+      if (error && (error as Error).name === 'RangeError') {
+        throw new Error('Malformed DNS message: unexpected end of data');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the mnemonic for a response code
+   * @param rcode - Response code
+   * @returns Mnemonic such as "NXDOMAIN"
+   */
+  getRcodeName(rcode: number): string {
+    return DNSRcode[rcode] ?? `RCODE${rcode}`;
+  }
+
+  /**
+   * Get the mnemonic for a record type
+   * @param type - Record type
+   * @returns Mnemonic such as "AAAA"
+   */
+  getTypeName(type: number): string {
+    return DNSRecordType[type] ?? `TYPE${type}`;
+  }
+
+  private decodeMessage(buffer: Buffer): IDNSMessage {
+    const flags = buffer.readUInt16BE(2);
+    const counts = [4, 6, 8, 10].map(offset => buffer.readUInt16BE(offset));
+    let offset = 12;
+
+    const questions: IDNSQuestion[] = [];
+    for (let i = 0; i < counts[0]!; i++) {
+      const { name, next } = this.readName(buffer, offset);
+      questions.push({ name, type: buffer.readUInt16BE(next), class: buffer.readUInt16BE(next + 2) });
+      offset = next + 4;
+    }
+
+    const sections: IDNSRecord[][] = [[], [], []];
+    let edns: IDNSEdns | undefined;
+    let rcode = flags & 0xf;
+
+    sections.forEach((section, index) => {
+      for (let i = 0; i < counts[index + 1]!; i++) {
+        const { name, next } = this.readName(buffer, offset);
+        const type = buffer.readUInt16BE(next);
+        const recordClass = buffer.readUInt16BE(next + 2);
+        const ttl = buffer.readUInt32BE(next + 4);
+        const length = buffer.readUInt16BE(next + 8);
+        const start = next + 10;
+        if (start + length > buffer.length) {
+          throw new Error('Malformed DNS message: record data exceeds message length');
+        }
+        offset = start + length;
+
+        if (type === DNSRecordType.OPT) {
+          // OPT reuses CLASS for the payload size and TTL for extended RCODE, version and flags
+          rcode |= (ttl >>> 24) << 4;
+          edns = { udpPayloadSize: recordClass, version: (ttl >>> 16) & 0xff, dnssecOk: (ttl & 0x8000) !== 0 };
+          continue;
+        }
+
+        section.push({ name, type, class: recordClass, ttl, data: this.decodeRecordData(buffer, type, start, length) });
+      }
+    });
+
+    return {
+      id: buffer.readUInt16BE(0),
+      response: (flags & 0x8000) !== 0,
+      opcode: (flags >>> 11) & 0xf,
+      rcode,
+      flags: {
+        authoritative: (flags & 0x0400) !== 0,
+        truncated: (flags & 0x0200) !== 0,
+        recursionDesired: (flags & 0x0100) !== 0,
+        recursionAvailable: (flags & 0x0080) !== 0,
+        authenticData: (flags & 0x0020) !== 0,
+        checkingDisabled: (flags & 0x0010) !== 0
+      },
+      questions,
+      answers: sections[0]!,
+      authority: sections[1]!,
+      additional: sections[2]!,
+      ...(edns && { edns })
+    };
+  }
+
+  /**
+   * Read a possibly compressed domain name
+   * @param buffer - Whole message (compression pointers are message offsets)
+   * @param offset - Offset of the name
+   * @returns Name and the offset following it
+   */
+  private readName(buffer: Buffer, offset: number): { name: string; next: number } {
+    const labels: string[] = [];
+    let position = offset;
+    let next = -1;
+    let jumps = 0;
+
+    for (;;) {
+      const length = buffer.readUInt8(position);
+      if (length === 0) {
+        position += 1;
+        break;
+      }
+
+      if ((length & 0xc0) === 0xc0) {
+        if (next < 0) {
+          next = position + 2;
+        }
+        if (++jumps > DNSMessageCodec.MAX_POINTER_JUMPS) {
+          throw new Error('Malformed DNS message: compression loop');
+        }
+        position = buffer.readUInt16BE(position) & 0x3fff;
+        continue;
+      }
+
+      if ((length & 0xc0) !== 0) {
+        throw new Error('Malformed DNS message: unsupported label type');
+      }
+      if (position + 1 + length > buffer.length) {
+        throw new RangeError('label exceeds message length');
+      }
+
+      labels.push(buffer.toString('latin1', position + 1, position + 1 + length));
+      position += length + 1;
+    }
+
+    return { name: labels.join('.'), next: next >= 0 ? next : position };
+  }
+
+  private decodeRecordData(buffer: Buffer, type: number, start: number, length: number): string {
+    const rdata = buffer.subarray(start, start + length);
+
+    switch (type) {
+      case DNSRecordType.A:
+        this.expectLength(type, length, 4);
+        return Array.from(rdata).join('.');
+      case DNSRecordType.AAAA:
+        this.expectLength(type, length, 16);
+        return this.formatIPv6(rdata);
+      case DNSRecordType.NS:
+        return this.readName(buffer, start).name;
+      case DNSRecordType.MX:
+        return `${buffer.readUInt16BE(start)} ${this.readName(buffer, start + 2).name}`;
+      case DNSRecordType.TXT: {
+        // Character-strings are joined, matching how TXT lookups are reported elsewhere
+        const strings: string[] = [];
+        let position = 0;
+        while (position < length) {
+          const size = rdata.readUInt8(position);
+          if (position + 1 + size > length) {
+            throw new RangeError('TXT string exceeds record data');
+          }
+          strings.push(rdata.toString('utf8', position + 1, position + 1 + size));
+          position += size + 1;
+        }
+        return strings.join('');
+      }
+      case DNSRecordType.SOA: {
+        const mname = this.readName(buffer, start);
+        const rname = this.readName(buffer, mname.next);
+        const timers = [0, 4, 8, 12, 16].map(offset => buffer.readUInt32BE(rname.next + offset));
+        return [mname.name, rname.name, ...timers].join(' ');
+      }
+      case DNSRecordType.DS:
+        return [
+          rdata.readUInt16BE(0),
+          rdata.readUInt8(2),
+          rdata.readUInt8(3),
+          rdata.subarray(4).toString('hex').toUpperCase()
+        ].join(' ');
+      default:
+        // RFC 3597 generic presentation for types the client does not interpret
+        return length > 0 ? `\\# ${length} ${rdata.toString('hex')}` : '\\# 0';
+    }
+  }
+
+  private encodeQuestion(question: IDNSQuestion): Buffer {
+    const fixed = Buffer.alloc(4);
+    fixed.writeUInt16BE(question.type, 0);
+    fixed.writeUInt16BE(question.class, 2);
+    return Buffer.concat([this.encodeName(question.name), fixed]);
+  }
+
+  private encodeRecord(record: IDNSRecord): Buffer {
+    const rdata = this.encodeRecordData(record.type, record.data);
+    const fixed = Buffer.alloc(10);
+    fixed.writeUInt16BE(record.type, 0);
+    fixed.writeUInt16BE(record.class, 2);
+    fixed.writeUInt32BE(record.ttl >>> 0, 4);
+    fixed.writeUInt16BE(rdata.length, 8);
+    return Buffer.concat([this.encodeName(record.name), fixed, rdata]);
+  }
+
+  private encodeOpt(edns: IDNSEdns, rcode: number): Buffer {
+    const record = Buffer.alloc(11);
+    record.writeUInt8(0, 0); // root owner name
+    record.writeUInt16BE(DNSRecordType.OPT, 1);
+    record.writeUInt16BE(edns.udpPayloadSize, 3);
+    record.writeUInt32BE(
+      ((((rcode >>> 4) & 0xff) << 24) | ((edns.version & 0xff) << 16) | (edns.dnssecOk ? 0x8000 : 0)) >>> 0,
+      5
+    );
+    record.writeUInt16BE(0, 9);
+    return record;
+  }
+
+  private encodeName(name: string): Buffer {
+    const labels = name.replace(/\.$/, '').split('.').filter(label => label.length > 0);
+    const parts: Buffer[] = [];
+
+    for (const label of labels) {
+      const encoded = Buffer.from(label, 'latin1');
+      if (encoded.length > DNSMessageCodec.MAX_LABEL_LENGTH) {
+        throw new Error(`Invalid DNS name: label "${label}" is longer than 63 octets`);
+      }
+      parts.push(Buffer.from([encoded.length]), encoded);
+    }
+    parts.push(Buffer.from([0]));
+
+    const wire = Buffer.concat(parts);
+    if (wire.length > DNSMessageCodec.MAX_NAME_LENGTH) {
+      throw new Error(`Invalid DNS name: ${name} is longer than 255 octets`);
+    }
+    return wire;
+  }
+
+  private encodeRecordData(type: number, data: string): Buffer {
+    const fields = data.trim().split(/\s+/);
+    const invalid = () => new Error(`Invalid ${this.getTypeName(type)} record data: ${data}`);
+
+    switch (type) {
+      case DNSRecordType.A:
+        if (isIP(data) !== 4) {
+          throw invalid();
+        }
+        return Buffer.from(data.split('.').map(Number));
+      case DNSRecordType.AAAA:
+        if (isIP(data) !== 6) {
+          throw invalid();
+        }
+        return this.encodeIPv6(data);
+      case DNSRecordType.NS:
+        return this.encodeName(data);
+      case DNSRecordType.MX: {
+        const [preference, exchange] = fields;
+        if (fields.length !== 2 || !/^\d+$/.test(preference!)) {
+          throw invalid();
+        }
+        const fixed = Buffer.alloc(2);
+        fixed.writeUInt16BE(Number(preference), 0);
+        return Buffer.concat([fixed, this.encodeName(exchange!)]);
+      }
+      case DNSRecordType.TXT: {
+        const text = Buffer.from(data, 'utf8');
+        const parts: Buffer[] = [];
+        for (let position = 0; position < text.length || parts.length === 0; position += 255) {
+          const chunk = text.subarray(position, position + 255);
+          parts.push(Buffer.from([chunk.length]), chunk);
+        }
+        return Buffer.concat(parts);
+      }
+      case DNSRecordType.SOA: {
+        if (fields.length !== 7 || !fields.slice(2).every(field => /^\d+$/.test(field))) {
+          throw invalid();
+        }
+        const timers = Buffer.alloc(20);
+        fields.slice(2).forEach((field, index) => timers.writeUInt32BE(Number(field) >>> 0, index * 4));
+        return Buffer.concat([this.encodeName(fields[0]!), this.encodeName(fields[1]!), timers]);
+      }
+      case DNSRecordType.DS: {
+        const [keyTag, algorithm, digestType, digest] = fields;
+        if (fields.length !== 4 || !/^[0-9a-fA-F]+$/.test(digest!) || digest!.length % 2 !== 0) {
+          throw invalid();
+        }
+        const fixed = Buffer.alloc(4);
+        fixed.writeUInt16BE(Number(keyTag), 0);
+        fixed.writeUInt8(Number(algorithm), 2);
+        fixed.writeUInt8(Number(digestType), 3);
+        return Buffer.concat([fixed, Buffer.from(digest!, 'hex')]);
+      }
+      default: {
+        const match = data.match(/^\\#\s+(\d+)(?:\s+([0-9a-fA-F]*))?$/);
+        const rdata = Buffer.from(match?.[2] || '', 'hex');
+        if (!match || rdata.length !== Number(match[1])) {
+          throw invalid();
+        }
+        return rdata;
+      }
+    }
+  }
+
+  private encodeIPv6(address: string): Buffer {
+    let text = address;
+    // Embedded IPv4 (e.g. "::ffff:192.0.2.1") becomes the last two groups
+    const ipv4 = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    if (ipv4) {
+      const [a, b, c, d] = ipv4.slice(1).map(Number) as [number, number, number, number];
+      text = `${text.slice(0, ipv4.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+    }
+
+    const [head = '', tail] = text.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const zeros = new Array(8 - headGroups.length - tailGroups.length).fill('0');
+    const groups = tail === undefined ? headGroups : [...headGroups, ...zeros, ...tailGroups];
+
+    const bytes = Buffer.alloc(16);
+    groups.forEach((group, index) => bytes.writeUInt16BE(parseInt(group, 16), index * 2));
+    return bytes;
+  }
+
+  private formatIPv6(bytes: Buffer): string {
+    const groups = Array.from({ length: 8 }, (_, index) => bytes.readUInt16BE(index * 2));
+
+    // RFC 5952: compress the longest run of two or more zero groups
+    let bestStart = -1;
+    let bestLength = 0;
+    for (let start = 0; start < 8; start++) {
+      let length = 0;
+      while (start + length < 8 && groups[start + length] === 0) {
+        length++;
+      }
+      if (length > bestLength && length >= 2) {
+        bestStart = start;
+        bestLength = length;
+      }
+    }
+
+    const hex = groups.map(group => group.toString(16));
+    if (bestStart < 0) {
+      return hex.join(':');
+    }
+    return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+  }
+
+  private expectLength(type: number, length: number, expected: number): void {
+    if (length !== expected) {
+      throw new Error(`Malformed DNS message: ${this.getTypeName(type)} record has ${length} octets`);
+    }
+  }
+}
\ No newline at end of file
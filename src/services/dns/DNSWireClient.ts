@@ -0,0 +1,244 @@
+import dgram from 'dgram';
+import net from 'net';
+import { randomInt } from 'crypto';
+import { DNSMessageCodec } from './DNSMessageCodec';
+import { DNSRcode } from './IDNSMessage';
+import type { DNSRecordType, IDNSMessage } from './IDNSMessage';
+
+/**
+ * Options for a single DNS query
+ */
+export interface IDNSQueryOptions {
+  /** Servers to try in order: "192.0.2.1", "192.0.2.1:5353", "2001:db8::1" or "[2001:db8::1]:53" */
+  servers: string[];
+  /** Timeout per server and transport in milliseconds */
+  timeoutMs?: number;
+  /** Ask for recursion (default true); use false when querying authoritative servers */
+  recursionDesired?: boolean;
+  /** Set the EDNS DO bit so validating resolvers report the AD flag */
+  dnssecOk?: boolean;
+  /** Advertised EDNS UDP payload size */
+  udpPayloadSize?: number;
+}
+
+/**
+ * Response to a DNS query together with how it was obtained
+ */
+export interface IDNSQueryResult {
+  /** Server that produced the response, as given in the options */
+  server: string;
+  /** Transport that carried the response */
+  transport: 'udp' | 'tcp';
+  /** Response code mnemonic, e.g. "NXDOMAIN" */
+  rcode: string;
+  /** Decoded response */
+  message: IDNSMessage;
+  /** Time taken in milliseconds */
+  executionTime: number;
+}
+
+/**
+ * DNS Wire Client - minimal stub resolver speaking the DNS protocol directly over UDP and TCP
+ * Unlike dns.promises it lets callers choose servers per query, set EDNS options and
+ * inspect the response code and header flags
+ */
+export class DNSWireClient {
+  private static readonly DEFAULT_TIMEOUT_MS = 3000;
+  private static readonly DNS_PORT = 53;
+
+  private codec: DNSMessageCodec;
+
+  constructor(codec: DNSMessageCodec = new DNSMessageCodec()) {
+    this.codec = codec;
+  }
+
+  /**
+   * Query the servers in order until one answers.
+   * Truncated UDP responses are retried over TCP. SERVFAIL and REFUSED move on to the
+   * next server and are only returned when no server gives a better answer.
+   * @param name - Domain name to query
+   * @param type - Record type
+   * @param options - Servers and query options
+   * @returns Response from the first server that answered
+   * @throws Error if no server could be reached
+   */
+  async query(name: string, type: DNSRecordType | number, options: IDNSQueryOptions): Promise<IDNSQueryResult> {
+    if (options.servers.length === 0) {
+      throw new Error('No DNS servers configured');
+    }
+
+    let lastResult: IDNSQueryResult | null = null;
+    let lastError: Error | null = null;
+
+    for (const server of options.servers) {
+      try {
+        const result = await this.queryServer(name, type, server, options);
+        if (result.message.rcode !== DNSRcode.SERVFAIL && result.message.rcode !== DNSRcode.REFUSED) {
+          return result;
+        }
+        lastResult = result;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error('DNS query failed');
+      }
+    }
+
+    if (lastResult) {
+      return lastResult;
+    }
+    throw new Error(`DNS query for ${name} failed: ${lastError ? lastError.message : 'no response'}`);
+  }
+
+  /**
+   * Query a single server, falling back to TCP when the UDP response is truncated
+   */
+  private async queryServer(
+    name: string,
+    type: DNSRecordType | number,
+    server: string,
+    options: IDNSQueryOptions
+  ): Promise<IDNSQueryResult> {
+    const startTime = Date.now();
+    const { host, port } = this.parseServer(server);
+    const timeoutMs = options.timeoutMs || DNSWireClient.DEFAULT_TIMEOUT_MS;
+    const query = this.codec.createQuery(randomInt(0, 0x10000), name, type, {
+      ...(options.recursionDesired !== undefined && { recursionDesired: options.recursionDesired }),
+      ...(options.dnssecOk !== undefined && { dnssecOk: options.dnssecOk }),
+      ...(options.udpPayloadSize !== undefined && { udpPayloadSize: options.udpPayloadSize })
+    });
+    const packet = this.codec.encode(query);
+
+    let transport: 'udp' | 'tcp' = 'udp';
+    let message = await this.sendUdp(packet, query, host, port, timeoutMs);
+    if (message.flags.truncated) {
+      transport = 'tcp';
+      message = await this.sendTcp(packet, query, host, port, timeoutMs);
+    }
+
+    return {
+      server,
+      transport,
+      rcode: this.codec.getRcodeName(message.rcode),
+      message,
+      executionTime: Date.now() - startTime
+    };
+  }
+
+  private sendUdp(packet: Buffer, query: IDNSMessage, host: string, port: number, timeoutMs: number): Promise<IDNSMessage> {
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket(net.isIP(host) === 6 ? 'udp6' : 'udp4');
+      const timeoutId = setTimeout(() => finish(new Error(`DNS query to ${host} timed out after ${timeoutMs}ms`)), timeoutMs);
+      let settled = false;
+
+      const finish = (error: Error | null, message?: IDNSMessage) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timeoutId);
+        socket.close();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(message!);
+        }
+      };
+
+      socket.on('message', data => {
+        let message: IDNSMessage;
+        try {
+          message = this.codec.decode(data);
+        } catch {
+          return; // Ignore garbage and keep waiting for the real response
+        }
+        // Responses that do not match the query could be spoofed; keep waiting
+        if (this.matchesQuery(message, query)) {
+          finish(null, message);
+        }
+      });
+      socket.on('error', error => finish(error));
+      socket.send(packet, port, host, error => {
+        if (error) {
+          finish(error);
+        }
+      });
+    });
+  }
+
+  private sendTcp(packet: Buffer, query: IDNSMessage, host: string, port: number, timeoutMs: number): Promise<IDNSMessage> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host, port });
+      let received = Buffer.alloc(0);
+      let settled = false;
+
+      const finish = (error: Error | null, message?: IDNSMessage) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        socket.destroy();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(message!);
+        }
+      };
+
+      socket.setTimeout(timeoutMs, () => finish(new Error(`DNS query to ${host} over TCP timed out after ${timeoutMs}ms`)));
+      socket.on('connect', () => {
+        // TCP messages carry a two-byte length prefix (RFC 1035 section 4.2.2)
+        const length = Buffer.alloc(2);
+        length.writeUInt16BE(packet.length, 0);
+        socket.write(Buffer.concat([length, packet]));
+      });
+      socket.on('data', chunk => {
+        received = Buffer.concat([received, chunk]);
+        if (received.length < 2 || received.length < 2 + received.readUInt16BE(0)) {
+          return;
+        }
+
+        try {
+          const message = this.codec.decode(received.subarray(2, 2 + received.readUInt16BE(0)));
+          if (!this.matchesQuery(message, query)) {
+            finish(new Error(`DNS response from ${host} does not match the query`));
+            return;
+          }
+          finish(null, message);
+        } catch (error) {
+          finish(error instanceof Error ? error : new Error('Malformed DNS message'));
+        }
+      });
+      socket.on('error', error => finish(error));
+      socket.on('close', () => finish(new Error(`DNS connection to ${host} closed before a response`)));
+    });
+  }
+
+  private matchesQuery(message: IDNSMessage, query: IDNSMessage): boolean {
+    const question = query.questions[0];
+    const answered = message.questions[0];
+
+    return message.response &&
+      message.id === query.id &&
+      (!answered || !question || (
+        answered.name.toLowerCase() === question.name.toLowerCase().replace(/\.$/, '') &&
+        answered.type === question.type
+      ));
+  }
+
+  /**
+   * Split a server address into host and port
+   * @param server - "ip", "ip:port", "ipv6" or "[ipv6]:port"
+   * @returns Host and port
+   */
+  private parseServer(server: string): { host: string; port: number } {
+    if (net.isIP(server)) {
+      return { host: server, port: DNSWireClient.DNS_PORT };
+    }
+
+    const match = server.match(/^\[([^\]]+)\](?::(\d+))?$/) || server.match(/^([^:]+):(\d+)$/);
+    if (!match || !match[1] || !net.isIP(match[1])) {
+      throw new Error(`Invalid DNS server address: ${server}`);
+    }
+
+    return { host: match[1], port: match[2] ? Number(match[2]) : DNSWireClient.DNS_PORT };
+  }
+}
\ No newline at end of file
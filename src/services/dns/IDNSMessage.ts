@@ -0,0 +1,101 @@
+/**
+ * DNS resource record types understood by the wire client (RFC 1035, RFC 3596, RFC 4034, RFC 6891)
+ */
+export enum DNSRecordType {
+  A = 1,
+  NS = 2,
+  SOA = 6,
+  MX = 15,
+  TXT = 16,
+  AAAA = 28,
+  OPT = 41,
+  DS = 43
+}
+
+/**
+ * DNS response codes (RFC 1035 section 4.1.1, RFC 6891 extended codes)
+ */
+export enum DNSRcode {
+  NOERROR = 0,
+  FORMERR = 1,
+  SERVFAIL = 2,
+  NXDOMAIN = 3,
+  NOTIMP = 4,
+  REFUSED = 5,
+  BADVERS = 16
+}
+
+/**
+ * Header flags of a DNS message
+ */
+export interface IDNSFlags {
+  /** AA - the answer comes from a server authoritative for the zone */
+  authoritative: boolean;
+  /** TC - the response was truncated and should be retried over TCP */
+  truncated: boolean;
+  /** RD - recursion requested by the client */
+  recursionDesired: boolean;
+  /** RA - the server offers recursion */
+  recursionAvailable: boolean;
+  /** AD - the resolver validated the answer with DNSSEC */
+  authenticData: boolean;
+  /** CD - DNSSEC validation disabled by the client */
+  checkingDisabled: boolean;
+}
+
+/**
+ * Entry of the question section
+ */
+export interface IDNSQuestion {
+  /** Domain name without trailing dot ("" for the root) */
+  name: string;
+  type: DNSRecordType | number;
+  class: number;
+}
+
+/**
+ * Resource record from the answer, authority or additional section
+ */
+export interface IDNSRecord {
+  /** Owner name without trailing dot */
+  name: string;
+  type: DNSRecordType | number;
+  class: number;
+  ttl: number;
+  /**
+   * Record data in presentation format, e.g. "192.0.2.1" (A), "10 mail.example.com" (MX),
+   * "ns.example.com hostmaster.example.com 1 7200 3600 1209600 300" (SOA),
+   * "2371 13 2 1F98...C9" (DS); unknown types use the RFC 3597 "\# length hex" form
+   */
+  data: string;
+}
+
+/**
+ * EDNS(0) options carried in the OPT pseudo-record
+ */
+export interface IDNSEdns {
+  /** Largest UDP payload the sender can receive */
+  udpPayloadSize: number;
+  version: number;
+  /** DO - the sender wants DNSSEC records */
+  dnssecOk: boolean;
+}
+
+/**
+ * Decoded DNS message
+ */
+export interface IDNSMessage {
+  id: number;
+  /** QR - true for responses */
+  response: boolean;
+  opcode: number;
+  /** Response code, including the EDNS extended bits */
+  rcode: DNSRcode | number;
+  flags: IDNSFlags;
+  questions: IDNSQuestion[];
+  answers: IDNSRecord[];
+  authority: IDNSRecord[];
+  /** Additional records, without the OPT pseudo-record */
+  additional: IDNSRecord[];
+  edns?: IDNSEdns;
+}
\ No newline at end of file
@@ -0,0 +1,7 @@
+// DNS wire protocol
+export { DNSRecordType, DNSRcode } from './IDNSMessage';
+export type { IDNSMessage, IDNSRecord, IDNSQuestion, IDNSFlags, IDNSEdns } from './IDNSMessage';
+export { DNSMessageCodec } from './DNSMessageCodec';
+export type { IDNSQueryMessageOptions } from './DNSMessageCodec';
+export { DNSWireClient } from './DNSWireClient';
+export type { IDNSQueryOptions, IDNSQueryResult } from './DNSWireClient';
\ No newline at end of file
@@ -2,11 +2,40 @@
 export { BaseQueryService } from './BaseQueryService';
 export { DNSLookupService } from './DNSLookupService';
 export { WHOISQueryService } from './WHOISQueryService';
+export { RDAPQueryService } from './RDAPQueryService';
+export { RegistryBootstrapService } from './RegistryBootstrapService';
+export { PublicSuffixService } from './PublicSuffixService';
+export { WHOISParserRegistry, BaseWHOISParser, GenericWHOISParser } from './whois';
+export { DNSWireClient, DNSMessageCodec, DNSRecordType, DNSRcode } from './dns';
+export { RateLimiter, RateLimitError, TokenBucket } from './ratelimit';
+export { LatencyHistogram, LatencyTracker } from './latency';
+export { DomainLifecycleService } from './DomainLifecycleService';
+export { AvailabilityVerdictService } from './AvailabilityVerdictService';
+export { ParkedDomainService } from './ParkedDomainService';
 export { HybridQueryService } from './HybridQueryService';
+export { ZoneFileQueryStrategy } from './ZoneFileQueryStrategy';
+export { BloomFilter, ZoneFileIndex, ZoneFileImporter } from './zone';
 export { DomainQueryEngine } from './DomainQueryEngine';
+export { DomainResultCache } from './DomainResultCache';
 export { DomainPricingService } from './DomainPricingService';
+export { PremiumNameDetector } from './PremiumNameDetector';
 export { TLDService } from './TLDService';
+export { TLDCatalog } from './catalog';
 export { DomainResultService } from './DomainResultService';
+export type { IWHOISParser, IParsedWHOISResponse } from './whois';
+export type { IDNSMessage, IDNSRecord, IDNSQueryOptions, IDNSQueryResult } from './dns';
+export type { ITokenBucketConfig, IRateLimiterStats } from './ratelimit';
+export type { ILatencyHistogramData, LatencySource, IAdaptiveTimeoutOptions, ILatencyStats } from './latency';
+export type { IBloomFilterConfig, IZoneIndexFile, IZoneLookup, IZoneIndexPaths } from './zone';
+export type { IAvailabilityVerdict } from './AvailabilityVerdictService';
+export type { DNSLookupMode } from './DNSLookupService';
+export type { IParkingProviderFile } from './ParkedDomainService';
+export type { IPublicSuffixFile, IParsedDomain } from './PublicSuffixService';
+export type { IDomainPricing } from './DomainPricingService';
+export type { IPremiumNameFile, IPremiumTierPricing, IRegistryNameList } from './PremiumNameDetector';
+export type { ICheckOptions } from './DomainQueryEngine';
+export type { TLDType, ITLDPricing, ITLDCatalogEntry, ITLDCatalogFile, ITLDCatalogFilter } from './catalog';
+export type { IResultCacheOptions, IResultCacheTTLs, IResultCacheStats } from './DomainResultCache';
 
 // Re-export factory interfaces for convenience
 export type { IQueryService, IServiceConfig } from '../patterns/factory/IServiceFactory';
\ No newline at end of file
@@ -0,0 +1,101 @@
+/**
+ * Serialized form of a histogram
+ */
+export interface ILatencyHistogramData {
+  /** Samples per bucket, aligned with LatencyHistogram.BUCKET_BOUNDS */
+  counts: number[];
+  /** Sum of all samples in milliseconds */
+  sumMs: number;
+  /** Slowest sample in milliseconds */
+  maxMs: number;
+}
+
+/**
+ * Latency Histogram - fixed buckets of response times
+ * Percentiles are read from bucket upper bounds, so they are rounded up to the next bound;
+ * for deriving timeouts that errs on the generous side, and the buckets stay small enough
+ * to persist for every TLD and source.
+ */
+export class LatencyHistogram {
+  /** Upper bounds of the buckets in milliseconds; the last bucket catches everything slower */
+  static readonly BUCKET_BOUNDS = [
+    25, 50, 75, 100, 150, 200, 300, 400, 500, 750,
+    1000, 1500, 2000, 3000, 4000, 5000, 7500, 10000, 15000, 20000, 30000, Infinity
+  ];
+
+  private counts: number[];
+  private sumMs = 0;
+  private maxMs = 0;
+
+  constructor(data?: ILatencyHistogramData) {
+    this.counts = LatencyHistogram.BUCKET_BOUNDS.map((_, index) => data?.counts[index] || 0);
+    if (data) {
+      this.sumMs = data.sumMs;
+      this.maxMs = data.maxMs;
+    }
+  }
+
+  /**
+   * Add a response time
+   * @param latencyMs - Response time in milliseconds
+   */
+  record(latencyMs: number): void {
+    const value = Math.max(0, latencyMs);
+    const index = LatencyHistogram.BUCKET_BOUNDS.findIndex(bound => value <= bound);
+    this.counts[index]!++;
+    this.sumMs += value;
+    this.maxMs = Math.max(this.maxMs, value);
+  }
+
+  /**
+   * Get the number of samples
+   */
+  getCount(): number {
+    return this.counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  /**
+   * Get a percentile of the recorded response times
+   * @param percentile - Percentile between 0 and 100
+   * @returns Upper bound of the bucket holding the percentile (capped at the slowest sample),
+   *          or 0 without samples
+   */
+  getPercentile(percentile: number): number {
+    const count = this.getCount();
+    if (count === 0) {
+      return 0;
+    }
+
+    const rank = Math.max(1, Math.ceil(count * Math.min(100, Math.max(0, percentile)) / 100));
+    let seen = 0;
+    for (let index = 0; index < this.counts.length; index++) {
+      seen += this.counts[index]!;
+      if (seen >= rank) {
+        return Math.min(LatencyHistogram.BUCKET_BOUNDS[index]!, this.maxMs);
+      }
+    }
+    return this.maxMs;
+  }
+
+  /**
+   * Get the mean response time
+   */
+  getMean(): number {
+    const count = this.getCount();
+    return count === 0 ? 0 : this.sumMs / count;
+  }
+
+  /**
+   * Get the slowest response time
+   */
+  getMax(): number {
+    return this.maxMs;
+  }
+
+  /**
+   * Get the histogram in a form that can be written to JSON
+   */
+  toJSON(): ILatencyHistogramData {
+    return { counts: [...this.counts], sumMs: this.sumMs, maxMs: this.maxMs };
+  }
+}
\ No newline at end of file
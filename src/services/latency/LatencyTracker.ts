@@ -0,0 +1,272 @@
+import fs from 'fs';
+import type { IDomainResult } from '../../models';
+import type { IServiceConfig } from '../../patterns/factory/IServiceFactory';
+import { LatencyHistogram } from './LatencyHistogram';
+import type { ILatencyHistogramData } from './LatencyHistogram';
+
+/**
+ * Source whose latency is tracked
+ */
+export type LatencySource = IDomainResult['checkMethod'];
+
+/**
+ * How timeouts and retries are derived from observed latency
+ */
+export interface IAdaptiveTimeoutOptions {
+  /** Percentile the timeout is based on */
+  percentile: number;
+  /** Multiplier applied to the percentile, leaving headroom for slower responses */
+  factor: number;
+  /** Lower bound for derived timeouts */
+  minTimeoutMs: number;
+  /** Upper bound for derived timeouts */
+  maxTimeoutMs: number;
+  /** Samples needed before the observed latency is trusted */
+  minSamples: number;
+  /** Time all attempts of one query should fit in; slower sources get fewer retries */
+  budgetMs: number;
+  /** Upper bound for derived retry counts */
+  maxRetries: number;
+}
+
+/**
+ * Observed latency of one source for one TLD
+ */
+export interface ILatencyStats {
+  tld: string;
+  source: LatencySource;
+  samples: number;
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  maxMs: number;
+  /** Settings derived from the samples, or null while there are too few of them */
+  adaptive: Pick<IServiceConfig, 'timeoutMs' | 'maxRetries' | 'retryDelayMs'> | null;
+}
+
+/**
+ * On-disk stats file format
+ */
+interface ILatencyStatsFile {
+  version: number;
+  histograms: Array<ILatencyHistogramData & { tld: string; source: LatencySource }>;
+}
+
+/**
+ * Latency Tracker - latency histograms per TLD and source
+ * Query results feed the histograms and the hybrid check and the service factory derive timeouts
+ * and retry counts from them, so a slow registry gets the time it needs while fast ones fail fast.
+ * The histograms can be backed by a JSON file so they survive restarts.
+ */
+export class LatencyTracker {
+  static readonly DEFAULT_OPTIONS: IAdaptiveTimeoutOptions = {
+    percentile: 95,
+    factor: 1.5,
+    minTimeoutMs: 1000,
+    maxTimeoutMs: 15000,
+    minSamples: 20,
+    budgetMs: 20000,
+    maxRetries: 3
+  };
+
+  private static instance: LatencyTracker;
+  private static readonly FILE_VERSION = 1;
+  private static readonly MIN_RETRY_DELAY_MS = 250;
+  private static readonly MAX_RETRY_DELAY_MS = 2000;
+
+  private histograms: Map<string, LatencyHistogram> = new Map();
+  private options: IAdaptiveTimeoutOptions;
+  private filePath: string | null = null;
+  private flushPending = false;
+  private flushPromise: Promise<void> = Promise.resolve();
+
+  constructor(options: Partial<IAdaptiveTimeoutOptions> = {}) {
+    this.options = { ...LatencyTracker.DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Get the tracker shared by the query engine, the hybrid check and the service factory
+   */
+  static getInstance(): LatencyTracker {
+    if (!LatencyTracker.instance) {
+      LatencyTracker.instance = new LatencyTracker();
+    }
+    return LatencyTracker.instance;
+  }
+
+  /**
+   * Record a response time
+   * @param tld - TLD including the dot
+   * @param source - Source that answered
+   * @param latencyMs - Response time in milliseconds
+   */
+  record(tld: string, source: LatencySource, latencyMs: number): void {
+    const key = this.createKey(tld, source);
+    let histogram = this.histograms.get(key);
+    if (!histogram) {
+      histogram = new LatencyHistogram();
+      this.histograms.set(key, histogram);
+    }
+
+    histogram.record(latencyMs);
+    this.scheduleFlush();
+  }
+
+  /**
+   * Record the response times of a query result: the result itself and, for hybrid checks,
+   * the slowest answer of each source behind it. Only the time a server took to answer counts;
+   * rate limiter waits, retries and backoff would otherwise push the per-attempt timeouts
+   * derived from the samples up under load, and results without an answer record nothing.
+   * @param result - Result of a query (cached results should not be passed)
+   */
+  recordResult(result: IDomainResult): void {
+    if (result.responseTime !== undefined) {
+      this.record(result.tld, result.checkMethod, result.responseTime);
+    }
+
+    if (result.checkMethod === 'HYBRID' && result.evidence) {
+      const slowest = new Map<LatencySource, number>();
+      for (const evidence of result.evidence) {
+        if (evidence.responseTime !== undefined) {
+          slowest.set(evidence.source, Math.max(slowest.get(evidence.source) || 0, evidence.responseTime));
+        }
+      }
+      slowest.forEach((latencyMs, source) => this.record(result.tld, source, latencyMs));
+    }
+  }
+
+  /**
+   * Derive query settings from the observed latency of a source for a TLD
+   * @param tld - TLD including the dot
+   * @param source - Source to be queried
+   * @returns Timeout, retries and retry delay, or null while there are too few samples
+   */
+  getAdaptiveConfig(tld: string, source: LatencySource): Pick<IServiceConfig, 'timeoutMs' | 'maxRetries' | 'retryDelayMs'> | null {
+    const histogram = this.histograms.get(this.createKey(tld, source));
+    if (!histogram || histogram.getCount() < this.options.minSamples) {
+      return null;
+    }
+
+    const { percentile, factor, minTimeoutMs, maxTimeoutMs, budgetMs, maxRetries } = this.options;
+    const rawTimeout = Math.min(maxTimeoutMs, Math.max(minTimeoutMs, histogram.getPercentile(percentile) * factor));
+    // Round up to 100ms so small shifts in latency do not produce a new configuration each time
+    const timeoutMs = Math.ceil(rawTimeout / 100) * 100;
+    const attempts = Math.floor(budgetMs / timeoutMs);
+
+    return {
+      timeoutMs,
+      maxRetries: Math.min(maxRetries, Math.max(0, attempts - 1)),
+      retryDelayMs: Math.min(LatencyTracker.MAX_RETRY_DELAY_MS, Math.max(LatencyTracker.MIN_RETRY_DELAY_MS, histogram.getPercentile(50)))
+    };
+  }
+
+  /**
+   * Get the observed latency of every TLD and source seen so far
+   * @returns Stats sorted by TLD and source
+   */
+  getStats(): ILatencyStats[] {
+    return Array.from(this.histograms, ([key, histogram]) => {
+      const [tld, source] = this.parseKey(key);
+      return {
+        tld,
+        source,
+        samples: histogram.getCount(),
+        meanMs: Math.round(histogram.getMean()),
+        p50Ms: histogram.getPercentile(50),
+        p95Ms: histogram.getPercentile(95),
+        p99Ms: histogram.getPercentile(99),
+        maxMs: histogram.getMax(),
+        adaptive: this.getAdaptiveConfig(tld, source)
+      };
+    }).sort((a, b) => a.tld.localeCompare(b.tld) || a.source.localeCompare(b.source));
+  }
+
+  /**
+   * Get the options used to derive settings
+   */
+  getOptions(): IAdaptiveTimeoutOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Change how settings are derived
+   * @param options - Options to override
+   */
+  setOptions(options: Partial<IAdaptiveTimeoutOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Forget all samples
+   */
+  clear(): void {
+    this.histograms.clear();
+    this.scheduleFlush();
+  }
+
+  /**
+   * Back the tracker with a JSON file: recorded histograms are loaded now and every change
+   * is written back. A missing file is created on the first write.
+   * @param filePath - Path of the stats file
+   * @throws Error if the file exists but is not a valid stats file
+   */
+  loadFromFile(filePath: string): void {
+    if (fs.existsSync(filePath)) {
+      const file = JSON.parse(fs.readFileSync(filePath, 'utf8')) as ILatencyStatsFile;
+
+      if (!file || file.version !== LatencyTracker.FILE_VERSION || !Array.isArray(file.histograms)) {
+        throw new Error(`Invalid latency stats file: ${filePath}`);
+      }
+
+      for (const { tld, source, ...data } of file.histograms) {
+        this.histograms.set(this.createKey(tld, source), new LatencyHistogram(data));
+      }
+    }
+
+    this.filePath = filePath;
+  }
+
+  /**
+   * Wait for pending writes to the stats file
+   */
+  async flush(): Promise<void> {
+    await this.flushPromise;
+  }
+
+  private createKey(tld: string, source: LatencySource): string {
+    return `${tld.toLowerCase()}|${source}`;
+  }
+
+  private parseKey(key: string): [string, LatencySource] {
+    const separator = key.lastIndexOf('|');
+    return [key.substring(0, separator), key.substring(separator + 1) as LatencySource];
+  }
+
+  /**
+   * Write the stats file once the current batch of samples is recorded
+   */
+  private scheduleFlush(): void {
+    if (!this.filePath || this.flushPending) {
+      return;
+    }
+
+    const filePath = this.filePath;
+    this.flushPending = true;
+    this.flushPromise = this.flushPromise
+      .then(async () => {
+        this.flushPending = false;
+        const file: ILatencyStatsFile = {
+          version: LatencyTracker.FILE_VERSION,
+          histograms: Array.from(this.histograms, ([key, histogram]) => {
+            const [tld, source] = this.parseKey(key);
+            return { tld, source, ...histogram.toJSON() };
+          })
+        };
+        await fs.promises.writeFile(filePath, JSON.stringify(file));
+      })
+      .catch(error => {
+        console.warn('Failed to write latency stats file:', error);
+      });
+  }
+}
\ No newline at end of file
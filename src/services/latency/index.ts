@@ -0,0 +1,5 @@
+// Latency tracking for adaptive timeouts
+export { LatencyHistogram } from './LatencyHistogram';
+export type { ILatencyHistogramData } from './LatencyHistogram';
+export { LatencyTracker } from './LatencyTracker';
+export type { LatencySource, IAdaptiveTimeoutOptions, ILatencyStats } from './LatencyTracker';
\ No newline at end of file
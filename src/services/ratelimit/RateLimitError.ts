@@ -0,0 +1,16 @@
+/**
+ * Error raised when a server is rate limiting us, or would have to be waited on for too long
+ */
+export class RateLimitError extends Error {
+  /** Server the limit applies to */
+  readonly server: string;
+  /** Milliseconds until the server should be asked again */
+  readonly retryAfterMs: number;
+
+  constructor(server: string, retryAfterMs: number, message?: string) {
+    super(message || `Rate limit exceeded for ${server}, retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'RateLimitError';
+    this.server = server;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,289 @@
+import { TokenBucket } from './TokenBucket';
+import type { ITokenBucketConfig } from './TokenBucket';
+import { RateLimitError } from './RateLimitError';
+
+/**
+ * Rate limiting state of one server
+ */
+export interface IRateLimiterStats {
+  /** Server host as passed to the limiter */
+  server: string;
+  /** Bucket size and refill interval in use */
+  config: ITokenBucketConfig;
+  /** Tokens currently available */
+  tokens: number;
+  /** Requests waiting for a token */
+  queued: number;
+  /** End of the current backoff, or null if the server is not backing us off */
+  backoffUntil: Date | null;
+  /** Times the server reported that we exceeded its limit */
+  rateLimitedCount: number;
+}
+
+interface IWaiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  /** Latest time the caller is willing to be served */
+  deadline: number;
+}
+
+interface IServerState {
+  bucket: TokenBucket;
+  queue: IWaiter[];
+  timer: ReturnType<typeof setTimeout> | null;
+  backoffUntil: number;
+  /** Consecutive rate limit responses, doubling the backoff each time */
+  strikes: number;
+  rateLimitedCount: number;
+}
+
+/**
+ * Rate Limiter - token bucket per WHOIS/RDAP server
+ * Requests to one server queue in arrival order, so a bulk check cannot starve a request that
+ * came in earlier, while requests to different registries never wait on each other.
+ * Servers that report a rate limit are backed off exponentially (or for their Retry-After).
+ */
+export class RateLimiter {
+  /** One request per second per server, matching the delay the WHOIS service always used */
+  static readonly DEFAULT_BUCKET: ITokenBucketConfig = { capacity: 1, refillIntervalMs: 1000 };
+
+  private static instance: RateLimiter;
+  private static readonly INITIAL_BACKOFF_MS = 5000;
+  private static readonly MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+  // Wording registries use when refusing queries over their limit
+  private static readonly RATE_LIMIT_PATTERNS = [
+    /rate limit(?:ed| exceeded)/i,
+    /limit exceeded/i,
+    /too many (?:requests|queries|connections)/i,
+    /exceeded (?:the )?(?:maximum|allowed|query)/i,
+    /access control limit/i,
+    /quota (?:exceeded|reached)/i
+  ];
+
+  private defaults: ITokenBucketConfig;
+  private overrides: Map<string, ITokenBucketConfig> = new Map();
+  private servers: Map<string, IServerState> = new Map();
+
+  constructor(defaults: Partial<ITokenBucketConfig> = {}) {
+    this.defaults = TokenBucket.normalize({ ...RateLimiter.DEFAULT_BUCKET, ...defaults });
+  }
+
+  /**
+   * Get the limiter shared by all WHOIS and RDAP queries
+   */
+  static getInstance(): RateLimiter {
+    if (!RateLimiter.instance) {
+      RateLimiter.instance = new RateLimiter();
+    }
+    return RateLimiter.instance;
+  }
+
+  /**
+   * Wait for a turn to query a server
+   * @param server - Server host
+   * @param maxWaitMs - Longest the caller is willing to wait
+   * @throws RateLimitError if the server could not be queried within maxWaitMs
+   */
+  acquire(server: string, maxWaitMs: number = Infinity): Promise<void> {
+    const state = this.getState(server);
+    const now = Date.now();
+    const waitTime = this.estimateWait(state, now);
+
+    if (waitTime > maxWaitMs) {
+      return Promise.reject(new RateLimitError(server, waitTime));
+    }
+
+    if (state.queue.length === 0 && now >= state.backoffUntil && state.bucket.tryTake(now)) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      state.queue.push({ resolve, reject, deadline: now + maxWaitMs });
+      this.schedule(server, state);
+    });
+  }
+
+  /**
+   * Record that a server refused a query for exceeding its limit.
+   * Queued requests that cannot wait out the backoff are rejected.
+   * @param server - Server host
+   * @param retryAfterMs - Backoff requested by the server (e.g. Retry-After), if any
+   * @returns Backoff applied in milliseconds
+   */
+  reportRateLimited(server: string, retryAfterMs?: number): number {
+    const state = this.getState(server);
+    const now = Date.now();
+
+    state.strikes++;
+    state.rateLimitedCount++;
+    const backoff = retryAfterMs !== undefined && retryAfterMs > 0
+      ? retryAfterMs
+      : Math.min(RateLimiter.INITIAL_BACKOFF_MS * Math.pow(2, state.strikes - 1), RateLimiter.MAX_BACKOFF_MS);
+
+    state.backoffUntil = Math.max(state.backoffUntil, now + backoff);
+    state.bucket.drain(now);
+
+    state.queue = state.queue.filter(waiter => {
+      if (waiter.deadline < state.backoffUntil) {
+        waiter.reject(new RateLimitError(server, state.backoffUntil - now));
+        return false;
+      }
+      return true;
+    });
+    this.reschedule(server, state);
+
+    return backoff;
+  }
+
+  /**
+   * Record a successful query, ending the backoff escalation for the server
+   * @param server - Server host
+   */
+  reportSuccess(server: string): void {
+    const state = this.servers.get(this.normalizeServer(server));
+    if (state) {
+      state.strikes = 0;
+    }
+  }
+
+  /**
+   * Check whether a response is a registry refusing the query over a rate limit
+   * @param response - Raw response text
+   * @returns True if the response reports a rate limit
+   */
+  isRateLimitResponse(response: string): boolean {
+    return RateLimiter.RATE_LIMIT_PATTERNS.some(pattern => pattern.test(response));
+  }
+
+  /**
+   * Set the bucket used for servers without their own configuration
+   * @param config - Bucket settings to override
+   */
+  setDefaultConfig(config: Partial<ITokenBucketConfig>): void {
+    this.defaults = TokenBucket.normalize({ ...this.defaults, ...config });
+    this.servers.forEach((state, server) => {
+      if (!this.overrides.has(server)) {
+        state.bucket.setConfig(this.defaults);
+      }
+    });
+  }
+
+  /**
+   * Get the bucket used for servers without their own configuration
+   */
+  getDefaultConfig(): ITokenBucketConfig {
+    return { ...this.defaults };
+  }
+
+  /**
+   * Give a server its own bucket size and refill interval
+   * @param server - Server host
+   * @param config - Bucket settings, on top of the defaults
+   */
+  configure(server: string, config: Partial<ITokenBucketConfig>): void {
+    const key = this.normalizeServer(server);
+    const resolved = TokenBucket.normalize({ ...this.defaults, ...config });
+    this.overrides.set(key, resolved);
+    this.servers.get(key)?.bucket.setConfig(resolved);
+  }
+
+  /**
+   * Get the bucket settings used for a server
+   * @param server - Server host
+   */
+  getConfig(server: string): ITokenBucketConfig {
+    return { ...(this.overrides.get(this.normalizeServer(server)) || this.defaults) };
+  }
+
+  /**
+   * Get the rate limiting state of the servers queried so far
+   * @returns Stats per server
+   */
+  getStats(): IRateLimiterStats[] {
+    const now = Date.now();
+    return Array.from(this.servers, ([server, state]) => ({
+      server,
+      config: state.bucket.getConfig(),
+      tokens: Math.floor(state.bucket.getTokens(now)),
+      queued: state.queue.length,
+      backoffUntil: state.backoffUntil > now ? new Date(state.backoffUntil) : null,
+      rateLimitedCount: state.rateLimitedCount
+    }));
+  }
+
+  /**
+   * Forget all server state, rejecting queued requests
+   */
+  reset(): void {
+    this.servers.forEach((state, server) => {
+      if (state.timer) {
+        clearTimeout(state.timer);
+      }
+      state.queue.forEach(waiter => waiter.reject(new Error(`Rate limiter reset while waiting for ${server}`)));
+    });
+    this.servers.clear();
+  }
+
+  private getState(server: string): IServerState {
+    const key = this.normalizeServer(server);
+    let state = this.servers.get(key);
+    if (!state) {
+      state = {
+        bucket: new TokenBucket(this.overrides.get(key) || this.defaults),
+        queue: [],
+        timer: null,
+        backoffUntil: 0,
+        strikes: 0,
+        rateLimitedCount: 0
+      };
+      this.servers.set(key, state);
+    }
+    return state;
+  }
+
+  /**
+   * Estimate how long a new request would wait behind the backoff and the queue
+   */
+  private estimateWait(state: IServerState, now: number): number {
+    const { refillIntervalMs } = state.bucket.getConfig();
+    const missingTokens = Math.max(0, state.queue.length + 1 - state.bucket.getTokens(now));
+    return Math.max(state.backoffUntil - now, Math.ceil(missingTokens * refillIntervalMs), 0);
+  }
+
+  /**
+   * Serve queued requests in order while tokens last, then wait for the next token
+   */
+  private drainQueue(server: string, state: IServerState): void {
+    state.timer = null;
+    const now = Date.now();
+
+    while (state.queue.length > 0 && now >= state.backoffUntil && state.bucket.tryTake(now)) {
+      state.queue.shift()!.resolve();
+    }
+
+    this.schedule(server, state);
+  }
+
+  private schedule(server: string, state: IServerState): void {
+    if (state.timer || state.queue.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const delay = Math.max(state.backoffUntil - now, state.bucket.getWaitTime(now), 0);
+    state.timer = setTimeout(() => this.drainQueue(server, state), delay);
+  }
+
+  private reschedule(server: string, state: IServerState): void {
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+    this.schedule(server, state);
+  }
+
+  private normalizeServer(server: string): string {
+    return server.trim().toLowerCase();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,108 @@
+/**
+ * Size and refill rate of a token bucket
+ */
+export interface ITokenBucketConfig {
+  /** Requests that may be sent back to back before the bucket runs dry */
+  capacity: number;
+  /** Milliseconds to refill one token (0 disables limiting) */
+  refillIntervalMs: number;
+}
+
+/**
+ * Token Bucket - allows bursts up to its capacity, then one request per refill interval
+ * Time is passed in by the caller so the bucket itself holds no timers
+ */
+export class TokenBucket {
+  private config: ITokenBucketConfig;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(config: ITokenBucketConfig, now: number = Date.now()) {
+    this.config = TokenBucket.normalize(config);
+    this.tokens = this.config.capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Clamp a configuration to usable values
+   * @param config - Configuration to check
+   * @returns Configuration with a capacity of at least one and no negative interval
+   */
+  static normalize(config: ITokenBucketConfig): ITokenBucketConfig {
+    return {
+      capacity: Math.max(1, Math.floor(config.capacity)),
+      refillIntervalMs: Math.max(0, config.refillIntervalMs)
+    };
+  }
+
+  /**
+   * Take a token if one is available
+   * @param now - Current time in milliseconds
+   * @returns True if a token was taken
+   */
+  tryTake(now: number = Date.now()): boolean {
+    this.refill(now);
+    if (this.tokens < 1) {
+      return false;
+    }
+
+    this.tokens--;
+    return true;
+  }
+
+  /**
+   * Get how long until the next token is available
+   * @param now - Current time in milliseconds
+   * @returns Wait in milliseconds (0 if a token is available)
+   */
+  getWaitTime(now: number = Date.now()): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * this.config.refillIntervalMs);
+  }
+
+  /**
+   * Empty the bucket, e.g. after the server reported that it is being overloaded
+   * @param now - Current time in milliseconds
+   */
+  drain(now: number = Date.now()): void {
+    this.refill(now);
+    this.tokens = 0;
+  }
+
+  /**
+   * Get the tokens currently available
+   * @param now - Current time in milliseconds
+   */
+  getTokens(now: number = Date.now()): number {
+    this.refill(now);
+    return this.tokens;
+  }
+
+  /**
+   * Get the bucket configuration
+   */
+  getConfig(): ITokenBucketConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Resize the bucket, keeping the tokens it holds up to the new capacity
+   * @param config - New configuration
+   * @param now - Current time in milliseconds
+   */
+  setConfig(config: ITokenBucketConfig, now: number = Date.now()): void {
+    this.refill(now);
+    this.config = TokenBucket.normalize(config);
+    this.tokens = Math.min(this.tokens, this.config.capacity);
+  }
+
+  private refill(now: number): void {
+    if (this.config.refillIntervalMs === 0) {
+      this.tokens = this.config.capacity;
+    } else if (now > this.updatedAt) {
+      const refilled = (now - this.updatedAt) / this.config.refillIntervalMs;
+      this.tokens = Math.min(this.config.capacity, this.tokens + refilled);
+    }
+    this.updatedAt = Math.max(this.updatedAt, now);
+  }
+}
\ No newline at end of file
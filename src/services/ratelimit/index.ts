@@ -0,0 +1,6 @@
+// Per-server rate limiting
+export { TokenBucket } from './TokenBucket';
+export type { ITokenBucketConfig } from './TokenBucket';
+export { RateLimiter } from './RateLimiter';
+export type { IRateLimiterStats } from './RateLimiter';
+export { RateLimitError } from './RateLimitError';
\ No newline at end of file
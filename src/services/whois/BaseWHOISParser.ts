@@ -0,0 +1,198 @@
+import { AvailabilityStatus } from '../../models/AvailabilityStatus';
+import type { IParsedWHOISResponse, IWHOISFieldLabels, IWHOISParser } from './IWHOISParser';
+
+/**
+ * Field labels mandated by the ICANN Registry Agreement RDDS output format
+ */
+export const ICANN_FIELD_LABELS: IWHOISFieldLabels = {
+  domainName: ['Domain Name'],
+  registrar: ['Registrar', 'Sponsoring Registrar'],
+  created: ['Creation Date'],
+  expires: ['Registry Expiry Date', 'Registrar Registration Expiration Date'],
+  updated: ['Updated Date'],
+  nameServers: ['Name Server'],
+  statuses: ['Domain Status']
+};
+
+/**
+ * Base class for WHOIS parsers working on "Label: value" responses
+ * Subclasses describe a registry's not-found markers and field labels
+ */
+export abstract class BaseWHOISParser implements IWHOISParser {
+  /** Patterns that identify a "no such domain" response */
+  protected abstract readonly availablePatterns: RegExp[];
+
+  /** Patterns for names the registry has reserved from registration */
+  protected readonly reservedPatterns: RegExp[] = [];
+
+  /** Patterns for names the registry offers at a premium price */
+  protected readonly premiumPatterns: RegExp[] = [];
+
+  /** Patterns for names blocked by a registry protection service */
+  protected readonly blockedPatterns: RegExp[] = [];
+
+  /** Labels used by the registry for each structured field */
+  protected readonly labels: IWHOISFieldLabels = ICANN_FIELD_LABELS;
+
+  abstract getName(): string;
+
+  abstract getTLDs(): string[];
+
+  /**
+   * Get the WHOIS server hostnames this parser understands
+   * @returns Lowercase hostnames
+   */
+  getServers(): string[] {
+    return [];
+  }
+
+  /**
+   * Parse a raw WHOIS response
+   * @param rawData - Raw WHOIS response text
+   * @returns Structured response data
+   */
+  parse(rawData: string): IParsedWHOISResponse {
+    const fields = this.extractFields(rawData);
+    const status = this.determineStatus(rawData, fields);
+
+    const registrar = this.firstValue(fields, this.labels.registrar);
+    const createdDate = this.firstDate(fields, this.labels.created);
+    const expirationDate = this.firstDate(fields, this.labels.expires);
+    const updatedDate = this.firstDate(fields, this.labels.updated);
+    const nameServers = this.unique(
+      this.allValues(fields, this.labels.nameServers).map(value => this.normalizeNameServer(value))
+    );
+    const eppStatuses = this.unique(
+      this.allValues(fields, this.labels.statuses).map(value => this.normalizeStatus(value))
+    );
+
+    return {
+      status,
+      ...(registrar && { registrar }),
+      ...(createdDate && { createdDate }),
+      ...(expirationDate && { expirationDate }),
+      ...(updatedDate && { updatedDate }),
+      ...(nameServers.length > 0 && { nameServers }),
+      ...(eppStatuses.length > 0 && { eppStatuses })
+    };
+  }
+
+  /**
+   * Determine availability from the response
+   * Registry parsers only answer TAKEN when registration data is present, so an
+   * unrecognized response (rate limit notice, maintenance page) becomes an ERROR
+   * @param rawData - Raw WHOIS response text
+   * @param fields - Parsed label/value pairs
+   * @returns Availability status
+   */
+  protected determineStatus(rawData: string, fields: Map<string, string[]>): AvailabilityStatus {
+    // Registry rules come first: these responses often also say "not found"
+    const registryRule = this.matchRegistryRule(rawData);
+    if (registryRule) {
+      return registryRule;
+    }
+
+    if (this.availablePatterns.some(pattern => pattern.test(rawData))) {
+      return AvailabilityStatus.AVAILABLE;
+    }
+
+    const hasRegistration = [this.labels.domainName, this.labels.registrar, this.labels.created]
+      .some(labels => this.firstValue(fields, labels) !== undefined);
+
+    return hasRegistration ? AvailabilityStatus.TAKEN : AvailabilityStatus.ERROR;
+  }
+
+  /**
+   * Match the response against the registry's blocked, reserved and premium rules
+   * @param rawData - Raw WHOIS response text
+   * @returns Matching status, or null if no rule applies
+   */
+  protected matchRegistryRule(rawData: string): AvailabilityStatus | null {
+    const rules: Array<[RegExp[], AvailabilityStatus]> = [
+      [this.blockedPatterns, AvailabilityStatus.BLOCKED],
+      [this.reservedPatterns, AvailabilityStatus.RESERVED],
+      [this.premiumPatterns, AvailabilityStatus.PREMIUM]
+    ];
+
+    for (const [patterns, status] of rules) {
+      if (patterns.some(pattern => pattern.test(rawData))) {
+        return status;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Split a response into label/value pairs keyed by lowercase label
+   * @param rawData - Raw WHOIS response text
+   * @returns Values per label in response order
+   */
+  protected extractFields(rawData: string): Map<string, string[]> {
+    const fields = new Map<string, string[]>();
+
+    for (const line of rawData.split(/\r?\n/)) {
+      const match = line.match(/^\s*([^:]+?)\s*:\s*(.*?)\s*$/);
+      if (!match || !match[1] || !match[2]) {
+        continue;
+      }
+
+      const label = match[1].toLowerCase();
+      fields.set(label, [...(fields.get(label) || []), match[2]]);
+    }
+
+    return fields;
+  }
+
+  /**
+   * Get the first value for the first label present
+   */
+  protected firstValue(fields: Map<string, string[]>, labels: string[]): string | undefined {
+    return this.allValues(fields, labels)[0];
+  }
+
+  /**
+   * Get all values for the first label present
+   */
+  protected allValues(fields: Map<string, string[]>, labels: string[]): string[] {
+    for (const label of labels) {
+      const values = fields.get(label.toLowerCase());
+      if (values && values.length > 0) {
+        return values;
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Get the first parseable date for the labels, in label preference order
+   */
+  protected firstDate(fields: Map<string, string[]>, labels: string[]): Date | undefined {
+    for (const label of labels) {
+      for (const value of fields.get(label.toLowerCase()) || []) {
+        const parsedDate = new Date(value);
+        if (!isNaN(parsedDate.getTime())) {
+          return parsedDate;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Normalize a name server entry ("NS1.EXAMPLE.COM. 192.0.2.1" -> "ns1.example.com")
+   */
+  protected normalizeNameServer(value: string): string {
+    return (value.split(/\s+/)[0] || '').toLowerCase().replace(/\.$/, '');
+  }
+
+  /**
+   * Normalize a status entry to its EPP code ("clientHold https://icann.org/epp#clientHold" -> "clientHold")
+   */
+  protected normalizeStatus(value: string): string {
+    return value.split(/\s+/)[0] || '';
+  }
+
+  private unique(values: string[]): string[] {
+    return Array.from(new Set(values.filter(value => value.length > 0)));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { BaseWHOISParser } from './BaseWHOISParser';
+import type { IWHOISFieldLabels } from './IWHOISParser';
+
+/**
+ * Fallback parser for registries without a dedicated parser
+ * Recognizes the "no match" lines common to ICANN-format gTLD and registrar responses, and
+ * reports TAKEN only when registration data is present; anything else is an ERROR
+ */
+export class GenericWHOISParser extends BaseWHOISParser {
+  // Whole "no such domain" lines only: terms of use and notices also mention availability
+  protected readonly availablePatterns: RegExp[] = [
+    /^\s*No match(?:es)?\b/im,
+    /^\s*(?:The )?(?:domain |object )?(?:name )?not found\.?\s*$/im,
+    /^\s*No entries found\b/im,
+    /^\s*No Data Found\s*$/im,
+    /^\s*No matching record\b/im,
+    /^\s*(?:Domain )?Status:\s*(?:available|free|no object found)\s*$/im
+  ];
+
+  protected override readonly reservedPatterns: RegExp[] = [
+    /reserved by (?:the )?registry/i,
+    /^\s*(?:this )?(?:domain )?name is reserved/im,
+    /^\s*reserved domain name/im
+  ];
+
+  protected override readonly premiumPatterns: RegExp[] = [
+    /^\s*this is a premium domain/im,
+    /^\s*premium domain name/im
+  ];
+
+  protected override readonly blockedPatterns: RegExp[] = [
+    /\bDPML\b/,
+    /blocked by (?:the )?registry/i
+  ];
+
+  protected override readonly labels: IWHOISFieldLabels = {
+    domainName: ['Domain Name', 'Domain'],
+    registrar: ['Registrar', 'Sponsoring Registrar', 'Registrar Name'],
+    created: ['Creation Date', 'Created', 'Registered', 'Created On', 'Registration Time'],
+    expires: [
+      'Registry Expiry Date',
+      'Registrar Registration Expiration Date',
+      'Expiry Date',
+      'Expiration Date',
+      'Expires',
+      'Expires On',
+      'paid-till'
+    ],
+    updated: ['Updated Date', 'Last Updated', 'Last Modified', 'Changed'],
+    nameServers: ['Name Server', 'Nameserver', 'nserver'],
+    statuses: ['Domain Status', 'Status']
+  };
+
+  getName(): string {
+    return 'GenericWHOISParser';
+  }
+
+  getTLDs(): string[] {
+    return [];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import type { AvailabilityStatus } from '../../models/AvailabilityStatus';
+
+/**
+ * Structured data parsed from a raw WHOIS response
+ */
+export interface IParsedWHOISResponse {
+  /** Availability derived from the response */
+  status: AvailabilityStatus;
+  /** Sponsoring registrar name */
+  registrar?: string;
+  /** Registration (creation) date */
+  createdDate?: Date;
+  /** Registry expiration date */
+  expirationDate?: Date;
+  /** Last update date */
+  updatedDate?: Date;
+  /** Delegated name servers, lowercase without trailing dot */
+  nameServers?: string[];
+  /** EPP status codes (e.g., "clientTransferProhibited") */
+  eppStatuses?: string[];
+}
+
+/**
+ * Field labels used by a registry for each structured field, in preference order
+ */
+export interface IWHOISFieldLabels {
+  domainName: string[];
+  registrar: string[];
+  created: string[];
+  expires: string[];
+  updated: string[];
+  nameServers: string[];
+  statuses: string[];
+}
+
+/**
+ * Interface for registry-specific WHOIS response parsers
+ */
+export interface IWHOISParser {
+  /**
+   * Get the name/identifier of this parser
+   * @returns Parser name
+   */
+  getName(): string;
+
+  /**
+   * Get the TLDs (without dot) whose registry responses this parser understands
+   * @returns Lowercase TLDs
+   */
+  getTLDs(): string[];
+
+  /**
+   * Get the WHOIS server hostnames this parser understands
+   * @returns Lowercase hostnames
+   */
+  getServers(): string[];
+
+  /**
+   * Parse a raw WHOIS response
+   * @param rawData - Raw WHOIS response text
+   * @returns Structured response data
+   */
+  parse(rawData: string): IParsedWHOISResponse;
+}
\ No newline at end of file
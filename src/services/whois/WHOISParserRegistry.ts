@@ -0,0 +1,90 @@
+import { GenericWHOISParser } from './GenericWHOISParser';
+import type { IParsedWHOISResponse, IWHOISParser } from './IWHOISParser';
+import {
+  CentralNicWHOISParser,
+  GoDaddyRegistryWHOISParser,
+  IdentityDigitalWHOISParser,
+  PublicInterestRegistryWHOISParser,
+  VerisignWHOISParser
+} from './parsers';
+
+/**
+ * WHOIS Parser Registry - selects the parser for a response by WHOIS server, then TLD
+ * Registries without a dedicated parser fall back to the generic parser
+ */
+export class WHOISParserRegistry {
+  private parsersByServer: Map<string, IWHOISParser> = new Map();
+  private parsersByTLD: Map<string, IWHOISParser> = new Map();
+  private fallbackParser: IWHOISParser;
+
+  constructor(
+    parsers: IWHOISParser[] = WHOISParserRegistry.createDefaultParsers(),
+    fallbackParser: IWHOISParser = new GenericWHOISParser()
+  ) {
+    this.fallbackParser = fallbackParser;
+    parsers.forEach(parser => this.register(parser));
+  }
+
+  /**
+   * Create the built-in registry parsers
+   * @returns Parser instances
+   */
+  static createDefaultParsers(): IWHOISParser[] {
+    return [
+      new VerisignWHOISParser(),
+      new IdentityDigitalWHOISParser(),
+      new GoDaddyRegistryWHOISParser(),
+      new PublicInterestRegistryWHOISParser(),
+      new CentralNicWHOISParser()
+    ];
+  }
+
+  /**
+   * Register a parser for its TLDs and servers, replacing earlier registrations
+   * @param parser - Parser to register
+   */
+  register(parser: IWHOISParser): void {
+    parser.getServers().forEach(server => this.parsersByServer.set(this.normalizeServer(server), parser));
+    parser.getTLDs().forEach(tld => this.parsersByTLD.set(this.normalizeTLD(tld), parser));
+  }
+
+  /**
+   * Select the parser for a response
+   * @param server - WHOIS server that produced the response
+   * @param tld - TLD of the queried domain; omit for registrar referral responses,
+   *   which use the registrar's format rather than the registry's
+   * @returns Matching parser, or the fallback parser
+   */
+  getParser(server: string, tld?: string): IWHOISParser {
+    return this.parsersByServer.get(this.normalizeServer(server))
+      || (tld ? this.parsersByTLD.get(this.normalizeTLD(tld)) : undefined)
+      || this.fallbackParser;
+  }
+
+  /**
+   * Parse a response with the matching parser
+   * @param rawData - Raw WHOIS response text
+   * @param server - WHOIS server that produced the response
+   * @param tld - TLD of the queried domain (registry responses only)
+   * @returns Structured response data
+   */
+  parse(rawData: string, server: string, tld?: string): IParsedWHOISResponse {
+    return this.getParser(server, tld).parse(rawData);
+  }
+
+  /**
+   * Get all registered parsers, excluding the fallback
+   * @returns Parser instances
+   */
+  getParsers(): IWHOISParser[] {
+    return Array.from(new Set([...this.parsersByServer.values(), ...this.parsersByTLD.values()]));
+  }
+
+  private normalizeServer(server: string): string {
+    return server.toLowerCase().replace(/:\d+$/, '');
+  }
+
+  private normalizeTLD(tld: string): string {
+    return tld.toLowerCase().replace(/^\./, '');
+  }
+}
\ No newline at end of file
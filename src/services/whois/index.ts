@@ -0,0 +1,6 @@
+// WHOIS response parsing
+export type { IWHOISParser, IParsedWHOISResponse, IWHOISFieldLabels } from './IWHOISParser';
+export { BaseWHOISParser, ICANN_FIELD_LABELS } from './BaseWHOISParser';
+export { GenericWHOISParser } from './GenericWHOISParser';
+export { WHOISParserRegistry } from './WHOISParserRegistry';
+export * from './parsers';
\ No newline at end of file
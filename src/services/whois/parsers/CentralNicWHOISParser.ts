@@ -0,0 +1,27 @@
+import { BaseWHOISParser } from '../BaseWHOISParser';
+
+/**
+ * Parser for TLDs running on the CentralNic registry platform (.online, .site, .store, .tech)
+ */
+export class CentralNicWHOISParser extends BaseWHOISParser {
+  protected readonly availablePatterns: RegExp[] = [
+    /^\s*DOMAIN NOT FOUND\s*$/m
+  ];
+
+  // Premium names are reported under the "not found" line
+  protected override readonly premiumPatterns: RegExp[] = [
+    /^\s*This is a premium domain name\b/im
+  ];
+
+  getName(): string {
+    return 'CentralNicWHOISParser';
+  }
+
+  getTLDs(): string[] {
+    return ['online', 'site', 'store', 'tech'];
+  }
+
+  override getServers(): string[] {
+    return ['whois.nic.online', 'whois.nic.site', 'whois.nic.store', 'whois.nic.tech'];
+  }
+}
\ No newline at end of file
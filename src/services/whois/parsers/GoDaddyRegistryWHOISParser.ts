@@ -0,0 +1,23 @@
+import { BaseWHOISParser } from '../BaseWHOISParser';
+
+/**
+ * Parser for ccTLDs operated by GoDaddy Registry (.co)
+ */
+export class GoDaddyRegistryWHOISParser extends BaseWHOISParser {
+  protected readonly availablePatterns: RegExp[] = [
+    /^\s*No Data Found\s*$/im,
+    /^\s*The queried object does not exist/im
+  ];
+
+  getName(): string {
+    return 'GoDaddyRegistryWHOISParser';
+  }
+
+  getTLDs(): string[] {
+    return ['co'];
+  }
+
+  override getServers(): string[] {
+    return ['whois.registry.co'];
+  }
+}
\ No newline at end of file
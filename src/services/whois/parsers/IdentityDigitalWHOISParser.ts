@@ -0,0 +1,33 @@
+import { BaseWHOISParser } from '../BaseWHOISParser';
+
+/**
+ * Parser for TLDs operated by Identity Digital (.io, .me, .news)
+ * Their terms of use mention "available", which the generic heuristics misread
+ */
+export class IdentityDigitalWHOISParser extends BaseWHOISParser {
+  protected readonly availablePatterns: RegExp[] = [
+    /^\s*Domain not found\.?\s*$/im,
+    /^\s*NOT FOUND\s*$/m
+  ];
+
+  protected override readonly reservedPatterns: RegExp[] = [
+    /^\s*Reserved by Registry\s*$/im
+  ];
+
+  // Brand holders can block names across Identity Digital TLDs through its DPML service
+  protected override readonly blockedPatterns: RegExp[] = [
+    /^\s*The registration of this domain is restricted, as it is protected by the .*DPML/im
+  ];
+
+  getName(): string {
+    return 'IdentityDigitalWHOISParser';
+  }
+
+  getTLDs(): string[] {
+    return ['io', 'me', 'news'];
+  }
+
+  override getServers(): string[] {
+    return ['whois.nic.io', 'whois.nic.me', 'whois.nic.news'];
+  }
+}
\ No newline at end of file
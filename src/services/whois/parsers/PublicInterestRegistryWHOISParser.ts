@@ -0,0 +1,23 @@
+import { BaseWHOISParser } from '../BaseWHOISParser';
+
+/**
+ * Parser for TLDs operated by Public Interest Registry (.org)
+ */
+export class PublicInterestRegistryWHOISParser extends BaseWHOISParser {
+  protected readonly availablePatterns: RegExp[] = [
+    /^\s*Domain not found\.?\s*$/im,
+    /^\s*NOT FOUND\s*$/m
+  ];
+
+  getName(): string {
+    return 'PublicInterestRegistryWHOISParser';
+  }
+
+  getTLDs(): string[] {
+    return ['org'];
+  }
+
+  override getServers(): string[] {
+    return ['whois.publicinterestregistry.org'];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { BaseWHOISParser } from '../BaseWHOISParser';
+
+/**
+ * Parser for TLDs operated by Verisign (.com, .net, .tv, .cc)
+ * The gTLD and ccTLD servers answer unknown names the same way
+ */
+export class VerisignWHOISParser extends BaseWHOISParser {
+  protected readonly availablePatterns: RegExp[] = [
+    /^\s*No match for "[^"]+"\./im
+  ];
+
+  getName(): string {
+    return 'VerisignWHOISParser';
+  }
+
+  getTLDs(): string[] {
+    return ['com', 'net', 'tv', 'cc'];
+  }
+
+  override getServers(): string[] {
+    return ['whois.verisign-grs.com', 'whois.nic.tv', 'ccwhois.verisign-grs.com'];
+  }
+}
\ No newline at end of file
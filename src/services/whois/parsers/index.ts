@@ -0,0 +1,6 @@
+// Registry-specific WHOIS parsers
+export { VerisignWHOISParser } from './VerisignWHOISParser';
+export { IdentityDigitalWHOISParser } from './IdentityDigitalWHOISParser';
+export { GoDaddyRegistryWHOISParser } from './GoDaddyRegistryWHOISParser';
+export { PublicInterestRegistryWHOISParser } from './PublicInterestRegistryWHOISParser';
+export { CentralNicWHOISParser } from './CentralNicWHOISParser';
\ No newline at end of file
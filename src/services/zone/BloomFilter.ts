@@ -0,0 +1,103 @@
+/**
+ * Size of a Bloom filter
+ */
+export interface IBloomFilterConfig {
+  /** Number of bits in the filter */
+  bits: number;
+  /** Number of bit positions set per item */
+  hashes: number;
+}
+
+/**
+ * Bloom Filter - answers "definitely not present" or "possibly present" from a compact bitset
+ * Bit positions come from two FNV-1a hashes combined by double hashing, so the filter can be
+ * written to disk and read back by any process that uses the same configuration.
+ */
+export class BloomFilter {
+  private config: IBloomFilterConfig;
+  private bitset: Uint8Array;
+
+  constructor(config: IBloomFilterConfig, bitset?: Uint8Array) {
+    this.config = {
+      bits: Math.max(8, Math.ceil(config.bits)),
+      hashes: Math.max(1, Math.round(config.hashes))
+    };
+    this.bitset = bitset || new Uint8Array(Math.ceil(this.config.bits / 8));
+    if (this.bitset.length * 8 < this.config.bits) {
+      throw new Error(`Bloom filter bitset holds ${this.bitset.length * 8} bits, expected ${this.config.bits}`);
+    }
+  }
+
+  /**
+   * Size a filter for an expected number of items
+   * @param items - Number of items to be added
+   * @param falsePositiveRate - Acceptable chance of "possibly present" for an absent item
+   * @returns Configuration with the optimal number of bits and hashes
+   */
+  static forCapacity(items: number, falsePositiveRate = 0.01): IBloomFilterConfig {
+    const count = Math.max(1, items);
+    const bits = Math.ceil(-(count * Math.log(falsePositiveRate)) / (Math.LN2 * Math.LN2));
+    return { bits, hashes: Math.max(1, Math.round((bits / count) * Math.LN2)) };
+  }
+
+  /**
+   * Add an item
+   * @param item - Item to add
+   */
+  add(item: string): void {
+    for (const position of this.positions(item)) {
+      this.bitset[position >>> 3]! |= 1 << (position & 7);
+    }
+  }
+
+  /**
+   * Check whether an item may have been added
+   * @param item - Item to check
+   * @returns False if the item was definitely not added
+   */
+  mightContain(item: string): boolean {
+    for (const position of this.positions(item)) {
+      if ((this.bitset[position >>> 3]! & (1 << (position & 7))) === 0) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Get the filter configuration
+   */
+  getConfig(): IBloomFilterConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Get the bitset for writing to disk
+   */
+  toBuffer(): Buffer {
+    return Buffer.from(this.bitset.buffer, this.bitset.byteOffset, this.bitset.byteLength);
+  }
+
+  private positions(item: string): number[] {
+    const first = this.hash(item, 0x811c9dc5);
+    // A non-zero step keeps the positions from collapsing into one
+    const second = this.hash(item, 0x01000193) | 1;
+    const positions: number[] = [];
+    for (let i = 0; i < this.config.hashes; i++) {
+      positions.push(((first + Math.imul(i, second)) >>> 0) % this.config.bits);
+    }
+    return positions;
+  }
+
+  /**
+   * 32-bit FNV-1a over the UTF-16 code units of a string
+   */
+  private hash(item: string, seed: number): number {
+    let hash = seed >>> 0;
+    for (let i = 0; i < item.length; i++) {
+      hash ^= item.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
\ No newline at end of file
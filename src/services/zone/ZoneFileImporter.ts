@@ -0,0 +1,301 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import zlib from 'zlib';
+import { BloomFilter } from './BloomFilter';
+import { ZoneFileIndex } from './ZoneFileIndex';
+import type { IZoneIndexFile } from './ZoneFileIndex';
+
+/**
+ * Sorted labels read back one at a time during the merge
+ */
+interface ILabelRun {
+  next(): Promise<string | null>;
+}
+
+/**
+ * Zone File Importer - turns a TLD zone file into a ZoneFileIndex entry
+ * Reads master-file format as distributed through ICANN's CZDS (plain or gzipped) and keeps
+ * the names with NS records directly under the zone, i.e. the delegated registrations. Labels
+ * are sorted in chunks written to temporary files and merged into the index (an external
+ * sort), so memory stays bounded by the chunk size even for zones the size of .com.
+ */
+export class ZoneFileImporter {
+  /** Labels sorted in memory at a time; about 100MB for typical label lengths */
+  static readonly CHUNK_LABELS = 1000000;
+  private static readonly CLASSES = new Set(['in', 'ch', 'hs', 'cs']);
+  private static readonly WRITE_BATCH = 10000;
+
+  private falsePositiveRate: number;
+  private chunkLabels: number;
+
+  constructor(falsePositiveRate = 0.01, chunkLabels = ZoneFileImporter.CHUNK_LABELS) {
+    this.falsePositiveRate = falsePositiveRate;
+    this.chunkLabels = chunkLabels;
+  }
+
+  /**
+   * Import a zone file into an index directory, replacing an earlier import of the zone
+   * @param zoneFile - Zone file, optionally gzipped (".gz")
+   * @param directory - Index directory (created if missing)
+   * @param tld - Zone the file holds; defaults to the owner of its SOA record
+   * @returns Description of the imported zone
+   * @throws Error if the file cannot be read or holds no delegations
+   */
+  async importFile(zoneFile: string, directory: string, tld?: string): Promise<IZoneIndexFile> {
+    fs.mkdirSync(directory, { recursive: true });
+    const chunkDirectory = fs.mkdtempSync(path.join(directory, '.import-'));
+
+    try {
+      let zone = tld ? tld.toLowerCase().replace(/^\./, '').replace(/\.$/, '') : null;
+      let origin = zone;
+      let owner = '';
+      let serial: number | null = null;
+      let chunk: string[] = [];
+      const chunkFiles: string[] = [];
+      // Upper bound of the distinct labels (a name can appear in more than one chunk)
+      let chunkedLabels = 0;
+
+      try {
+        const input = fs.createReadStream(zoneFile);
+        const lines = readline.createInterface({
+          input: zoneFile.endsWith('.gz') ? input.pipe(zlib.createGunzip()) : input,
+          crlfDelay: Infinity
+        });
+
+        for await (const rawLine of lines) {
+          const line = rawLine.replace(/;.*$/, '');
+          const fields = line.trim().split(/\s+/);
+          if (!fields[0]) {
+            continue;
+          }
+
+          if (fields[0].toUpperCase() === '$ORIGIN' && fields[1]) {
+            origin = this.absolute(fields[1], origin);
+            continue;
+          }
+          if (fields[0].startsWith('$')) {
+            continue;
+          }
+
+          // Records without an owner (indented lines) belong to the previous owner
+          if (!/^\s/.test(line)) {
+            owner = this.absolute(fields.shift()!, origin);
+          }
+          const type = this.findType(fields);
+
+          if (type.name === 'soa' && zone === null) {
+            zone = owner;
+          }
+          if (type.name === 'soa' && owner === zone) {
+            const rdataSerial = Number(fields[type.index + 3]);
+            serial = Number.isFinite(rdataSerial) ? rdataSerial : null;
+          }
+          if (type.name === 'ns' && zone !== null && owner.endsWith(`.${zone}`)) {
+            const label = owner.slice(0, -(zone.length + 1));
+            // Deeper names are delegations below a registration (or glue), not registrations;
+            // a name's NS records are usually listed together, so repeats are skipped here
+            if (label && !label.includes('.') && label !== chunk[chunk.length - 1]) {
+              chunk.push(label);
+            }
+            if (chunk.length >= this.chunkLabels) {
+              chunk = this.sortLabels(chunk);
+              chunkedLabels += chunk.length;
+              chunkFiles.push(this.writeChunk(chunkDirectory, chunkFiles.length, chunk));
+              chunk = [];
+            }
+          }
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to read zone file ${zoneFile}: ${reason}`);
+      }
+
+      // The last chunk is merged straight from memory
+      chunk = this.sortLabels(chunk);
+      chunkedLabels += chunk.length;
+      if (zone === null || chunkedLabels === 0) {
+        throw new Error(`Invalid zone file: ${zoneFile}`);
+      }
+
+      const runs = [...chunkFiles.map(file => this.readRun(file)), this.arrayRun(chunk)];
+      return await this.writeIndex(directory, {
+        version: ZoneFileIndex.VERSION,
+        tld: `.${zone}`,
+        serial,
+        importedAt: new Date().toISOString(),
+        source: path.basename(zoneFile),
+        count: 0,
+        bloom: BloomFilter.forCapacity(chunkedLabels, this.falsePositiveRate)
+      }, runs);
+    } finally {
+      fs.rmSync(chunkDirectory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Merge the sorted runs into the label file, building the filter and counting the distinct
+   * labels on the way; the label file, filter and description are written under temporary
+   * names and moved into place, so a running server never reads a half-written zone
+   */
+  private async writeIndex(directory: string, info: IZoneIndexFile, runs: ILabelRun[]): Promise<IZoneIndexFile> {
+    const paths = ZoneFileIndex.getPaths(directory, info.tld);
+    const bloom = new BloomFilter(info.bloom);
+    let count = 0;
+
+    const fd = fs.openSync(`${paths.labels}.tmp`, 'w');
+    try {
+      let batch: string[] = [];
+      let previous: string | null = null;
+      for await (const label of this.merge(runs)) {
+        if (label === previous) {
+          continue;
+        }
+        previous = label;
+        bloom.add(label);
+        batch.push(label);
+        count++;
+        if (batch.length >= ZoneFileImporter.WRITE_BATCH) {
+          fs.writeSync(fd, `${batch.join('\n')}\n`);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        fs.writeSync(fd, `${batch.join('\n')}\n`);
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    const written = { ...info, count };
+    fs.writeFileSync(`${paths.bloom}.tmp`, bloom.toBuffer());
+    fs.writeFileSync(`${paths.info}.tmp`, JSON.stringify(written, null, 2));
+    fs.renameSync(`${paths.labels}.tmp`, paths.labels);
+    fs.renameSync(`${paths.bloom}.tmp`, paths.bloom);
+    fs.renameSync(`${paths.info}.tmp`, paths.info);
+    return written;
+  }
+
+  /**
+   * Merge sorted runs into one sorted sequence, keeping the head of each run in a min-heap
+   */
+  private async *merge(runs: ILabelRun[]): AsyncGenerator<string> {
+    const heap: Array<{ label: string; run: ILabelRun }> = [];
+    const push = (entry: { label: string; run: ILabelRun }) => {
+      let i = heap.push(entry) - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (heap[parent]!.label <= entry.label) {
+          break;
+        }
+        heap[i] = heap[parent]!;
+        i = parent;
+      }
+      heap[i] = entry;
+    };
+    const pop = () => {
+      const top = heap[0]!;
+      const last = heap.pop()!;
+      if (heap.length > 0) {
+        let i = 0;
+        for (;;) {
+          const left = i * 2 + 1;
+          if (left >= heap.length) {
+            break;
+          }
+          const child = left + 1 < heap.length && heap[left + 1]!.label < heap[left]!.label ? left + 1 : left;
+          if (last.label <= heap[child]!.label) {
+            break;
+          }
+          heap[i] = heap[child]!;
+          i = child;
+        }
+        heap[i] = last;
+      }
+      return top;
+    };
+
+    for (const run of runs) {
+      const label = await run.next();
+      if (label !== null) {
+        push({ label, run });
+      }
+    }
+
+    while (heap.length > 0) {
+      const { label, run } = pop();
+      yield label;
+      const next = await run.next();
+      if (next !== null) {
+        push({ label: next, run });
+      }
+    }
+  }
+
+  /**
+   * Sort labels the way the index binary searches them, dropping duplicates
+   */
+  private sortLabels(labels: string[]): string[] {
+    labels.sort();
+    return labels.filter((label, i) => i === 0 || label !== labels[i - 1]);
+  }
+
+  /**
+   * Write a sorted chunk to a temporary file
+   * @returns Path of the chunk file
+   */
+  private writeChunk(chunkDirectory: string, index: number, labels: string[]): string {
+    const chunkFile = path.join(chunkDirectory, `chunk-${index}`);
+    const fd = fs.openSync(chunkFile, 'w');
+    try {
+      for (let i = 0; i < labels.length; i += ZoneFileImporter.WRITE_BATCH) {
+        fs.writeSync(fd, `${labels.slice(i, i + ZoneFileImporter.WRITE_BATCH).join('\n')}\n`);
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+    return chunkFile;
+  }
+
+  private readRun(chunkFile: string): ILabelRun {
+    const lines = readline.createInterface({ input: fs.createReadStream(chunkFile), crlfDelay: Infinity })[Symbol.asyncIterator]();
+    return {
+      next: async () => {
+        const line = await lines.next();
+        return line.done ? null : line.value;
+      }
+    };
+  }
+
+  private arrayRun(labels: string[]): ILabelRun {
+    let index = 0;
+    return {
+      next: async () => (index < labels.length ? labels[index++]! : null)
+    };
+  }
+
+  /**
+   * Find the record type among the fields after the owner ([TTL] [class] type or [class] [TTL] type)
+   */
+  private findType(fields: string[]): { name: string; index: number } {
+    let index = 0;
+    while (index < fields.length - 1 && (/^\d+$/.test(fields[index]!) || ZoneFileImporter.CLASSES.has(fields[index]!.toLowerCase()))) {
+      index++;
+    }
+    return { name: (fields[index] || '').toLowerCase(), index };
+  }
+
+  /**
+   * Resolve a name against the origin, without the trailing dot and lowercased
+   */
+  private absolute(name: string, origin: string | null): string {
+    const lower = name.toLowerCase();
+    if (lower === '@') {
+      return origin || '';
+    }
+    if (lower.endsWith('.')) {
+      return lower.slice(0, -1);
+    }
+    return origin ? `${lower}.${origin}` : lower;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,231 @@
+import fs from 'fs';
+import path from 'path';
+import { BloomFilter } from './BloomFilter';
+import type { IBloomFilterConfig } from './BloomFilter';
+import { PublicSuffixService } from '../PublicSuffixService';
+
+/**
+ * Description of an imported zone, written next to its label and filter files
+ */
+export interface IZoneIndexFile {
+  version: number;
+  /** Zone including the dot (e.g., ".com") */
+  tld: string;
+  /** SOA serial of the imported zone file, if it had one */
+  serial: number | null;
+  /** When the zone file was imported (ISO 8601) */
+  importedAt: string;
+  /** Name of the imported zone file */
+  source: string;
+  /** Number of delegated names */
+  count: number;
+  bloom: IBloomFilterConfig;
+}
+
+/**
+ * Answer for a domain from the zone file index
+ */
+export interface IZoneLookup {
+  /** Zone that was searched */
+  tld: string;
+  /** Whether the name is delegated in the zone */
+  inZone: boolean;
+  /** SOA serial of the imported zone file */
+  serial: number | null;
+  /** When the zone file was imported */
+  importedAt: string;
+}
+
+/**
+ * Paths of the files that make up one zone's index
+ */
+export interface IZoneIndexPaths {
+  /** IZoneIndexFile as JSON */
+  info: string;
+  /** Delegated labels, sorted, one per line */
+  labels: string;
+  /** Bloom filter bitset over the labels */
+  bloom: string;
+}
+
+interface ILoadedZone {
+  info: IZoneIndexFile;
+  bloom: BloomFilter;
+  labelsPath: string;
+  labelsSize: number;
+}
+
+/**
+ * Zone File Index - answers whether names are delegated in imported TLD zone files
+ * Each zone is kept as a sorted file of labels on disk plus a Bloom filter in memory: most
+ * unregistered candidates are ruled out by the filter alone, and the rest are confirmed with
+ * a binary search over the label file, so even large zones answer without loading the names.
+ */
+export class ZoneFileIndex {
+  private static instance: ZoneFileIndex;
+  static readonly VERSION = 1;
+  private static readonly INFO_SUFFIX = '.zone-index.json';
+  // Labels are at most 63 bytes, so one read always spans a line break and the line after it
+  private static readonly READ_WINDOW = 256;
+
+  private zones: Map<string, ILoadedZone> = new Map();
+  private suffixes: PublicSuffixService;
+
+  constructor(suffixes: PublicSuffixService = PublicSuffixService.getInstance()) {
+    this.suffixes = suffixes;
+  }
+
+  /**
+   * Get the index shared by the query strategies
+   */
+  static getInstance(): ZoneFileIndex {
+    if (!ZoneFileIndex.instance) {
+      ZoneFileIndex.instance = new ZoneFileIndex();
+    }
+    return ZoneFileIndex.instance;
+  }
+
+  /**
+   * Get the files of a zone's index
+   * @param directory - Index directory
+   * @param tld - Zone with or without the leading dot
+   */
+  static getPaths(directory: string, tld: string): IZoneIndexPaths {
+    const zone = tld.toLowerCase().replace(/^\./, '');
+    return {
+      info: path.join(directory, `${zone}${ZoneFileIndex.INFO_SUFFIX}`),
+      labels: path.join(directory, `${zone}.labels`),
+      bloom: path.join(directory, `${zone}.bloom`)
+    };
+  }
+
+  /**
+   * Load every zone imported into a directory, replacing zones loaded before
+   * @param directory - Index directory written by ZoneFileImporter
+   * @returns Zones loaded
+   * @throws Error if the directory or one of the zones cannot be read
+   */
+  loadDirectory(directory: string): string[] {
+    let files: string[];
+    try {
+      files = fs.readdirSync(directory);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load zone file index ${directory}: ${reason}`);
+    }
+
+    const zones = new Map<string, ILoadedZone>();
+    for (const file of files.filter(name => name.endsWith(ZoneFileIndex.INFO_SUFFIX)).sort()) {
+      const zone = this.loadZone(directory, file.slice(0, -ZoneFileIndex.INFO_SUFFIX.length));
+      zones.set(zone.info.tld, zone);
+    }
+
+    this.zones = zones;
+    return Array.from(zones.keys());
+  }
+
+  /**
+   * Check whether a zone has been imported
+   * @param tld - Zone including the dot
+   */
+  hasTLD(tld: string): boolean {
+    return this.zones.has(tld.toLowerCase());
+  }
+
+  /**
+   * Describe the imported zones
+   */
+  getZones(): IZoneIndexFile[] {
+    return Array.from(this.zones.values()).map(zone => ({ ...zone.info, bloom: { ...zone.info.bloom } }));
+  }
+
+  /**
+   * Look a domain up in the zone of its TLD
+   * @param domain - Full domain name in ASCII form
+   * @returns Lookup, or null if the domain's zone has not been imported
+   */
+  lookup(domain: string): IZoneLookup | null {
+    const { baseDomain, tld } = this.suffixes.parse(domain);
+    const zone = this.zones.get(tld);
+    if (!zone || !baseDomain) {
+      return null;
+    }
+
+    // Subdomains are delegated under the registered name
+    const label = baseDomain.substring(baseDomain.lastIndexOf('.') + 1);
+    return {
+      tld,
+      inZone: zone.bloom.mightContain(label) && this.searchLabels(zone, label),
+      serial: zone.info.serial,
+      importedAt: zone.info.importedAt
+    };
+  }
+
+  private loadZone(directory: string, zoneName: string): ILoadedZone {
+    const paths = ZoneFileIndex.getPaths(directory, zoneName);
+    let info: IZoneIndexFile;
+    let bitset: Buffer;
+    let labelsSize: number;
+    try {
+      info = JSON.parse(fs.readFileSync(paths.info, 'utf8')) as IZoneIndexFile;
+      bitset = fs.readFileSync(paths.bloom);
+      labelsSize = fs.statSync(paths.labels).size;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load zone file index ${paths.info}: ${reason}`);
+    }
+
+    if (!info || info.version !== ZoneFileIndex.VERSION || !info.tld || !info.bloom) {
+      throw new Error(`Invalid zone file index: ${paths.info}`);
+    }
+
+    return {
+      info,
+      bloom: new BloomFilter(info.bloom, new Uint8Array(bitset.buffer, bitset.byteOffset, bitset.byteLength)),
+      labelsPath: paths.labels,
+      labelsSize
+    };
+  }
+
+  /**
+   * Binary search the sorted label file without reading it whole
+   * The search range [low, high) always starts at a line; each step reads the first line
+   * starting at or after the midpoint and keeps the half that can hold the label.
+   */
+  private searchLabels(zone: ILoadedZone, label: string): boolean {
+    const fd = fs.openSync(zone.labelsPath, 'r');
+    const buffer = Buffer.alloc(ZoneFileIndex.READ_WINDOW);
+    try {
+      let low = 0;
+      let high = zone.labelsSize;
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        const readFrom = mid === low ? low : mid - 1;
+        const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, readFrom);
+        const window = buffer.toString('latin1', 0, bytesRead);
+
+        // Start of the first line at or after mid
+        const lineOffset = mid === low ? 0 : window.indexOf('\n') + 1;
+        const start = readFrom + lineOffset;
+        if ((lineOffset === 0 && mid !== low) || start >= high) {
+          high = mid;
+          continue;
+        }
+
+        const end = window.indexOf('\n', lineOffset);
+        const line = window.substring(lineOffset, end === -1 ? window.length : end);
+        if (line === label) {
+          return true;
+        }
+        if (line < label) {
+          low = start + line.length + 1;
+        } else {
+          high = start;
+        }
+      }
+      return false;
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+}
\ No newline at end of file
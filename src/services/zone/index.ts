@@ -0,0 +1,6 @@
+// Zone file index for offline availability checks
+export { BloomFilter } from './BloomFilter';
+export type { IBloomFilterConfig } from './BloomFilter';
+export { ZoneFileIndex } from './ZoneFileIndex';
+export type { IZoneIndexFile, IZoneLookup, IZoneIndexPaths } from './ZoneFileIndex';
+export { ZoneFileImporter } from './ZoneFileImporter';
\ No newline at end of file
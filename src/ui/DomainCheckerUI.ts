@@ -222,7 +222,12 @@ export class DomainCheckerUI {
   private processQueryResponse(response: IQueryResponse): void {
     // Update successful results
     response.results.forEach(result => {
-      this.updateDomainResult(result.domain, result.status, this.getStatusText(result.status));
+      const statusText = result.verdict || this.getStatusText(result.status);
+      this.updateDomainResult(
+        result.domain,
+        result.status,
+        result.parked ? `${statusText} (parked with ${result.parked.provider})` : statusText
+      );
       
       // Update current results
       const existingIndex = this.currentResults.findIndex(r => r.domain === result.domain);
@@ -444,6 +449,18 @@ export class DomainCheckerUI {
         return 'available';
       case AvailabilityStatus.TAKEN:
         return 'taken';
+      case AvailabilityStatus.EXPIRED:
+        return 'expired';
+      case AvailabilityStatus.REDEMPTION:
+        return 'redemption';
+      case AvailabilityStatus.PENDING_DELETE:
+        return 'pending-delete';
+      case AvailabilityStatus.RESERVED:
+        return 'reserved';
+      case AvailabilityStatus.PREMIUM:
+        return 'premium';
+      case AvailabilityStatus.BLOCKED:
+        return 'blocked';
       case AvailabilityStatus.ERROR:
         return 'error';
       default:
@@ -460,6 +477,18 @@ export class DomainCheckerUI {
         return 'Available';
       case AvailabilityStatus.TAKEN:
         return 'Taken';
+      case AvailabilityStatus.EXPIRED:
+        return 'Expired (Grace Period)';
+      case AvailabilityStatus.REDEMPTION:
+        return 'Redemption Period';
+      case AvailabilityStatus.PENDING_DELETE:
+        return 'Pending Delete';
+      case AvailabilityStatus.RESERVED:
+        return 'Reserved';
+      case AvailabilityStatus.PREMIUM:
+        return 'Premium';
+      case AvailabilityStatus.BLOCKED:
+        return 'Blocked';
       case AvailabilityStatus.ERROR:
         return 'Error';
       default:
@@ -0,0 +1,183 @@
+import { domainToASCII, domainToUnicode } from 'url';
+import bundledIDNScripts from '../data/idn-scripts.json';
+import type { IValidationError } from '../controllers/IDomainController';
+
+/**
+ * IDN script table file format
+ */
+export interface IIDNScriptFile {
+  description?: string;
+  publication?: string;
+  /** Unicode scripts (e.g. "Latin", "Cyrillic") accepted per TLD; unlisted TLDs are ASCII only */
+  tlds: Record<string, string[]>;
+}
+
+/**
+ * IDN Normalizer - converts internationalized labels between Unicode and ASCII form
+ * Input is mapped with UTS-46 (case folding, width and compatibility mapping, IDNA2008 rules)
+ * to the punycode A-label used for lookups, and checked against each registry's script table.
+ */
+export class IDNNormalizer {
+  private static readonly ACE_PREFIX = 'xn--';
+
+  // Scripts recognized in labels; characters of other scripts are reported as "Unknown"
+  private static readonly SCRIPTS = [
+    'Latin', 'Greek', 'Cyrillic', 'Armenian', 'Hebrew', 'Arabic', 'Devanagari', 'Bengali',
+    'Gurmukhi', 'Gujarati', 'Tamil', 'Telugu', 'Kannada', 'Malayalam', 'Sinhala', 'Thai',
+    'Lao', 'Tibetan', 'Myanmar', 'Georgian', 'Ethiopic', 'Khmer', 'Mongolian', 'Hangul',
+    'Hiragana', 'Katakana', 'Han'
+  ];
+
+  // Scripts that are written together in one language and may share a label
+  private static readonly SCRIPT_COMBINATIONS = [
+    ['Han', 'Hiragana', 'Katakana', 'Latin'],
+    ['Hangul', 'Han', 'Latin'],
+    ['Han', 'Latin']
+  ];
+
+  private static readonly SCRIPT_PATTERNS = IDNNormalizer.SCRIPTS.map(
+    script => [script, new RegExp(`^\\p{Script=${script}}$`, 'u')] as const
+  );
+
+  private scriptTables: Map<string, string[]>;
+
+  constructor(data: IIDNScriptFile = bundledIDNScripts) {
+    this.scriptTables = new Map(
+      Object.entries(data.tlds).map(([tld, scripts]) => [tld.toLowerCase(), scripts])
+    );
+  }
+
+  /**
+   * Convert a label to its ASCII form, mapping Unicode input with UTS-46
+   * @param label - Label in Unicode or ASCII form
+   * @returns A-label (or the lowercased ASCII label), or null if the label cannot be converted
+   */
+  toASCII(label: string): string | null {
+    const ascii = domainToASCII(label.normalize('NFC'));
+    return ascii && !ascii.includes('.') ? ascii : null;
+  }
+
+  /**
+   * Convert a label to its Unicode form for display
+   * @param label - Label in ASCII or Unicode form
+   * @returns U-label, or null if the label is not a valid internationalized name
+   */
+  toUnicode(label: string): string | null {
+    const ascii = this.toASCII(label);
+    const unicode = ascii ? domainToUnicode(ascii) : '';
+    return unicode || null;
+  }
+
+  /**
+   * Check whether a label is meant as an internationalized name (Unicode, or "xn--" prefixed);
+   * use isALabel to tell whether a prefixed label is valid
+   * @param label - Label to check
+   */
+  isIDN(label: string): boolean {
+    return /[^\x00-\x7f]/.test(label) || label.toLowerCase().startsWith(IDNNormalizer.ACE_PREFIX);
+  }
+
+  /**
+   * Check whether a label is a valid punycode A-label ("xn--" followed by encoded Unicode)
+   * @param label - Label to check
+   */
+  isALabel(label: string): boolean {
+    const lower = label.toLowerCase();
+    if (!lower.startsWith(IDNNormalizer.ACE_PREFIX)) {
+      return false;
+    }
+
+    const unicode = domainToUnicode(lower);
+    return unicode !== '' && unicode !== lower && this.toASCII(unicode) === lower;
+  }
+
+  /**
+   * Get the Unicode script of a character
+   * @param char - Single character
+   * @returns Script name, "Common" for digits, hyphens and combining marks, or "Unknown"
+   */
+  getScript(char: string): string {
+    if (/^[\p{M}\p{Nd}-]$/u.test(char)) {
+      return 'Common';
+    }
+
+    const match = IDNNormalizer.SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(char));
+    return match ? match[0] : 'Unknown';
+  }
+
+  /**
+   * Get the scripts used by the letters of a label
+   * @param label - Label in Unicode form
+   * @returns Distinct script names in order of appearance
+   */
+  getScripts(label: string): string[] {
+    const scripts = new Set<string>();
+    for (const char of label) {
+      const script = this.getScript(char);
+      if (script !== 'Common') {
+        scripts.add(script);
+      }
+    }
+    return Array.from(scripts);
+  }
+
+  /**
+   * Check whether a label mixes scripts that are not written together,
+   * e.g. a Cyrillic "а" among Latin letters imitating another name
+   * @param label - Label in Unicode form
+   */
+  hasMixedScripts(label: string): boolean {
+    const scripts = this.getScripts(label);
+    return scripts.length > 1 && !IDNNormalizer.SCRIPT_COMBINATIONS.some(
+      combination => scripts.every(script => combination.includes(script))
+    );
+  }
+
+  /**
+   * Get the scripts a TLD accepts in internationalized names
+   * @param tld - TLD including the dot
+   * @returns Script names (empty if the TLD only accepts ASCII names)
+   */
+  getAllowedScripts(tld: string): string[] {
+    return [...(this.scriptTables.get(tld.toLowerCase()) || [])];
+  }
+
+  /**
+   * Check a label against the script table of a TLD
+   * @param label - Label in Unicode or A-label form
+   * @param tld - TLD including the dot
+   * @returns Errors naming each character the TLD does not accept (empty for ASCII names)
+   */
+  validateForTLD(label: string, tld: string): IValidationError[] {
+    if (!this.isIDN(label)) {
+      return [];
+    }
+
+    const unicode = this.toUnicode(label);
+    if (!unicode) {
+      return [{ code: 'INVALID_IDN', message: `"${label}" is not a valid internationalized domain name`, field: tld }];
+    }
+
+    const allowedScripts = this.getAllowedScripts(tld);
+    if (allowedScripts.length === 0) {
+      return [{ code: 'IDN_NOT_SUPPORTED', message: `${tld} does not accept internationalized domain names`, field: tld }];
+    }
+
+    const errors: IValidationError[] = [];
+    const reported = new Set<string>();
+    for (const char of unicode) {
+      const script = this.getScript(char);
+      if (script === 'Common' || char.charCodeAt(0) < 0x80 || allowedScripts.includes(script) || reported.has(char)) {
+        continue;
+      }
+
+      reported.add(char);
+      errors.push({
+        code: 'IDN_SCRIPT_NOT_ALLOWED',
+        message: `"${char}" (${script}) is not allowed in ${tld} names; allowed scripts: ${allowedScripts.join(', ')}`,
+        field: tld
+      });
+    }
+    return errors;
+  }
+}
\ No newline at end of file
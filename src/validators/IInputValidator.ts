@@ -1,4 +1,12 @@
-import type { IValidationResult } from '../controllers/IDomainController';
+import type { IValidationResult, IValidationError } from '../controllers/IDomainController';
+
+/**
+ * Options for domain name validation
+ */
+export interface IDomainValidationOptions {
+  /** Leave all-numeric names to the registration rules of each TLD instead of rejecting them */
+  allowAllNumeric?: boolean;
+}
 
 /**
  * Interface for input validation services
@@ -8,9 +16,10 @@ export interface IInputValidator {
   /**
    * Validate a domain name input
    * @param domain - Domain name to validate
+   * @param options - Validation options
    * @returns Validation result with error details if invalid
    */
-  validateDomainName(domain: string): IValidationResult;
+  validateDomainName(domain: string, options?: IDomainValidationOptions): IValidationResult;
 
   /**
    * Sanitize and normalize domain input
@@ -39,4 +48,12 @@ export interface IInputValidator {
    * @returns True if format is valid
    */
   hasValidFormat(domain: string): boolean;
+
+  /**
+   * Check a domain name against the IDN script table of a TLD
+   * @param domain - Domain name in Unicode or ASCII form
+   * @param tld - TLD including the dot
+   * @returns Errors naming the characters the TLD does not accept
+   */
+  validateForTLD(domain: string, tld: string): IValidationError[];
 }
\ No newline at end of file
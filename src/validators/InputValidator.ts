@@ -1,29 +1,43 @@
-import type { IInputValidator } from './IInputValidator';
+import type { IInputValidator, IDomainValidationOptions } from './IInputValidator';
 import type { IValidationResult, IValidationError } from '../controllers/IDomainController';
+import { IDNNormalizer } from './IDNNormalizer';
 
 /**
  * Input validator for domain names
  * Implements comprehensive domain validation according to RFC standards
  * 
  * Validation Rules:
- * - Length: 1-63 characters
- * - Characters: alphanumeric and hyphens only
+ * - Length: 1-63 characters (of the ASCII form for internationalized names)
+ * - Characters: letters of any script, digits and hyphens; Unicode input is normalized to its
+ *   punycode A-label (UTS-46), which is what gets looked up
  * - Format: no leading or trailing hyphens
- * - No consecutive hyphens at positions 3-4 (reserved for internationalized domains)
+ * - No consecutive hyphens at positions 3-4 (reserved for internationalized domains) unless the
+ *   label is a valid "xn--" A-label
+ * - Internationalized names may not mix scripts that are not written together
+ * - Not all numeric, unless the caller checks specific TLDs (some registries accept such names)
+ * Rules that differ between registries (length limits, reserved names, all-numeric names) are
+ * checked per TLD by RegistrationRulesEngine.
  */
 export class InputValidator implements IInputValidator {
   private static readonly MIN_LENGTH = 1;
   private static readonly MAX_LENGTH = 63;
-  private static readonly VALID_CHAR_REGEX = /^[a-zA-Z0-9-]+$/;
+  private static readonly VALID_CHAR_REGEX = /^[\p{L}\p{M}\p{Nd}-]+$/u;
   private static readonly HYPHEN_REGEX = /^-|-$/;
   private static readonly CONSECUTIVE_HYPHEN_REGEX = /^.{2}--/;
 
+  private idn: IDNNormalizer;
+
+  constructor(idn: IDNNormalizer = new IDNNormalizer()) {
+    this.idn = idn;
+  }
+
   /**
    * Validate a domain name input
    * @param domain - Domain name to validate
+   * @param options - Validation options
    * @returns Validation result with detailed error information
    */
-  public validateDomainName(domain: string): IValidationResult {
+  public validateDomainName(domain: string, options: IDomainValidationOptions = {}): IValidationResult {
     const errors: IValidationError[] = [];
     
     // Check if input is empty or invalid type
@@ -78,12 +92,24 @@ export class InputValidator implements IInputValidator {
 
     // Validate characters - check original trimmed input, not sanitized
     const trimmedInput = domain.trim().toLowerCase();
+    const isIDN = this.idn.isIDN(trimmedInput);
+    const unicodeInput = isIDN ? this.idn.toUnicode(trimmedInput) : null;
     if (!this.hasValidCharacters(trimmedInput)) {
       const error: IValidationError = {
         code: 'INVALID_CHARACTERS',
         message: 'Domain name can only contain letters, numbers, and hyphens'
       };
       errors.push(error);
+    } else if (isIDN && !unicodeInput) {
+      errors.push({
+        code: 'INVALID_IDN',
+        message: 'Domain name is not a valid internationalized domain name'
+      });
+    } else if (unicodeInput && this.idn.hasMixedScripts(unicodeInput)) {
+      errors.push({
+        code: 'MIXED_SCRIPTS',
+        message: `Domain name cannot mix ${this.idn.getScripts(unicodeInput).join(' and ')} characters`
+      });
     }
 
     // Validate format - use sanitized input for format checks
@@ -95,8 +121,8 @@ export class InputValidator implements IInputValidator {
       errors.push(error);
     }
 
-    // Check for consecutive hyphens at positions 3-4 (reserved for IDN)
-    if (InputValidator.CONSECUTIVE_HYPHEN_REGEX.test(sanitizedInput)) {
+    // Check for consecutive hyphens at positions 3-4 (reserved for IDN A-labels)
+    if (InputValidator.CONSECUTIVE_HYPHEN_REGEX.test(sanitizedInput) && !this.idn.isALabel(sanitizedInput)) {
       const error: IValidationError = {
         code: 'RESERVED_FORMAT',
         message: 'Domain name cannot have consecutive hyphens at positions 3-4 (reserved for internationalized domains)'
@@ -104,8 +130,8 @@ export class InputValidator implements IInputValidator {
       errors.push(error);
     }
 
-    // Check for all numeric domain (not allowed)
-    if (/^\d+$/.test(sanitizedInput)) {
+    // Check for all numeric domain (not allowed unless the registration rules of each TLD decide)
+    if (!options.allowAllNumeric && /^\d+$/.test(sanitizedInput)) {
       const error: IValidationError = {
         code: 'ALL_NUMERIC',
         message: 'Domain name cannot be all numeric'
@@ -121,10 +147,21 @@ export class InputValidator implements IInputValidator {
       sanitizedDomain: isValid ? sanitizedInput : '',
       sanitizedInput: sanitizedInput,
       errors,
-      ...(primaryError && { errorMessage: primaryError.message })
+      ...(primaryError && { errorMessage: primaryError.message }),
+      ...(isValid && unicodeInput && { unicodeDomain: unicodeInput })
     };
   }
 
+  /**
+   * Check a valid domain name against the IDN script table of a TLD
+   * @param domain - Domain name (label) in Unicode or ASCII form
+   * @param tld - TLD including the dot
+   * @returns Errors explaining which characters the TLD does not accept (empty for ASCII names)
+   */
+  public validateForTLD(domain: string, tld: string): IValidationError[] {
+    return this.idn.validateForTLD(this.sanitizeInput(domain), tld);
+  }
+
   /**
    * Sanitize and normalize domain input
    * @param input - Raw user input
@@ -135,11 +172,18 @@ export class InputValidator implements IInputValidator {
       return '';
     }
 
-    return input
+    const cleaned = input
       .trim()                    // Remove leading/trailing whitespace
       .toLowerCase()             // Convert to lowercase
       .replace(/\s+/g, '')       // Remove all whitespace
-      .replace(/[^a-z0-9-]/g, ''); // Remove invalid characters except alphanumeric and hyphens
+      .replace(/[^\p{L}\p{M}\p{Nd}-]/gu, ''); // Remove invalid characters except letters, digits and hyphens
+
+    if (!/[^\x00-\x7f]/.test(cleaned)) {
+      return cleaned;
+    }
+
+    // Internationalized names are looked up by their A-label
+    return (this.idn.toASCII(cleaned) || cleaned).replace(/[^a-z0-9-]/g, '');
   }
 
   /**
@@ -153,7 +197,7 @@ export class InputValidator implements IInputValidator {
   }
 
   /**
-   * Check if domain contains only valid characters (alphanumeric and hyphens)
+   * Check if domain contains only valid characters (letters of any script, digits and hyphens)
    * @param domain - Domain name to check
    * @returns True if characters are valid
    */
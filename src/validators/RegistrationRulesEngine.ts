@@ -0,0 +1,129 @@
+import bundledRegistrationRules from '../data/registration-rules.json';
+import type { IRegistrationEligibility } from '../models';
+
+/**
+ * Naming and eligibility rules of one registry
+ */
+export interface IRegistrationRule {
+  /** Shortest label the registry accepts (in ASCII form) */
+  minLength?: number;
+  /** Longest label the registry accepts (in ASCII form) */
+  maxLength?: number;
+  /** Whether labels made only of digits (e.g. "163") are accepted */
+  allowAllNumeric?: boolean;
+  /** Whether two-letter labels are held back (e.g. for country or state codes) */
+  reserveTwoLetterNames?: boolean;
+  /** Labels the registry keeps for itself */
+  reservedNames?: string[];
+  /** Whether only registrants meeting the requirements may register */
+  restricted?: boolean;
+  /** Registrant requirements and other notes */
+  requirements?: string[];
+}
+
+/**
+ * Registration rules file format
+ */
+export interface IRegistrationRulesFile {
+  description?: string;
+  publication?: string;
+  /** Rules of TLDs that are not listed */
+  defaults: IRegistrationRule;
+  /** Rules per TLD or second-level suffix, including the dot; listed fields override the defaults */
+  tlds: Record<string, IRegistrationRule>;
+}
+
+/**
+ * Registration Rules Engine - checks names against the rules of each registry
+ * InputValidator enforces what every registry shares (DNS syntax); this adds what differs per
+ * TLD: length limits, all-numeric labels, reserved names and registrant requirements such as
+ * the .us nexus or local presence for some ccTLDs. Second-level suffixes without rules of
+ * their own (e.g. ".org.au") follow their parent TLD.
+ */
+export class RegistrationRulesEngine {
+  private defaults: Required<IRegistrationRule>;
+  private rules: Map<string, IRegistrationRule>;
+
+  constructor(data: IRegistrationRulesFile = bundledRegistrationRules) {
+    this.defaults = {
+      minLength: 1,
+      maxLength: 63,
+      allowAllNumeric: false,
+      reserveTwoLetterNames: false,
+      reservedNames: [],
+      restricted: false,
+      requirements: [],
+      ...data.defaults
+    };
+    this.rules = new Map(
+      Object.entries(data.tlds).map(([tld, rule]) => [tld.toLowerCase(), rule])
+    );
+  }
+
+  /**
+   * Get the rules that apply under a TLD
+   * @param tld - TLD or second-level suffix including the dot
+   * @returns Registry rules merged with the defaults
+   */
+  getRules(tld: string): Required<IRegistrationRule> {
+    const rule = this.lookup(tld.toLowerCase()) || {};
+    return {
+      ...this.defaults,
+      ...rule,
+      reservedNames: [...(rule.reservedNames || this.defaults.reservedNames)],
+      requirements: [...(rule.requirements || this.defaults.requirements)]
+    };
+  }
+
+  /**
+   * Check a name against the rules of a TLD
+   * @param label - Name without the TLD, in ASCII (A-label) form
+   * @param tld - TLD or second-level suffix including the dot
+   * @returns Eligibility with the rules the name breaks and the registrant requirements
+   */
+  evaluate(label: string, tld: string): IRegistrationEligibility {
+    const rules = this.getRules(tld);
+    const name = label.toLowerCase();
+    const violations: string[] = [];
+
+    if (name.length < rules.minLength) {
+      violations.push(`${tld} names must be at least ${rules.minLength} characters long`);
+    }
+    if (name.length > rules.maxLength) {
+      violations.push(`${tld} names must be no more than ${rules.maxLength} characters long`);
+    }
+    if (!rules.allowAllNumeric && /^\d+$/.test(name)) {
+      violations.push(`${tld} does not accept all-numeric names`);
+    }
+    if (rules.reserveTwoLetterNames && name.length === 2) {
+      violations.push(`Two-letter names are reserved in ${tld}`);
+    }
+    if (rules.reservedNames.includes(name)) {
+      violations.push(`"${name}" is reserved by the ${tld} registry`);
+    }
+
+    return {
+      tld,
+      eligible: violations.length === 0,
+      violations,
+      restricted: rules.restricted,
+      requirements: rules.requirements
+    };
+  }
+
+  /**
+   * Find the rules of a suffix, falling back to its parent (".org.au" to ".au")
+   */
+  private lookup(tld: string): IRegistrationRule | undefined {
+    let suffix = tld;
+    while (suffix) {
+      const rule = this.rules.get(suffix);
+      if (rule) {
+        return rule;
+      }
+      const next = suffix.indexOf('.', 1);
+      suffix = next > 0 ? suffix.substring(next) : '';
+    }
+    return undefined;
+  }
+}
\ No newline at end of file
@@ -1,3 +1,7 @@
 // Input validation interfaces and implementations
-export type { IInputValidator } from './IInputValidator';
-export { InputValidator } from './InputValidator';
\ No newline at end of file
+export type { IInputValidator, IDomainValidationOptions } from './IInputValidator';
+export { InputValidator } from './InputValidator';
+export { IDNNormalizer } from './IDNNormalizer';
+export type { IIDNScriptFile } from './IDNNormalizer';
+export { RegistrationRulesEngine } from './RegistrationRulesEngine';
+export type { IRegistrationRule, IRegistrationRulesFile } from './RegistrationRulesEngine';
\ No newline at end of file
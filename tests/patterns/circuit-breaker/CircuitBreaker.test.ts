@@ -0,0 +1,169 @@
+import { CircuitBreaker } from '../../../src/patterns/circuit-breaker/CircuitBreaker';
+import { CircuitBreakerRegistry } from '../../../src/patterns/circuit-breaker/CircuitBreakerRegistry';
+import { CircuitOpenError } from '../../../src/patterns/circuit-breaker/CircuitOpenError';
+import { CircuitState } from '../../../src/patterns/circuit-breaker/ICircuitBreaker';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  const fail = () => Promise.reject(new Error('Connection refused'));
+  const succeed = () => Promise.resolve('ok');
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-10-01T12:00:00Z'));
+    breaker = new CircuitBreaker('whois:whois.nic.io', { failureThreshold: 3, cooldownMs: 10000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Closed state', () => {
+    test('should pass results and errors through', async () => {
+      await expect(breaker.execute(succeed)).resolves.toBe('ok');
+      await expect(breaker.execute(fail)).rejects.toThrow('Connection refused');
+      expect(breaker.getState()).toBe(CircuitState.CLOSED);
+    });
+
+    test('should open after consecutive failures reach the threshold', async () => {
+      for (let i = 0; i < 3; i++) {
+        await expect(breaker.execute(fail)).rejects.toThrow('Connection refused');
+      }
+
+      expect(breaker.getState()).toBe(CircuitState.OPEN);
+    });
+
+    test('should forget failures after a success', async () => {
+      await expect(breaker.execute(fail)).rejects.toThrow();
+      await expect(breaker.execute(fail)).rejects.toThrow();
+      await breaker.execute(succeed);
+      await expect(breaker.execute(fail)).rejects.toThrow();
+
+      expect(breaker.getState()).toBe(CircuitState.CLOSED);
+      expect(breaker.getSnapshot().failures).toBe(1);
+    });
+
+    test('should ignore errors not counted as failures', async () => {
+      const isFailure = (error: unknown) => !(error instanceof RangeError);
+
+      for (let i = 0; i < 5; i++) {
+        await expect(breaker.execute(() => Promise.reject(new RangeError('rate limited')), isFailure)).rejects.toThrow();
+      }
+
+      expect(breaker.getState()).toBe(CircuitState.CLOSED);
+    });
+  });
+
+  describe('Open state', () => {
+    beforeEach(() => {
+      for (let i = 0; i < 3; i++) {
+        breaker.recordFailure(new Error('Connection refused'));
+      }
+    });
+
+    test('should fail fast without calling the upstream', async () => {
+      const operation = jest.fn(succeed);
+
+      await expect(breaker.execute(operation)).rejects.toBeInstanceOf(CircuitOpenError);
+      await expect(breaker.execute(operation)).rejects.toThrow('Circuit open for whois:whois.nic.io, retry after 2026-10-01T12:00:10.000Z');
+      expect(operation).not.toHaveBeenCalled();
+      expect(breaker.canAttempt()).toBe(false);
+    });
+
+    test('should report when it opened and when it will retry', () => {
+      expect(breaker.getSnapshot()).toEqual({
+        name: 'whois:whois.nic.io',
+        state: CircuitState.OPEN,
+        failures: 3,
+        openedAt: new Date('2026-10-01T12:00:00Z'),
+        retryAt: new Date('2026-10-01T12:00:10Z'),
+        lastError: 'Connection refused'
+      });
+    });
+
+    test('should become half-open once the cool-down has passed', () => {
+      jest.advanceTimersByTime(9999);
+      expect(breaker.getState()).toBe(CircuitState.OPEN);
+
+      jest.advanceTimersByTime(1);
+      expect(breaker.getState()).toBe(CircuitState.HALF_OPEN);
+      expect(breaker.canAttempt()).toBe(true);
+    });
+  });
+
+  describe('Half-open state', () => {
+    beforeEach(() => {
+      for (let i = 0; i < 3; i++) {
+        breaker.recordFailure();
+      }
+      jest.advanceTimersByTime(10000);
+    });
+
+    test('should close when the trial call succeeds', async () => {
+      await expect(breaker.execute(succeed)).resolves.toBe('ok');
+
+      expect(breaker.getState()).toBe(CircuitState.CLOSED);
+      expect(breaker.getSnapshot().failures).toBe(0);
+    });
+
+    test('should reopen for another cool-down when the trial call fails', async () => {
+      await expect(breaker.execute(fail)).rejects.toThrow('Connection refused');
+
+      expect(breaker.getState()).toBe(CircuitState.OPEN);
+      expect(breaker.getSnapshot().retryAt).toEqual(new Date('2026-10-01T12:00:20Z'));
+    });
+
+    test('should only let the allowed number of trial calls through', async () => {
+      let finishTrial: (value: string) => void = () => {};
+      const trial = breaker.execute(() => new Promise<string>(resolve => { finishTrial = resolve; }));
+
+      await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+      finishTrial('ok');
+      await expect(trial).resolves.toBe('ok');
+      expect(breaker.getState()).toBe(CircuitState.CLOSED);
+    });
+  });
+
+  describe('CircuitBreakerRegistry', () => {
+    let registry: CircuitBreakerRegistry;
+
+    beforeEach(() => {
+      registry = new CircuitBreakerRegistry({ failureThreshold: 1 });
+    });
+
+    test('should share one breaker per upstream regardless of case', async () => {
+      await expect(registry.execute('DNS:1.1.1.1', fail)).rejects.toThrow();
+
+      expect(registry.get('dns:1.1.1.1').getState()).toBe(CircuitState.OPEN);
+      expect(registry.isAvailable('dns:1.1.1.1')).toBe(false);
+      expect(registry.isAvailable('dns:8.8.8.8')).toBe(true);
+    });
+
+    test('should apply per-upstream configuration', async () => {
+      registry.configure('whois:whois.verisign-grs.com', { failureThreshold: 2 });
+
+      await expect(registry.execute('whois:whois.verisign-grs.com', fail)).rejects.toThrow();
+      expect(registry.isAvailable('whois:whois.verisign-grs.com')).toBe(true);
+      expect(registry.get('whois:whois.verisign-grs.com').getConfig()).toEqual({
+        failureThreshold: 2,
+        cooldownMs: 30000,
+        halfOpenMaxCalls: 1
+      });
+    });
+
+    test('should list snapshots sorted by upstream name', async () => {
+      await registry.execute('whois:whois.nic.io', succeed);
+      await expect(registry.execute('dns:system', fail)).rejects.toThrow();
+
+      expect(registry.getSnapshots().map(snapshot => [snapshot.name, snapshot.state])).toEqual([
+        ['dns:system', CircuitState.OPEN],
+        ['whois:whois.nic.io', CircuitState.CLOSED]
+      ]);
+
+      registry.reset();
+      expect(registry.getSnapshots()).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
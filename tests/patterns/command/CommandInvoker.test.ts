@@ -209,6 +209,21 @@ describe('CommandInvoker', () => {
       
       expect(results).toHaveLength(0);
     });
+
+    it('should report each result as soon as its command settles', async () => {
+      const commands = [
+        new SuccessCommand('slow', 50),
+        new SuccessCommand('fast', 10),
+        new SuccessCommand('next batch')
+      ];
+      const reported: Array<[number, string | undefined]> = [];
+
+      await invoker.executeBatch(commands, 2, 0, (result, index) => {
+        reported.push([index, result.data]);
+      });
+
+      expect(reported).toEqual([[1, 'fast'], [0, 'slow'], [2, 'next batch']]);
+    });
   });
 
   describe('Command Cancellation', () => {
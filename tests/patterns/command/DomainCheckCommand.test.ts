@@ -307,6 +307,25 @@ describe('DomainCheckCommand', () => {
     });
   });
 
+  describe('Cancellation', () => {
+    it('should skip the query once its signal is aborted', async () => {
+      const controller = new AbortController();
+      const executeSpy = jest.spyOn(mockStrategy, 'execute');
+      const command = new DomainCheckCommand('example.com', mockStrategy, {}, 0, controller.signal);
+
+      controller.abort();
+      const result = await command.execute();
+
+      expect(executeSpy).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        domain: 'example.com',
+        tld: '.com',
+        status: AvailabilityStatus.ERROR,
+        error: DomainCheckCommand.CANCELLED_ERROR
+      });
+    });
+  });
+
   describe('Priority Handling', () => {
     it('should set command priority correctly', () => {
       const command = new DomainCheckCommand('example.com', mockStrategy, {}, 5);
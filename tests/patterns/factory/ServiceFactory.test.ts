@@ -1,4 +1,5 @@
 import { ServiceFactory } from '../../../src/patterns/factory/ServiceFactory';
+import { LatencyTracker } from '../../../src/services/latency/LatencyTracker';
 import type { IServiceConfig } from '../../../src/patterns/factory/IServiceFactory';
 import { DNSLookupService } from '../../../src/services/DNSLookupService';
 import { WHOISQueryService } from '../../../src/services/WHOISQueryService';
@@ -216,6 +217,24 @@ describe('ServiceFactory', () => {
       const service = factory.createOptimizedService('example.com');
       expect(service.getServiceType()).toBe('HYBRID');
     });
+
+    test('should derive settings from observed latency once enough samples exist', () => {
+      const tracker = new LatencyTracker({ minSamples: 10 });
+      const adaptiveFactory = new ServiceFactory(defaultConfig, true, tracker);
+      for (let i = 0; i < 10; i++) {
+        tracker.record('.ai', 'WHOIS', 4000);
+        tracker.record('.ai', 'DNS', 90);
+      }
+
+      const whois = adaptiveFactory.createOptimizedService('example.ai', 'WHOIS').getConfig();
+      const dns = adaptiveFactory.createOptimizedService('example.ai', 'DNS').getConfig();
+
+      expect(whois.timeoutMs).toBe(6000); // p95 of 4000ms x 1.5
+      expect(whois.maxRetries).toBe(2); // Three attempts fit the 20s budget
+      expect(dns.timeoutMs).toBe(1000); // Clamped to the minimum
+      expect(dns.maxRetries).toBe(3);
+      expect(adaptiveFactory.createOptimizedService('example.ai', 'RDAP').getConfig().timeoutMs).toBe(8000);
+    });
   });
 
   describe('Service Suite Creation', () => {
@@ -1,5 +1,6 @@
 import * as fc from 'fast-check';
 import { DNSLookupService } from '../../../src/services/DNSLookupService';
+import { CircuitBreakerRegistry } from '../../../src/patterns/circuit-breaker/CircuitBreakerRegistry';
 import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
 import { promises as dns } from 'dns';
 
@@ -33,7 +34,7 @@ describe('DNSLookupService Property Tests', () => {
   let consoleWarnSpy: jest.SpyInstance;
 
   beforeEach(() => {
-    service = new DNSLookupService();
+    service = new DNSLookupService(new CircuitBreakerRegistry());
     consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
     jest.clearAllMocks();
   });
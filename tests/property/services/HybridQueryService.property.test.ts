@@ -32,16 +32,20 @@ describe('HybridQueryService Property Tests', () => {
       getPriority: jest.fn(),
       getName: jest.fn(),
       getConfig: jest.fn(),
-      setConfig: jest.fn()
+      setConfig: jest.fn(),
+      setWildcardDetection: jest.fn(),
+      getWildcardDetection: jest.fn(),
+      isUpstreamAvailable: jest.fn().mockReturnValue(true)
     } as any;
 
     mockWhoisService = {
       execute: jest.fn(),
-      canHandle: jest.fn(),
+      canHandle: jest.fn().mockReturnValue(true),
       getPriority: jest.fn(),
       getName: jest.fn(),
       getConfig: jest.fn(),
-      setConfig: jest.fn()
+      setConfig: jest.fn(),
+      isUpstreamAvailable: jest.fn().mockReturnValue(true)
     } as any;
 
     // Mock constructors to return our mock instances
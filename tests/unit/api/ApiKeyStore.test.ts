@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiKeyStore } from '../../../src/api/auth';
+
+describe('ApiKeyStore', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-'));
+    filePath = path.join(directory, 'keys.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should authenticate issued keys and keep only their hashes', () => {
+    const store = new ApiKeyStore();
+    store.loadFromFile(filePath);
+    const { key, record } = store.create('naming tool', { checksPerMinute: 10 });
+
+    expect(key).toMatch(/^dck_/);
+    expect(record.quotas).toEqual({ ...ApiKeyStore.DEFAULT_QUOTAS, checksPerMinute: 10 });
+    expect(store.authenticate(key)).toMatchObject({ id: record.id, name: 'naming tool' });
+    expect(store.authenticate(`${key}x`)).toBeNull();
+
+    const file = fs.readFileSync(filePath, 'utf8');
+    expect(file).not.toContain(key);
+    expect(file).toContain(ApiKeyStore.hash(key));
+  });
+
+  test('should load keys from the file and refuse revoked ones', () => {
+    const writer = new ApiKeyStore();
+    writer.loadFromFile(filePath);
+    const first = writer.create('first');
+    const second = writer.create('second');
+    expect(writer.revoke(first.record.id)).toMatchObject({ revokedAt: expect.any(String) });
+    expect(writer.revoke('key_missing')).toBeNull();
+
+    const reader = new ApiKeyStore();
+    reader.loadFromFile(filePath);
+    expect(reader.list().map(key => key.name)).toEqual(['first', 'second']);
+    expect(reader.authenticate(first.key)).toBeNull();
+    expect(reader.authenticate(second.key)).toMatchObject({ name: 'second' });
+  });
+
+  test('should reject invalid key files', () => {
+    fs.writeFileSync(filePath, JSON.stringify({ version: 99, keys: [] }));
+
+    expect(() => new ApiKeyStore().loadFromFile(filePath)).toThrow(`Invalid API key file: ${filePath}`);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,187 @@
+import { CheckSession } from '../../../src/api/websocket';
+import { QuotaExceededError } from '../../../src/api/auth';
+import type { WebSocketConnection } from '../../../src/api/websocket';
+import { CheckDomainAvailabilityCommand } from '../../../src/application/commands/CheckDomainAvailabilityCommand';
+import { EventBus } from '../../../src/patterns/observer/EventBus';
+import { DomainEvents } from '../../../src/patterns/observer/IEventBus';
+import type { IMediator } from '../../../src/patterns/mediator';
+import type { IDomainResult, IQueryResponse } from '../../../src/models';
+import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
+
+describe('CheckSession', () => {
+  let eventBus: EventBus;
+  let sent: any[];
+  let receive: (message: unknown) => void;
+  let commands: CheckDomainAvailabilityCommand[];
+  let responses: Array<(response: IQueryResponse) => void>;
+  let connection: WebSocketConnection;
+  let mediator: IMediator;
+
+  const result = (domain: string): IDomainResult => ({
+    domain,
+    baseDomain: domain.split('.')[0]!,
+    tld: `.${domain.split('.')[1]}`,
+    status: AvailabilityStatus.AVAILABLE,
+    lastChecked: new Date(),
+    checkMethod: 'DNS'
+  });
+
+  // Publish what the check handler publishes for a command, as its TLDs answer
+  const answer = (command: CheckDomainAvailabilityCommand, domains: string[]) => {
+    const requestId = command.requestId!;
+    eventBus.publish(DomainEvents.CHECK_STARTED, { domains, requestId, strategy: 'test' });
+    domains.forEach((domain, i) => eventBus.publish(DomainEvents.RESULT_UPDATED, {
+      requestId,
+      result: result(domain),
+      progress: { completed: i + 1, total: domains.length }
+    }));
+    eventBus.publish(DomainEvents.CHECK_COMPLETED, { requestId, results: domains.map(result), totalExecutionTime: 5 });
+  };
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    sent = [];
+    commands = [];
+    responses = [];
+
+    connection = {
+      onMessage: (listener: (message: string) => void) => {
+        receive = message => listener(typeof message === 'string' ? message : JSON.stringify(message));
+      },
+      onClose: () => {},
+      send: (message: string) => sent.push(JSON.parse(message)),
+      close: () => {}
+    } as unknown as WebSocketConnection;
+    mediator = {
+      send: (command: CheckDomainAvailabilityCommand) => {
+        commands.push(command);
+        return new Promise<IQueryResponse>(resolve => responses.push(resolve));
+      }
+    } as unknown as IMediator;
+
+    new CheckSession(connection, mediator, eventBus, ['.com', '.net']);
+  });
+
+  test('should check the session TLDs and push results of the check only', () => {
+    receive({ type: 'check', id: 'c1', name: 'example' });
+
+    expect(commands).toHaveLength(1);
+    expect(commands[0]).toMatchObject({ baseDomain: 'example', tlds: ['.com', '.net'], fresh: false });
+
+    // Another session's check on the same bus
+    eventBus.publish(DomainEvents.CHECK_COMPLETED, { requestId: 'other', results: [], totalExecutionTime: 1 });
+    answer(commands[0]!, ['example.com', 'example.net']);
+
+    expect(sent.map(message => `${message.type}:${message.id}`)).toEqual([
+      'accepted:c1', 'started:c1', 'result:c1', 'result:c1', 'complete:c1'
+    ]);
+    expect(sent[3]).toMatchObject({ result: { domain: 'example.net' }, progress: { completed: 2, total: 2 } });
+  });
+
+  test('should supersede running checks by default', () => {
+    receive({ type: 'check', id: 'c1', name: 'exa' });
+    receive({ type: 'check', id: 'c2', name: 'exam' });
+    answer(commands[0]!, ['exa.com']);
+    answer(commands[1]!, ['exam.com']);
+
+    expect(sent[1]).toEqual({ type: 'accepted', id: 'c2', name: 'exam', superseded: ['c1'] });
+    expect(commands.map(command => command.signal?.aborted)).toEqual([true, false]);
+    expect(sent.filter(message => message.id === 'c1').map(message => message.type)).toEqual(['accepted']);
+    expect(sent[sent.length - 1]).toMatchObject({ type: 'complete', id: 'c2' });
+  });
+
+  test('should run checks side by side when subscribed without superseding', () => {
+    receive({ type: 'subscribe', id: 's1', tlds: ['.io'], supersede: false });
+    receive({ type: 'check', id: 'c1', name: 'one' });
+    receive({ type: 'check', id: 'c2', name: 'two', tlds: ['.dev'], fresh: true });
+
+    expect(sent[0]).toEqual({ type: 'subscribed', id: 's1', tlds: ['.io'], supersede: false });
+    expect(sent[2]).toMatchObject({ type: 'accepted', id: 'c2', superseded: [] });
+    expect(commands[0]).toMatchObject({ tlds: ['.io'] });
+    expect(commands[1]).toMatchObject({ tlds: ['.dev'], fresh: true });
+
+    receive({ type: 'check', id: 'c1', name: 'again' });
+    expect(sent[3]).toMatchObject({ type: 'error', id: 'c1', message: 'Invalid request: check c1 is already running' });
+  });
+
+  test('should stop messages of cancelled checks and skip their remaining lookups', () => {
+    receive({ type: 'subscribe', id: 's1', supersede: false });
+    receive({ type: 'check', id: 'c1', name: 'one' });
+    receive({ type: 'check', id: 'c2', name: 'two' });
+    receive({ type: 'cancel', id: 'x1', target: 'c1' });
+    answer(commands[0]!, ['one.com']);
+
+    expect(sent[sent.length - 1]).toEqual({ type: 'cancelled', id: 'x1', checks: ['c1'] });
+    expect(commands.map(command => command.signal?.aborted)).toEqual([true, false]);
+
+    receive({ type: 'cancel', id: 'x2' });
+    expect(sent[sent.length - 1]).toEqual({ type: 'cancelled', id: 'x2', checks: ['c2'] });
+  });
+
+  test('should report checks that fail', async () => {
+    receive({ type: 'check', id: 'c1', name: '-invalid-' });
+    responses[0]!({ success: false, queryId: 'q1', results: [], errors: ['Invalid domain format: -invalid-'], timestamp: new Date().toISOString() });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(sent[1]).toEqual({
+      type: 'error',
+      id: 'c1',
+      message: 'Invalid domain format: -invalid-',
+      errors: ['Invalid domain format: -invalid-']
+    });
+  });
+
+  test('should limit running checks', () => {
+    receive({ type: 'subscribe', id: 's1', supersede: false });
+    for (let i = 0; i <= CheckSession.MAX_CHECKS; i++) {
+      receive({ type: 'check', id: `c${i}`, name: `name${i}` });
+    }
+
+    expect(commands).toHaveLength(CheckSession.MAX_CHECKS);
+    expect(sent[sent.length - 1]).toMatchObject({ type: 'error', id: `c${CheckSession.MAX_CHECKS}` });
+  });
+
+  test('should refuse checks that exceed the quota', () => {
+    const charged: number[] = [];
+    new CheckSession(connection, mediator, eventBus, ['.com', '.net'], checks => {
+      if (charged.length > 0) {
+        throw new QuotaExceededError('checksPerMinute', 2, 1500);
+      }
+      charged.push(checks);
+    });
+
+    receive({ type: 'check', id: 'c1', name: 'example' });
+    receive({ type: 'check', id: 'c2', name: 'examples' });
+
+    expect(charged).toEqual([2]);
+    expect(commands).toHaveLength(1);
+    expect(sent[sent.length - 1]).toEqual({
+      type: 'error',
+      id: 'c2',
+      message: 'Quota exceeded: checksPerMinute is 2',
+      retryAfter: 2
+    });
+  });
+
+  test('should limit the TLDs of one check', () => {
+    const tlds = Array.from({ length: CheckDomainAvailabilityCommand.MAX_TLDS + 1 }, (_, i) => `.tld${i}`);
+    receive({ type: 'check', id: 'c1', name: 'example', tlds });
+
+    expect(commands).toHaveLength(0);
+    expect(sent).toEqual([{
+      type: 'error',
+      id: 'c1',
+      message: `Invalid request: tlds must be a non-empty array of at most ${CheckDomainAvailabilityCommand.MAX_TLDS} strings`
+    }]);
+  });
+
+  test('should report invalid messages', () => {
+    receive('not json');
+    receive([]);
+
+    expect(sent).toEqual([
+      { type: 'error', id: null, message: 'Invalid JSON' },
+      { type: 'error', id: null, message: 'Invalid message: must be a JSON object' }
+    ]);
+  });
+});
\ No newline at end of file
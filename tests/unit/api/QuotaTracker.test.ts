@@ -0,0 +1,80 @@
+import { ApiKeyStore, QuotaExceededError, QuotaTracker } from '../../../src/api/auth';
+import type { IApiKey } from '../../../src/api/auth';
+
+describe('QuotaTracker', () => {
+  const key: IApiKey = {
+    id: 'key_test',
+    name: 'test',
+    hash: ApiKeyStore.hash('secret'),
+    createdAt: '2024-01-01T00:00:00.000Z',
+    revokedAt: null,
+    quotas: { requestsPerMinute: 2, requestsPerDay: 3, checksPerMinute: 10, checksPerDay: 0 }
+  };
+  // 30 seconds into a minute
+  let now: number;
+  let tracker: QuotaTracker;
+
+  beforeEach(() => {
+    now = Date.UTC(2024, 0, 1, 12, 0, 30);
+    tracker = new QuotaTracker(() => now);
+  });
+
+  const rejection = (charge: () => void): QuotaExceededError => {
+    try {
+      charge();
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return error;
+      }
+      throw error;
+    }
+    throw new Error('Expected QuotaExceededError');
+  };
+
+  test('should refuse requests over a quota until its window resets', () => {
+    tracker.consumeRequest(key);
+    tracker.consumeRequest(key);
+
+    const error = rejection(() => tracker.consumeRequest(key));
+    expect(error).toMatchObject({ quota: 'requestsPerMinute', limit: 2, retryAfterMs: 30000 });
+
+    now += 30000;
+    tracker.consumeRequest(key);
+    expect(rejection(() => tracker.consumeRequest(key))).toMatchObject({ quota: 'requestsPerDay', limit: 3 });
+  });
+
+  test('should charge checks in full or not at all', () => {
+    tracker.consume(key, { checks: 8 });
+
+    expect(rejection(() => tracker.consume(key, { checks: 3 }))).toMatchObject({ quota: 'checksPerMinute' });
+    expect(tracker.getUsage(key).minute.checks).toBe(8);
+
+    // Unlimited per day, and not charged per minute
+    tracker.consume(key, { checks: 500 }, ['day']);
+    expect(rejection(() => tracker.consume(key, { checks: 11 }))).toMatchObject({ retryAfterMs: null });
+  });
+
+  test('should charge a request and its checks together', () => {
+    tracker.consume(key, { requests: 1, checks: 8 });
+
+    expect(rejection(() => tracker.consume(key, { requests: 1, checks: 3 }))).toMatchObject({ quota: 'checksPerMinute' });
+    expect(tracker.getUsage(key).minute).toMatchObject({ requests: 1, checks: 8 });
+
+    tracker.consume(key, { requests: 1, checks: 2 });
+    expect(rejection(() => tracker.consume(key, { requests: 1 }))).toMatchObject({ quota: 'requestsPerMinute' });
+    expect(tracker.getUsage(key).total).toMatchObject({ requests: 2, checks: 10 });
+  });
+
+  test('should report usage per window and in total', () => {
+    tracker.consumeRequest(key);
+    tracker.consume(key, { checks: 4 });
+    now += 60000;
+    tracker.consume(key, { checks: 1 });
+
+    expect(tracker.getUsage(key)).toEqual({
+      minute: { requests: 0, checks: 1, requestLimit: 2, checkLimit: 10, resetAt: '2024-01-01T12:02:00.000Z' },
+      day: { requests: 1, checks: 5, requestLimit: 3, checkLimit: 0, resetAt: '2024-01-02T00:00:00.000Z' },
+      total: { requests: 1, checks: 5, since: '2024-01-01T12:00:30.000Z' }
+    });
+  });
+});
\ No newline at end of file
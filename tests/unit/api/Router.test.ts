@@ -0,0 +1,161 @@
+import { OpenAPIGenerator, Router, SchemaValidator } from '../../../src/api/routing';
+import type { IRoute } from '../../../src/api/routing';
+
+describe('Router', () => {
+  const handler = async () => {};
+  const route = (method: IRoute['method'], path: string, extra: Partial<IRoute> = {}): IRoute => ({
+    method,
+    path,
+    operationId: `${method.toLowerCase()}${path.replace(/\W/g, '')}`,
+    summary: `${method} ${path}`,
+    responses: { 200: { description: 'OK' } },
+    handler,
+    ...extra
+  });
+
+  let router: Router;
+
+  beforeEach(() => {
+    router = new Router(['/api/v1', '/api'])
+      .add(route('GET', '/jobs/:id'))
+      .add(route('DELETE', '/jobs/:id'))
+      .add(route('GET', '/health'));
+  });
+
+  test('should match routes under every base path and decode parameters', () => {
+    expect(router.match('GET', '/api/v1/jobs/job%201')).toMatchObject({ params: { id: 'job 1' }, basePath: '/api/v1' });
+    expect(router.match('GET', '/api/health')).toMatchObject({ route: { path: '/health' }, basePath: '/api' });
+    expect(router.match('GET', '/health')).toBeNull();
+    expect(router.match('GET', '/api/v1/jobs')).toBeNull();
+    expect(router.match('GET', '/api/v1/jobs/%E0')).toBeNull();
+  });
+
+  test('should report the allowed methods of a path', () => {
+    expect(router.match('POST', '/api/v1/jobs/abc')).toEqual({ allowedMethods: ['GET', 'DELETE'] });
+  });
+
+  test('should refuse duplicate routes', () => {
+    expect(() => router.add(route('GET', '/health'))).toThrow('Duplicate route: GET /health');
+  });
+
+  test('should validate path, query and body and convert the query', () => {
+    router.add(route('POST', '/check/:name', {
+      params: { type: 'object', properties: { name: { type: 'string', maxLength: 5 } } },
+      query: { type: 'object', properties: { fresh: { type: 'boolean' }, tlds: { type: 'array', items: { type: 'string' } } } },
+      body: { type: 'object', required: ['names'], properties: { names: { type: 'array', items: { type: 'string' } }, limit: { type: 'integer' } } }
+    }));
+    const match = router.match('POST', '/api/v1/check/example');
+    if (!match || 'allowedMethods' in match) {
+      throw new Error('Route not matched');
+    }
+
+    const { query, errors } = router.validate(match, { fresh: 'true', tlds: ['.com,.net', '.io'] }, { limit: 1.5 });
+
+    expect(query).toEqual({ fresh: true, tlds: ['.com', '.net', '.io'] });
+    expect(errors).toEqual([
+      { in: 'path', field: 'name', message: 'must be at most 5 characters' },
+      { in: 'body', field: 'names', message: 'is required' },
+      { in: 'body', field: 'limit', message: 'must be an integer' }
+    ]);
+  });
+
+  test('should reject undeclared body fields named like object members', () => {
+    router.add(route('POST', '/jobs', {
+      body: { type: 'object', properties: { names: { type: 'array', items: { type: 'string' } } }, additionalProperties: false }
+    }));
+    const match = router.match('POST', '/api/jobs');
+    if (!match || 'allowedMethods' in match) {
+      throw new Error('Route not matched');
+    }
+
+    const { errors } = router.validate(match, {}, JSON.parse('{"constructor":1,"toString":2,"__proto__":{}}'));
+
+    expect(errors).toEqual([
+      { in: 'body', field: 'constructor', message: 'is not allowed' },
+      { in: 'body', field: 'toString', message: 'is not allowed' },
+      { in: 'body', field: '__proto__', message: 'is not allowed' }
+    ]);
+  });
+});
+
+describe('SchemaValidator', () => {
+  const validator = new SchemaValidator();
+
+  test('should report every invalid field with its path', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: {
+        names: { type: 'array' as const, minItems: 1, items: { type: 'string' as const, minLength: 1 } },
+        priority: { type: 'string' as const, enum: ['low', 'high'] },
+        offset: { type: 'integer' as const, minimum: 0 }
+      },
+      additionalProperties: false
+    };
+
+    expect(validator.validate(schema, { names: ['ok', '', 3], priority: 'urgent', offset: -1, extra: true }, 'body')).toEqual([
+      { in: 'body', field: 'names[1]', message: 'must not be empty' },
+      { in: 'body', field: 'names[2]', message: 'must be a string' },
+      { in: 'body', field: 'priority', message: 'must be one of low, high' },
+      { in: 'body', field: 'offset', message: 'must be at least 0' },
+      { in: 'body', field: 'extra', message: 'is not allowed' }
+    ]);
+    expect(validator.validate(schema, [], 'body')).toEqual([{ in: 'body', field: '', message: 'must be an object' }]);
+    expect(validator.validate(schema, { names: ['a'], offset: 2 }, 'body')).toEqual([]);
+  });
+
+  test('should keep query values that do not convert, so they are reported', () => {
+    const schema = { type: 'object' as const, properties: { offset: { type: 'integer' as const }, idn: { type: 'boolean' as const } } };
+    const query = validator.coerceQuery(schema, { offset: 'ten', idn: 'yes', other: 'x' });
+
+    expect(query).toEqual({ offset: 'ten', idn: 'yes', other: 'x' });
+    expect(validator.validate(schema, query, 'query').map(error => error.message)).toEqual(['must be an integer', 'must be a boolean']);
+  });
+});
+
+describe('OpenAPIGenerator', () => {
+  test('should describe routes as OpenAPI operations', () => {
+    const routes: IRoute[] = [{
+      method: 'GET',
+      path: '/jobs/:id',
+      operationId: 'getJob',
+      summary: 'Get a job',
+      tags: ['Jobs'],
+      params: { type: 'object', properties: { id: { type: 'string', description: 'Job ID' } } },
+      query: { type: 'object', properties: { tlds: { type: 'array', items: { type: 'string' } } } },
+      responses: { 200: { description: 'Job', schema: { $ref: '#/components/schemas/Job' } } },
+      handler: async () => {}
+    }, {
+      method: 'POST',
+      path: '/jobs',
+      operationId: 'startJob',
+      summary: 'Start a job',
+      body: { type: 'object', required: ['names'], properties: { names: { type: 'array' } } },
+      responses: { 202: { description: 'Started' } },
+      handler: async () => {}
+    }];
+
+    const document: any = new OpenAPIGenerator({ title: 'Test', version: '1.0.0' }, { Job: { type: 'object' } }).generate(routes, '/api/v1');
+
+    expect(document).toMatchObject({
+      openapi: '3.0.3',
+      info: { title: 'Test', version: '1.0.0' },
+      servers: [{ url: '/api/v1' }],
+      tags: [{ name: 'Jobs' }],
+      components: { schemas: { Job: { type: 'object' } } }
+    });
+    expect(document.paths['/jobs/{id}'].get).toEqual({
+      operationId: 'getJob',
+      summary: 'Get a job',
+      tags: ['Jobs'],
+      parameters: [
+        { name: 'id', in: 'path', required: true, description: 'Job ID', schema: { type: 'string' } },
+        { name: 'tlds', in: 'query', required: false, style: 'form', explode: false, schema: { type: 'array', items: { type: 'string' } } }
+      ],
+      responses: { 200: { description: 'Job', content: { 'application/json': { schema: { $ref: '#/components/schemas/Job' } } } } }
+    });
+    expect(document.paths['/jobs'].post.requestBody).toEqual({
+      required: true,
+      content: { 'application/json': { schema: routes[1]!.body } }
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { Duplex } from 'stream';
+import { CloseCode, WebSocketConnection } from '../../../src/api/websocket';
+
+/**
+ * Encode a frame the way a client does (masked)
+ */
+function clientFrame(opcode: number, payload: Buffer | string, fin: boolean = true): Buffer {
+  const data = Buffer.from(payload);
+  const mask = Buffer.from([0x12, 0x34, 0x56, 0x78]);
+  let header: Buffer;
+  if (data.length < 126) {
+    header = Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | data.length]);
+  } else {
+    header = Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | 126, 0, 0]);
+    header.writeUInt16BE(data.length, 2);
+  }
+  const masked = Buffer.from(data.map((byte, i) => byte ^ mask[i & 3]!));
+  return Buffer.concat([header, mask, masked]);
+}
+
+describe('WebSocketConnection', () => {
+  let socket: Duplex;
+  let written: Buffer[];
+  let connection: WebSocketConnection;
+  let messages: string[];
+  let closes: number[];
+
+  beforeEach(() => {
+    written = [];
+    socket = new Duplex({
+      read() {},
+      write(chunk: Buffer, _encoding, callback) {
+        written.push(chunk);
+        callback();
+      }
+    });
+    connection = new WebSocketConnection(socket, { maxMessageBytes: 1024, heartbeatMs: 0 });
+    // Per connection, as sockets destroyed after a test still report their close
+    const received: string[] = messages = [];
+    const closed: number[] = closes = [];
+    connection.onMessage(message => received.push(message));
+    connection.onClose(code => closed.push(code));
+  });
+
+  afterEach(() => {
+    socket.destroy();
+  });
+
+  const receive = async (...frames: Buffer[]) => {
+    frames.forEach(frame => socket.push(frame));
+    await new Promise(resolve => setTimeout(resolve, 0));
+  };
+
+  test('should compute the accept key of the handshake', () => {
+    // Example from RFC 6455 section 1.3
+    expect(WebSocketConnection.acceptKey('dGhlIHNhbXBsZSBub25jZQ==')).toBe('s3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+  });
+
+  test('should unmask text messages, also when split across reads', async () => {
+    const frame = clientFrame(0x1, '{"type":"check"}');
+    await receive(frame.subarray(0, 3), frame.subarray(3));
+
+    expect(messages).toEqual(['{"type":"check"}']);
+  });
+
+  test('should join fragmented messages', async () => {
+    await receive(clientFrame(0x1, 'hel', false), clientFrame(0x9, 'ping'), clientFrame(0x0, 'lo'));
+
+    expect(messages).toEqual(['hello']);
+    // The ping between the fragments is answered with a pong carrying its payload
+    expect(written[0]).toEqual(Buffer.from([0x8a, 4, ...Buffer.from('ping')]));
+  });
+
+  test('should send unmasked frames with extended lengths', () => {
+    connection.send('x'.repeat(300));
+
+    expect(written[0]!.subarray(0, 4)).toEqual(Buffer.from([0x81, 126, 0x01, 0x2c]));
+    expect(written[0]!.length).toBe(304);
+  });
+
+  test('should answer a close frame and report the code', async () => {
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(CloseCode.NORMAL, 0);
+    await receive(clientFrame(0x8, payload));
+
+    expect(written[0]).toEqual(Buffer.from([0x88, 2, 0x03, 0xe8]));
+    expect(closes).toEqual([CloseCode.NORMAL]);
+    expect(connection.isOpen()).toBe(false);
+  });
+
+  test.each([
+    ['unmasked frames', Buffer.from([0x81, 0x01, 0x61]), CloseCode.PROTOCOL_ERROR],
+    ['binary messages', clientFrame(0x2, 'abc'), CloseCode.UNSUPPORTED_DATA],
+    ['continuations without a message', clientFrame(0x0, 'abc'), CloseCode.PROTOCOL_ERROR],
+    ['invalid UTF-8', clientFrame(0x1, Buffer.from([0xc3, 0x28])), CloseCode.INVALID_PAYLOAD],
+    ['messages over the size limit', clientFrame(0x1, 'x'.repeat(1025)), CloseCode.MESSAGE_TOO_BIG]
+  ])('should fail the connection on %s', async (_case, frame, code) => {
+    await receive(frame);
+
+    expect(messages).toEqual([]);
+    expect(closes).toEqual([code]);
+    expect(written[0]!.readUInt16BE(2)).toBe(code);
+  });
+});
\ No newline at end of file
@@ -4,8 +4,15 @@ import { TextEncoder, TextDecoder } from 'util';
 // Set up global polyfills before any imports that might need them
 Object.assign(global, { TextEncoder, TextDecoder });
 
+import http from 'http';
+import { randomBytes } from 'crypto';
+import type { Duplex } from 'stream';
 import request from 'supertest';
 import { ApiServer } from '../../../src/api/server';
+import { CheckDomainAvailabilityCommand } from '../../../src/application/commands/CheckDomainAvailabilityCommand';
+import { ApiKeyStore } from '../../../src/api/auth';
+import { CircuitBreakerRegistry } from '../../../src/patterns/circuit-breaker';
+import { LatencyTracker } from '../../../src/services/latency/LatencyTracker';
 
 describe('API Server', () => {
   let apiServer: ApiServer;
@@ -34,6 +41,74 @@ describe('API Server', () => {
       expect(response.body.timestamp).toBeDefined();
       expect(response.body.uptime).toBeGreaterThan(0);
     });
+
+    test('should report open circuits as degraded', async () => {
+      const breakers = CircuitBreakerRegistry.getInstance();
+      breakers.configure('whois:whois.nic.io', { failureThreshold: 1 });
+      breakers.get('whois:whois.nic.io').recordFailure(new Error('Connection refused'));
+
+      try {
+        const response = await request(server)
+          .get('/api/health')
+          .expect(200);
+
+        expect(response.body.status).toBe('degraded');
+        expect(response.body.circuits).toEqual([expect.objectContaining({
+          name: 'whois:whois.nic.io',
+          state: 'open',
+          failures: 1,
+          lastError: 'Connection refused'
+        })]);
+      } finally {
+        breakers.reset();
+      }
+    });
+  });
+
+  describe('GET /api/latency', () => {
+    test('should return latency stats per TLD and source', async () => {
+      LatencyTracker.getInstance().record('.io', 'WHOIS', 850);
+
+      const response = await request(server)
+        .get('/api/latency')
+        .expect(200);
+
+      expect(response.body.options).toMatchObject({ percentile: 95, factor: 1.5 });
+      expect(response.body.stats).toContainEqual(expect.objectContaining({
+        tld: '.io',
+        source: 'WHOIS',
+        samples: 1,
+        adaptive: null
+      }));
+    });
+  });
+
+  describe('GET /api/tlds', () => {
+    test('should list catalog entries matching the filters', async () => {
+      const response = await request(server)
+        .get('/api/tlds?type=ccTLD&secondLevel=true&q=uk')
+        .expect(200);
+
+      expect(response.body.tlds.map((entry: { tld: string }) => entry.tld)).toEqual(['.co.uk', '.org.uk']);
+      expect(response.body.total).toBe(2);
+      expect(response.body.tlds[0]).toMatchObject({ operator: 'Nominet UK', registrable: true, supported: true });
+    });
+
+    test('should mark TLDs without a registry endpoint as unsupported', async () => {
+      const response = await request(server)
+        .get('/api/tlds?type=brand&q=google')
+        .expect(200);
+
+      expect(response.body.tlds).toEqual([expect.objectContaining({ tld: '.google', supported: false })]);
+    });
+
+    test('should reject unknown filter values', async () => {
+      const response = await request(server)
+        .get('/api/tlds?type=planet')
+        .expect(400);
+
+      expect(response.body.message).toBe('Invalid request: type must be one of gTLD, ccTLD, brand, sponsored');
+    });
   });
 
   describe('POST /api/check-domain', () => {
@@ -76,6 +151,348 @@ describe('API Server', () => {
 
       expect(response.body.error).toBeDefined();
     });
+
+    test('should limit the TLDs of one check', async () => {
+      const tlds = Array.from({ length: CheckDomainAvailabilityCommand.MAX_TLDS + 1 }, (_, i) => `.tld${i}`);
+      const response = await request(server)
+        .post('/api/check-domain')
+        .send({ baseDomain: 'example', tlds })
+        .expect(400);
+
+      expect(response.body.errors).toEqual([expect.objectContaining({ in: 'body', field: 'tlds' })]);
+    });
+  });
+
+  describe('GET /api/check-domain/stream', () => {
+    const readEvents = (response: request.Response) => (response.body as string)
+      .split('\n\n')
+      .filter(block => block.startsWith('id:'))
+      .map(block => {
+        const [, event, data] = block.match(/^id: \d+\nevent: (.+)\ndata: (.*)$/)!;
+        return { event, data: JSON.parse(data!) };
+      });
+    const collectText = (res: any, callback: (error: Error | null, body: string) => void) => {
+      let body = '';
+      res.on('data', (chunk: Buffer) => body += chunk.toString());
+      res.on('end', () => callback(null, body));
+    };
+
+    test('should stream each result followed by progress and completion', async () => {
+      // Neither TLD is queried: .us refuses all-numeric names and .example is not delegated
+      const response = await request(server)
+        .get('/api/check-domain/stream?baseDomain=360&tlds=.us,.example')
+        .buffer(true)
+        .parse(collectText)
+        .expect('Content-Type', 'text/event-stream')
+        .expect(200);
+
+      const events = readEvents(response);
+      expect(events.map(({ event }) => event)).toEqual(['start', 'result', 'progress', 'result', 'progress', 'complete']);
+      expect(events[0]!.data).toMatchObject({ baseDomain: '360', domains: ['360.us', '360.example'], total: 2 });
+      expect(events[1]!.data).toMatchObject({ domain: '360.us', status: 'error' });
+      expect(events[2]!.data).toEqual({ completed: 1, total: 2 });
+      expect(events[4]!.data).toEqual({ completed: 2, total: 2 });
+      expect(events[5]!.data.results.map((result: any) => result.domain)).toEqual(['360.us', '360.example']);
+    });
+
+    test('should report failed checks as an event', async () => {
+      const response = await request(server)
+        .get('/api/check-domain/stream?baseDomain=-invalid-')
+        .buffer(true)
+        .parse(collectText)
+        .expect(200);
+
+      expect(readEvents(response)).toEqual([{
+        event: 'failed',
+        data: expect.objectContaining({ message: 'Invalid domain format: -invalid-' })
+      }]);
+    });
+
+    test('should require a base domain', async () => {
+      const response = await request(server)
+        .get('/api/check-domain/stream?tlds=.com')
+        .expect(400);
+
+      expect(response.body.message).toBe('Invalid request: baseDomain is required');
+    });
+  });
+
+  describe('Bulk check jobs', () => {
+    test('should run a job and report its results', async () => {
+      // Refused by the .us registration rules, so no lookups are made
+      const started = await request(server)
+        .post('/api/jobs')
+        .send({ names: ['360', '411'], tlds: ['.us'], priority: 'high' })
+        .expect(202);
+
+      expect(started.headers['location']).toBe(`/api/jobs/${started.body.id}`);
+      expect(started.body).toMatchObject({ priority: 'high', tlds: ['.us'], progress: { total: 2 } });
+
+      let job = started.body;
+      for (let i = 0; i < 50 && job.status !== 'completed'; i++) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        job = (await request(server).get(`/api/jobs/${job.id}`).expect(200)).body;
+      }
+
+      expect(job.progress).toMatchObject({ total: 2, checked: 2, pending: 0 });
+      expect(job.results.map((result: any) => result.domain).sort()).toEqual(['360.us', '411.us']);
+
+      const next = await request(server)
+        .get(`/api/jobs/${job.id}?offset=2`)
+        .expect(200);
+      expect(next.body).toMatchObject({ results: [], resultOffset: 2, totalResults: 2 });
+    });
+
+    test('should cancel a job', async () => {
+      const started = await request(server)
+        .post('/api/jobs')
+        .send({ names: ['360'], tlds: ['.us'] })
+        .expect(202);
+
+      const response = await request(server)
+        .delete(`/api/jobs/${started.body.id}`)
+        .expect(200);
+
+      expect(['cancelled', 'completed']).toContain(response.body.status);
+    });
+
+    test('should reject invalid jobs', async () => {
+      await request(server).post('/api/jobs').send({ names: [] }).expect(400);
+      await request(server).post('/api/jobs').send({ names: ['ok'], priority: 'urgent' }).expect(400);
+      await request(server).get('/api/jobs/anything?offset=-1').expect(400);
+
+      const blank = await request(server).post('/api/jobs').send({ names: ['  '] }).expect(400);
+      expect(blank.body.errors).toEqual([expect.objectContaining({ in: 'body', field: 'names[0]' })]);
+    });
+
+    test('should report unknown jobs', async () => {
+      await request(server).get('/api/jobs/missing').expect(404);
+      await request(server).delete('/api/jobs/missing').expect(404);
+    });
+  });
+
+  describe('WebSocket /api/ws', () => {
+    interface ITestSession {
+      send(...messages: object[]): void;
+      next(): Promise<any>;
+      close(): void;
+    }
+
+    // Minimal client: masked text frames out, unmasked (short or 16-bit length) frames in
+    const openSession = (path: string = '/api/ws'): Promise<ITestSession> => new Promise((resolve, reject) => {
+      const req = http.request({
+        port: server.address().port,
+        path,
+        headers: {
+          'Connection': 'Upgrade',
+          'Upgrade': 'websocket',
+          'Sec-WebSocket-Key': randomBytes(16).toString('base64'),
+          'Sec-WebSocket-Version': '13'
+        }
+      });
+      req.on('response', response => reject(new Error(`Upgrade refused: ${response.statusCode}`)));
+      req.on('error', reject);
+      req.on('upgrade', (_response, socket: Duplex) => {
+        const received: any[] = [];
+        const waiting: Array<(message: any) => void> = [];
+        let buffer = Buffer.alloc(0);
+
+        socket.on('data', (chunk: Buffer) => {
+          buffer = Buffer.concat([buffer, chunk]);
+          while (buffer.length >= 2) {
+            const short = buffer[1]! & 0x7f;
+            const offset = short === 126 ? 4 : 2;
+            const length = short === 126 ? buffer.readUInt16BE(2) : short;
+            if (buffer.length < offset + length) {
+              return;
+            }
+            const opcode = buffer[0]! & 0x0f;
+            const payload = buffer.subarray(offset, offset + length).toString('utf8');
+            buffer = buffer.subarray(offset + length);
+            if (opcode === 0x1) {
+              const message = JSON.parse(payload);
+              const waiter = waiting.shift();
+              waiter ? waiter(message) : received.push(message);
+            }
+          }
+        });
+
+        resolve({
+          send: (...messages) => socket.write(Buffer.concat(messages.map(message => {
+            const data = Buffer.from(JSON.stringify(message));
+            const mask = randomBytes(4);
+            const header = data.length < 126
+              ? Buffer.from([0x81, 0x80 | data.length])
+              : Buffer.from([0x81, 0x80 | 126, data.length >> 8, data.length & 0xff]);
+            return Buffer.concat([header, mask, Buffer.from(data.map((byte, i) => byte ^ mask[i & 3]!))]);
+          }))),
+          next: () => received.length > 0
+            ? Promise.resolve(received.shift())
+            : new Promise(resolveMessage => waiting.push(resolveMessage)),
+          close: () => socket.destroy()
+        });
+      });
+      req.end();
+    });
+
+    test('should push each result of a check as it resolves', async () => {
+      const session = await openSession();
+      try {
+        // Neither TLD is queried: .us refuses all-numeric names and .example is not delegated
+        session.send({ type: 'check', id: 'c1', name: '360', tlds: ['.us', '.example'] });
+
+        expect(await session.next()).toEqual({ type: 'accepted', id: 'c1', name: '360', superseded: [] });
+        expect(await session.next()).toEqual({ type: 'started', id: 'c1', domains: ['360.us', '360.example'], total: 2 });
+        expect(await session.next()).toMatchObject({ type: 'result', id: 'c1', result: { domain: '360.us' }, progress: { completed: 1, total: 2 } });
+        expect(await session.next()).toMatchObject({ type: 'result', id: 'c1', result: { domain: '360.example' }, progress: { completed: 2, total: 2 } });
+        const complete = await session.next();
+        expect(complete).toMatchObject({ type: 'complete', id: 'c1' });
+        expect(complete.results.map((result: any) => result.domain)).toEqual(['360.us', '360.example']);
+      } finally {
+        session.close();
+      }
+    });
+
+    test('should report invalid messages', async () => {
+      const session = await openSession();
+      try {
+        session.send({ type: 'check', name: '360' });
+        expect(await session.next()).toMatchObject({ type: 'error', id: null, message: 'Invalid message: id is required' });
+
+        session.send({ type: 'check', id: 'c1' });
+        expect(await session.next()).toMatchObject({ type: 'error', id: 'c1', message: 'Invalid request: name is required' });
+
+        session.send({ type: 'subscribe', id: 's1', tlds: [] });
+        expect(await session.next()).toMatchObject({ type: 'error', id: 's1' });
+
+        session.send({ type: 'rename', id: 'r1' });
+        expect(await session.next()).toMatchObject({ type: 'error', id: 'r1' });
+
+        session.send({ type: 'check', id: 'c2', name: '-invalid-', tlds: ['.com'] });
+        expect(await session.next()).toMatchObject({ type: 'accepted', id: 'c2' });
+        expect(await session.next()).toMatchObject({ type: 'error', id: 'c2', message: 'Invalid domain format: -invalid-' });
+      } finally {
+        session.close();
+      }
+    });
+
+    test('should refuse upgrades to other paths', async () => {
+      await expect(openSession('/api/health')).rejects.toThrow();
+    });
+  });
+
+  describe('POST /api/validate-domain', () => {
+    test('should return both forms of an internationalized name', async () => {
+      const response = await request(server)
+        .post('/api/validate-domain')
+        .send({ domain: 'münchen', tlds: ['.de', '.dev'] })
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        isValid: true,
+        asciiDomain: 'xn--mnchen-3ya',
+        unicodeDomain: 'münchen',
+        warnings: ['.dev does not accept internationalized domain names']
+      });
+    });
+
+    test('should report the registration rules of each TLD', async () => {
+      const response = await request(server)
+        .post('/api/validate-domain')
+        .send({ domain: '360', tlds: ['.com', '.us'] })
+        .expect(200);
+
+      expect(response.body.isValid).toBe(true);
+      expect(response.body.warnings).toEqual(['.us does not accept all-numeric names']);
+      expect(response.body.eligibility[0]).toEqual({ tld: '.com', eligible: true, violations: [], restricted: false, requirements: [] });
+      expect(response.body.eligibility[1]).toMatchObject({ tld: '.us', eligible: false, restricted: true });
+    });
+
+    test('should explain why a domain is invalid', async () => {
+      const response = await request(server)
+        .post('/api/validate-domain')
+        .send({ domain: '-test' })
+        .expect(200);
+
+      expect(response.body.isValid).toBe(false);
+      expect(response.body.message).toBe('Domain name cannot start or end with a hyphen');
+    });
+  });
+
+  describe('Versioning and request validation', () => {
+    test('should serve the API under /api/v1', async () => {
+      const response = await request(server)
+        .get('/api/v1/health')
+        .expect(200);
+
+      expect(response.body.status).toBeDefined();
+    });
+
+    test('should link jobs under the version they were started with', async () => {
+      const response = await request(server)
+        .post('/api/v1/jobs')
+        .send({ names: ['360'], tlds: ['.us'] })
+        .expect(202);
+
+      expect(response.headers['location']).toBe(`/api/v1/jobs/${response.body.id}`);
+    });
+
+    test('should list every invalid field', async () => {
+      const response = await request(server)
+        .post('/api/v1/jobs')
+        .send({ names: ['ok', 7], tlds: [], priority: 'urgent' })
+        .expect(400);
+
+      expect(response.body).toMatchObject({
+        error: true,
+        message: 'Invalid request: names[1] must be a string; tlds must not be empty; priority must be one of low, normal, high',
+        errors: [
+          { in: 'body', field: 'names[1]', message: 'must be a string' },
+          { in: 'body', field: 'tlds', message: 'must not be empty' },
+          { in: 'body', field: 'priority', message: 'must be one of low, normal, high' }
+        ]
+      });
+    });
+
+    test('should validate query parameters', async () => {
+      const response = await request(server)
+        .get('/api/v1/tlds?idn=maybe&type=planet')
+        .expect(400);
+
+      expect(response.body.errors.map((error: any) => `${error.in}:${error.field}`)).toEqual(['query:type', 'query:idn']);
+    });
+
+    test('should answer 405 with the allowed methods', async () => {
+      const response = await request(server)
+        .put('/api/v1/jobs/anything')
+        .expect(405);
+
+      expect(response.headers['allow']).toBe('GET, DELETE');
+    });
+  });
+
+  describe('GET /api/openapi.json', () => {
+    test('should describe every route from its definition', async () => {
+      const response = await request(server)
+        .get('/api/openapi.json')
+        .expect(200);
+
+      const document = response.body;
+      expect(document.openapi).toBe('3.0.3');
+      expect(document.servers).toEqual([{ url: '/api/v1' }]);
+      expect(Object.keys(document.paths)).toEqual(expect.arrayContaining(['/health', '/check-domain', '/jobs', '/jobs/{id}', '/openapi.json']));
+      expect(document.paths['/jobs'].post.requestBody.content['application/json'].schema.required).toEqual(['names']);
+      expect(document.paths['/jobs/{id}'].get.parameters).toEqual(expect.arrayContaining([
+        expect.objectContaining({ name: 'id', in: 'path', required: true }),
+        expect.objectContaining({ name: 'offset', in: 'query', required: false })
+      ]));
+
+      // Every reference resolves to a component
+      const refs = JSON.stringify(document).match(/#\/components\/schemas\/\w+/g) || [];
+      for (const ref of new Set(refs)) {
+        expect(document.components.schemas[ref.split('/').pop()!]).toBeDefined();
+      }
+    });
   });
 
   describe('CORS Headers', () => {
@@ -95,6 +512,16 @@ describe('API Server', () => {
     });
   });
 
+  describe('GET /api/v1/usage', () => {
+    test('should answer 404 when API keys are not enabled', async () => {
+      const response = await request(server)
+        .get('/api/v1/usage')
+        .expect(404);
+
+      expect(response.body.message).toBe('API keys are not enabled on this server');
+    });
+  });
+
   describe('Error Handling', () => {
     test('should handle 404 for unknown routes', async () => {
       await request(server)
@@ -112,4 +539,130 @@ describe('API Server', () => {
       expect(response.body.error).toBeDefined();
     });
   });
+});
+
+describe('API Server with API keys', () => {
+  let apiServer: ApiServer;
+  let server: any;
+  let key: string;
+  let limitedKey: string;
+  let jobKey: string;
+
+  beforeAll(async () => {
+    const apiKeys = new ApiKeyStore();
+    key = apiKeys.create('default').key;
+    limitedKey = apiKeys.create('limited', { requestsPerMinute: 2, checksPerMinute: 3 }).key;
+    jobKey = apiKeys.create('jobs', { checksPerDay: 2 }).key;
+    apiServer = new ApiServer(0, { apiKeys, corsOrigins: ['https://names.example'] });
+    await apiServer.start();
+    server = apiServer['server'];
+  });
+
+  afterAll(async () => {
+    await apiServer.stop();
+  });
+
+  test('should refuse requests without a valid key', async () => {
+    const missing = await request(server)
+      .post('/api/v1/validate-domain')
+      .send({ domain: 'example.com' })
+      .expect(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+
+    await request(server)
+      .post('/api/v1/validate-domain')
+      .set('Authorization', 'Bearer dck_unknown')
+      .send({ domain: 'example.com' })
+      .expect(401);
+  });
+
+  test('should accept a key as a bearer token or access_token parameter', async () => {
+    await request(server)
+      .post('/api/v1/validate-domain')
+      .set('Authorization', `Bearer ${key}`)
+      .send({ domain: 'example.com' })
+      .expect(200);
+
+    await request(server)
+      .get(`/api/v1/latency?access_token=${key}`)
+      .expect(200);
+  });
+
+  test('should keep health and the OpenAPI document public', async () => {
+    await request(server).get('/api/v1/health').expect(200);
+
+    const response = await request(server)
+      .get('/api/v1/openapi.json')
+      .expect(200);
+
+    expect(response.body.components.securitySchemes.bearerAuth).toEqual({ type: 'http', scheme: 'bearer' });
+    expect(response.body.paths['/health'].get.security).toEqual([]);
+    expect(response.body.paths['/usage'].get.security).toEqual([{ bearerAuth: [] }, { accessToken: [] }]);
+  });
+
+  test('should answer 429 with Retry-After once a quota is used up', async () => {
+    // Three TLDs fit the check quota, four do not
+    const overChecks = await request(server)
+      .post('/api/v1/check-domain')
+      .set('Authorization', `Bearer ${limitedKey}`)
+      .send({ baseDomain: 'example', tlds: ['.com', '.net', '.org', '.io'] })
+      .expect(429);
+    expect(overChecks.body.message).toContain('checksPerMinute');
+
+    // The refused check did not count as a request
+    for (let i = 0; i < 2; i++) {
+      await request(server)
+        .get('/api/v1/usage')
+        .set('Authorization', `Bearer ${limitedKey}`)
+        .expect(200);
+    }
+
+    const overRequests = await request(server)
+      .get('/api/v1/usage')
+      .set('Authorization', `Bearer ${limitedKey}`)
+      .expect(429);
+    expect(Number(overRequests.headers['retry-after'])).toBeGreaterThanOrEqual(1);
+    expect(Number(overRequests.headers['retry-after'])).toBeLessThanOrEqual(60);
+  });
+
+  test('should charge jobs for the names they check', async () => {
+    // Duplicates are checked once, so two checks fit the daily quota of two
+    await request(server)
+      .post('/api/v1/jobs')
+      .set('Authorization', `Bearer ${jobKey}`)
+      .send({ names: ['360', ' 360', '360 ', '411'], tlds: ['.us'] })
+      .expect(202);
+
+    const response = await request(server)
+      .get('/api/v1/usage')
+      .set('Authorization', `Bearer ${jobKey}`)
+      .expect(200);
+    expect(response.body.usage.day).toMatchObject({ checks: 2, checkLimit: 2 });
+  });
+
+  test('should report the consumption of the calling key', async () => {
+    const response = await request(server)
+      .get('/api/v1/usage')
+      .set('Authorization', `Bearer ${key}`)
+      .expect(200);
+
+    expect(response.body.key).toMatchObject({ name: 'default' });
+    expect(response.body.key.hash).toBeUndefined();
+    expect(response.body.quotas).toEqual(ApiKeyStore.DEFAULT_QUOTAS);
+    expect(response.body.usage.total).toMatchObject({ requests: 3, checks: 0 });
+    expect(response.body.usage.minute).toMatchObject({ requests: 3, requestLimit: 60 });
+  });
+
+  test('should only allow the configured origins', async () => {
+    const allowed = await request(server)
+      .get('/api/v1/health')
+      .set('Origin', 'https://names.example');
+    expect(allowed.headers['access-control-allow-origin']).toBe('https://names.example');
+    expect(allowed.headers['vary']).toBe('Origin');
+
+    const other = await request(server)
+      .get('/api/v1/health')
+      .set('Origin', 'https://elsewhere.example');
+    expect(other.headers['access-control-allow-origin']).toBeUndefined();
+  });
 });
\ No newline at end of file
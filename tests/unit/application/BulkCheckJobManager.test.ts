@@ -0,0 +1,152 @@
+import { BulkCheckJobManager, JobQueueFullError } from '../../../src/application/jobs';
+import type { IBulkCheckJob, NameChecker } from '../../../src/application/jobs';
+import { CommandQueue } from '../../../src/patterns/command/CommandQueue';
+import { CommandInvoker } from '../../../src/patterns/command/CommandInvoker';
+import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
+import type { IQueryResponse } from '../../../src/models';
+
+describe('BulkCheckJobManager', () => {
+  let queue: CommandQueue;
+  let checked: string[];
+
+  const respond = (baseDomain: string, tlds: string[]): IQueryResponse => ({
+    success: true,
+    queryId: `query_${baseDomain}`,
+    results: tlds.map(tld => ({
+      domain: `${baseDomain}${tld}`,
+      baseDomain,
+      tld,
+      status: AvailabilityStatus.AVAILABLE,
+      lastChecked: new Date(),
+      checkMethod: 'DNS' as const
+    })),
+    errors: [],
+    timestamp: new Date().toISOString()
+  });
+
+  const checker: NameChecker = async (baseDomain, tlds) => {
+    checked.push(baseDomain);
+    if (baseDomain === 'broken') {
+      throw new Error('Registry unreachable');
+    }
+    if (baseDomain.startsWith('-')) {
+      return { success: false, queryId: 'query_invalid', results: [], errors: [`Invalid domain format: ${baseDomain}`], timestamp: '' };
+    }
+    return respond(baseDomain, tlds);
+  };
+
+  const waitFor = async (manager: BulkCheckJobManager, jobId: string, status: IBulkCheckJob['status']) => {
+    for (let i = 0; i < 100; i++) {
+      const job = manager.get(jobId)!;
+      if (job.status === status) {
+        return job;
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error(`Job did not reach ${status}`);
+  };
+
+  beforeEach(() => {
+    checked = [];
+    queue = new CommandQueue({ maxConcurrency: 2, maxQueueSize: 10, processingDelay: 5, maxAttempts: 1, retainResults: false });
+  });
+
+  afterEach(() => {
+    queue.stop();
+  });
+
+  test('should check every name and collect results and failures', async () => {
+    const manager = new BulkCheckJobManager(checker, queue);
+    const started = manager.start({ names: ['alpha', 'Beta', 'alpha ', 'broken', '-bad'], tlds: ['.com', '.io'] });
+
+    expect(started.progress).toMatchObject({ total: 4, checked: 0, pending: 4 });
+
+    const job = await waitFor(manager, started.id, 'completed');
+    expect(job.progress).toEqual({ total: 4, checked: 2, failed: 2, cancelled: 0, pending: 0 });
+    expect(job.results.map(result => result.domain).sort()).toEqual(['alpha.com', 'alpha.io', 'beta.com', 'beta.io']);
+    expect(job.failures).toEqual(expect.arrayContaining([
+      { name: 'broken', error: 'Registry unreachable' },
+      { name: '-bad', error: 'Invalid domain format: -bad' }
+    ]));
+    expect(job.startedAt).not.toBeNull();
+    expect(job.finishedAt).not.toBeNull();
+  });
+
+  test('should return only the results after an offset', async () => {
+    const manager = new BulkCheckJobManager(checker, queue);
+    const { id } = manager.start({ names: ['alpha', 'beta'], tlds: ['.com', '.io'] });
+    await waitFor(manager, id, 'completed');
+
+    const job = manager.get(id, 3)!;
+    expect(job).toMatchObject({ resultOffset: 3, totalResults: 4 });
+    expect(job.results).toHaveLength(1);
+  });
+
+  test('should check higher priority jobs first', async () => {
+    const manager = new BulkCheckJobManager(checker, new CommandQueue({ maxConcurrency: 1, processingDelay: 5, autoStart: false }));
+    const low = manager.start({ names: ['low1', 'low2'], tlds: ['.com'], priority: 'low' });
+    const high = manager.start({ names: ['high1'], tlds: ['.com'], priority: 'high' });
+
+    manager['queue'].start();
+    await waitFor(manager, low.id, 'completed');
+    await waitFor(manager, high.id, 'completed');
+    manager['queue'].stop();
+
+    expect(checked).toEqual(['high1', 'low1', 'low2']);
+  });
+
+  test('should cancel the names that have not been checked', async () => {
+    const pending: Array<() => void> = [];
+    const slowChecker: NameChecker = (baseDomain, tlds) => new Promise(resolve => {
+      pending.push(() => resolve(respond(baseDomain, tlds)));
+    });
+    const manager = new BulkCheckJobManager(slowChecker, queue);
+    const { id } = manager.start({ names: ['one', 'two', 'three', 'four'], tlds: ['.com'] });
+
+    // Two names are being checked (the queue's concurrency), two are still queued
+    while (pending.length < 2) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    const invokerCancel = jest.spyOn(CommandInvoker.prototype, 'cancel');
+    const cancelled = manager.cancel(id)!;
+    pending.forEach(resolve => resolve());
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.progress).toMatchObject({ total: 4, checked: 0, cancelled: 4, pending: 0 });
+    expect(manager.get(id)!.results).toEqual([]);
+    expect(pending).toHaveLength(2);
+    expect(queue.getStatistics().queueSize).toBe(0);
+    expect(invokerCancel).toHaveBeenCalledTimes(2);
+    invokerCancel.mockRestore();
+  });
+
+  test('should refuse jobs the queue has no room for', () => {
+    const manager = new BulkCheckJobManager(checker, new CommandQueue({ maxQueueSize: 2, autoStart: false }));
+
+    expect(() => manager.start({ names: ['a1', 'b2', 'c3'], tlds: ['.com'] })).toThrow(JobQueueFullError);
+    expect(() => manager.start({ names: [' '], tlds: ['.com'] })).toThrow('No names to check');
+  });
+
+  test('should drop the oldest finished jobs past the limit', () => {
+    const manager = new BulkCheckJobManager(checker, new CommandQueue({ autoStart: false }));
+    const running = manager.start({ names: ['running'], tlds: ['.com'] });
+    const finished = Array.from({ length: BulkCheckJobManager.MAX_FINISHED_JOBS + 1 }, (_, i) => {
+      const { id } = manager.start({ names: [`name${i}`], tlds: ['.com'] });
+      manager.cancel(id);
+      return id;
+    });
+
+    expect(manager.get(finished[0]!)).toBeNull();
+    expect(manager.get(finished[1]!)).not.toBeNull();
+    expect(manager.get(finished[finished.length - 1]!)).not.toBeNull();
+    expect(manager.get(running.id)?.status).toBe('queued');
+  });
+
+  test('should report unknown jobs as missing', () => {
+    const manager = new BulkCheckJobManager(checker, queue);
+
+    expect(manager.get('missing')).toBeNull();
+    expect(manager.cancel('missing')).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { promises as dns } from 'dns';
+import { CheckDomainAvailabilityHandler } from '../../../src/application/handlers/CheckDomainAvailabilityHandler';
+import { CheckDomainAvailabilityCommand } from '../../../src/application/commands/CheckDomainAvailabilityCommand';
+import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
+import { WHOISQueryService } from '../../../src/services/WHOISQueryService';
+
+jest.mock('dns', () => ({
+  promises: {
+    resolve4: jest.fn(),
+    resolve6: jest.fn(),
+    resolveMx: jest.fn(),
+    resolveNs: jest.fn(),
+    resolveTxt: jest.fn(),
+    resolveSoa: jest.fn(),
+    reverse: jest.fn(),
+    getServers: jest.fn(),
+    setServers: jest.fn()
+  }
+}));
+
+// Registry sources know no endpoint, so the DNS lookup decides
+jest.mock('../../../src/services/WHOISQueryService');
+jest.mock('../../../src/services/RDAPQueryService');
+
+const mockDns = jest.mocked(dns);
+
+describe('CheckDomainAvailabilityHandler', () => {
+  const notFound = () => Object.assign(new Error('queryA ENOTFOUND'), { code: 'ENOTFOUND' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(WHOISQueryService.prototype.execute).mockImplementation(async domain => ({
+      domain,
+      baseDomain: domain.substring(0, domain.indexOf('.')),
+      tld: domain.substring(domain.indexOf('.')),
+      status: AvailabilityStatus.UNKNOWN,
+      lastChecked: new Date(),
+      checkMethod: 'WHOIS',
+      error: 'No registry endpoint known'
+    }));
+    for (const resolve of [mockDns.resolve6, mockDns.resolveMx, mockDns.resolveNs, mockDns.resolveTxt, mockDns.resolveSoa]) {
+      resolve.mockRejectedValue(notFound());
+    }
+  });
+
+  test('should not report names answered by a TLD wildcard as taken', async () => {
+    // Every name under .ws resolves to the wildcard address
+    mockDns.resolve4.mockResolvedValue(['192.0.2.10']);
+
+    const response = await new CheckDomainAvailabilityHandler().handle(
+      new CheckDomainAvailabilityCommand('unregistered-wildcard', ['.ws'], true)
+    );
+
+    expect(response.results[0]).toMatchObject({
+      domain: 'unregistered-wildcard.ws',
+      status: AvailabilityStatus.AVAILABLE,
+      wildcard: { zone: '.ws', addresses: ['192.0.2.10'], matched: true }
+    });
+    expect(mockDns.resolve4.mock.calls.some(([name]) => /^[0-9a-f]{24}\.ws$/.test(name))).toBe(true);
+  });
+
+  test('should skip the lookups of a cancelled check', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const response = await new CheckDomainAvailabilityHandler().handle(
+      new CheckDomainAvailabilityCommand('cancelled-check', ['.com', '.net'], true, 'req_cancelled', controller.signal)
+    );
+
+    expect(response.results.map(result => result.error)).toEqual(['Check cancelled', 'Check cancelled']);
+    expect(mockDns.resolve4).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { AvailabilityVerdictService } from '../../../src/services/AvailabilityVerdictService';
+import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
+import type { IAvailabilityEvidence, IDomainResult } from '../../../src/models';
+
+describe('AvailabilityVerdictService', () => {
+  let verdicts: AvailabilityVerdictService;
+
+  const dns = (status: AvailabilityStatus, confidence: number): IAvailabilityEvidence =>
+    ({ source: 'DNS', status, confidence, detail: 'dns' });
+  const whois = (status: AvailabilityStatus, confidence: number): IAvailabilityEvidence =>
+    ({ source: 'WHOIS', status, confidence, detail: 'whois' });
+
+  beforeEach(() => {
+    verdicts = new AvailabilityVerdictService();
+  });
+
+  describe('combine', () => {
+    it('should keep DNS-only availability at the DNS confidence', () => {
+      expect(verdicts.combine([dns(AvailabilityStatus.AVAILABLE, 0.5)])).toEqual({
+        status: AvailabilityStatus.AVAILABLE,
+        confidence: 0.5,
+        verdictBasis: 'dns',
+        verdict: 'Likely available (DNS only)'
+      });
+    });
+
+    it('should confirm a status supported by a registry', () => {
+      expect(verdicts.combine([dns(AvailabilityStatus.AVAILABLE, 0.5), whois(AvailabilityStatus.AVAILABLE, 0.95)]))
+        .toEqual({
+          status: AvailabilityStatus.AVAILABLE,
+          confidence: 0.95,
+          verdictBasis: 'registry',
+          verdict: 'Confirmed available (registry)'
+        });
+    });
+
+    it('should weigh registry evidence above DNS and reduce confidence on disagreement', () => {
+      const verdict = verdicts.combine([dns(AvailabilityStatus.AVAILABLE, 0.5), whois(AvailabilityStatus.TAKEN, 0.95)]);
+
+      // TAKEN scores 3 * 0.95 = 2.85 against 0.5 for AVAILABLE
+      expect(verdict?.status).toBe(AvailabilityStatus.TAKEN);
+      expect(verdict?.confidence).toBe(Math.round((2.85 / 3.35) * 0.95 * 100) / 100);
+    });
+
+    it('should not describe lifecycle statuses', () => {
+      const verdict = verdicts.combine([whois(AvailabilityStatus.REDEMPTION, 0.95)]);
+
+      expect(verdict?.status).toBe(AvailabilityStatus.REDEMPTION);
+      expect(verdict?.verdict).toBeUndefined();
+    });
+
+    it('should ignore failed sources', () => {
+      expect(verdicts.combine([dns(AvailabilityStatus.ERROR, 0), whois(AvailabilityStatus.UNKNOWN, 0.9)])).toBeNull();
+      expect(verdicts.combine([dns(AvailabilityStatus.ERROR, 0), whois(AvailabilityStatus.TAKEN, 0.95)])?.status)
+        .toBe(AvailabilityStatus.TAKEN);
+    });
+  });
+
+  describe('summarize', () => {
+    it('should report zero confidence when no source answered', () => {
+      const evidence = [dns(AvailabilityStatus.ERROR, 0)];
+
+      expect(verdicts.summarize(evidence)).toEqual({ confidence: 0, evidence });
+    });
+  });
+
+  describe('toEvidence', () => {
+    const result: IDomainResult = {
+      domain: 'example.com',
+      baseDomain: 'example',
+      tld: '.com',
+      status: AvailabilityStatus.TAKEN,
+      lastChecked: new Date(),
+      checkMethod: 'WHOIS',
+      executionTime: 120
+    };
+
+    it('should reuse evidence attached to the result', () => {
+      const evidence = [whois(AvailabilityStatus.TAKEN, 0.85)];
+
+      expect(verdicts.toEvidence({ ...result, evidence }, 'WHOIS')).toBe(evidence);
+    });
+
+    it('should derive evidence from the status of results without any', () => {
+      expect(verdicts.toEvidence(result, 'WHOIS')).toEqual([{
+        source: 'WHOIS',
+        status: AvailabilityStatus.TAKEN,
+        confidence: 0.9,
+        detail: 'WHOIS reported taken',
+        executionTime: 120
+      }]);
+      expect(verdicts.toEvidence({ ...result, status: AvailabilityStatus.ERROR, error: 'timeout' }, 'DNS')[0])
+        .toEqual(expect.objectContaining({ confidence: 0, detail: 'timeout' }));
+    });
+  });
+
+  describe('excerpt', () => {
+    it('should drop blank lines and WHOIS banners', () => {
+      const raw = '% IANA WHOIS server\n\nDomain Name: EXAMPLE.COM\n>>> Last update of WHOIS database <<<\nRegistrar: Example';
+
+      expect(verdicts.excerpt(raw)).toBe('Domain Name: EXAMPLE.COM\nRegistrar: Example');
+    });
+
+    it('should truncate long responses', () => {
+      const snippet = verdicts.excerpt('x'.repeat(1000));
+
+      expect(snippet).toHaveLength(300);
+      expect(snippet.endsWith('...')).toBe(true);
+    });
+  });
+});
\ No newline at end of file
@@ -1,5 +1,10 @@
+import dgram from 'dgram';
+import type { AddressInfo } from 'net';
 import { DNSLookupService } from '../../../src/services/DNSLookupService';
+import { CircuitBreakerRegistry } from '../../../src/patterns/circuit-breaker/CircuitBreakerRegistry';
 import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
+import { DNSMessageCodec } from '../../../src/services/dns/DNSMessageCodec';
+import { DNSRcode, DNSRecordType } from '../../../src/services/dns/IDNSMessage';
 import { promises as dns } from 'dns';
 
 // Mock the DNS module
@@ -31,7 +36,7 @@ describe('DNSLookupService', () => {
   let service: DNSLookupService;
 
   beforeEach(() => {
-    service = new DNSLookupService();
+    service = new DNSLookupService(new CircuitBreakerRegistry());
     jest.clearAllMocks();
     jest.useFakeTimers();
   });
@@ -140,6 +145,39 @@ describe('DNSLookupService', () => {
       ]);
     });
 
+    test('should treat an empty DNS answer as weak evidence of availability', async () => {
+      mockDns.resolve4.mockRejectedValue(new Error('NXDOMAIN'));
+      mockDns.resolve6.mockRejectedValue(new Error('NXDOMAIN'));
+      mockDns.resolveMx.mockRejectedValue(new Error('NXDOMAIN'));
+      mockDns.resolveNs.mockRejectedValue(new Error('NXDOMAIN'));
+
+      const result = await service.execute('available-domain.com');
+
+      expect(result.confidence).toBe(0.5);
+      expect(result.verdictBasis).toBe('dns');
+      expect(result.verdict).toBe('Likely available (DNS only)');
+      expect(result.evidence).toEqual([
+        expect.objectContaining({ source: 'DNS', status: AvailabilityStatus.AVAILABLE, detail: 'No A, AAAA, MX or NS records found' })
+      ]);
+    });
+
+    test('should record the records found as evidence', async () => {
+      mockDns.resolve4.mockResolvedValue(['192.168.1.1']);
+      mockDns.resolve6.mockRejectedValue(new Error('No AAAA records'));
+      mockDns.resolveMx.mockRejectedValue(new Error('NXDOMAIN'));
+      mockDns.resolveNs.mockResolvedValue(['ns1.example.com']);
+
+      const result = await service.execute('taken-domain.com');
+
+      expect(result.confidence).toBe(0.9);
+      expect(result.evidence?.[0]).toEqual(expect.objectContaining({
+        source: 'DNS',
+        status: AvailabilityStatus.TAKEN,
+        detail: 'Found A, NS records',
+        snippet: 'A: 192.168.1.1\nNS: ns1.example.com'
+      }));
+    });
+
     test('should return ERROR status when DNS lookup fails', async () => {
       // Mock DNS lookups to throw network errors (not domain-not-found errors)
       const networkError = new Error('Network error');
@@ -185,7 +223,7 @@ describe('DNSLookupService', () => {
       const testCases = [
         { domain: 'example.com', baseDomain: 'example', tld: '.com' },
         { domain: 'sub.example.org', baseDomain: 'sub.example', tld: '.org' },
-        { domain: 'test-site.co.uk', baseDomain: 'test-site.co', tld: '.uk' },
+        { domain: 'test-site.co.uk', baseDomain: 'test-site', tld: '.co.uk' },
         { domain: 'single', baseDomain: 'single', tld: '' }
       ];
 
@@ -391,6 +429,25 @@ describe('DNSLookupService', () => {
       expect(result.status).toBe(AvailabilityStatus.ERROR);
       expect(result.error).toContain('Network error');
     });
+
+    test('should stop querying the resolver once its circuit opens', async () => {
+      const networkError = new Error('ENOTFOUND');
+      (networkError as any).code = 'ENETUNREACH';
+      mockDns.resolve4.mockRejectedValue(networkError);
+      mockDns.resolve6.mockRejectedValue(networkError);
+      mockDns.resolveMx.mockRejectedValue(networkError);
+      mockDns.resolveNs.mockRejectedValue(networkError);
+      service = new DNSLookupService(new CircuitBreakerRegistry({ failureThreshold: 1 }));
+
+      await service.execute('network-error.com');
+      const calls = mockDns.resolve4.mock.calls.length;
+      const result = await service.execute('network-error.com');
+
+      expect(service.isUpstreamAvailable('network-error.com')).toBe(false);
+      expect(result.status).toBe(AvailabilityStatus.ERROR);
+      expect(result.error).toContain('Circuit open for dns:system');
+      expect(mockDns.resolve4).toHaveBeenCalledTimes(calls);
+    });
   });
 
   describe('Performance and Timing', () => {
@@ -424,4 +481,416 @@ describe('DNSLookupService', () => {
       expect(result.error).toContain('timeout after 1000ms');
     });
   });
+
+  describe('Wildcard and Parking Detection', () => {
+    const notFound = () => Object.assign(new Error('queryA ENOTFOUND'), { code: 'ENOTFOUND' });
+
+    beforeEach(() => {
+      mockDns.resolve6.mockRejectedValue(notFound());
+      mockDns.resolveMx.mockRejectedValue(notFound());
+      mockDns.resolveNs.mockRejectedValue(notFound());
+    });
+
+    test('should leave wildcard detection off by default', async () => {
+      mockDns.resolve4.mockResolvedValue(['192.0.2.10']);
+
+      const result = await service.execute('anything.ws');
+
+      expect(service.getWildcardDetection()).toBe(false);
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.wildcard).toBeUndefined();
+      expect(mockDns.resolve4).toHaveBeenCalledTimes(1);
+    });
+
+    test('should report names that only match the TLD wildcard as available', async () => {
+      // Every name under .ws resolves to the wildcard address
+      mockDns.resolve4.mockResolvedValue(['192.0.2.10']);
+      service.setWildcardDetection(true);
+
+      const result = await service.execute('unregistered.ws');
+
+      expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(result.wildcard).toEqual({ zone: '.ws', addresses: ['192.0.2.10'], matched: true });
+      expect(result.confidence).toBe(0.4);
+      expect(result.evidence?.[0]?.detail).toBe('Only the .ws wildcard records were found');
+      expect(mockDns.resolve4.mock.calls[0]?.[0]).toMatch(/^[0-9a-f]{24}\.ws$/);
+    });
+
+    test('should still report delegated names as taken', async () => {
+      mockDns.resolve4.mockResolvedValue(['192.0.2.10']);
+      mockDns.resolveNs.mockImplementation(async (name: string) => {
+        if (name === 'registered.ws') {
+          return ['ns1.registered.ws'];
+        }
+        throw notFound();
+      });
+      service.setWildcardDetection(true);
+
+      const result = await service.execute('registered.ws');
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.wildcard?.matched).toBe(false);
+    });
+
+    test('should probe each TLD once', async () => {
+      mockDns.resolve4.mockImplementation(async (name: string) => {
+        if (name === 'example.com') {
+          return ['192.0.2.1'];
+        }
+        throw notFound();
+      });
+      service.setWildcardDetection(true);
+
+      const first = await service.execute('example.com');
+      await service.execute('example.com');
+
+      expect(first.status).toBe(AvailabilityStatus.TAKEN);
+      expect(first.wildcard).toBeUndefined();
+      // Two lookups of example.com plus a single probe
+      expect(mockDns.resolve4).toHaveBeenCalledTimes(3);
+    });
+
+    test('should recognize parking name servers', async () => {
+      mockDns.resolve4.mockResolvedValue(['192.0.2.1']);
+      mockDns.resolveNs.mockResolvedValue(['ns1.sedoparking.com', 'ns2.sedoparking.com']);
+
+      const result = await service.execute('parked-name.com');
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.parked).toEqual({ provider: 'Sedo', matchedBy: 'nameserver', value: 'ns1.sedoparking.com' });
+      expect(result.evidence?.[0]?.detail).toBe('Found A, NS records; parked with Sedo');
+    });
+
+    test('should recognize parking page addresses', async () => {
+      mockDns.resolve4.mockResolvedValue(['185.53.178.7']);
+
+      const result = await service.execute('parked-name.com');
+
+      expect(result.parked).toEqual({ provider: 'ParkingCrew', matchedBy: 'address', value: '185.53.178.7' });
+    });
+
+    test('should not flag ordinary hosting as parked', async () => {
+      mockDns.resolve4.mockResolvedValue(['93.184.215.14']);
+      mockDns.resolveNs.mockResolvedValue(['a.iana-servers.net']);
+
+      const result = await service.execute('example.com');
+
+      expect(result.parked).toBeUndefined();
+    });
+  });
+
+  describe('Delegation Mode', () => {
+    let stub: dgram.Socket;
+    let stubAddress: string;
+    let rcodes: Map<string, number>;
+
+    // Minimal authoritative TLD server: NXDOMAIN for unknown names, a referral for delegated ones
+    const encodeName = (name: string): Buffer => Buffer.concat([
+      ...name.split('.').filter(Boolean).map(label => Buffer.concat([Buffer.from([label.length]), Buffer.from(label)])),
+      Buffer.from([0])
+    ]);
+
+    const respond = (query: Buffer): Buffer => {
+      let offset = 12;
+      const labels: string[] = [];
+      while (query[offset] !== 0) {
+        const length = query[offset]!;
+        labels.push(query.subarray(offset + 1, offset + 1 + length).toString());
+        offset += length + 1;
+      }
+      const question = query.subarray(12, offset + 5);
+      const rcode = rcodes.get(labels.join('.').toLowerCase()) ?? 3;
+
+      const header = Buffer.alloc(12);
+      header.writeUInt16BE(query.readUInt16BE(0), 0);
+      header.writeUInt16BE(0x8000 | rcode | (rcode === 3 ? 0x0400 : 0), 2);
+      header.writeUInt16BE(1, 4);
+      header.writeUInt16BE(rcode === 0 ? 1 : 0, 8);
+      if (rcode !== 0) {
+        return Buffer.concat([header, question]);
+      }
+
+      const target = encodeName('ns1.example-dns.net');
+      const record = Buffer.alloc(10);
+      record.writeUInt16BE(2, 0); // NS
+      record.writeUInt16BE(1, 2); // IN
+      record.writeUInt32BE(172800, 4);
+      record.writeUInt16BE(target.length, 8);
+      return Buffer.concat([header, question, Buffer.from([0xc0, 12]), record, target]);
+    };
+
+    beforeAll(async () => {
+      stub = dgram.createSocket('udp4');
+      stub.on('message', (message, remote) => {
+        stub.send(respond(message), remote.port, remote.address);
+      });
+      await new Promise<void>(resolve => stub.bind(0, '127.0.0.1', resolve));
+      stubAddress = `127.0.0.1:${(stub.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => stub.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      rcodes = new Map([['registered.com', 0], ['broken.com', 2]]);
+      service.setLookupMode('delegation');
+      service.setDelegationServers([stubAddress]);
+      service.setConfig({ timeoutMs: 2000 });
+    });
+
+    test('should default to the system resolver', () => {
+      expect(new DNSLookupService().getLookupMode()).toBe('resolver');
+    });
+
+    test('should report NXDOMAIN from the parent zone as available', async () => {
+      const result = await service.execute('unregistered.com');
+
+      expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(result.confidence).toBe(0.8);
+      expect(result.evidence?.[0]).toEqual(expect.objectContaining({
+        detail: 'TLD name servers returned NXDOMAIN (not delegated)',
+        server: stubAddress
+      }));
+      expect(mockDns.resolve4).not.toHaveBeenCalled();
+    });
+
+    test('should report a delegated name as taken even without records of its own', async () => {
+      const result = await service.execute('registered.com');
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.confidence).toBe(0.95);
+      expect(result.evidence?.[0]?.detail).toBe('TLD name servers delegate the domain');
+    });
+
+    test('should surface server failures as errors', async () => {
+      const result = await service.execute('broken.com');
+
+      expect(result.status).toBe(AvailabilityStatus.ERROR);
+      expect(result.error).toContain('Delegation lookup failed');
+    });
+
+    test('should discover and cache the TLD name servers', async () => {
+      mockDns.resolveNs.mockResolvedValue(['a.gtld-servers.net', 'b.gtld-servers.net']);
+      mockDns.resolve4.mockImplementation(async (host: string) =>
+        host === 'a.gtld-servers.net' ? ['192.0.2.1'] : ['192.0.2.2']);
+
+      expect(await service.getTLDNameServers('.com')).toEqual(['192.0.2.1', '192.0.2.2']);
+      expect(await service.getTLDNameServers('com')).toEqual(['192.0.2.1', '192.0.2.2']);
+      expect(mockDns.resolveNs).toHaveBeenCalledTimes(1);
+      expect(mockDns.resolveNs).toHaveBeenCalledWith('com');
+    });
+  });
+
+  describe('Configured Resolvers', () => {
+    const codec = new DNSMessageCodec();
+    let resolver: dgram.Socket;
+    let resolverAddress: string;
+
+    // Validating resolver: example.com has an address and is signed, everything else is NXDOMAIN
+    beforeAll(async () => {
+      resolver = dgram.createSocket('udp4');
+      resolver.on('message', (data, remote) => {
+        const query = codec.decode(data);
+        const question = query.questions[0]!;
+        const exists = question.name === 'example.com';
+        const answer = codec.encode({
+          ...query,
+          response: true,
+          rcode: question.name === 'broken.com' ? DNSRcode.SERVFAIL : exists ? DNSRcode.NOERROR : DNSRcode.NXDOMAIN,
+          flags: { ...query.flags, recursionAvailable: true, authenticData: exists },
+          answers: exists && question.type === DNSRecordType.A
+            ? [{ name: 'example.com', type: DNSRecordType.A, class: 1, ttl: 300, data: '93.184.215.14' }]
+            : [],
+          authority: exists ? [] : [{
+            name: 'com',
+            type: DNSRecordType.SOA,
+            class: 1,
+            ttl: 900,
+            data: 'a.gtld-servers.net nstld.verisign-grs.com 1760000000 1800 900 604800 86400'
+          }]
+        });
+        resolver.send(answer, remote.port, remote.address);
+      });
+      await new Promise<void>(resolve => resolver.bind(0, '127.0.0.1', resolve));
+      resolverAddress = `127.0.0.1:${(resolver.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => resolver.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      service.setConfig({ timeoutMs: 2000 });
+    });
+
+    test('should use the OS resolver until resolvers are configured', () => {
+      expect(service.getResolvers()).toBeNull();
+
+      service.setResolvers([resolverAddress]);
+      expect(service.getResolvers()).toEqual([resolverAddress]);
+
+      service.setResolvers([]);
+      expect(service.getResolvers()).toBeNull();
+    });
+
+    test('should query configured resolvers and report the response code', async () => {
+      service.setResolvers([resolverAddress]);
+
+      const result = await service.execute('unregistered.com');
+
+      expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(result.confidence).toBe(0.8);
+      // Negative answers may be cached for the lower of the SOA TTL and MINIMUM
+      expect(result.dnsTtl).toBe(900);
+      expect(result.evidence?.[0]).toEqual(expect.objectContaining({
+        detail: 'No A, AAAA, MX or NS records found (NXDOMAIN)',
+        rcode: 'NXDOMAIN',
+        authenticated: false,
+        server: resolverAddress
+      }));
+      expect(mockDns.resolve4).not.toHaveBeenCalled();
+    });
+
+    test('should accept resolvers for a single check', async () => {
+      const result = await service.checkDomain('example.com', [resolverAddress]);
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.dnsRecords).toEqual(['A: 93.184.215.14']);
+      expect(result.dnsTtl).toBe(300);
+      expect(result.evidence?.[0]).toEqual(expect.objectContaining({ rcode: 'NOERROR', authenticated: true }));
+      expect(service.getResolvers()).toBeNull();
+      expect(mockDns.resolve4).not.toHaveBeenCalled();
+    });
+
+    test('should treat SERVFAIL without records as an error', async () => {
+      const result = await service.execute('broken.com', [resolverAddress]);
+
+      expect(result.status).toBe(AvailabilityStatus.ERROR);
+      expect(result.error).toBe('DNS server returned SERVFAIL');
+    });
+  });
+
+  describe('Consensus Mode', () => {
+    const codec = new DNSMessageCodec();
+    const stubs: dgram.Socket[] = [];
+    let honest: string;
+    let filtering: string;
+    let failing: string;
+
+    // Resolver stub: example.com has an address unless the resolver filters it
+    const startResolver = async (behaviour: 'honest' | 'filtering' | 'failing'): Promise<string> => {
+      const socket = dgram.createSocket('udp4');
+      socket.on('message', (data, remote) => {
+        const query = codec.decode(data);
+        const question = query.questions[0]!;
+        const exists = behaviour === 'honest' && question.name === 'example.com';
+        const rcode = behaviour === 'failing' ? DNSRcode.SERVFAIL : exists ? DNSRcode.NOERROR : DNSRcode.NXDOMAIN;
+        socket.send(codec.encode({
+          ...query,
+          response: true,
+          rcode,
+          answers: exists && question.type === DNSRecordType.A
+            ? [{ name: 'example.com', type: DNSRecordType.A, class: 1, ttl: 300, data: '93.184.215.14' }]
+            : []
+        }), remote.port, remote.address);
+      });
+      await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', resolve));
+      stubs.push(socket);
+      return `127.0.0.1:${(socket.address() as AddressInfo).port}`;
+    };
+
+    beforeAll(async () => {
+      honest = await startResolver('honest');
+      filtering = await startResolver('filtering');
+      failing = await startResolver('failing');
+    });
+
+    afterAll(async () => {
+      await Promise.all(stubs.map(socket => new Promise<void>(resolve => socket.close(() => resolve()))));
+    });
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      service.setConfig({ timeoutMs: 2000 });
+    });
+
+    test('should report unanimous answers at full DNS confidence', async () => {
+      service.setConfig({ consensus: { resolvers: [honest, honest, honest] } });
+
+      const result = await service.execute('unregistered.com');
+
+      expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(result.confidence).toBe(0.8);
+      expect(result.consensus).toEqual(expect.objectContaining({
+        quorum: 2,
+        agreeing: 3,
+        responded: 3,
+        reached: true,
+        disagreement: false
+      }));
+      expect(result.evidence?.[0]?.detail).toContain('3 of 3 resolvers agree (quorum 2)');
+      expect(mockDns.resolve4).not.toHaveBeenCalled();
+    });
+
+    test('should side with the majority and report the disagreement', async () => {
+      service.setConfig({ consensus: { resolvers: [honest, filtering, honest] } });
+
+      const result = await service.execute('example.com');
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.dnsRecords).toEqual(['A: 93.184.215.14']);
+      expect(result.consensus?.disagreement).toBe(true);
+      expect(result.consensus?.votes).toEqual([
+        { resolver: honest, status: AvailabilityStatus.TAKEN, rcode: 'NOERROR' },
+        { resolver: filtering, status: AvailabilityStatus.AVAILABLE, rcode: 'NXDOMAIN' },
+        { resolver: honest, status: AvailabilityStatus.TAKEN, rcode: 'NOERROR' }
+      ]);
+      expect(result.confidence).toBe(Math.round(0.8 * (2 / 3) * 100) / 100);
+    });
+
+    test('should not be definitive without a quorum', async () => {
+      service.setConfig({ consensus: { resolvers: [honest, filtering, failing] } });
+
+      const result = await service.execute('example.com');
+
+      expect(result.status).toBe(AvailabilityStatus.UNKNOWN);
+      expect(result.confidence).toBe(0);
+      expect(result.consensus).toEqual(expect.objectContaining({ agreeing: 1, responded: 2, reached: false }));
+      expect(result.consensus?.votes[2]).toEqual({
+        resolver: failing,
+        status: AvailabilityStatus.ERROR,
+        error: 'DNS server returned SERVFAIL'
+      });
+    });
+
+    test('should honour a configured quorum', async () => {
+      service.setConfig({ consensus: { resolvers: [honest, filtering, failing], quorum: 1 } });
+
+      const result = await service.execute('example.com');
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.consensus?.reached).toBe(true);
+    });
+
+    test('should fail when no resolver answers', async () => {
+      service.setConfig({ consensus: { resolvers: [failing, failing] } });
+
+      const result = await service.execute('example.com');
+
+      expect(result.status).toBe(AvailabilityStatus.ERROR);
+      expect(result.error).toBe('Network error during DNS lookup: no resolver answered');
+    });
+
+    test('should let per-call resolvers bypass consensus', async () => {
+      service.setConfig({ consensus: { resolvers: [filtering, filtering, filtering] } });
+
+      const result = await service.execute('example.com', [honest]);
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.consensus).toBeUndefined();
+    });
+  });
 });
\ No newline at end of file
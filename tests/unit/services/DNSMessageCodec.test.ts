@@ -0,0 +1,144 @@
+import { DNSMessageCodec } from '../../../src/services/dns/DNSMessageCodec';
+import { DNSRcode, DNSRecordType } from '../../../src/services/dns/IDNSMessage';
+import type { IDNSMessage, IDNSRecord } from '../../../src/services/dns/IDNSMessage';
+
+describe('DNSMessageCodec', () => {
+  let codec: DNSMessageCodec;
+
+  const response = (answers: IDNSRecord[], overrides: Partial<IDNSMessage> = {}): IDNSMessage => ({
+    ...codec.createQuery(0x1234, 'example.com', DNSRecordType.A),
+    response: true,
+    answers,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    codec = new DNSMessageCodec();
+  });
+
+  describe('createQuery', () => {
+    it('should encode a recursive query with EDNS', () => {
+      const wire = codec.encode(codec.createQuery(0xbeef, 'example.com', DNSRecordType.NS));
+
+      expect(wire.readUInt16BE(0)).toBe(0xbeef);
+      expect(wire.readUInt16BE(2)).toBe(0x0100); // RD only
+      expect(wire.readUInt16BE(4)).toBe(1); // one question
+      expect(wire.readUInt16BE(10)).toBe(1); // OPT record
+      expect(wire.subarray(12, 25).toString('latin1')).toBe('\x07example\x03com\x00');
+      expect(wire.readUInt16BE(25)).toBe(DNSRecordType.NS);
+    });
+
+    it('should clear RD and set DO when asked', () => {
+      const decoded = codec.decode(codec.encode(
+        codec.createQuery(1, 'example.com', DNSRecordType.A, { recursionDesired: false, dnssecOk: true })
+      ));
+
+      expect(decoded.flags.recursionDesired).toBe(false);
+      expect(decoded.edns).toEqual({ udpPayloadSize: DNSMessageCodec.DEFAULT_UDP_PAYLOAD_SIZE, version: 0, dnssecOk: true });
+    });
+  });
+
+  describe('record data', () => {
+    const record = (type: DNSRecordType, data: string): IDNSRecord =>
+      ({ name: 'example.com', type, class: 1, ttl: 300, data });
+
+    it.each([
+      [DNSRecordType.A, '192.0.2.1'],
+      [DNSRecordType.AAAA, '2001:db8::1'],
+      [DNSRecordType.NS, 'a.iana-servers.net'],
+      [DNSRecordType.MX, '10 mail.example.com'],
+      [DNSRecordType.TXT, 'v=spf1 -all'],
+      [DNSRecordType.SOA, 'ns.icann.org noc.dns.icann.org 2024080801 7200 3600 1209600 3600'],
+      [DNSRecordType.DS, '370 13 2 BE74359954660069D5C63D200C39F5603827D7DD02B56F120EE9F3A86764247C']
+    ])('should round-trip type %s', (type, data) => {
+      const decoded = codec.decode(codec.encode(response([record(type, data)])));
+
+      expect(decoded.answers).toEqual([record(type, data)]);
+    });
+
+    it('should split long TXT data into character-strings', () => {
+      const text = 'x'.repeat(300);
+      const wire = codec.encode(response([record(DNSRecordType.TXT, text)]));
+
+      expect(codec.decode(wire).answers[0]?.data).toBe(text);
+    });
+
+    it('should use the generic form for unknown types', () => {
+      const decoded = codec.decode(codec.encode(response([{ ...record(DNSRecordType.A, ''), type: 99, data: '\\# 2 abcd' }])));
+
+      expect(decoded.answers[0]?.data).toBe('\\# 2 abcd');
+    });
+
+    it('should format IPv6 addresses in RFC 5952 form', () => {
+      const decode = (address: string) =>
+        codec.decode(codec.encode(response([record(DNSRecordType.AAAA, address)]))).answers[0]?.data;
+
+      expect(decode('2001:0db8:0000:0000:0001:0000:0000:0001')).toBe('2001:db8::1:0:0:1');
+      expect(decode('::ffff:192.0.2.1')).toBe('::ffff:c000:201');
+      expect(decode('2001:db8:0:1:1:1:1:1')).toBe('2001:db8:0:1:1:1:1:1');
+    });
+
+    it('should reject data that does not match the type', () => {
+      expect(() => codec.encode(response([record(DNSRecordType.A, 'not-an-address')])))
+        .toThrow('Invalid A record data: not-an-address');
+      expect(() => codec.encode(response([record(DNSRecordType.MX, 'mail.example.com')])))
+        .toThrow('Invalid MX record data');
+    });
+  });
+
+  describe('decode', () => {
+    it('should follow compression pointers', () => {
+      const header = Buffer.from([0x12, 0x34, 0x81, 0x80, 0, 1, 0, 1, 0, 0, 0, 0]);
+      const question = Buffer.from('\x07example\x03com\x00\x00\x02\x00\x01', 'latin1');
+      // NS a.iana-servers.net, with "iana-servers.net" spelled out and the owner pointing at the question
+      const answer = Buffer.concat([
+        Buffer.from([0xc0, 12, 0, 2, 0, 1, 0, 0, 0x0e, 0x10, 0, 20]),
+        Buffer.from('\x01a\x0ciana-servers\x03net\x00', 'latin1')
+      ]);
+
+      const decoded = codec.decode(Buffer.concat([header, question, answer]));
+
+      expect(decoded.response).toBe(true);
+      expect(decoded.flags.recursionAvailable).toBe(true);
+      expect(decoded.questions).toEqual([{ name: 'example.com', type: DNSRecordType.NS, class: 1 }]);
+      expect(decoded.answers).toEqual([{ name: 'example.com', type: DNSRecordType.NS, class: 1, ttl: 3600, data: 'a.iana-servers.net' }]);
+    });
+
+    it('should reject pointer loops', () => {
+      const header = Buffer.from([0, 1, 0x80, 0, 0, 1, 0, 0, 0, 0, 0, 0]);
+      const loop = Buffer.from([0xc0, 12, 0, 1, 0, 1]);
+
+      expect(() => codec.decode(Buffer.concat([header, loop]))).toThrow(/Malformed DNS message/);
+    });
+
+    it('should reject truncated messages', () => {
+      const wire = codec.encode(response([{ name: 'example.com', type: DNSRecordType.A, class: 1, ttl: 60, data: '192.0.2.1' }]));
+
+      expect(() => codec.decode(wire.subarray(0, 20))).toThrow('Malformed DNS message: unexpected end of data');
+      expect(() => codec.decode(wire.subarray(0, wire.length - 15))).toThrow('Malformed DNS message: record data exceeds message length');
+    });
+
+    it('should read the header flags and the extended rcode from OPT', () => {
+      const message = response([], {
+        rcode: DNSRcode.BADVERS,
+        flags: { ...codec.createQuery(1, 'example.com', DNSRecordType.A).flags, authenticData: true }
+      });
+
+      const decoded = codec.decode(codec.encode(message));
+
+      expect(decoded.rcode).toBe(DNSRcode.BADVERS);
+      expect(decoded.flags.authenticData).toBe(true);
+      expect(decoded.additional).toEqual([]);
+      expect(codec.getRcodeName(decoded.rcode)).toBe('BADVERS');
+    });
+  });
+
+  describe('mnemonics', () => {
+    it('should name known and unknown codes', () => {
+      expect(codec.getRcodeName(3)).toBe('NXDOMAIN');
+      expect(codec.getRcodeName(11)).toBe('RCODE11');
+      expect(codec.getTypeName(28)).toBe('AAAA');
+      expect(codec.getTypeName(99)).toBe('TYPE99');
+    });
+  });
+});
\ No newline at end of file
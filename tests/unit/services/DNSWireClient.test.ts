@@ -0,0 +1,151 @@
+import dgram from 'dgram';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { DNSWireClient } from '../../../src/services/dns/DNSWireClient';
+import { DNSMessageCodec } from '../../../src/services/dns/DNSMessageCodec';
+import { DNSRcode, DNSRecordType } from '../../../src/services/dns/IDNSMessage';
+import type { IDNSMessage } from '../../../src/services/dns/IDNSMessage';
+
+type Handler = (query: IDNSMessage, transport: 'udp' | 'tcp') => IDNSMessage | null;
+
+describe('DNSWireClient', () => {
+  const codec = new DNSMessageCodec();
+  let client: DNSWireClient;
+
+  // Local server answering on the same port over UDP and TCP; a null answer drops the query
+  const startServer = async (handler: Handler) => {
+    const udp = dgram.createSocket('udp4');
+    udp.on('message', (data, remote) => {
+      const answer = handler(codec.decode(data), 'udp');
+      if (answer) {
+        udp.send(codec.encode(answer), remote.port, remote.address);
+      }
+    });
+    await new Promise<void>(resolve => udp.bind(0, '127.0.0.1', resolve));
+    const port = (udp.address() as AddressInfo).port;
+
+    const tcp = net.createServer(socket => {
+      socket.on('data', data => {
+        const answer = handler(codec.decode(data.subarray(2)), 'tcp');
+        if (answer) {
+          const wire = codec.encode(answer);
+          const length = Buffer.alloc(2);
+          length.writeUInt16BE(wire.length, 0);
+          socket.end(Buffer.concat([length, wire]));
+        }
+      });
+    });
+    await new Promise<void>(resolve => tcp.listen(port, '127.0.0.1', resolve));
+
+    return {
+      address: `127.0.0.1:${port}`,
+      close: async () => {
+        await new Promise<void>(resolve => udp.close(() => resolve()));
+        await new Promise<void>(resolve => tcp.close(() => resolve()));
+      }
+    };
+  };
+
+  const reply = (query: IDNSMessage, overrides: Partial<IDNSMessage> = {}): IDNSMessage => ({
+    ...query,
+    response: true,
+    flags: { ...query.flags, recursionAvailable: true },
+    ...overrides
+  });
+
+  const servers: Array<{ close: () => Promise<void> }> = [];
+  const serve = async (handler: Handler) => {
+    const server = await startServer(handler);
+    servers.push(server);
+    return server.address;
+  };
+
+  beforeEach(() => {
+    client = new DNSWireClient();
+  });
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => server.close()));
+  });
+
+  test('should return the response code, flags and answers', async () => {
+    const address = await serve(query => reply(query, {
+      flags: { ...query.flags, authenticData: true },
+      answers: [{ name: 'example.com', type: DNSRecordType.A, class: 1, ttl: 300, data: '192.0.2.1' }]
+    }));
+
+    const result = await client.query('example.com', DNSRecordType.A, { servers: [address], dnssecOk: true });
+
+    expect(result.server).toBe(address);
+    expect(result.transport).toBe('udp');
+    expect(result.rcode).toBe('NOERROR');
+    expect(result.message.flags.authenticData).toBe(true);
+    expect(result.message.answers.map(record => record.data)).toEqual(['192.0.2.1']);
+  });
+
+  test('should send the requested query options', async () => {
+    const queries: IDNSMessage[] = [];
+    const address = await serve(query => {
+      queries.push(query);
+      return reply(query, { rcode: DNSRcode.NXDOMAIN });
+    });
+
+    const result = await client.query('missing.com', DNSRecordType.NS, { servers: [address], recursionDesired: false, dnssecOk: true });
+
+    expect(result.rcode).toBe('NXDOMAIN');
+    expect(queries[0]?.questions).toEqual([{ name: 'missing.com', type: DNSRecordType.NS, class: 1 }]);
+    expect(queries[0]?.flags.recursionDesired).toBe(false);
+    expect(queries[0]?.edns?.dnssecOk).toBe(true);
+  });
+
+  test('should retry truncated responses over TCP', async () => {
+    const address = await serve((query, transport) => transport === 'udp'
+      ? reply(query, { flags: { ...query.flags, truncated: true } })
+      : reply(query, { answers: [{ name: 'example.com', type: DNSRecordType.TXT, class: 1, ttl: 300, data: 'x'.repeat(600) }] }));
+
+    const result = await client.query('example.com', DNSRecordType.TXT, { servers: [address] });
+
+    expect(result.transport).toBe('tcp');
+    expect(result.message.answers[0]?.data).toHaveLength(600);
+  });
+
+  test('should move on to the next server after SERVFAIL', async () => {
+    const failing = await serve(query => reply(query, { rcode: DNSRcode.SERVFAIL }));
+    const working = await serve(query => reply(query, { rcode: DNSRcode.NXDOMAIN }));
+
+    const result = await client.query('example.com', DNSRecordType.A, { servers: [failing, working] });
+
+    expect(result.server).toBe(working);
+    expect(result.rcode).toBe('NXDOMAIN');
+  });
+
+  test('should return SERVFAIL when no server does better', async () => {
+    const failing = await serve(query => reply(query, { rcode: DNSRcode.SERVFAIL }));
+
+    const result = await client.query('example.com', DNSRecordType.A, { servers: [failing] });
+
+    expect(result.rcode).toBe('SERVFAIL');
+  });
+
+  test('should ignore responses with the wrong ID', async () => {
+    const address = await serve(query => reply(query, { id: (query.id + 1) & 0xffff }));
+
+    await expect(client.query('example.com', DNSRecordType.A, { servers: [address], timeoutMs: 200 }))
+      .rejects.toThrow('DNS query for example.com failed: DNS query to 127.0.0.1 timed out after 200ms');
+  });
+
+  test('should fail over when a server does not answer', async () => {
+    const silent = await serve(() => null);
+    const working = await serve(query => reply(query));
+
+    const result = await client.query('example.com', DNSRecordType.A, { servers: [silent, working], timeoutMs: 200 });
+
+    expect(result.server).toBe(working);
+  });
+
+  test('should reject invalid configuration', async () => {
+    await expect(client.query('example.com', DNSRecordType.A, { servers: [] })).rejects.toThrow('No DNS servers configured');
+    await expect(client.query('example.com', DNSRecordType.A, { servers: ['dns.example.net'] }))
+      .rejects.toThrow('Invalid DNS server address: dns.example.net');
+  });
+});
\ No newline at end of file
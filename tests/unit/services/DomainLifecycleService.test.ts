@@ -0,0 +1,49 @@
+import { DomainLifecycleService } from '../../../src/services/DomainLifecycleService';
+import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
+
+describe('DomainLifecycleService', () => {
+  let lifecycle: DomainLifecycleService;
+
+  beforeEach(() => {
+    lifecycle = new DomainLifecycleService();
+  });
+
+  describe('deriveFromEPPStatuses', () => {
+    it('should map grace period EPP codes to lifecycle statuses', () => {
+      expect(lifecycle.deriveFromEPPStatuses(['autoRenewPeriod'])).toBe(AvailabilityStatus.EXPIRED);
+      expect(lifecycle.deriveFromEPPStatuses(['redemptionPeriod'])).toBe(AvailabilityStatus.REDEMPTION);
+      expect(lifecycle.deriveFromEPPStatuses(['pendingRestore'])).toBe(AvailabilityStatus.REDEMPTION);
+      expect(lifecycle.deriveFromEPPStatuses(['pendingDelete'])).toBe(AvailabilityStatus.PENDING_DELETE);
+    });
+
+    it('should prefer redemption when pendingDelete is reported alongside it', () => {
+      expect(lifecycle.deriveFromEPPStatuses(['pendingDelete', 'redemptionPeriod']))
+        .toBe(AvailabilityStatus.REDEMPTION);
+    });
+
+    it('should understand RDAP status strings', () => {
+      expect(lifecycle.deriveFromEPPStatuses(['pending delete', 'inactive'])).toBe(AvailabilityStatus.PENDING_DELETE);
+      expect(lifecycle.deriveFromEPPStatuses(['auto renew period'])).toBe(AvailabilityStatus.EXPIRED);
+    });
+
+    it('should return TAKEN for ordinary registrations', () => {
+      expect(lifecycle.deriveFromEPPStatuses(['clientTransferProhibited', 'serverHold'])).toBe(AvailabilityStatus.TAKEN);
+      expect(lifecycle.deriveFromEPPStatuses([])).toBe(AvailabilityStatus.TAKEN);
+    });
+  });
+
+  describe('resolveStatus', () => {
+    it('should refine taken results using WHOIS data', () => {
+      expect(lifecycle.resolveStatus(AvailabilityStatus.TAKEN, { status: ['redemptionPeriod'] }))
+        .toBe(AvailabilityStatus.REDEMPTION);
+    });
+
+    it('should leave other statuses and results without status data unchanged', () => {
+      expect(lifecycle.resolveStatus(AvailabilityStatus.AVAILABLE, { status: ['pendingDelete'] }))
+        .toBe(AvailabilityStatus.AVAILABLE);
+      expect(lifecycle.resolveStatus(AvailabilityStatus.TAKEN, { registrar: 'Example Registrar' }))
+        .toBe(AvailabilityStatus.TAKEN);
+      expect(lifecycle.resolveStatus(AvailabilityStatus.TAKEN)).toBe(AvailabilityStatus.TAKEN);
+    });
+  });
+});
\ No newline at end of file
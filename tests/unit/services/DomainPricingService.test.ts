@@ -9,10 +9,10 @@ describe('DomainPricingService', () => {
 
   describe('getDomainPricing', () => {
     it('should return pricing for supported TLD', () => {
-      const pricing = pricingService.getDomainPricing('example.com');
+      const pricing = pricingService.getDomainPricing('mybrand.com');
       
       expect(pricing).toBeDefined();
-      expect(pricing?.domain).toBe('example.com');
+      expect(pricing?.domain).toBe('mybrand.com');
       expect(pricing?.tld).toBe('.com');
       expect(pricing?.firstYearPrice).toBe(8.99);
       expect(pricing?.renewalPrice).toBe(14.99);
@@ -21,18 +21,43 @@ describe('DomainPricingService', () => {
     });
 
     it('should return pricing for premium TLD', () => {
-      const pricing = pricingService.getDomainPricing('example.ai');
+      const pricing = pricingService.getDomainPricing('mybrand.ai');
       
       expect(pricing).toBeDefined();
-      expect(pricing?.domain).toBe('example.ai');
+      expect(pricing?.domain).toBe('mybrand.ai');
       expect(pricing?.tld).toBe('.ai');
       expect(pricing?.firstYearPrice).toBe(79.99);
       expect(pricing?.renewalPrice).toBe(89.99);
       expect(pricing?.isPremium).toBe(true);
     });
 
+    it('should price second-level suffixes by their public suffix', () => {
+      const pricing = pricingService.getDomainPricing('mybrand.co.uk');
+      
+      expect(pricing?.tld).toBe('.co.uk');
+      expect(pricing?.firstYearPrice).toBe(5.98);
+      expect(pricingService.getDomainPricing('mybrand.uk')).toBeNull();
+    });
+
+    it('should price premium names by their tier', () => {
+      const pricing = pricingService.getDomainPricing('cloud.io');
+
+      expect(pricing?.tier).toBe('gold');
+      expect(pricing?.firstYearPrice).toBe(999);
+      expect(pricing?.isPremium).toBe(true);
+      expect(pricing?.notes).toBe('Premium name (gold tier) - "cloud" is on the .io premium list');
+      expect(pricingService.getDomainPricing('mybrand.io')?.tier).toBeUndefined();
+    });
+
+    it('should not price reserved names', () => {
+      expect(pricingService.getDomainPricing('nic.com')).toBeNull();
+      expect(pricingService.getDomainPricing('registry.org')).toBeNull();
+      expect(pricingService.getDomainPricing('x.com')).toBeNull();
+      expect(pricingService.getPriceComparison('whois.io')).toHaveLength(0);
+    });
+
     it('should return null for unsupported TLD', () => {
-      const pricing = pricingService.getDomainPricing('example.xyz');
+      const pricing = pricingService.getDomainPricing('mybrand.xyz');
       
       expect(pricing).toBeNull();
     });
@@ -48,34 +73,54 @@ describe('DomainPricingService', () => {
     it('should return all supported TLD pricing', () => {
       const allPricing = pricingService.getAllTLDPricing();
       
-      expect(allPricing).toHaveLength(19); // All 19 TLDs
+      expect(allPricing).toHaveLength(28); // All 19 TLDs and 9 second-level suffixes
       expect(allPricing.find(p => p.tld === '.com')).toBeDefined();
       expect(allPricing.find(p => p.tld === '.ai')).toBeDefined();
     });
   });
 
+  describe('setTLDPricing', () => {
+    const pricing = {
+      firstYear: 9.99,
+      renewal: 12.99,
+      registrar: 'Namecheap',
+      registrarUrl: 'https://www.namecheap.com',
+      isPremium: false
+    };
+
+    it('should add pricing for a second-level public suffix', () => {
+      pricingService.setTLDPricing('.com.mx', pricing);
+
+      expect(pricingService.getDomainPricing('mybrand.com.mx')?.firstYearPrice).toBe(9.99);
+    });
+
+    it('should reject suffixes that are not public suffixes', () => {
+      expect(() => pricingService.setTLDPricing('.example.com', pricing)).toThrow('.example.com is not a public suffix');
+    });
+  });
+
   describe('calculateMultiYearCost', () => {
     it('should calculate correct cost for single year', () => {
-      const cost = pricingService.calculateMultiYearCost('example.com', 1);
+      const cost = pricingService.calculateMultiYearCost('mybrand.com', 1);
       
       expect(cost).toBe(8.99);
     });
 
     it('should calculate correct cost for multiple years', () => {
-      const cost = pricingService.calculateMultiYearCost('example.com', 3);
+      const cost = pricingService.calculateMultiYearCost('mybrand.com', 3);
       
       // First year: 8.99, Next 2 years: 14.99 * 2 = 29.98, Total: 38.97
       expect(cost).toBe(38.97);
     });
 
     it('should return null for unsupported domain', () => {
-      const cost = pricingService.calculateMultiYearCost('example.xyz', 1);
+      const cost = pricingService.calculateMultiYearCost('mybrand.xyz', 1);
       
       expect(cost).toBeNull();
     });
 
     it('should return null for invalid years', () => {
-      const cost = pricingService.calculateMultiYearCost('example.com', 0);
+      const cost = pricingService.calculateMultiYearCost('mybrand.com', 0);
       
       expect(cost).toBeNull();
     });
@@ -83,7 +128,7 @@ describe('DomainPricingService', () => {
 
   describe('getPriceComparison', () => {
     it('should return price comparison for supported domain', () => {
-      const comparison = pricingService.getPriceComparison('example.com');
+      const comparison = pricingService.getPriceComparison('mybrand.com');
       
       expect(comparison).toHaveLength(3); // Namecheap, GoDaddy, Google Domains
       expect(comparison[0]?.registrar).toBe('Namecheap');
@@ -92,7 +137,7 @@ describe('DomainPricingService', () => {
     });
 
     it('should return empty array for unsupported domain', () => {
-      const comparison = pricingService.getPriceComparison('example.xyz');
+      const comparison = pricingService.getPriceComparison('mybrand.xyz');
       
       expect(comparison).toHaveLength(0);
     });
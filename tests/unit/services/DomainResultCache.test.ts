@@ -0,0 +1,178 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DomainResultCache } from '../../../src/services/DomainResultCache';
+import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
+import type { IDomainResult } from '../../../src/models';
+
+describe('DomainResultCache', () => {
+  let cache: DomainResultCache;
+
+  const createResult = (domain: string, status: AvailabilityStatus, overrides: Partial<IDomainResult> = {}): IDomainResult => ({
+    domain,
+    baseDomain: domain.split('.')[0]!,
+    tld: `.${domain.split('.').slice(1).join('.')}`,
+    status,
+    lastChecked: new Date('2026-10-01T12:00:00Z'),
+    checkMethod: 'HYBRID',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-10-01T12:00:00Z'));
+    cache = new DomainResultCache();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('get and set', () => {
+    it('should mark cache hits', () => {
+      cache.set('example.com', 'HybridQueryService', createResult('example.com', AvailabilityStatus.TAKEN));
+
+      const cached = cache.get('EXAMPLE.com', 'HybridQueryService');
+
+      expect(cached).toEqual(expect.objectContaining({
+        domain: 'example.com',
+        status: AvailabilityStatus.TAKEN,
+        cacheHit: true,
+        cachedAt: new Date('2026-10-01T12:00:00Z')
+      }));
+      expect(cache.getStats()).toEqual({ entries: 1, hits: 1, misses: 0 });
+    });
+
+    it('should keep results of different strategies apart', () => {
+      cache.set('example.com', 'DNSLookupService', createResult('example.com', AvailabilityStatus.AVAILABLE));
+
+      expect(cache.get('example.com', 'HybridQueryService')).toBeNull();
+      expect(cache.get('example.com', 'DNSLookupService')?.status).toBe(AvailabilityStatus.AVAILABLE);
+    });
+
+    it('should not cache results that are still being checked', () => {
+      expect(cache.set('example.com', 'HybridQueryService', createResult('example.com', AvailabilityStatus.CHECKING))).toBe(false);
+      expect(cache.getStats().entries).toBe(0);
+    });
+
+    it('should not store the cache markers of a cached result', () => {
+      cache.set('example.com', 'HybridQueryService', createResult('example.com', AvailabilityStatus.TAKEN));
+      const cached = cache.get('example.com', 'HybridQueryService')!;
+
+      jest.advanceTimersByTime(60 * 1000);
+      cache.set('example.com', 'HybridQueryService', { ...cached, cacheHit: false });
+
+      expect(cache.get('example.com', 'HybridQueryService')?.cachedAt).toEqual(new Date('2026-10-01T12:01:00Z'));
+    });
+  });
+
+  describe('expiry', () => {
+    it('should expire taken, available and error results separately', () => {
+      cache.set('taken.com', 'S', createResult('taken.com', AvailabilityStatus.TAKEN));
+      cache.set('free.com', 'S', createResult('free.com', AvailabilityStatus.AVAILABLE));
+      cache.set('failed.com', 'S', createResult('failed.com', AvailabilityStatus.ERROR));
+
+      jest.advanceTimersByTime(31 * 1000);
+      expect(cache.get('failed.com', 'S')).toBeNull();
+      expect(cache.get('free.com', 'S')).not.toBeNull();
+
+      jest.advanceTimersByTime(5 * 60 * 1000);
+      expect(cache.get('free.com', 'S')).toBeNull();
+      expect(cache.get('taken.com', 'S')).not.toBeNull();
+
+      jest.advanceTimersByTime(6 * 60 * 60 * 1000);
+      expect(cache.get('taken.com', 'S')).toBeNull();
+    });
+
+    it('should treat lifecycle statuses as registered', () => {
+      expect(cache.getTTL(createResult('example.com', AvailabilityStatus.REDEMPTION))).toBe(DomainResultCache.DEFAULT_TTLS.takenMs);
+      expect(cache.getTTL(createResult('example.com', AvailabilityStatus.UNKNOWN))).toBe(DomainResultCache.DEFAULT_TTLS.errorMs);
+    });
+
+    it('should not outlive the DNS answer', () => {
+      const result = createResult('free.com', AvailabilityStatus.AVAILABLE, { dnsTtl: 60 });
+
+      expect(cache.getTTL(result)).toBe(60 * 1000);
+      expect(cache.getTTL({ ...result, dnsTtl: 86400 })).toBe(DomainResultCache.DEFAULT_TTLS.availableMs);
+    });
+
+    it('should accept custom TTLs', () => {
+      cache = new DomainResultCache({ ttls: { availableMs: 1000 } });
+
+      expect(cache.getTTLs()).toEqual({ ...DomainResultCache.DEFAULT_TTLS, availableMs: 1000 });
+    });
+  });
+
+  describe('eviction', () => {
+    it('should evict the least recently used entry', () => {
+      cache = new DomainResultCache({ maxEntries: 2 });
+      cache.set('a.com', 'S', createResult('a.com', AvailabilityStatus.TAKEN));
+      cache.set('b.com', 'S', createResult('b.com', AvailabilityStatus.TAKEN));
+      cache.get('a.com', 'S');
+      cache.set('c.com', 'S', createResult('c.com', AvailabilityStatus.TAKEN));
+
+      expect(cache.get('b.com', 'S')).toBeNull();
+      expect(cache.get('a.com', 'S')).not.toBeNull();
+      expect(cache.get('c.com', 'S')).not.toBeNull();
+    });
+
+    it('should invalidate a domain for one or all strategies', () => {
+      cache.set('example.com', 'DNSLookupService', createResult('example.com', AvailabilityStatus.TAKEN));
+      cache.set('example.com', 'HybridQueryService', createResult('example.com', AvailabilityStatus.TAKEN));
+      cache.set('example.net', 'HybridQueryService', createResult('example.net', AvailabilityStatus.TAKEN));
+
+      expect(cache.invalidate('example.com', 'DNSLookupService')).toBe(1);
+      expect(cache.invalidate('example.com')).toBe(1);
+      expect(cache.getStats().entries).toBe(1);
+    });
+  });
+
+  describe('disk backing', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'result-cache-'));
+      filePath = path.join(directory, 'cache.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should persist results and restore them with their dates', async () => {
+      cache.loadFromFile(filePath);
+      cache.set('example.com', 'HybridQueryService', createResult('example.com', AvailabilityStatus.TAKEN, {
+        whoisData: { expirationDate: new Date('2027-08-13T04:00:00Z') }
+      }));
+      await cache.flush();
+
+      const restored = new DomainResultCache();
+      restored.loadFromFile(filePath);
+      const cached = restored.get('example.com', 'HybridQueryService');
+
+      expect(cached?.lastChecked).toEqual(new Date('2026-10-01T12:00:00Z'));
+      expect(cached?.whoisData?.expirationDate).toEqual(new Date('2027-08-13T04:00:00Z'));
+    });
+
+    it('should skip entries that expired while stored', async () => {
+      cache.loadFromFile(filePath);
+      cache.set('free.com', 'S', createResult('free.com', AvailabilityStatus.AVAILABLE));
+      cache.set('taken.com', 'S', createResult('taken.com', AvailabilityStatus.TAKEN));
+      await cache.flush();
+
+      jest.advanceTimersByTime(10 * 60 * 1000);
+      const restored = new DomainResultCache();
+      restored.loadFromFile(filePath);
+
+      expect(restored.getStats().entries).toBe(1);
+      expect(restored.get('taken.com', 'S')).not.toBeNull();
+    });
+
+    it('should reject files that are not cache files', () => {
+      fs.writeFileSync(filePath, JSON.stringify({ entries: {} }));
+
+      expect(() => cache.loadFromFile(filePath)).toThrow(`Invalid result cache file: ${filePath}`);
+    });
+  });
+});
\ No newline at end of file
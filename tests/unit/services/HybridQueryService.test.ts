@@ -1,7 +1,10 @@
 import { HybridQueryService } from '../../../src/services/HybridQueryService';
 import { DNSLookupService } from '../../../src/services/DNSLookupService';
 import { WHOISQueryService } from '../../../src/services/WHOISQueryService';
+import { RDAPQueryService } from '../../../src/services/RDAPQueryService';
 import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
+import { LatencyTracker } from '../../../src/services/latency/LatencyTracker';
+import type { IStrategyConfig } from '../../../src/patterns/strategy/IQueryStrategy';
 import type { IDomainResult } from '../../../src/models';
 
 // Mock the whois module first
@@ -12,14 +15,17 @@ jest.mock('whois', () => ({
 // Mock the underlying services
 jest.mock('../../../src/services/DNSLookupService');
 jest.mock('../../../src/services/WHOISQueryService');
+jest.mock('../../../src/services/RDAPQueryService');
 
 const MockedDNSService = jest.mocked(DNSLookupService);
 const MockedWHOISService = jest.mocked(WHOISQueryService);
+const MockedRDAPService = jest.mocked(RDAPQueryService);
 
 describe('HybridQueryService', () => {
   let service: HybridQueryService;
   let mockDnsService: jest.Mocked<DNSLookupService>;
   let mockWhoisService: jest.Mocked<WHOISQueryService>;
+  let mockRdapService: jest.Mocked<RDAPQueryService>;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -31,21 +37,33 @@ describe('HybridQueryService', () => {
       getPriority: jest.fn(),
       getName: jest.fn(),
       getConfig: jest.fn(),
-      setConfig: jest.fn()
+      setConfig: jest.fn(),
+      setWildcardDetection: jest.fn(),
+      getWildcardDetection: jest.fn(),
+      isUpstreamAvailable: jest.fn().mockReturnValue(true)
     } as any;
 
     mockWhoisService = {
       execute: jest.fn(),
-      canHandle: jest.fn(),
+      canHandle: jest.fn().mockReturnValue(true),
       getPriority: jest.fn(),
       getName: jest.fn(),
       getConfig: jest.fn(),
-      setConfig: jest.fn()
+      setConfig: jest.fn(),
+      isUpstreamAvailable: jest.fn().mockReturnValue(true)
+    } as any;
+
+    mockRdapService = {
+      execute: jest.fn(),
+      canHandle: jest.fn().mockReturnValue(true),
+      setConfig: jest.fn(),
+      isUpstreamAvailable: jest.fn().mockReturnValue(true)
     } as any;
 
     // Mock constructors to return our mock instances
     MockedDNSService.mockImplementation(() => mockDnsService);
     MockedWHOISService.mockImplementation(() => mockWhoisService);
+    MockedRDAPService.mockImplementation(() => mockRdapService);
 
     service = new HybridQueryService();
   });
@@ -205,6 +223,102 @@ describe('HybridQueryService', () => {
       expect(result.checkMethod).toBe('HYBRID');
       expect(result.error).toBe('Both DNS and WHOIS queries failed');
     });
+
+    test('should keep the rate limit error type when no source could answer', async () => {
+      const failed = (checkMethod: 'DNS' | 'WHOIS', error: string): IDomainResult => ({
+        domain: 'example.com',
+        baseDomain: 'example',
+        tld: '.com',
+        status: AvailabilityStatus.ERROR,
+        lastChecked: new Date(),
+        checkMethod,
+        error
+      });
+
+      mockDnsService.execute.mockResolvedValue(failed('DNS', 'Network error during DNS lookup'));
+      mockWhoisService.execute.mockResolvedValue({
+        ...failed('WHOIS', 'WHOIS rate limit exceeded at whois.verisign-grs.com'),
+        errorType: 'RATE_LIMIT'
+      });
+
+      const result = await service.execute('example.com');
+
+      expect(result.status).toBe(AvailabilityStatus.ERROR);
+      expect(result.errorType).toBe('RATE_LIMIT');
+    });
+  });
+
+  describe('Circuit Breaker Routing', () => {
+    const result = (checkMethod: 'DNS' | 'WHOIS' | 'RDAP', status: AvailabilityStatus): IDomainResult => ({
+      domain: 'example.com',
+      baseDomain: 'example',
+      tld: '.com',
+      status,
+      lastChecked: new Date(),
+      checkMethod,
+      retryCount: 0,
+      executionTime: 100
+    });
+
+    test('should not query DNS while its circuit is open', async () => {
+      mockDnsService.isUpstreamAvailable.mockReturnValue(false);
+      mockWhoisService.execute.mockResolvedValue(result('WHOIS', AvailabilityStatus.TAKEN));
+
+      const hybridResult = await service.execute('example.com');
+
+      expect(mockDnsService.execute).not.toHaveBeenCalled();
+      expect(hybridResult.status).toBe(AvailabilityStatus.TAKEN);
+      expect(hybridResult.error).toContain('circuit open');
+    });
+
+    test('should ask RDAP while the WHOIS circuit is open', async () => {
+      mockWhoisService.isUpstreamAvailable.mockReturnValue(false);
+      mockDnsService.execute.mockResolvedValue(result('DNS', AvailabilityStatus.AVAILABLE));
+      mockRdapService.execute.mockResolvedValue(result('RDAP', AvailabilityStatus.AVAILABLE));
+
+      const hybridResult = await service.execute('example.com');
+
+      expect(mockWhoisService.execute).not.toHaveBeenCalled();
+      expect(mockRdapService.execute).toHaveBeenCalledWith('example.com');
+      expect(hybridResult.status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(hybridResult.evidence?.some(evidence => evidence.source === 'RDAP')).toBe(true);
+    });
+
+    test('should ask RDAP for TLDs without a WHOIS server', async () => {
+      mockWhoisService.canHandle.mockReturnValue(false);
+      mockDnsService.execute.mockResolvedValue(result('DNS', AvailabilityStatus.TAKEN));
+      mockRdapService.execute.mockResolvedValue(result('RDAP', AvailabilityStatus.TAKEN));
+
+      const hybridResult = await service.execute('example.com');
+
+      expect(mockWhoisService.execute).not.toHaveBeenCalled();
+      expect(mockRdapService.execute).toHaveBeenCalledWith('example.com');
+      expect(hybridResult.evidence?.some(evidence => evidence.source === 'RDAP')).toBe(true);
+    });
+
+    test('should let WHOIS report TLDs without any registry endpoint', async () => {
+      mockWhoisService.canHandle.mockReturnValue(false);
+      mockRdapService.canHandle.mockReturnValue(false);
+      mockDnsService.execute.mockResolvedValue(result('DNS', AvailabilityStatus.TAKEN));
+      mockWhoisService.execute.mockResolvedValue(result('WHOIS', AvailabilityStatus.UNKNOWN));
+
+      await service.execute('example.com');
+
+      expect(mockWhoisService.execute).toHaveBeenCalledWith('example.com');
+      expect(mockRdapService.execute).not.toHaveBeenCalled();
+    });
+
+    test('should fall back to DNS alone when no registry source is available', async () => {
+      mockWhoisService.isUpstreamAvailable.mockReturnValue(false);
+      mockRdapService.isUpstreamAvailable.mockReturnValue(false);
+      mockDnsService.execute.mockResolvedValue(result('DNS', AvailabilityStatus.TAKEN));
+
+      const hybridResult = await service.execute('example.com');
+
+      expect(mockWhoisService.execute).not.toHaveBeenCalled();
+      expect(mockRdapService.execute).not.toHaveBeenCalled();
+      expect(hybridResult.status).toBe(AvailabilityStatus.TAKEN);
+    });
   });
 
   describe('Hybrid Status Logic', () => {
@@ -301,6 +415,147 @@ describe('HybridQueryService', () => {
 
       expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
     });
+
+    test('should keep WHOIS lifecycle states when the domain has no DNS', async () => {
+      const dnsResult: IDomainResult = {
+        domain: 'example.com',
+        baseDomain: 'example',
+        tld: '.com',
+        status: AvailabilityStatus.AVAILABLE,
+        lastChecked: new Date(),
+        checkMethod: 'DNS',
+        retryCount: 0,
+        executionTime: 100
+      };
+
+      const whoisResult: IDomainResult = {
+        domain: 'example.com',
+        baseDomain: 'example',
+        tld: '.com',
+        status: AvailabilityStatus.REDEMPTION,
+        lastChecked: new Date(),
+        checkMethod: 'WHOIS',
+        retryCount: 0,
+        executionTime: 200,
+        whoisData: { status: ['redemptionPeriod', 'pendingDelete'] }
+      };
+
+      mockDnsService.execute.mockResolvedValue(dnsResult);
+      mockWhoisService.execute.mockResolvedValue(whoisResult);
+
+      const result = await service.execute('example.com');
+
+      expect(result.status).toBe(AvailabilityStatus.REDEMPTION);
+      expect(result.whoisData?.status).toEqual(['redemptionPeriod', 'pendingDelete']);
+    });
+  });
+
+  describe('Evidence Weighting', () => {
+    const createResult = (checkMethod: 'DNS' | 'WHOIS', overrides: Partial<IDomainResult>): IDomainResult => ({
+      domain: 'example.com',
+      baseDomain: 'example',
+      tld: '.com',
+      status: AvailabilityStatus.AVAILABLE,
+      lastChecked: new Date(),
+      checkMethod,
+      retryCount: 0,
+      executionTime: 100,
+      ...overrides
+    });
+
+    test('should only report DNS-based availability as likely', async () => {
+      mockDnsService.execute.mockResolvedValue(createResult('DNS', {
+        evidence: [{ source: 'DNS', status: AvailabilityStatus.AVAILABLE, confidence: 0.5, detail: 'No records' }]
+      }));
+      mockWhoisService.execute.mockRejectedValue(new Error('WHOIS lookup failed'));
+
+      const result = await service.execute('example.com');
+
+      expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(result.confidence).toBe(0.5);
+      expect(result.verdictBasis).toBe('dns');
+      expect(result.verdict).toBe('Likely available (DNS only)');
+    });
+
+    test('should confirm availability when the registry agrees with DNS', async () => {
+      mockDnsService.execute.mockResolvedValue(createResult('DNS', {
+        evidence: [{ source: 'DNS', status: AvailabilityStatus.AVAILABLE, confidence: 0.5, detail: 'No records' }]
+      }));
+      mockWhoisService.execute.mockResolvedValue(createResult('WHOIS', {
+        evidence: [{ source: 'WHOIS', status: AvailabilityStatus.AVAILABLE, confidence: 0.95, detail: 'No match' }]
+      }));
+
+      const result = await service.execute('example.com');
+
+      expect(result.confidence).toBe(0.95);
+      expect(result.verdictBasis).toBe('registry');
+      expect(result.verdict).toBe('Confirmed available (registry)');
+      expect(result.evidence?.map(item => item.source)).toEqual(['DNS', 'WHOIS']);
+    });
+
+    test('should let registry evidence outweigh DNS with lower confidence', async () => {
+      mockDnsService.execute.mockResolvedValue(createResult('DNS', {
+        status: AvailabilityStatus.TAKEN,
+        evidence: [{ source: 'DNS', status: AvailabilityStatus.TAKEN, confidence: 0.9, detail: 'Found NS records' }]
+      }));
+      mockWhoisService.execute.mockResolvedValue(createResult('WHOIS', {
+        evidence: [{ source: 'WHOIS', status: AvailabilityStatus.AVAILABLE, confidence: 0.95, detail: 'No match' }]
+      }));
+
+      const result = await service.execute('example.com');
+
+      expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(result.confidence).toBeLessThan(0.95);
+      expect(result.confidence).toBeGreaterThan(0.5);
+    });
+
+    test('should derive evidence for results that carry none', async () => {
+      mockDnsService.execute.mockResolvedValue(createResult('DNS', {}));
+      mockWhoisService.execute.mockResolvedValue(createResult('WHOIS', { status: AvailabilityStatus.TAKEN }));
+
+      const result = await service.execute('example.com');
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.evidence).toEqual([
+        expect.objectContaining({ source: 'DNS', status: AvailabilityStatus.AVAILABLE }),
+        expect.objectContaining({ source: 'WHOIS', status: AvailabilityStatus.TAKEN })
+      ]);
+    });
+
+    test('should let the registry decide when DNS resolvers disagree', async () => {
+      const consensus = {
+        quorum: 2,
+        agreeing: 1,
+        responded: 2,
+        reached: false,
+        disagreement: true,
+        votes: [
+          { resolver: '1.1.1.1', status: AvailabilityStatus.TAKEN, rcode: 'NOERROR' },
+          { resolver: '8.8.8.8', status: AvailabilityStatus.AVAILABLE, rcode: 'NXDOMAIN' },
+          { resolver: '9.9.9.9', status: AvailabilityStatus.ERROR, error: 'timeout' }
+        ]
+      };
+      mockDnsService.execute.mockResolvedValue(createResult('DNS', { status: AvailabilityStatus.UNKNOWN, consensus }));
+      mockWhoisService.execute.mockResolvedValue(createResult('WHOIS', { status: AvailabilityStatus.TAKEN }));
+
+      const result = await service.execute('example.com');
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.consensus).toBe(consensus);
+    });
+
+    test('should recognize parked domains from WHOIS name servers', async () => {
+      mockDnsService.execute.mockResolvedValue(createResult('DNS', {}));
+      mockWhoisService.execute.mockResolvedValue(createResult('WHOIS', {
+        status: AvailabilityStatus.TAKEN,
+        whoisData: { nameServers: ['NS1.BODIS.COM', 'NS2.BODIS.COM'] }
+      }));
+
+      const result = await service.execute('example.com');
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.parked).toEqual({ provider: 'Bodis', matchedBy: 'nameserver', value: 'ns1.bodis.com' });
+    });
   });
 
   describe('Configuration Management', () => {
@@ -311,6 +566,14 @@ describe('HybridQueryService', () => {
       expect(mockWhoisService.setConfig).toHaveBeenCalledWith({ timeoutMs: 4000 });
     });
 
+    test('should pass consensus settings to the DNS service', () => {
+      const consensus = { resolvers: ['1.1.1.1', '8.8.8.8', '9.9.9.9'] };
+      service.setConfig({ consensus });
+
+      expect(mockDnsService.setConfig).toHaveBeenCalledWith({ consensus });
+      expect(mockWhoisService.setConfig).not.toHaveBeenCalledWith({ consensus });
+    });
+
     test('should manage concurrent timeout separately', () => {
       service.setConcurrentTimeout(3000);
 
@@ -464,6 +727,67 @@ describe('HybridQueryService', () => {
     });
   });
 
+  describe('Adaptive Timeouts', () => {
+    // Timeout each source's service had when it was asked, by domain
+    let timeouts: Map<string, number[]>;
+
+    const mockService = (checkMethod: 'DNS' | 'WHOIS' | 'RDAP') => {
+      let config = { timeoutMs: 10000, maxRetries: 3, retryDelayMs: 1000 } as IStrategyConfig;
+      return {
+        execute: jest.fn(async (domain: string): Promise<IDomainResult> => {
+          timeouts.set(domain, [...(timeouts.get(domain) || []), config.timeoutMs]);
+          return {
+            domain,
+            baseDomain: 'example',
+            tld: `.${domain.split('.')[1]}`,
+            status: AvailabilityStatus.AVAILABLE,
+            lastChecked: new Date(),
+            checkMethod,
+            retryCount: 0,
+            executionTime: 100
+          };
+        }),
+        canHandle: jest.fn().mockReturnValue(true),
+        getConfig: jest.fn(() => ({ ...config })),
+        setConfig: jest.fn((update: Partial<IStrategyConfig>) => { config = { ...config, ...update }; }),
+        setWildcardDetection: jest.fn(),
+        getWildcardDetection: jest.fn(),
+        isUpstreamAvailable: jest.fn().mockReturnValue(true)
+      } as any;
+    };
+
+    beforeEach(() => {
+      timeouts = new Map();
+      // Every service instance gets a configuration of its own
+      MockedDNSService.mockImplementation(() => mockService('DNS'));
+      MockedWHOISService.mockImplementation(() => mockService('WHOIS'));
+      MockedRDAPService.mockImplementation(() => mockService('RDAP'));
+    });
+
+    test('should query a slow TLD with the timeouts derived from its latency', async () => {
+      const tracker = new LatencyTracker();
+      for (let i = 0; i < 20; i++) {
+        tracker.record('.io', 'DNS', 4000);
+        tracker.record('.io', 'WHOIS', 8000);
+      }
+      const adaptiveService = new HybridQueryService(tracker);
+
+      await adaptiveService.execute('example.io');
+      await adaptiveService.execute('example.com');
+
+      // p95 x 1.5, and the fixed 5 second timeout for TLDs without enough samples
+      expect(timeouts.get('example.io')).toEqual([tracker.getAdaptiveConfig('.io', 'DNS')!.timeoutMs, 12000]);
+      expect(tracker.getAdaptiveConfig('.io', 'DNS')!.timeoutMs).toBeGreaterThan(5000);
+      expect(timeouts.get('example.com')).toEqual([5000, 5000]);
+    });
+
+    test('should keep the fixed timeouts without a latency tracker', async () => {
+      await new HybridQueryService().execute('example.io');
+
+      expect(timeouts.get('example.io')).toEqual([5000, 5000]);
+    });
+  });
+
   describe('Service Integration', () => {
     test('should configure underlying services on construction', () => {
       expect(MockedDNSService).toHaveBeenCalled();
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LatencyTracker } from '../../../src/services/latency/LatencyTracker';
+import { LatencyHistogram } from '../../../src/services/latency/LatencyHistogram';
+import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
+import type { IDomainResult } from '../../../src/models';
+
+describe('LatencyTracker', () => {
+  let tracker: LatencyTracker;
+
+  const recordMany = (tld: string, source: IDomainResult['checkMethod'], latencies: number[]) => {
+    latencies.forEach(latency => tracker.record(tld, source, latency));
+  };
+
+  beforeEach(() => {
+    tracker = new LatencyTracker({ minSamples: 10 });
+  });
+
+  describe('LatencyHistogram', () => {
+    test('should report percentiles as bucket upper bounds', () => {
+      const histogram = new LatencyHistogram();
+      for (let i = 1; i <= 100; i++) {
+        histogram.record(i * 10);
+      }
+
+      expect(histogram.getCount()).toBe(100);
+      expect(histogram.getPercentile(50)).toBe(500);
+      expect(histogram.getPercentile(95)).toBe(1000);
+      expect(histogram.getMean()).toBe(505);
+      expect(histogram.getMax()).toBe(1000);
+    });
+
+    test('should cap percentiles at the slowest sample', () => {
+      const histogram = new LatencyHistogram();
+      histogram.record(120);
+      histogram.record(45000);
+
+      expect(histogram.getPercentile(50)).toBe(150);
+      expect(histogram.getPercentile(99)).toBe(45000);
+      expect(new LatencyHistogram().getPercentile(95)).toBe(0);
+    });
+  });
+
+  describe('Adaptive configuration', () => {
+    test('should not adapt before enough samples are recorded', () => {
+      recordMany('.io', 'WHOIS', Array(9).fill(2000));
+
+      expect(tracker.getAdaptiveConfig('.io', 'WHOIS')).toBeNull();
+    });
+
+    test('should derive the timeout from the p95 latency with headroom', () => {
+      recordMany('.io', 'WHOIS', [...Array(18).fill(400), 2800, 3000]);
+
+      expect(tracker.getAdaptiveConfig('.io', 'WHOIS')).toEqual({
+        timeoutMs: 4500,
+        maxRetries: 3,
+        retryDelayMs: 400
+      });
+    });
+
+    test('should clamp timeouts and give slow sources fewer retries', () => {
+      recordMany('.com', 'DNS', Array(10).fill(20));
+      recordMany('.ai', 'WHOIS', Array(10).fill(25000));
+
+      expect(tracker.getAdaptiveConfig('.com', 'DNS')).toEqual({ timeoutMs: 1000, maxRetries: 3, retryDelayMs: 250 });
+      expect(tracker.getAdaptiveConfig('.ai', 'WHOIS')).toEqual({ timeoutMs: 15000, maxRetries: 0, retryDelayMs: 2000 });
+    });
+
+    test('should keep sources and TLDs apart', () => {
+      recordMany('.io', 'WHOIS', Array(10).fill(3000));
+
+      expect(tracker.getAdaptiveConfig('.IO', 'WHOIS')).not.toBeNull();
+      expect(tracker.getAdaptiveConfig('.io', 'DNS')).toBeNull();
+      expect(tracker.getAdaptiveConfig('.ai', 'WHOIS')).toBeNull();
+    });
+  });
+
+  describe('Recording results', () => {
+    test('should record hybrid results under each source behind them', () => {
+      tracker.recordResult({
+        domain: 'example.io',
+        baseDomain: 'example',
+        tld: '.io',
+        status: AvailabilityStatus.TAKEN,
+        lastChecked: new Date(),
+        checkMethod: 'HYBRID',
+        executionTime: 900,
+        responseTime: 850,
+        evidence: [
+          { source: 'DNS', status: AvailabilityStatus.TAKEN, confidence: 0.6, detail: 'NOERROR', executionTime: 40, responseTime: 40 },
+          { source: 'DNS', status: AvailabilityStatus.TAKEN, confidence: 0.6, detail: 'NOERROR', executionTime: 70, responseTime: 70 },
+          { source: 'WHOIS', status: AvailabilityStatus.TAKEN, confidence: 0.9, detail: 'Registered', executionTime: 850, responseTime: 850 }
+        ]
+      });
+
+      expect(tracker.getStats().map(stats => [stats.source, stats.samples, stats.maxMs])).toEqual([
+        ['DNS', 1, 70],
+        ['HYBRID', 1, 850],
+        ['WHOIS', 1, 850]
+      ]);
+    });
+
+    test('should record the response time rather than the time spent queueing and retrying', () => {
+      tracker.recordResult({
+        domain: 'example.io',
+        baseDomain: 'example',
+        tld: '.io',
+        status: AvailabilityStatus.TAKEN,
+        lastChecked: new Date(),
+        checkMethod: 'WHOIS',
+        executionTime: 12000,
+        responseTime: 300
+      });
+      tracker.recordResult({
+        domain: 'timeout.io',
+        baseDomain: 'timeout',
+        tld: '.io',
+        status: AvailabilityStatus.ERROR,
+        lastChecked: new Date(),
+        checkMethod: 'WHOIS',
+        executionTime: 40000,
+        error: 'WHOIS lookup timeout after 10000ms'
+      });
+
+      expect(tracker.getStats().map(stats => [stats.source, stats.samples, stats.maxMs])).toEqual([['WHOIS', 1, 300]]);
+    });
+  });
+
+  describe('Stats', () => {
+    test('should summarize every TLD and source', () => {
+      recordMany('.io', 'WHOIS', Array(10).fill(1000));
+      recordMany('.com', 'DNS', [30]);
+
+      expect(tracker.getStats()).toEqual([
+        { tld: '.com', source: 'DNS', samples: 1, meanMs: 30, p50Ms: 30, p95Ms: 30, p99Ms: 30, maxMs: 30, adaptive: null },
+        {
+          tld: '.io',
+          source: 'WHOIS',
+          samples: 10,
+          meanMs: 1000,
+          p50Ms: 1000,
+          p95Ms: 1000,
+          p99Ms: 1000,
+          maxMs: 1000,
+          adaptive: { timeoutMs: 1500, maxRetries: 3, retryDelayMs: 1000 }
+        }
+      ]);
+    });
+  });
+
+  describe('Persistence', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'latency-stats-'));
+      filePath = path.join(directory, 'latency.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('should restore histograms written by a previous run', async () => {
+      tracker.loadFromFile(filePath);
+      recordMany('.io', 'WHOIS', Array(10).fill(2000));
+      await tracker.flush();
+
+      const restored = new LatencyTracker({ minSamples: 10 });
+      restored.loadFromFile(filePath);
+
+      expect(restored.getStats()).toEqual(tracker.getStats());
+      expect(restored.getAdaptiveConfig('.io', 'WHOIS')).toEqual({ timeoutMs: 3000, maxRetries: 3, retryDelayMs: 2000 });
+    });
+
+    test('should reject files in an unknown format', () => {
+      fs.writeFileSync(filePath, JSON.stringify({ version: 99, histograms: [] }));
+
+      expect(() => tracker.loadFromFile(filePath)).toThrow(`Invalid latency stats file: ${filePath}`);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { ParkedDomainService } from '../../../src/services/ParkedDomainService';
+
+describe('ParkedDomainService', () => {
+  let service: ParkedDomainService;
+
+  beforeEach(() => {
+    service = new ParkedDomainService({
+      providers: [
+        { name: 'Sedo', nameServers: ['sedoparking.com'], addressRanges: ['91.195.240.0/23'] },
+        { name: 'Dan.com', nameServers: ['dan.com'], addressRanges: ['192.0.2.7'] }
+      ]
+    });
+  });
+
+  it('should match name servers by domain suffix', () => {
+    expect(service.classify(['NS1.SEDOPARKING.COM.'], [])).toEqual({
+      provider: 'Sedo',
+      matchedBy: 'nameserver',
+      value: 'ns1.sedoparking.com'
+    });
+    expect(service.classify(['ns1.notsedoparking.com'], [])).toBeNull();
+  });
+
+  it('should match addresses inside a range', () => {
+    expect(service.classify([], ['91.195.241.137'])?.provider).toBe('Sedo');
+    expect(service.classify([], ['91.195.242.1'])).toBeNull();
+    expect(service.classify([], ['192.0.2.7'])?.provider).toBe('Dan.com');
+  });
+
+  it('should prefer name servers over addresses', () => {
+    expect(service.classify(['ns1.dan.com'], ['91.195.240.1'])).toEqual(expect.objectContaining({
+      provider: 'Dan.com',
+      matchedBy: 'nameserver'
+    }));
+  });
+
+  it('should ignore IPv6 addresses', () => {
+    expect(service.classify([], ['2001:db8::1'])).toBeNull();
+  });
+
+  it('should reject invalid ranges', () => {
+    expect(() => new ParkedDomainService({
+      providers: [{ name: 'Broken', nameServers: [], addressRanges: ['10.0.0.0/33'] }]
+    })).toThrow('Invalid parking address range: 10.0.0.0/33');
+  });
+
+  it('should load the bundled provider list', () => {
+    expect(new ParkedDomainService().getProviderNames()).toEqual(expect.arrayContaining(['Sedo', 'Bodis', 'ParkingCrew']));
+  });
+});
\ No newline at end of file
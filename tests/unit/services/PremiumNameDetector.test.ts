@@ -0,0 +1,96 @@
+import { PremiumNameDetector } from '../../../src/services/PremiumNameDetector';
+import { PublicSuffixService } from '../../../src/services/PublicSuffixService';
+import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
+import type { IDomainResult } from '../../../src/models';
+
+describe('PremiumNameDetector', () => {
+  let detector: PremiumNameDetector;
+
+  const createResult = (domain: string, status: AvailabilityStatus): IDomainResult => ({
+    domain,
+    baseDomain: domain.substring(0, domain.indexOf('.')),
+    tld: domain.substring(domain.indexOf('.')),
+    status,
+    lastChecked: new Date(),
+    checkMethod: 'DNS',
+    verdict: 'Likely available (DNS only)'
+  });
+
+  beforeEach(() => {
+    detector = new PremiumNameDetector(new PublicSuffixService(), {
+      tiers: {
+        gold: { firstYear: 999, renewal: 999 },
+        silver: { firstYear: 249, renewal: 249 }
+      },
+      reserved: ['nic', 'whois'],
+      tlds: {
+        '.com': { reserved: ['registry'] },
+        '.io': { premium: { cloud: 'gold' }, shortNames: { '1': 'gold', '3': 'silver' } }
+      }
+    });
+  });
+
+  describe('registry lists', () => {
+    test('should flag names reserved under every TLD and by one registry', () => {
+      expect(detector.detect('nic.io')).toEqual({
+        kind: 'reserved',
+        source: 'registry',
+        reason: '"nic" is reserved by the .io registry'
+      });
+      expect(detector.detect('registry.com')?.kind).toBe('reserved');
+      expect(detector.detect('registry.io')).toBeNull();
+    });
+
+    test('should flag premium names with their tier', () => {
+      expect(detector.detect('cloud.io')).toEqual({
+        kind: 'premium',
+        tier: 'gold',
+        source: 'registry',
+        reason: '"cloud" is on the .io premium list'
+      });
+    });
+
+    test('should not take object members for listed names', () => {
+      expect(detector.detect('constructor.io')).toBeNull();
+      expect(detector.detect('constructor.com')).toBeNull();
+    });
+  });
+
+  describe('heuristics', () => {
+    test('should reserve single-character names unless the TLD prices them', () => {
+      expect(detector.detect('x.com')).toMatchObject({ kind: 'reserved', source: 'heuristic' });
+      expect(detector.detect('x.io')).toMatchObject({ kind: 'premium', tier: 'gold', source: 'heuristic' });
+    });
+
+    test('should price short names by the tiers of the TLD', () => {
+      expect(detector.detect('abc.io')?.tier).toBe('silver');
+      expect(detector.detect('abc.com')).toBeNull();
+      expect(detector.detect('example.io')).toBeNull();
+    });
+  });
+
+  describe('annotate', () => {
+    test('should report names that looked available as reserved or premium', () => {
+      const reserved = detector.annotate(createResult('nic.io', AvailabilityStatus.AVAILABLE));
+      const premium = detector.annotate(createResult('cloud.io', AvailabilityStatus.AVAILABLE));
+
+      expect(reserved.status).toBe(AvailabilityStatus.RESERVED);
+      expect(reserved.verdict).toBeUndefined();
+      expect(premium.status).toBe(AvailabilityStatus.PREMIUM);
+      expect(premium.nameTier?.tier).toBe('gold');
+    });
+
+    test('should keep the status of registered names', () => {
+      const result = detector.annotate(createResult('cloud.io', AvailabilityStatus.TAKEN));
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.nameTier?.kind).toBe('premium');
+    });
+
+    test('should leave ordinary names untouched', () => {
+      const result = createResult('example.io', AvailabilityStatus.AVAILABLE);
+
+      expect(detector.annotate(result)).toBe(result);
+    });
+  });
+});
\ No newline at end of file
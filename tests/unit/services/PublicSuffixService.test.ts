@@ -0,0 +1,104 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PublicSuffixService } from '../../../src/services/PublicSuffixService';
+
+describe('PublicSuffixService', () => {
+  let suffixes: PublicSuffixService;
+
+  beforeEach(() => {
+    suffixes = new PublicSuffixService();
+  });
+
+  describe('parse', () => {
+    it('should split single-label TLDs at the last dot', () => {
+      expect(suffixes.parse('example.com')).toEqual({ baseDomain: 'example', tld: '.com' });
+      expect(suffixes.parse('Example.IO')).toEqual({ baseDomain: 'example', tld: '.io' });
+    });
+
+    it('should split second-level public suffixes', () => {
+      expect(suffixes.parse('example.co.uk')).toEqual({ baseDomain: 'example', tld: '.co.uk' });
+      expect(suffixes.parse('example.com.au')).toEqual({ baseDomain: 'example', tld: '.com.au' });
+      expect(suffixes.parse('example.org.il')).toEqual({ baseDomain: 'example', tld: '.org.il' });
+    });
+
+    it('should keep subdomains in the base domain', () => {
+      expect(suffixes.parse('www.example.co.uk')).toEqual({ baseDomain: 'www.example', tld: '.co.uk' });
+    });
+
+    it('should apply wildcard and exception rules', () => {
+      expect(suffixes.getPublicSuffix('school.sch.uk')).toBe('.sch.uk');
+      expect(suffixes.getPublicSuffix('example.school.sch.uk')).toBe('.school.sch.uk');
+      expect(suffixes.getPublicSuffix('example.city.kawasaki.jp')).toBe('.kawasaki.jp');
+      expect(suffixes.getPublicSuffix('www.ck')).toBe('.ck');
+    });
+
+    it('should treat unknown TLDs as single-label suffixes', () => {
+      expect(suffixes.parse('example.co.unknown')).toEqual({ baseDomain: 'example.co', tld: '.unknown' });
+    });
+
+    it('should keep a label in front of names that are public suffixes themselves', () => {
+      expect(suffixes.parse('co.uk')).toEqual({ baseDomain: 'co', tld: '.uk' });
+    });
+
+    it('should return an empty suffix for single labels', () => {
+      expect(suffixes.parse('localhost')).toEqual({ baseDomain: 'localhost', tld: '' });
+    });
+  });
+
+  describe('getRegistrableDomain', () => {
+    it('should return the public suffix plus one label', () => {
+      expect(suffixes.getRegistrableDomain('www.example.co.uk')).toBe('example.co.uk');
+      expect(suffixes.getRegistrableDomain('a.b.example.com')).toBe('example.com');
+      expect(suffixes.getRegistrableDomain('localhost')).toBeNull();
+    });
+  });
+
+  describe('isPublicSuffix', () => {
+    it('should recognize suffixes with or without the dot', () => {
+      expect(suffixes.isPublicSuffix('.co.uk')).toBe(true);
+      expect(suffixes.isPublicSuffix('com')).toBe(true);
+      expect(suffixes.isPublicSuffix('.example.com')).toBe(false);
+      expect(suffixes.isPublicSuffix('.')).toBe(false);
+    });
+  });
+
+  describe('loadFromFile', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'public-suffix-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should read the ICANN section of public_suffix_list.dat', () => {
+      const filePath = path.join(tempDir, 'public_suffix_list.dat');
+      fs.writeFileSync(filePath, [
+        '// ===BEGIN ICANN DOMAINS===',
+        '// za : https://www.zadna.org.za/',
+        'co.za',
+        '',
+        '// ===END ICANN DOMAINS===',
+        '// ===BEGIN PRIVATE DOMAINS===',
+        'github.io',
+        '// ===END PRIVATE DOMAINS==='
+      ].join('\n'));
+
+      suffixes.loadFromFile(filePath);
+
+      expect(suffixes.getPublicSuffix('example.co.za')).toBe('.co.za');
+      expect(suffixes.getPublicSuffix('example.github.io')).toBe('.io');
+      expect(suffixes.getPublicSuffix('example.co.uk')).toBe('.uk');
+    });
+
+    it('should reject files without rules', () => {
+      const filePath = path.join(tempDir, 'empty.json');
+      fs.writeFileSync(filePath, JSON.stringify({ rules: [] }));
+
+      expect(() => suffixes.loadFromFile(filePath)).toThrow(`Invalid public suffix list: ${filePath}`);
+    });
+  });
+});
\ No newline at end of file
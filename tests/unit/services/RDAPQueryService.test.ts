@@ -0,0 +1,206 @@
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { RDAPQueryService } from '../../../src/services/RDAPQueryService';
+import { RateLimiter } from '../../../src/services/ratelimit/RateLimiter';
+import { CircuitBreakerRegistry } from '../../../src/patterns/circuit-breaker/CircuitBreakerRegistry';
+import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
+import { ServiceFactory } from '../../../src/patterns/factory/ServiceFactory';
+
+const FIXTURE_DIR = path.join(__dirname, '../../fixtures/rdap');
+
+describe('RDAPQueryService', () => {
+  let service: RDAPQueryService;
+  let stub: http.Server;
+  let baseUrl: string;
+  let requestedPaths: string[];
+  let rateLimiter: RateLimiter;
+
+  beforeAll(async () => {
+    // Local RDAP stub serving recorded responses
+    stub = http.createServer((req, res) => {
+      requestedPaths.push(req.url || '');
+      const name = (req.url || '').replace('/rdap/domain/', '');
+
+      if (name === 'ratelimited.com') {
+        res.writeHead(429, { 'Content-Type': 'application/rdap+json', 'Retry-After': '120' });
+        res.end('{"errorCode":429}');
+        return;
+      }
+
+      if (name === 'moved.com') {
+        res.writeHead(302, { Location: '/rdap/domain/example.com' });
+        res.end();
+        return;
+      }
+
+      const fixture = path.join(FIXTURE_DIR, `${name}.json`);
+      if (fs.existsSync(fixture)) {
+        res.writeHead(200, { 'Content-Type': 'application/rdap+json' });
+        res.end(fs.readFileSync(fixture, 'utf8'));
+        return;
+      }
+
+      res.writeHead(404, { 'Content-Type': 'application/rdap+json' });
+      res.end('{"errorCode":404,"title":"Not Found"}');
+    });
+
+    await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}/rdap`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => stub.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requestedPaths = [];
+    rateLimiter = new RateLimiter({ refillIntervalMs: 0 });
+    service = new RDAPQueryService(undefined, rateLimiter, new CircuitBreakerRegistry());
+    service.setConfig({ maxRetries: 0, timeoutMs: 2000 });
+    service.setRDAPServer('.com', baseUrl);
+  });
+
+  describe('Strategy Interface Implementation', () => {
+    test('should identify itself as an RDAP strategy', () => {
+      expect(service.getName()).toBe('RDAPQueryService');
+      expect(service.getServiceType()).toBe('RDAP');
+      expect(service.getPriority()).toBe(1);
+    });
+
+    test('should only handle TLDs with a known RDAP server', () => {
+      expect(service.canHandle('example.com')).toBe(true);
+      expect(service.canHandle('example.dev')).toBe(true);
+      expect(service.canHandle('example.tv')).toBe(false);
+      expect(service.canHandle('invalid..domain')).toBe(false);
+    });
+
+    test('should normalize configured server URLs', () => {
+      service.setRDAPServer('tv', 'https://rdap.example.tv/rdap');
+      expect(service.getRDAPServer('.tv')).toBe('https://rdap.example.tv/rdap/');
+    });
+  });
+
+  describe('Availability Checking', () => {
+    test('should report a registered domain as taken with parsed registration data', async () => {
+      const result = await service.execute('example.com');
+
+      expect(requestedPaths).toEqual(['/rdap/domain/example.com']);
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.checkMethod).toBe('RDAP');
+      expect(result.whoisData).toEqual({
+        registrar: 'RESERVED-Internet Assigned Numbers Authority',
+        registrationDate: new Date('1995-08-14T04:00:00Z'),
+        expirationDate: new Date('2025-08-13T04:00:00Z'),
+        nameServers: ['a.iana-servers.net', 'b.iana-servers.net'],
+        status: ['client delete prohibited', 'client transfer prohibited', 'client update prohibited']
+      });
+    });
+
+    test('should derive lifecycle states from RDAP status values', async () => {
+      const result = await service.execute('lapsedsitename.com');
+
+      expect(result.status).toBe(AvailabilityStatus.REDEMPTION);
+      expect(result.whoisData?.status).toEqual(['pending delete', 'redemption period']);
+    });
+
+    test('should report a 404 response as available', async () => {
+      const result = await service.execute('unregistered-name.com');
+
+      expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(result.whoisData).toBeUndefined();
+    });
+
+    test('should attach registry evidence to the result', async () => {
+      const result = await service.execute('unregistered-name.com');
+
+      expect(result.confidence).toBe(0.95);
+      expect(result.verdictBasis).toBe('registry');
+      expect(result.evidence).toEqual([expect.objectContaining({
+        source: 'RDAP',
+        status: AvailabilityStatus.AVAILABLE,
+        server: new URL(baseUrl).host,
+        detail: expect.stringContaining('HTTP 404')
+      })]);
+    });
+
+    test('should follow redirects', async () => {
+      const result = await service.execute('moved.com');
+
+      expect(requestedPaths).toEqual(['/rdap/domain/moved.com', '/rdap/domain/example.com']);
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+    });
+
+    test('should surface rate limiting as an error', async () => {
+      const result = await service.execute('ratelimited.com');
+
+      expect(result.status).toBe(AvailabilityStatus.ERROR);
+      expect(result.error).toBe('RDAP rate limit exceeded');
+      expect(result.errorType).toBe('RATE_LIMIT');
+    });
+
+    test('should back off the server for its Retry-After before querying it again', async () => {
+      await service.execute('ratelimited.com');
+      const [stats] = rateLimiter.getStats();
+
+      expect(stats?.rateLimitedCount).toBe(1);
+      expect(stats!.backoffUntil!.getTime() - Date.now()).toBeGreaterThan(115 * 1000);
+
+      const result = await service.execute('example.com');
+
+      expect(requestedPaths).toEqual(['/rdap/domain/ratelimited.com']);
+      expect(result.errorType).toBe('RATE_LIMIT');
+      expect(result.error).toContain('Rate limit exceeded for 127.0.0.1');
+    });
+
+    test('should return an error for TLDs without an RDAP server', async () => {
+      const result = await service.execute('example.tv');
+
+      expect(result.status).toBe(AvailabilityStatus.ERROR);
+      expect(result.error).toContain('No RDAP server');
+    });
+
+    test('should return an error when the server is unreachable', async () => {
+      service.setRDAPServer('.com', 'http://127.0.0.1:1/rdap/');
+      const result = await service.execute('example.com');
+
+      expect(result.status).toBe(AvailabilityStatus.ERROR);
+      expect(result.error).toBeDefined();
+    });
+
+    test('should stop querying a server once its circuit opens', async () => {
+      service = new RDAPQueryService(undefined, rateLimiter, new CircuitBreakerRegistry({ failureThreshold: 1 }));
+      service.setConfig({ maxRetries: 2, retryDelayMs: 10, timeoutMs: 2000 });
+      service.setRDAPServer('.com', 'http://127.0.0.1:1/rdap/');
+
+      await service.execute('example.com');
+      expect(service.isUpstreamAvailable('example.com')).toBe(false);
+
+      const result = await service.execute('example.com');
+
+      expect(result.status).toBe(AvailabilityStatus.ERROR);
+      expect(result.error).toContain('Circuit open for rdap:127.0.0.1:1');
+    });
+  });
+
+  describe('Response Parsing', () => {
+    test('should reject malformed JSON', () => {
+      expect(() => service.parseRDAPResponse('not json')).toThrow('malformed JSON');
+    });
+
+    test('should tolerate missing optional members', () => {
+      expect(service.parseRDAPResponse('{"objectClassName":"domain"}')).toEqual({});
+    });
+  });
+
+  describe('ServiceFactory integration', () => {
+    test('should be selectable through getServiceByType', () => {
+      const factory = new ServiceFactory();
+      const rdapService = factory.getServiceByType('RDAP');
+
+      expect(rdapService).toBeInstanceOf(RDAPQueryService);
+      expect(rdapService.getServiceType()).toBe('RDAP');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { RateLimiter } from '../../../src/services/ratelimit/RateLimiter';
+import { RateLimitError } from '../../../src/services/ratelimit/RateLimitError';
+import { TokenBucket } from '../../../src/services/ratelimit/TokenBucket';
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-10-01T12:00:00Z'));
+    limiter = new RateLimiter();
+  });
+
+  afterEach(() => {
+    limiter.reset();
+    jest.useRealTimers();
+  });
+
+  /**
+   * Start acquiring turns and record the order in which they are granted
+   */
+  const acquireAll = (servers: string[], maxWaitMs?: number) => {
+    const granted: string[] = [];
+    const promises = servers.map((server, index) =>
+      limiter.acquire(server, maxWaitMs).then(() => { granted.push(`${server}#${index}`); })
+    );
+    return { granted, promises };
+  };
+
+  describe('TokenBucket', () => {
+    test('should allow bursts up to its capacity and refill over time', () => {
+      const bucket = new TokenBucket({ capacity: 2, refillIntervalMs: 1000 }, 0);
+
+      expect(bucket.tryTake(0)).toBe(true);
+      expect(bucket.tryTake(0)).toBe(true);
+      expect(bucket.tryTake(0)).toBe(false);
+      expect(bucket.getWaitTime(250)).toBe(750);
+      expect(bucket.tryTake(1000)).toBe(true);
+      expect(bucket.getTokens(10000)).toBe(2);
+    });
+
+    test('should not limit when the refill interval is zero', () => {
+      const bucket = new TokenBucket({ capacity: 1, refillIntervalMs: 0 }, 0);
+
+      expect(bucket.tryTake(0)).toBe(true);
+      expect(bucket.tryTake(0)).toBe(true);
+    });
+  });
+
+  describe('Per-server buckets', () => {
+    test('should space requests to the same server by the refill interval', async () => {
+      const { granted } = acquireAll(['whois.verisign-grs.com', 'whois.verisign-grs.com']);
+      await Promise.resolve();
+      expect(granted).toEqual(['whois.verisign-grs.com#0']);
+
+      await jest.advanceTimersByTimeAsync(999);
+      expect(granted).toHaveLength(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(granted).toEqual(['whois.verisign-grs.com#0', 'whois.verisign-grs.com#1']);
+    });
+
+    test('should not make different servers wait on each other', async () => {
+      const { granted, promises } = acquireAll(['whois.verisign-grs.com', 'whois.nic.io', 'whois.nic.ai']);
+      await Promise.all(promises);
+
+      expect(granted).toHaveLength(3);
+    });
+
+    test('should serve queued requests in arrival order', async () => {
+      limiter.configure('whois.nic.io', { capacity: 1, refillIntervalMs: 100 });
+      const { granted, promises } = acquireAll(['whois.nic.io', 'whois.nic.io', 'whois.nic.io', 'whois.nic.io']);
+
+      await jest.advanceTimersByTimeAsync(300);
+      await Promise.all(promises);
+
+      expect(granted).toEqual(['whois.nic.io#0', 'whois.nic.io#1', 'whois.nic.io#2', 'whois.nic.io#3']);
+    });
+
+    test('should use configured bucket sizes per server', async () => {
+      limiter.configure('WHOIS.NIC.IO', { capacity: 3 });
+      const { granted, promises } = acquireAll(['whois.nic.io', 'whois.nic.io', 'whois.nic.io', 'whois.nic.io']);
+      await Promise.resolve();
+
+      expect(granted).toHaveLength(3);
+      expect(limiter.getConfig('whois.nic.io')).toEqual({ capacity: 3, refillIntervalMs: 1000 });
+      expect(limiter.getConfig('whois.nic.ai')).toEqual(RateLimiter.DEFAULT_BUCKET);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await Promise.all(promises);
+      expect(granted).toHaveLength(4);
+    });
+
+    test('should reject requests that would wait longer than allowed', async () => {
+      await limiter.acquire('whois.nic.io');
+
+      await expect(limiter.acquire('whois.nic.io', 500)).rejects.toBeInstanceOf(RateLimitError);
+      await expect(limiter.acquire('whois.nic.io', 500)).rejects.toThrow('Rate limit exceeded for whois.nic.io, retry in 1s');
+    });
+  });
+
+  describe('Backoff', () => {
+    test('should back off exponentially while the server keeps refusing', () => {
+      expect(limiter.reportRateLimited('whois.nic.io')).toBe(5000);
+      expect(limiter.reportRateLimited('whois.nic.io')).toBe(10000);
+      expect(limiter.reportRateLimited('whois.nic.io')).toBe(20000);
+
+      limiter.reportSuccess('whois.nic.io');
+      expect(limiter.reportRateLimited('whois.nic.io')).toBe(5000);
+    });
+
+    test('should honor the backoff requested by the server', () => {
+      expect(limiter.reportRateLimited('rdap.verisign.com', 120000)).toBe(120000);
+      expect(limiter.getStats()).toEqual([expect.objectContaining({
+        server: 'rdap.verisign.com',
+        backoffUntil: new Date('2026-10-01T12:02:00Z'),
+        rateLimitedCount: 1
+      })]);
+    });
+
+    test('should hold requests until the backoff ends', async () => {
+      limiter.reportRateLimited('whois.nic.io');
+      const { granted, promises } = acquireAll(['whois.nic.io']);
+
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(granted).toHaveLength(0);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await Promise.all(promises);
+      expect(granted).toHaveLength(1);
+    });
+
+    test('should reject queued requests that cannot wait out a new backoff', async () => {
+      await limiter.acquire('whois.nic.io');
+      const waiting = limiter.acquire('whois.nic.io', 2000);
+
+      limiter.reportRateLimited('whois.nic.io');
+
+      await expect(waiting).rejects.toBeInstanceOf(RateLimitError);
+      expect(limiter.getStats()[0]?.queued).toBe(0);
+    });
+  });
+
+  describe('Response detection', () => {
+    test.each([
+      'WHOIS LIMIT EXCEEDED - SEE WWW.PIR.ORG/WHOIS FOR DETAILS',
+      '%% Error: 55000000002 Connection refused; access control limit reached',
+      'Your connection limit exceeded. Please slow down and try again later.',
+      'Too many queries from your IP address'
+    ])('should recognize "%s"', response => {
+      expect(limiter.isRateLimitResponse(response)).toBe(true);
+    });
+
+    test('should not flag ordinary responses', () => {
+      expect(limiter.isRateLimitResponse('No match for "EXAMPLE.COM".')).toBe(false);
+      expect(limiter.isRateLimitResponse('Domain Name: EXAMPLE.COM\nRegistrar: Example Registrar')).toBe(false);
+    });
+  });
+});
\ No newline at end of file
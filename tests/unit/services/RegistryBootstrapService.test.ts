@@ -0,0 +1,143 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RegistryBootstrapService } from '../../../src/services/RegistryBootstrapService';
+import { TLDService } from '../../../src/services/TLDService';
+import { TLDCatalog } from '../../../src/services/catalog';
+
+describe('RegistryBootstrapService', () => {
+  let bootstrap: RegistryBootstrapService;
+  let tempDir: string;
+
+  const writeJson = (name: string, data: unknown): string => {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, JSON.stringify(data));
+    return filePath;
+  };
+
+  beforeEach(() => {
+    bootstrap = new RegistryBootstrapService();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bootstrap-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('bundled data', () => {
+    it('should resolve an endpoint for every supported TLD', () => {
+      const tldService = new TLDService();
+
+      for (const tld of tldService.getSupportedTLDs()) {
+        expect(bootstrap.resolve(tld)).not.toBeNull();
+      }
+    });
+
+    it('should resolve an endpoint for every catalog TLD open for registration', () => {
+      const unrouted = new TLDCatalog().getAll({ registrable: true })
+        .filter(entry => !bootstrap.hasEndpoint(entry.tld))
+        .map(entry => entry.tld);
+
+      expect(unrouted).toEqual([]);
+    });
+
+    it('should route .com to Verisign over RDAP and WHOIS', () => {
+      expect(bootstrap.resolve('.com')).toEqual({
+        tld: '.com',
+        rdapUrls: ['https://rdap.verisign.com/com/v1/'],
+        whoisServer: 'whois.verisign-grs.com'
+      });
+    });
+
+    it('should accept TLDs with or without the dot in any case', () => {
+      expect(bootstrap.getWHOISServer('ORG')).toBe('whois.publicinterestregistry.org');
+      expect(bootstrap.getRDAPBaseUrl('.Dev')).toBe('https://pubapi.registry.google/rdap/');
+    });
+
+    it('should return WHOIS-only endpoints for ccTLDs without RDAP', () => {
+      const endpoint = bootstrap.resolve('.io');
+
+      expect(endpoint?.rdapUrls).toEqual([]);
+      expect(endpoint?.whoisServer).toBeTruthy();
+      expect(bootstrap.getRDAPBaseUrl('.io')).toBeNull();
+    });
+
+    it('should route second-level suffixes to the registry of their TLD', () => {
+      expect(bootstrap.getWHOISServer('.co.uk')).toBe('whois.nic.uk');
+      expect(bootstrap.getRDAPBaseUrl('.org.uk')).toBe('https://rdap.nominet.uk/uk/');
+      expect(bootstrap.resolve('.com.au')?.whoisServer).toBe('whois.auda.org.au');
+    });
+
+    it('should return null for unknown TLDs', () => {
+      expect(bootstrap.resolve('.invalidtld')).toBeNull();
+      expect(bootstrap.hasEndpoint('.invalidtld')).toBe(false);
+      expect(bootstrap.getWHOISServer('.invalidtld')).toBeNull();
+    });
+
+    it('should expose the publication date of the bootstrap', () => {
+      expect(bootstrap.getPublication()).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    });
+  });
+
+  describe('custom bootstrap data', () => {
+    it('should prefer HTTPS URLs and normalize trailing slashes', () => {
+      const custom = new RegistryBootstrapService(
+        { services: [[['example'], ['http://rdap.example', 'https://rdap.example/v1']]] },
+        { servers: { EXAMPLE: ' Whois.Example ' } }
+      );
+
+      expect(custom.resolve('example')).toEqual({
+        tld: '.example',
+        rdapUrls: ['https://rdap.example/v1/', 'http://rdap.example/'],
+        whoisServer: 'whois.example'
+      });
+      expect(custom.getKnownTLDs()).toEqual(['.example']);
+    });
+
+    it('should reject malformed bootstrap data', () => {
+      expect(() => new RegistryBootstrapService({} as any)).toThrow('Invalid RDAP bootstrap file');
+      expect(() => new RegistryBootstrapService(undefined, {} as any)).toThrow('Invalid WHOIS server file');
+    });
+  });
+
+  describe('loading from disk', () => {
+    it('should replace the data with files from disk', () => {
+      const rdapBootstrapPath = writeJson('dns.json', {
+        publication: '2026-10-01T00:00:00Z',
+        services: [[['test'], ['https://rdap.nic.test/']]]
+      });
+
+      bootstrap.loadFromFiles({ rdapBootstrapPath });
+
+      expect(bootstrap.getRDAPBaseUrl('.test')).toBe('https://rdap.nic.test/');
+      expect(bootstrap.getRDAPBaseUrl('.com')).toBeNull();
+      expect(bootstrap.getWHOISServer('.com')).toBe('whois.verisign-grs.com');
+      expect(bootstrap.getPublication()).toBe('2026-10-01T00:00:00Z');
+    });
+
+    it('should pick up changes on refresh', () => {
+      const whoisServersPath = writeJson('whois.json', { servers: { test: 'whois.nic.test' } });
+      bootstrap.loadFromFiles({ whoisServersPath });
+      expect(bootstrap.getWHOISServer('.test')).toBe('whois.nic.test');
+
+      writeJson('whois.json', { servers: { test: 'whois2.nic.test' } });
+
+      expect(bootstrap.refresh()).toBe(true);
+      expect(bootstrap.getWHOISServer('.test')).toBe('whois2.nic.test');
+    });
+
+    it('should not refresh when no files were loaded', () => {
+      expect(bootstrap.refresh()).toBe(false);
+    });
+
+    it('should leave the data untouched when a file is invalid', () => {
+      const rdapBootstrapPath = writeJson('dns.json', { services: [[['test'], ['https://rdap.nic.test/']]] });
+      const whoisServersPath = path.join(tempDir, 'broken.json');
+      fs.writeFileSync(whoisServersPath, '{ not json');
+
+      expect(() => bootstrap.loadFromFiles({ rdapBootstrapPath, whoisServersPath })).toThrow('Failed to load bootstrap file');
+      expect(bootstrap.getRDAPBaseUrl('.com')).toBe('https://rdap.verisign.com/com/v1/');
+      expect(bootstrap.getRDAPBaseUrl('.test')).toBeNull();
+    });
+  });
+});
\ No newline at end of file
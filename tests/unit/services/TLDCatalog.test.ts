@@ -0,0 +1,125 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TLDCatalog } from '../../../src/services/catalog/TLDCatalog';
+import { TLDService } from '../../../src/services/TLDService';
+import { DomainPricingService } from '../../../src/services/DomainPricingService';
+
+describe('TLDCatalog', () => {
+  let catalog: TLDCatalog;
+
+  beforeEach(() => {
+    catalog = new TLDCatalog();
+  });
+
+  describe('bundled catalog', () => {
+    it('should describe TLDs with their registry metadata', () => {
+      expect(catalog.get('.com')).toMatchObject({
+        tld: '.com',
+        type: 'gTLD',
+        operator: 'VeriSign Global Registry Services',
+        idn: true,
+        registrable: true,
+        restrictions: null,
+        checkedByDefault: true
+      });
+      expect(catalog.get('CO.UK')?.type).toBe('ccTLD');
+      expect(catalog.get('.unknown')).toBeNull();
+    });
+
+    it('should take IDN support from the IDN script tables', () => {
+      expect(catalog.get('.de')?.idnScripts).toEqual(['Latin']);
+      expect(catalog.get('.dev')?.idn).toBe(false);
+    });
+
+    it('should be the source of the default, second-level and priced TLDs', () => {
+      const tldService = new TLDService(undefined, catalog);
+      const pricingService = new DomainPricingService(undefined, catalog);
+
+      expect(tldService.getSupportedTLDs()).toEqual(catalog.getDefaultTLDs());
+      expect(tldService.getSecondLevelTLDs()).toContain('.co.uk');
+      expect(pricingService.getAllTLDPricing().map(pricing => pricing.tld).sort())
+        .toEqual(catalog.getAll().filter(entry => entry.pricing).map(entry => entry.tld));
+    });
+  });
+
+  describe('getAll', () => {
+    it('should filter by type, IDN support and registrability', () => {
+      const brands = catalog.getAll({ type: 'brand' });
+
+      expect(brands.length).toBeGreaterThan(0);
+      expect(brands.every(entry => entry.type === 'brand' && !entry.registrable)).toBe(true);
+      expect(catalog.getAll({ idn: true }).every(entry => entry.idn)).toBe(true);
+      expect(catalog.getAll({ registrable: false }).map(entry => entry.tld)).toContain('.edu');
+    });
+
+    it('should separate second-level suffixes from TLDs', () => {
+      expect(catalog.getAll({ secondLevel: true }).every(entry => entry.tld.split('.').length === 3)).toBe(true);
+      expect(catalog.getAll({ secondLevel: false }).map(entry => entry.tld)).not.toContain('.co.uk');
+    });
+
+    it('should search TLDs and operators', () => {
+      expect(catalog.getAll({ search: '.uk' }).map(entry => entry.tld)).toEqual(['.co.uk', '.org.uk', '.uk']);
+      expect(catalog.getAll({ search: 'verisign' }).map(entry => entry.tld)).toEqual(['.com', '.name', '.net']);
+    });
+
+    it('should return copies of the entries', () => {
+      catalog.getAll()[0]!.idnScripts.push('Klingon');
+
+      expect(catalog.getAll()[0]!.idnScripts).not.toContain('Klingon');
+    });
+  });
+
+  describe('getRegistrationError', () => {
+    it('should accept open TLDs and suffixes under them', () => {
+      expect(catalog.getRegistrationError('.com')).toBeNull();
+      expect(catalog.getRegistrationError('.co.uk')).toBeNull();
+      expect(catalog.getRegistrationError('.com.mx')).toBeNull();
+    });
+
+    it('should explain why a TLD does not accept registrations', () => {
+      expect(catalog.getRegistrationError('.notdelegated')).toBe('.notdelegated is not a delegated TLD');
+      expect(catalog.getRegistrationError('.google')).toBe('.google is a closed brand TLD and does not accept registrations');
+      expect(catalog.getRegistrationError('.edu')).toBe('.edu is restricted: Accredited U.S. post-secondary institutions only');
+    });
+  });
+
+  describe('loadFromFile', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tld-catalog-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should sync delegated TLDs with the IANA TLD list', () => {
+      const filePath = path.join(tempDir, 'tlds-alpha-by-domain.txt');
+      fs.writeFileSync(filePath, [
+        '# Version 2026100100, Last Updated Wed Oct  1 07:07:01 2026 UTC',
+        'COM',
+        'UK',
+        'ZW',
+        'XN--P1AI'
+      ].join('\n'));
+
+      catalog.loadFromFile(filePath);
+
+      expect(catalog.get('.com')?.operator).toBe('VeriSign Global Registry Services');
+      expect(catalog.get('.co.uk')).not.toBeNull();
+      expect(catalog.get('.zw')).toMatchObject({ type: 'ccTLD', operator: null });
+      expect(catalog.get('.рф')?.type).toBe('gTLD');
+      expect(catalog.get('.net')).toBeNull();
+      expect(catalog.getPublication()).toBe('Wed Oct  1 07:07:01 2026 UTC');
+    });
+
+    it('should reject files without TLDs', () => {
+      const filePath = path.join(tempDir, 'catalog.json');
+      fs.writeFileSync(filePath, JSON.stringify({ tlds: {} }));
+
+      expect(() => catalog.loadFromFile(filePath)).toThrow(`Invalid TLD catalog: ${filePath}`);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import path from 'path';
+import { WHOISParserRegistry } from '../../../src/services/whois/WHOISParserRegistry';
+import { GenericWHOISParser } from '../../../src/services/whois/GenericWHOISParser';
+import { BaseWHOISParser } from '../../../src/services/whois/BaseWHOISParser';
+import { RegistryBootstrapService } from '../../../src/services/RegistryBootstrapService';
+import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
+
+const FIXTURE_DIR = path.join(__dirname, '../../fixtures/whois');
+
+/**
+ * Collect every recorded response: tests/fixtures/whois/<tld>/<case>.txt
+ * with the expected parse result in <case>.json next to it
+ */
+const loadFixtures = () => fs.readdirSync(FIXTURE_DIR).flatMap(tld =>
+  fs.readdirSync(path.join(FIXTURE_DIR, tld))
+    .filter(file => file.endsWith('.txt'))
+    .map(file => {
+      const base = path.join(FIXTURE_DIR, tld, file.replace(/\.txt$/, ''));
+      const expected = JSON.parse(fs.readFileSync(`${base}.json`, 'utf8'));
+      return {
+        tld,
+        name: `${tld}/${file}`,
+        rawData: fs.readFileSync(`${base}.txt`, 'utf8'),
+        expected
+      };
+    })
+);
+
+describe('WHOISParserRegistry', () => {
+  let registry: WHOISParserRegistry;
+  const bootstrap = new RegistryBootstrapService();
+
+  beforeEach(() => {
+    registry = new WHOISParserRegistry();
+  });
+
+  describe('Fixture corpus', () => {
+    test.each(loadFixtures())('should parse $name', ({ tld, rawData, expected }) => {
+      const server = bootstrap.getWHOISServer(tld)!;
+      const parsed = registry.parse(rawData, server, tld);
+
+      const { status, createdDate, expirationDate, updatedDate, ...rest } = parsed;
+      expect({
+        status,
+        ...rest,
+        ...(createdDate && { createdDate: createdDate.toISOString() }),
+        ...(expirationDate && { expirationDate: expirationDate.toISOString() }),
+        ...(updatedDate && { updatedDate: updatedDate.toISOString() })
+      }).toEqual(expected);
+    });
+
+    test('should have a fixture directory for every registry parser TLD', () => {
+      const fixtureTLDs = fs.readdirSync(FIXTURE_DIR);
+      const parserTLDs = registry.getParsers().flatMap(parser => parser.getTLDs());
+
+      // .cc shares the Verisign parser with .tv, and .site, .store and .tech the CentralNic parser with .online
+      const sharedTLDs = ['cc', 'site', 'store', 'tech'];
+      for (const tld of parserTLDs.filter(tld => !sharedTLDs.includes(tld))) {
+        expect(fixtureTLDs).toContain(tld);
+      }
+    });
+  });
+
+  describe('Parser selection', () => {
+    test('should select registry parsers by server', () => {
+      expect(registry.getParser('whois.nic.io').getName()).toBe('IdentityDigitalWHOISParser');
+      expect(registry.getParser('whois.verisign-grs.com').getName()).toBe('VerisignWHOISParser');
+      expect(registry.getParser('whois.publicinterestregistry.org').getName()).toBe('PublicInterestRegistryWHOISParser');
+      expect(registry.getParser('WHOIS.REGISTRY.CO:43').getName()).toBe('GoDaddyRegistryWHOISParser');
+    });
+
+    test('should select registry parsers by TLD when the server is unknown', () => {
+      expect(registry.getParser('whois.example-registry.net', '.tv').getName()).toBe('VerisignWHOISParser');
+    });
+
+    test('should use the generic parser for registrar servers and unknown TLDs', () => {
+      expect(registry.getParser('whois.markmonitor.com')).toBeInstanceOf(GenericWHOISParser);
+      expect(registry.getParser('whois.example-registry.net', '.example')).toBeInstanceOf(GenericWHOISParser);
+    });
+
+    test('should allow registering additional parsers', () => {
+      class ExampleWHOISParser extends BaseWHOISParser {
+        protected readonly availablePatterns = [/^Object does not exist$/m];
+        getName(): string { return 'ExampleWHOISParser'; }
+        getTLDs(): string[] { return ['example']; }
+      }
+
+      registry.register(new ExampleWHOISParser());
+
+      expect(registry.parse('Object does not exist', 'whois.nic.example', 'example').status)
+        .toBe(AvailabilityStatus.AVAILABLE);
+      expect(registry.getParsers().map(parser => parser.getName())).toContain('ExampleWHOISParser');
+    });
+  });
+
+  describe('Registry and generic parsers', () => {
+    test('should not misread registry terms of use as availability', () => {
+      const rawData = fs.readFileSync(path.join(FIXTURE_DIR, 'io/taken.txt'), 'utf8');
+
+      expect(new GenericWHOISParser().parse(rawData).status).toBe(AvailabilityStatus.TAKEN);
+      expect(registry.parse(rawData, 'whois.nic.io', 'io').status).toBe(AvailabilityStatus.TAKEN);
+    });
+
+    test('should report unrecognized registry responses as errors rather than taken', () => {
+      const rawData = 'Service temporarily unavailable due to scheduled maintenance, please retry later.';
+
+      expect(new GenericWHOISParser().parse(rawData).status).toBe(AvailabilityStatus.ERROR);
+      expect(registry.parse(rawData, 'whois.nic.me', 'me').status).toBe(AvailabilityStatus.ERROR);
+    });
+
+    test('should not guess availability from unrecognized or empty responses', () => {
+      const parser = new GenericWHOISParser();
+
+      expect(parser.parse('This domain is unavailable for registration.').status).toBe(AvailabilityStatus.ERROR);
+      expect(parser.parse('').status).toBe(AvailabilityStatus.ERROR);
+      expect(parser.parse('Your query has been logged. Please wait a moment before querying again, thank you.').status)
+        .toBe(AvailabilityStatus.ERROR);
+      expect(registry.parse('This domain is unavailable for registration.', 'whois.publicinterestregistry.org', 'org').status)
+        .toBe(AvailabilityStatus.ERROR);
+    });
+
+    test('should recognize common "no match" lines and registration data', () => {
+      const parser = new GenericWHOISParser();
+
+      expect(parser.parse('No match for "EXAMPLE.XYZ".').status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(parser.parse('No entries found for the selected source(s).').status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(parser.parse('Domain Name: EXAMPLE.XYZ\nRegistrar: Example Registrar, Inc.').status).toBe(AvailabilityStatus.TAKEN);
+    });
+  });
+});
\ No newline at end of file
@@ -1,4 +1,8 @@
+import fs from 'fs';
+import path from 'path';
 import { WHOISQueryService } from '../../../src/services/WHOISQueryService';
+import { RateLimiter } from '../../../src/services/ratelimit/RateLimiter';
+import { CircuitBreakerRegistry } from '../../../src/patterns/circuit-breaker/CircuitBreakerRegistry';
 import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
 
 // Mock the whois module
@@ -12,7 +16,7 @@ describe('WHOISQueryService', () => {
   let service: WHOISQueryService;
 
   beforeEach(() => {
-    service = new WHOISQueryService();
+    service = new WHOISQueryService(undefined, undefined, new RateLimiter(), new CircuitBreakerRegistry());
     jest.clearAllMocks();
     // Don't use fake timers for WHOIS tests as they involve real async operations
   });
@@ -102,7 +106,7 @@ describe('WHOISQueryService', () => {
     test('should apply rate limiting between requests', async () => {
       service.setRateLimitDelay(100); // Use shorter delay for test
       
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         setTimeout(() => callback(null, 'No match found'), 10);
       });
 
@@ -118,6 +122,95 @@ describe('WHOISQueryService', () => {
       // Should take at least the rate limit delay
       expect(totalTime).toBeGreaterThanOrEqual(100);
     }, 15000);
+
+    test('should not delay requests to different servers', async () => {
+      service.setRateLimitDelay(2000);
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+        callback(null, 'No match found');
+      });
+
+      const startTime = Date.now();
+      await service.execute('test1.com');
+      await service.execute('test1.org');
+
+      expect(Date.now() - startTime).toBeLessThan(1000);
+    });
+
+    test('should report registry rate limit responses without retrying', async () => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+        callback(null, 'WHOIS LIMIT EXCEEDED - SEE WWW.PIR.ORG/WHOIS FOR DETAILS');
+      });
+
+      const result = await service.execute('example.org');
+
+      expect(result.status).toBe(AvailabilityStatus.ERROR);
+      expect(result.errorType).toBe('RATE_LIMIT');
+      expect(result.error).toBe('WHOIS rate limit exceeded at whois.publicinterestregistry.org');
+      expect(mockWhoisLookup).toHaveBeenCalledTimes(1);
+    });
+
+    test('should fail fast while a rate limited server is backed off', async () => {
+      service.setConfig({ timeoutMs: 2000 }); // Shorter than the initial 5s backoff
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+        callback(null, 'WHOIS LIMIT EXCEEDED - SEE WWW.PIR.ORG/WHOIS FOR DETAILS');
+      });
+
+      await service.execute('example.org');
+      const result = await service.execute('example2.org');
+
+      expect(result.errorType).toBe('RATE_LIMIT');
+      expect(mockWhoisLookup).toHaveBeenCalledTimes(1);
+      expect(service.getRateLimiter().getStats()).toEqual([expect.objectContaining({
+        server: 'whois.publicinterestregistry.org',
+        rateLimitedCount: 1
+      })]);
+    });
+
+    test('should not mistake terms of use mentioning rate limits for a refusal', async () => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+        callback(null, 'Domain Name: EXAMPLE.ORG\nRegistrar: Example Registrar\n\nQueries are rate limited; do not use automated processes.');
+      });
+
+      const result = await service.execute('example.org');
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.errorType).toBeUndefined();
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    beforeEach(() => {
+      service = new WHOISQueryService(undefined, undefined, new RateLimiter({ refillIntervalMs: 0 }), new CircuitBreakerRegistry({ failureThreshold: 2 }));
+    });
+
+    test('should stop querying a server once its circuit opens', async () => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+        callback(new Error('connect ECONNREFUSED'));
+      });
+      service.setConfig({ maxRetries: 0 });
+
+      await service.execute('example.org');
+      await service.execute('example.org');
+      const result = await service.execute('example.org');
+
+      expect(result.status).toBe(AvailabilityStatus.ERROR);
+      expect(result.error).toContain('Circuit open for whois:whois.publicinterestregistry.org');
+      expect(mockWhoisLookup).toHaveBeenCalledTimes(2);
+      expect(service.isUpstreamAvailable('example2.org')).toBe(false);
+      expect(service.isUpstreamAvailable('example.com')).toBe(true);
+    });
+
+    test('should not count rate limit refusals against the circuit', async () => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+        callback(null, 'WHOIS LIMIT EXCEEDED - SEE WWW.PIR.ORG/WHOIS FOR DETAILS');
+      });
+      service.setConfig({ timeoutMs: 2000 });
+
+      await service.execute('example.org');
+      await service.execute('example2.org');
+
+      expect(service.isUpstreamAvailable('example.org')).toBe(true);
+    });
   });
 
   describe('WHOIS Lookup Execution', () => {
@@ -129,7 +222,7 @@ describe('WHOISQueryService', () => {
       jest.useRealTimers();
     });
     test('should return AVAILABLE status for available domains', async () => {
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         callback(null, 'No match for "available-domain.com".');
       });
 
@@ -154,7 +247,7 @@ describe('WHOISQueryService', () => {
         Domain Status: ok
       `;
 
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         callback(null, whoisResponse);
       });
 
@@ -173,9 +266,48 @@ describe('WHOISQueryService', () => {
       expect(result.error).toBe('Invalid domain format');
     });
 
+    test('should query the authoritative WHOIS server for the TLD', async () => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+        callback(null, 'No match for "available-domain.org".');
+      });
+
+      await service.execute('available-domain.org');
+
+      expect(mockWhoisLookup).toHaveBeenCalledWith(
+        'available-domain.org',
+        { server: 'whois.publicinterestregistry.org', follow: 0 },
+        expect.any(Function)
+      );
+    });
+
+    test('should check names under second-level public suffixes with the TLD registry', async () => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+        callback(null, 'No match for "available-domain.co.uk".');
+      });
+
+      const result = await service.execute('available-domain.co.uk');
+
+      expect(result.baseDomain).toBe('available-domain');
+      expect(result.tld).toBe('.co.uk');
+      expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(mockWhoisLookup).toHaveBeenCalledWith(
+        'available-domain.co.uk',
+        { server: 'whois.nic.uk', follow: 0 },
+        expect.any(Function)
+      );
+    });
+
+    test('should return UNKNOWN status when no registry endpoint is known', async () => {
+      const result = await service.execute('example.invalidtld');
+
+      expect(result.status).toBe(AvailabilityStatus.UNKNOWN);
+      expect(result.error).toBe('No registry endpoint known for .invalidtld');
+      expect(mockWhoisLookup).not.toHaveBeenCalled();
+    });
+
     test.skip('should return ERROR status when WHOIS lookup fails', async () => {
       // Skipping due to timing issues with mocked WHOIS lookup
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         // Immediately call callback with error
         setImmediate(() => callback(new Error('WHOIS server error'), ''));
       });
@@ -190,7 +322,7 @@ describe('WHOISQueryService', () => {
       // Skipping due to timing issues with mocked WHOIS lookup
       service.setConfig({ timeoutMs: 100 }); // Very short timeout for test
       
-      mockWhoisLookup.mockImplementation((_domain: string, _callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, _callback: any) => {
         // Never call callback to simulate timeout
       });
 
@@ -201,49 +333,44 @@ describe('WHOISQueryService', () => {
     }, 5000); // 5 second timeout
   });
 
+  // .biz has no registry parser, so these responses go through the generic parser
   describe('WHOIS Response Parsing', () => {
     test('should parse available domain responses correctly', async () => {
       const availableResponses = [
-        'No match for "available.com".',
+        'No match for "available.biz".',
         'Not found.',
         'No entries found.',
         'No data found',
-        'Available',
-        'Not registered',
         'No matching record',
         'Status: Available',
         'Domain Status: No Object Found'
       ];
 
       for (const response of availableResponses) {
-        mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+        mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
           callback(null, response);
         });
 
-        const result = await service.execute('test.com');
+        const result = await service.execute('test.biz');
         expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
       }
     });
 
     test('should parse taken domain responses correctly', async () => {
       const takenResponses = [
+        'Domain Name: test.biz',
         'Registrar: Example Inc.',
         'Creation Date: 2020-01-01',
         'Created: 2020-01-01',
-        'Registered: 2020-01-01',
-        'Domain Status: ok',
-        'Domain Status: active',
-        'Registry Expiry Date: 2025-01-01',
-        'Expiry Date: 2025-01-01',
-        'Expires: 2025-01-01'
+        'Registered: 2020-01-01'
       ];
 
       for (const response of takenResponses) {
-        mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+        mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
           callback(null, response);
         });
 
-        const result = await service.execute('test.com');
+        const result = await service.execute('test.biz');
         expect(result.status).toBe(AvailabilityStatus.TAKEN);
       }
     });
@@ -251,7 +378,7 @@ describe('WHOISQueryService', () => {
     test('should extract registrar information', async () => {
       const whoisResponse = 'Registrar: GoDaddy.com, LLC';
 
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         callback(null, whoisResponse);
       });
 
@@ -262,9 +389,9 @@ describe('WHOISQueryService', () => {
     });
 
     test('should extract expiration date information', async () => {
-      const whoisResponse = 'Registry Expiry Date: 2025-06-15T12:00:00Z';
+      const whoisResponse = 'Domain Name: TEST.COM\nRegistry Expiry Date: 2025-06-15T12:00:00Z';
 
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         callback(null, whoisResponse);
       });
 
@@ -275,22 +402,40 @@ describe('WHOISQueryService', () => {
       expect(result.whoisData?.expirationDate?.getFullYear()).toBe(2025);
     });
 
-    test('should handle empty WHOIS responses', async () => {
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+    test('should report empty WHOIS responses as errors', async () => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         callback(null, '');
       });
 
-      const result = await service.execute('test.com');
+      const result = await service.execute('test.biz');
 
-      expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(result.status).toBe(AvailabilityStatus.ERROR);
+    });
+
+    test('should not read availability into other mentions of it', async () => {
+      const responses = [
+        'This domain is unavailable for registration.',
+        'Not registered',
+        'Domain Status: ok',
+        'Registry Expiry Date: 2025-01-01'
+      ];
+
+      for (const response of responses) {
+        mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+          callback(null, response);
+        });
+
+        const result = await service.execute('test.biz');
+        expect(result.status).toBe(AvailabilityStatus.ERROR);
+      }
     });
 
     test('should handle array responses from whois library', async () => {
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         callback(null, ['Line 1', 'Line 2', 'No match found'] as any);
       });
 
-      const result = await service.execute('test.com');
+      const result = await service.execute('test.biz');
 
       expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
     });
@@ -300,12 +445,12 @@ describe('WHOISQueryService', () => {
     test('should retry on failure with exponential backoff', async () => {
       let attemptCount = 0;
       
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         attemptCount++;
         if (attemptCount < 3) {
           callback(new Error('Temporary failure'), '');
         } else {
-          callback(null, 'No match found');
+          callback(null, 'No match for "RETRY-TEST.COM".');
         }
       });
 
@@ -316,7 +461,7 @@ describe('WHOISQueryService', () => {
     });
 
     test('should fail after maximum retries', async () => {
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         callback(new Error('Persistent failure'), '');
       });
 
@@ -330,7 +475,7 @@ describe('WHOISQueryService', () => {
       service.setConfig({ maxRetries: 1 });
       let attemptCount = 0;
       
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         attemptCount++;
         callback(new Error('Always fails'), '');
       });
@@ -340,18 +485,60 @@ describe('WHOISQueryService', () => {
       expect(attemptCount).toBe(2); // Initial attempt + 1 retry
       expect(result.status).toBe(AvailabilityStatus.ERROR);
     });
+
+    test('should take a rate limiter token for every attempt', async () => {
+      service.setConfig({ maxRetries: 2, retryDelayMs: 10 });
+      const acquire = jest.spyOn(service.getRateLimiter(), 'acquire');
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+        callback(new Error('Temporary failure'), '');
+      });
+
+      await service.execute('busy-registry.com');
+
+      expect(acquire).toHaveBeenCalledTimes(3);
+      expect(acquire).toHaveBeenCalledWith('whois.verisign-grs.com', 10000);
+    });
+
+    test('should time only the attempt that got an answer', async () => {
+      service.setConfig({ maxRetries: 1, retryDelayMs: 10, useExponentialBackoff: false });
+      jest.spyOn(service.getRateLimiter(), 'acquire').mockImplementation(() => new Promise(resolve => setTimeout(resolve, 150)));
+      mockWhoisLookup
+        .mockImplementationOnce((_domain: string, _options: any, callback: any) => callback(new Error('Temporary failure'), ''))
+        .mockImplementationOnce((_domain: string, _options: any, callback: any) => callback(null, 'No match for "QUEUED.COM".'));
+
+      const result = await service.execute('queued.com');
+
+      expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(result.executionTime).toBeGreaterThanOrEqual(300);
+      expect(result.responseTime).toBeLessThan(100);
+      expect(result.evidence?.[0]?.responseTime).toBe(result.responseTime);
+    });
+
+    test('should wait the configured retry delay between attempts', async () => {
+      service.setConfig({ maxRetries: 2, retryDelayMs: 20, useExponentialBackoff: false });
+      service.setRateLimitDelay(0);
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+        callback(new Error('Temporary failure'), '');
+      });
+
+      const startTime = Date.now();
+      await service.execute('quick-retry.com');
+
+      // Two 20ms delays rather than the 1s and 2s exponential backoff
+      expect(Date.now() - startTime).toBeLessThan(1000);
+    });
   });
 
   describe('Domain Parsing', () => {
     test('should correctly extract base domain and TLD', async () => {
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         callback(null, 'No match found');
       });
 
       const testCases = [
         { domain: 'example.com', baseDomain: 'example', tld: '.com' },
         { domain: 'sub.example.org', baseDomain: 'sub.example', tld: '.org' },
-        { domain: 'test-site.co.uk', baseDomain: 'test-site.co', tld: '.uk' },
+        { domain: 'test-site.co.uk', baseDomain: 'test-site', tld: '.co.uk' },
         { domain: 'single', baseDomain: 'single', tld: '' }
       ];
 
@@ -363,6 +550,161 @@ describe('WHOISQueryService', () => {
     });
   });
 
+  describe('Recorded Responses', () => {
+    const fixture = (name: string) =>
+      fs.readFileSync(path.join(__dirname, '../../fixtures/whois', `${name}.txt`), 'utf8');
+
+    beforeEach(() => {
+      service.setMaxReferralDepth(0);
+    });
+
+    test('should report domains in the redemption grace period', async () => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+        callback(null, fixture('com/redemption'));
+      });
+
+      const result = await service.execute('lapsedsitename.com');
+
+      expect(result.status).toBe(AvailabilityStatus.REDEMPTION);
+      expect(result.whoisData?.status).toEqual(['pendingDelete', 'redemptionPeriod']);
+    });
+
+    test('should report names reserved by the registry', async () => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+        callback(null, fixture('io/reserved'));
+      });
+
+      const result = await service.execute('reserved.io');
+
+      expect(result.status).toBe(AvailabilityStatus.RESERVED);
+      expect(result.whoisData).toBeUndefined();
+    });
+
+    test('should record the registry response as evidence', async () => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
+        callback(null, fixture('io/available'));
+      });
+
+      const result = await service.execute('available.io');
+
+      expect(result.confidence).toBe(0.95);
+      expect(result.verdict).toBe('Confirmed available (registry)');
+      expect(result.evidence).toEqual([expect.objectContaining({
+        source: 'WHOIS',
+        status: AvailabilityStatus.AVAILABLE,
+        server: 'whois.nic.io',
+        snippet: expect.any(String)
+      })]);
+    });
+  });
+
+  describe('Referral Following', () => {
+    const registryResponse = `
+      Domain Name: THIN-DOMAIN.COM
+      Registrar WHOIS Server: whois.registrar.example
+      Registrar: Example Registrar Inc.
+      Registry Expiry Date: 2026-01-01T00:00:00Z
+      Domain Status: clientTransferProhibited
+    `;
+
+    const registrarResponse = `
+      Domain Name: THIN-DOMAIN.COM
+      Registrar WHOIS Server: whois.registrar.example
+      Registrar: Example Registrar Inc.
+      Creation Date: 2015-03-01T00:00:00Z
+      Registrar Registration Expiration Date: 2026-01-02T00:00:00Z
+      Registrant Organization: Example Org
+      Name Server: ns1.thin-domain.com
+      Name Server: ns2.thin-domain.com
+    `;
+
+    const mockServers = (responses: Record<string, string | Error>) => {
+      mockWhoisLookup.mockImplementation((_domain: string, options: any, callback: any) => {
+        const response = responses[options.server] ?? new Error(`No route to ${options.server}`);
+        if (response instanceof Error) {
+          callback(response, '');
+        } else {
+          callback(null, response);
+        }
+      });
+    };
+
+    test('should follow thin registry referrals and merge both responses', async () => {
+      mockServers({
+        'whois.verisign-grs.com': registryResponse,
+        'whois.registrar.example': registrarResponse
+      });
+
+      const result = await service.execute('thin-domain.com');
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.referralChain).toEqual(['whois.verisign-grs.com', 'whois.registrar.example']);
+      expect(mockWhoisLookup).toHaveBeenLastCalledWith(
+        'thin-domain.com',
+        { server: 'whois.registrar.example', follow: 0 },
+        expect.any(Function)
+      );
+      expect(result.whoisData).toEqual({
+        registrar: 'Example Registrar Inc.',
+        registrationDate: new Date('2015-03-01T00:00:00Z'),
+        expirationDate: new Date('2026-01-01T00:00:00Z'),
+        nameServers: ['ns1.thin-domain.com', 'ns2.thin-domain.com'],
+        status: ['clientTransferProhibited']
+      });
+    });
+
+    test('should not follow referrals when the depth is zero', async () => {
+      mockServers({ 'whois.verisign-grs.com': registryResponse });
+      service.setMaxReferralDepth(0);
+
+      const result = await service.execute('thin-domain.com');
+
+      expect(service.getMaxReferralDepth()).toBe(0);
+      expect(result.referralChain).toEqual(['whois.verisign-grs.com']);
+      expect(mockWhoisLookup).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not follow referrals from thick registry responses', async () => {
+      mockServers({ 'whois.publicinterestregistry.org': registrarResponse });
+
+      const result = await service.execute('thin-domain.org');
+
+      expect(result.referralChain).toEqual(['whois.publicinterestregistry.org']);
+      expect(mockWhoisLookup).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not follow referrals for available domains', async () => {
+      mockServers({ 'whois.verisign-grs.com': 'No match for "FREE-DOMAIN.COM".\nRegistrar WHOIS Server: whois.registrar.example' });
+
+      const result = await service.execute('free-domain.com');
+
+      expect(result.status).toBe(AvailabilityStatus.AVAILABLE);
+      expect(result.referralChain).toEqual(['whois.verisign-grs.com']);
+    });
+
+    test('should keep the registry answer when the registrar server fails', async () => {
+      mockServers({ 'whois.verisign-grs.com': registryResponse });
+
+      const result = await service.execute('thin-domain.com');
+
+      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      expect(result.referralChain).toEqual(['whois.verisign-grs.com']);
+      expect(result.whoisData?.registrar).toBe('Example Registrar Inc.');
+      expect(result.error).toBeUndefined();
+    });
+
+    test('should stop at servers already visited', async () => {
+      const loopingResponse = registryResponse.replace('whois.registrar.example', 'whois.verisign-grs.com');
+      mockServers({ 'whois.verisign-grs.com': loopingResponse });
+      service.setMaxReferralDepth(3);
+
+      const result = await service.execute('thin-domain.com');
+
+      expect(result.referralChain).toEqual(['whois.verisign-grs.com']);
+      expect(mockWhoisLookup).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Detailed WHOIS Information', () => {
     test('should gather comprehensive WHOIS information', async () => {
       const detailedResponse = `
@@ -376,7 +718,7 @@ describe('WHOISQueryService', () => {
         Domain Status: active
       `;
 
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         callback(null, detailedResponse);
       });
 
@@ -393,7 +735,7 @@ describe('WHOISQueryService', () => {
     });
 
     test('should handle detailed WHOIS lookup errors', async () => {
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         callback(new Error('WHOIS error'), '');
       });
 
@@ -431,7 +773,7 @@ describe('WHOISQueryService', () => {
     });
 
     test('should handle WHOIS server connectivity issues', async () => {
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         callback(new Error('ENOTFOUND'), '');
       });
 
@@ -445,20 +787,20 @@ describe('WHOISQueryService', () => {
       // Response that doesn't clearly indicate available or taken
       const ambiguousResponse = 'Some random WHOIS server response without clear indicators.';
 
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         callback(null, ambiguousResponse);
       });
 
-      const result = await service.execute('ambiguous.com');
+      const result = await service.execute('ambiguous.biz');
 
-      // Should default to TAKEN for substantial responses
-      expect(result.status).toBe(AvailabilityStatus.TAKEN);
+      // Neither availability nor registration data: no guess either way
+      expect(result.status).toBe(AvailabilityStatus.ERROR);
     });
 
     test('should handle short ambiguous responses as error', async () => {
       const shortResponse = 'Error';
 
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         callback(null, shortResponse);
       });
 
@@ -470,7 +812,7 @@ describe('WHOISQueryService', () => {
 
   describe('Performance and Timing', () => {
     test('should track execution time accurately', async () => {
-      mockWhoisLookup.mockImplementation((_domain: string, callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, callback: any) => {
         setTimeout(() => callback(null, 'No match found'), 10);
       });
 
@@ -483,7 +825,7 @@ describe('WHOISQueryService', () => {
     test('should respect custom timeout configuration', async () => {
       service.setConfig({ timeoutMs: 100 }); // Very short timeout for test
       
-      mockWhoisLookup.mockImplementation((_domain: string, _callback: any) => {
+      mockWhoisLookup.mockImplementation((_domain: string, _options: any, _callback: any) => {
         // Never call callback to simulate timeout
       });
 
@@ -0,0 +1,214 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { BloomFilter } from '../../../src/services/zone/BloomFilter';
+import { ZoneFileIndex } from '../../../src/services/zone/ZoneFileIndex';
+import { ZoneFileImporter } from '../../../src/services/zone/ZoneFileImporter';
+import { ZoneFileQueryStrategy } from '../../../src/services/ZoneFileQueryStrategy';
+import { PublicSuffixService } from '../../../src/services/PublicSuffixService';
+import { AvailabilityStatus } from '../../../src/models/AvailabilityStatus';
+import type { IDomainResult } from '../../../src/models';
+import type { IQueryStrategy } from '../../../src/patterns/strategy/IQueryStrategy';
+
+const ZONE_FILE = [
+  '; CZDS export',
+  'dev.\t86400\tin\tsoa\tns-tld1.charlestonroadregistry.com. cloud-dns-hostmaster.google.com. 2026101900 21600 3600 259200 300',
+  'dev.\t21600\tin\tns\tns-tld1.charlestonroadregistry.com.',
+  'example.dev.\t10800\tin\tns\tns1.example.net.',
+  'example.dev.\t10800\tin\tns\tns2.example.net.',
+  'Synth.dev.\t10800\tIN\tNS\tns1.synth.dev.',
+  'ns1.synth.dev.\t10800\tin\ta\t192.0.2.1',
+  'shop.store.dev.\t10800\tin\tns\tns1.example.net.',
+  'web.dev.\t10800\tin\tds\t12345 8 2 ABCDEF',
+  '$ORIGIN dev.',
+  'app 10800 IN NS ns1.example.net.',
+  '    10800 IN NS ns2.example.net.'
+].join('\n');
+
+describe('Zone file index', () => {
+  let directory: string;
+  let suffixes: PublicSuffixService;
+
+  const writeZone = (name: string, content: string | Buffer) => {
+    const filePath = path.join(directory, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const loadIndex = async (content: string | Buffer = ZONE_FILE, name = 'dev.txt') => {
+    await new ZoneFileImporter().importFile(writeZone(name, content), path.join(directory, 'index'));
+    const index = new ZoneFileIndex(suffixes);
+    index.loadDirectory(path.join(directory, 'index'));
+    return index;
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'zone-index-'));
+    suffixes = new PublicSuffixService();
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('BloomFilter', () => {
+    test('should never miss an added item and rarely match others', () => {
+      const filter = new BloomFilter(BloomFilter.forCapacity(1000, 0.01));
+      for (let i = 0; i < 1000; i++) {
+        filter.add(`name${i}`);
+      }
+
+      let falsePositives = 0;
+      for (let i = 0; i < 1000; i++) {
+        expect(filter.mightContain(`name${i}`)).toBe(true);
+        falsePositives += filter.mightContain(`other${i}`) ? 1 : 0;
+      }
+      expect(falsePositives).toBeLessThan(50);
+    });
+
+    test('should read back a written bitset', () => {
+      const filter = new BloomFilter({ bits: 256, hashes: 3 });
+      filter.add('example');
+
+      const restored = new BloomFilter(filter.getConfig(), new Uint8Array(filter.toBuffer()));
+      expect(restored.mightContain('example')).toBe(true);
+    });
+  });
+
+  describe('ZoneFileImporter', () => {
+    test('should index delegations directly under the zone', async () => {
+      const info = await new ZoneFileImporter().importFile(writeZone('dev.txt', ZONE_FILE), path.join(directory, 'index'));
+      const labels = fs.readFileSync(ZoneFileIndex.getPaths(path.join(directory, 'index'), '.dev').labels, 'utf8');
+
+      expect(info).toMatchObject({ tld: '.dev', serial: 2026101900, count: 3, source: 'dev.txt' });
+      expect(labels).toBe('app\nexample\nsynth\n');
+    });
+
+    test('should read gzipped zone files', async () => {
+      const index = await loadIndex(zlib.gzipSync(ZONE_FILE), 'dev.txt.gz');
+
+      expect(index.lookup('example.dev')?.inZone).toBe(true);
+    });
+
+    test('should merge labels sorted in several chunks', async () => {
+      const names = Array.from({ length: 250 }, (_, i) => `name${(i * 7) % 100}`);
+      const zone = ['dev. 86400 IN SOA a. b. 7 2 3 4 5', ...names.map(name => `${name}.dev. 10800 IN NS ns1.example.net.`)].join('\n');
+      const indexDirectory = path.join(directory, 'index');
+      const info = await new ZoneFileImporter(0.01, 30).importFile(writeZone('dev.txt', zone), indexDirectory);
+      const labels = fs.readFileSync(ZoneFileIndex.getPaths(indexDirectory, '.dev').labels, 'utf8');
+
+      expect(info.count).toBe(100);
+      expect(labels).toBe(`${Array.from(new Set(names)).sort().join('\n')}\n`);
+      expect(fs.readdirSync(indexDirectory).filter(name => name.startsWith('.import-'))).toEqual([]);
+    });
+
+    test('should reject files without delegations', async () => {
+      const filePath = writeZone('empty.txt', 'dev. 86400 IN SOA a. b. 1 2 3 4 5\n');
+
+      await expect(new ZoneFileImporter().importFile(filePath, directory)).rejects.toThrow(`Invalid zone file: ${filePath}`);
+    });
+
+    test('should report unreadable zone files', async () => {
+      const filePath = path.join(directory, 'missing.txt');
+
+      await expect(new ZoneFileImporter().importFile(filePath, directory)).rejects.toThrow(`Failed to read zone file ${filePath}`);
+    });
+  });
+
+  describe('ZoneFileIndex', () => {
+    test('should tell delegated names from names missing in the zone', async () => {
+      const index = await loadIndex();
+
+      expect(index.lookup('example.dev')).toEqual({ tld: '.dev', inZone: true, serial: 2026101900, importedAt: expect.any(String) });
+      expect(index.lookup('SYNTH.dev')?.inZone).toBe(true);
+      expect(index.lookup('www.app.dev')?.inZone).toBe(true);
+      expect(index.lookup('unregistered.dev')?.inZone).toBe(false);
+      expect(index.lookup('store.dev')?.inZone).toBe(false);
+      expect(index.lookup('example.com')).toBeNull();
+    });
+
+    test('should binary search large zones', async () => {
+      const names = Array.from({ length: 5000 }, (_, i) => `name${i}`);
+      const zone = ['dev. 86400 IN SOA a. b. 7 2 3 4 5', ...names.map(name => `${name}.dev. 10800 IN NS ns1.example.net.`)].join('\n');
+      const index = await loadIndex(zone);
+
+      expect(names.every(name => index.lookup(`${name}.dev`)?.inZone)).toBe(true);
+      expect(['name5000', 'name', 'aaa', 'zzz', 'name49999'].some(name => index.lookup(`${name}.dev`)?.inZone)).toBe(false);
+    });
+
+    test('should reject index files of another version', async () => {
+      await loadIndex();
+      const infoPath = ZoneFileIndex.getPaths(path.join(directory, 'index'), '.dev').info;
+      fs.writeFileSync(infoPath, JSON.stringify({ version: 99 }));
+
+      expect(() => new ZoneFileIndex(suffixes).loadDirectory(path.join(directory, 'index'))).toThrow(`Invalid zone file index: ${infoPath}`);
+    });
+  });
+
+  describe('ZoneFileQueryStrategy', () => {
+    let confirm: jest.Mocked<Pick<IQueryStrategy, 'execute' | 'canHandle' | 'setConfig'>>;
+
+    const confirmedResult = (domain: string, status: AvailabilityStatus): IDomainResult => ({
+      domain,
+      baseDomain: domain.split('.')[0]!,
+      tld: '.dev',
+      status,
+      lastChecked: new Date(),
+      checkMethod: 'HYBRID',
+      evidence: [{ source: 'WHOIS', status, confidence: 0.9, detail: `WHOIS reported ${status}` }]
+    });
+
+    beforeEach(() => {
+      confirm = {
+        execute: jest.fn(async (domain: string) => confirmedResult(domain, AvailabilityStatus.AVAILABLE)),
+        canHandle: jest.fn((_domain: string) => true),
+        setConfig: jest.fn()
+      };
+    });
+
+    test('should answer delegated names from the zone without a query', async () => {
+      const strategy = new ZoneFileQueryStrategy(await loadIndex(), confirm as unknown as IQueryStrategy);
+      const result = await strategy.execute('example.dev');
+
+      expect(result).toMatchObject({
+        status: AvailabilityStatus.TAKEN,
+        checkMethod: 'ZONE',
+        verdictBasis: 'zone',
+        verdict: 'Confirmed taken (zone file)'
+      });
+      expect(result.evidence?.[0]?.detail).toBe('Delegated in the .dev zone file (serial 2026101900)');
+      expect(confirm.execute).not.toHaveBeenCalled();
+    });
+
+    test('should confirm names missing from the zone', async () => {
+      confirm.execute.mockResolvedValueOnce(confirmedResult('onhold.dev', AvailabilityStatus.TAKEN));
+      const strategy = new ZoneFileQueryStrategy(await loadIndex(), confirm as unknown as IQueryStrategy);
+
+      const onHold = await strategy.execute('onhold.dev');
+      const available = await strategy.execute('unregistered.dev');
+
+      expect(confirm.execute).toHaveBeenCalledTimes(2);
+      expect(onHold.status).toBe(AvailabilityStatus.TAKEN);
+      expect(onHold.evidence?.map(item => item.source)).toEqual(['ZONE', 'WHOIS']);
+      expect(available).toMatchObject({ status: AvailabilityStatus.AVAILABLE, verdictBasis: 'registry' });
+    });
+
+    test('should report names missing from the zone as likely available without a confirming strategy', async () => {
+      const strategy = new ZoneFileQueryStrategy(await loadIndex(), null);
+
+      expect(await strategy.execute('unregistered.dev')).toMatchObject({
+        status: AvailabilityStatus.AVAILABLE,
+        verdict: 'Likely available (zone file)'
+      });
+      expect((await strategy.execute('example.com')).status).toBe(AvailabilityStatus.ERROR);
+    });
+
+    test('should pass domains of other zones to the confirming strategy', async () => {
+      const strategy = new ZoneFileQueryStrategy(await loadIndex(), confirm as unknown as IQueryStrategy);
+
+      expect((await strategy.execute('example.com')).checkMethod).toBe('HYBRID');
+      expect(strategy.canHandle('example.dev')).toBe(true);
+    });
+  });
+});
\ No newline at end of file
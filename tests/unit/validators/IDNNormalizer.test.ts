@@ -0,0 +1,112 @@
+import { IDNNormalizer } from '../../../src/validators/IDNNormalizer';
+
+describe('IDNNormalizer', () => {
+  let normalizer: IDNNormalizer;
+
+  beforeEach(() => {
+    normalizer = new IDNNormalizer({
+      tlds: {
+        '.com': ['Latin', 'Cyrillic', 'Han'],
+        '.de': ['Latin']
+      }
+    });
+  });
+
+  describe('conversion', () => {
+    test('should convert Unicode labels to punycode A-labels', () => {
+      expect(normalizer.toASCII('münchen')).toBe('xn--mnchen-3ya');
+      expect(normalizer.toASCII('例え')).toBe('xn--r8jz45g');
+      expect(normalizer.toASCII('example')).toBe('example');
+    });
+
+    test('should map input with UTS-46 before encoding', () => {
+      expect(normalizer.toASCII('MÜNCHEN')).toBe('xn--mnchen-3ya');
+      expect(normalizer.toASCII('münchen')).toBe('xn--mnchen-3ya');
+      expect(normalizer.toASCII('ｅｘａｍｐｌｅ')).toBe('example');
+    });
+
+    test('should reject labels that cannot be converted', () => {
+      expect(normalizer.toASCII('')).toBeNull();
+      expect(normalizer.toASCII('a.b')).toBeNull();
+    });
+
+    test('should convert A-labels back to Unicode', () => {
+      expect(normalizer.toUnicode('xn--mnchen-3ya')).toBe('münchen');
+      expect(normalizer.toUnicode('münchen')).toBe('münchen');
+    });
+  });
+
+  describe('detection', () => {
+    test('should recognize Unicode labels and ACE-prefixed labels', () => {
+      expect(normalizer.isIDN('münchen')).toBe(true);
+      expect(normalizer.isIDN('xn--mnchen-3ya')).toBe(true);
+      expect(normalizer.isIDN('example')).toBe(false);
+    });
+
+    test('should not treat malformed A-labels as A-labels', () => {
+      expect(normalizer.isALabel('xn--mnchen-3ya')).toBe(true);
+      expect(normalizer.isALabel('xn--zzzz')).toBe(false);
+      expect(normalizer.isALabel('ab--test')).toBe(false);
+    });
+  });
+
+  describe('scripts', () => {
+    test('should identify the script of each character', () => {
+      expect(normalizer.getScript('a')).toBe('Latin');
+      expect(normalizer.getScript('а')).toBe('Cyrillic');
+      expect(normalizer.getScript('例')).toBe('Han');
+      expect(normalizer.getScript('1')).toBe('Common');
+      expect(normalizer.getScript('-')).toBe('Common');
+    });
+
+    test('should flag labels mixing unrelated scripts', () => {
+      // Cyrillic "а" among Latin letters
+      expect(normalizer.hasMixedScripts('pаypal')).toBe(true);
+      expect(normalizer.hasMixedScripts('münchen')).toBe(false);
+    });
+
+    test('should allow scripts that are written together', () => {
+      expect(normalizer.hasMixedScripts('ドメイン名例')).toBe(false);
+      expect(normalizer.hasMixedScripts('abc漢字')).toBe(false);
+    });
+  });
+
+  describe('validateForTLD', () => {
+    test('should accept ASCII names for every TLD', () => {
+      expect(normalizer.validateForTLD('example', '.io')).toEqual([]);
+    });
+
+    test('should accept characters in the scripts of the TLD', () => {
+      expect(normalizer.validateForTLD('münchen', '.de')).toEqual([]);
+      expect(normalizer.validateForTLD('xn--mnchen-3ya', '.de')).toEqual([]);
+    });
+
+    test('should name each character the TLD does not accept', () => {
+      expect(normalizer.validateForTLD('пример', '.de')).toEqual([
+        { code: 'IDN_SCRIPT_NOT_ALLOWED', message: '"п" (Cyrillic) is not allowed in .de names; allowed scripts: Latin', field: '.de' },
+        { code: 'IDN_SCRIPT_NOT_ALLOWED', message: '"р" (Cyrillic) is not allowed in .de names; allowed scripts: Latin', field: '.de' },
+        { code: 'IDN_SCRIPT_NOT_ALLOWED', message: '"и" (Cyrillic) is not allowed in .de names; allowed scripts: Latin', field: '.de' },
+        { code: 'IDN_SCRIPT_NOT_ALLOWED', message: '"м" (Cyrillic) is not allowed in .de names; allowed scripts: Latin', field: '.de' },
+        { code: 'IDN_SCRIPT_NOT_ALLOWED', message: '"е" (Cyrillic) is not allowed in .de names; allowed scripts: Latin', field: '.de' }
+      ]);
+    });
+
+    test('should report malformed A-labels', () => {
+      expect(normalizer.validateForTLD('xn--zzzz', '.de')).toEqual([
+        { code: 'INVALID_IDN', message: '"xn--zzzz" is not a valid internationalized domain name', field: '.de' }
+      ]);
+    });
+
+    test('should reject internationalized names for TLDs without a script table', () => {
+      expect(normalizer.validateForTLD('münchen', '.io')).toEqual([
+        { code: 'IDN_NOT_SUPPORTED', message: '.io does not accept internationalized domain names', field: '.io' }
+      ]);
+    });
+
+    test('should read the bundled script tables by default', () => {
+      const bundled = new IDNNormalizer();
+      expect(bundled.getAllowedScripts('.COM')).toContain('Latin');
+      expect(bundled.getAllowedScripts('.unknown')).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
@@ -112,8 +112,8 @@ describe('InputValidator', () => {
         });
       });
 
-      test('should reject domain with unicode characters', () => {
-        const result = validator.validateDomainName('tëst');
+      test('should reject domain with symbols outside any script', () => {
+        const result = validator.validateDomainName('test🚀');
         expect(result.isValid).toBe(false);
         expect(result.errorMessage).toBe('Domain name can only contain letters, numbers, and hyphens');
         expect(result.errors).toHaveLength(1);
@@ -153,6 +153,12 @@ describe('InputValidator', () => {
         expect(result.errors).toHaveLength(1);
         expect(result.errors[0]?.code).toBe('ALL_NUMERIC');
       });
+
+      test('should leave all numeric domains to the registration rules when asked', () => {
+        const result = validator.validateDomainName('12345', { allowAllNumeric: true });
+        expect(result.isValid).toBe(true);
+        expect(result.sanitizedDomain).toBe('12345');
+      });
     });
 
     describe('multiple validation errors', () => {
@@ -279,4 +285,46 @@ describe('InputValidator', () => {
       expect(validator.validateDomainName('0').isValid).toBe(false);
     });
   });
+  describe('internationalized domain names', () => {
+    test('should normalize Unicode input to its A-label', () => {
+      const result = validator.validateDomainName('München');
+      expect(result.isValid).toBe(true);
+      expect(result.sanitizedDomain).toBe('xn--mnchen-3ya');
+      expect(result.unicodeDomain).toBe('münchen');
+      expect(validator.validateDomainName('tëst').sanitizedDomain).toBe('xn--tst-jma');
+    });
+
+    test('should not report a Unicode form for ASCII names', () => {
+      expect(validator.validateDomainName('example').unicodeDomain).toBeUndefined();
+    });
+
+    test('should accept A-labels despite the reserved hyphen position', () => {
+      const result = validator.validateDomainName('xn--mnchen-3ya');
+      expect(result.isValid).toBe(true);
+      expect(result.sanitizedDomain).toBe('xn--mnchen-3ya');
+      expect(result.unicodeDomain).toBe('münchen');
+    });
+
+    test('should reject malformed A-labels', () => {
+      const result = validator.validateDomainName('xn--zzzz');
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(error => error.code)).toContain('INVALID_IDN');
+    });
+
+    test('should reject labels mixing unrelated scripts', () => {
+      const result = validator.validateDomainName('pаypal');
+      expect(result.isValid).toBe(false);
+      expect(result.errorMessage).toBe('Domain name cannot mix Latin and Cyrillic characters');
+    });
+
+    test('should explain which characters a TLD does not accept', () => {
+      expect(validator.validateForTLD('example', '.io')).toEqual([]);
+      expect(validator.validateForTLD('münchen', '.de')).toEqual([]);
+      expect(validator.validateForTLD('münchen', '.dev')).toEqual([
+        { code: 'IDN_NOT_SUPPORTED', message: '.dev does not accept internationalized domain names', field: '.dev' }
+      ]);
+      expect(validator.validateForTLD('例え', '.de')[0]?.message)
+        .toBe('"例" (Han) is not allowed in .de names; allowed scripts: Latin');
+    });
+  });
 });
\ No newline at end of file
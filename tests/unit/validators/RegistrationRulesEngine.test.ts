@@ -0,0 +1,72 @@
+import { RegistrationRulesEngine } from '../../../src/validators/RegistrationRulesEngine';
+
+describe('RegistrationRulesEngine', () => {
+  let engine: RegistrationRulesEngine;
+
+  beforeEach(() => {
+    engine = new RegistrationRulesEngine({
+      defaults: { minLength: 1, maxLength: 63, allowAllNumeric: false },
+      tlds: {
+        '.com': { allowAllNumeric: true },
+        '.in': { minLength: 3, reserveTwoLetterNames: true },
+        '.org': { reservedNames: ['nic', 'whois'] },
+        '.us': { restricted: true, requirements: ['Registrant must have a bona fide presence in the United States (nexus requirement)'] },
+        '.au': { restricted: true, minLength: 2, requirements: ['Registrant must have an Australian presence'] }
+      }
+    });
+  });
+
+  describe('naming rules', () => {
+    test('should accept names that meet the rules of the TLD', () => {
+      expect(engine.evaluate('example', '.com')).toEqual({
+        tld: '.com',
+        eligible: true,
+        violations: [],
+        restricted: false,
+        requirements: []
+      });
+    });
+
+    test('should apply all-numeric rules per TLD', () => {
+      expect(engine.evaluate('360', '.com').eligible).toBe(true);
+      expect(engine.evaluate('360', '.net').violations).toEqual(['.net does not accept all-numeric names']);
+    });
+
+    test('should enforce minimum lengths and reserved two-letter names', () => {
+      expect(engine.evaluate('ab', '.in').violations).toEqual([
+        '.in names must be at least 3 characters long',
+        'Two-letter names are reserved in .in'
+      ]);
+      expect(engine.evaluate('ab', '.com').eligible).toBe(true);
+    });
+
+    test('should reject names the registry keeps for itself', () => {
+      expect(engine.evaluate('NIC', '.org').violations).toEqual(['"nic" is reserved by the .org registry']);
+    });
+  });
+
+  describe('registrant requirements', () => {
+    test('should report restricted TLDs with their requirements', () => {
+      const eligibility = engine.evaluate('example', '.us');
+
+      expect(eligibility.eligible).toBe(true);
+      expect(eligibility.restricted).toBe(true);
+      expect(eligibility.requirements).toEqual(['Registrant must have a bona fide presence in the United States (nexus requirement)']);
+    });
+
+    test('should apply the rules of the parent TLD to second-level suffixes', () => {
+      expect(engine.getRules('.org.au')).toMatchObject({ restricted: true, minLength: 2 });
+      expect(engine.evaluate('a', '.com.au').violations).toEqual(['.com.au names must be at least 2 characters long']);
+    });
+  });
+
+  describe('bundled rules', () => {
+    test('should know the registries with registrant requirements', () => {
+      const bundled = new RegistrationRulesEngine();
+
+      expect(bundled.evaluate('example', '.ca').restricted).toBe(true);
+      expect(bundled.evaluate('example', '.bank').requirements.length).toBeGreaterThan(0);
+      expect(bundled.evaluate('example', '.dev').restricted).toBe(false);
+    });
+  });
+});
\ No newline at end of file